@@ -1,26 +1,41 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './context/AuthContext';
+import { DataProvider } from './context/DataProvider';
+import { useDataStore } from './context/useDataStore';
+import { useSettings } from './context/DataContext';
+import { UndoProvider } from './context/UndoContext';
 import Auth from './pages/Auth';
 import Dashboard from './pages/Dashboard';
 import Products from './pages/Products';
 import Customers from './pages/Customers';
 import CustomerDetail from './pages/CustomerDetail';
 import Orders from './pages/Orders';
+import DeliveryRoutes from './pages/DeliveryRoutes';
+import Inventory from './pages/Inventory';
+import Suppliers from './pages/Suppliers';
 import Statement from './pages/Statement';
 import UpdatePassword from './pages/UpdatePassword';
 import Keret from './pages/Keret';
+import Team from './pages/Team';
+import Trash from './pages/Trash';
+import Import from './pages/Import';
+import Backup from './pages/Backup';
+import Settings from './pages/Settings';
+import CustomerPortal from './pages/CustomerPortal';
 import { Loader2 } from 'lucide-react';
 
 const AppRoutes: React.FC = () => {
-  const { user, authLoading, dataLoading } = useAuth();
+  const { user, authLoading } = useAuth();
+  const { dataLoading } = useDataStore();
+  const { settings } = useSettings();
 
   if (authLoading || (user && dataLoading)) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-dairy-50 to-dairy-100 flex items-center justify-center">
         <div className="text-center">
           <Loader2 className="animate-spin rounded-full h-12 w-12 text-dairy-600 mx-auto mb-4" />
-          <p className="text-gray-600">Loading Jay Goga Milk...</p>
+          <p className="text-gray-600">Loading {settings.business_name}...</p>
         </div>
       </div>
     );
@@ -30,6 +45,7 @@ const AppRoutes: React.FC = () => {
     return (
       <Routes>
         <Route path="/auth" element={<Auth />} />
+        <Route path="/portal/:token" element={<CustomerPortal />} />
         <Route path="*" element={<Navigate to="/auth" replace />} />
       </Routes>
     );
@@ -40,12 +56,21 @@ const AppRoutes: React.FC = () => {
       <Route path="/" element={<Navigate to="/dashboard" replace />} />
       <Route path="/dashboard" element={<Dashboard />} />
       <Route path="/products" element={<Products />} />
+      <Route path="/inventory" element={<Inventory />} />
+      <Route path="/suppliers" element={<Suppliers />} />
       <Route path="/customers" element={<Customers />} />
       <Route path="/customers/:id" element={<CustomerDetail />} />
       <Route path="/orders" element={<Orders />} />
+      <Route path="/routes" element={<DeliveryRoutes />} />
       <Route path="/statement" element={<Statement />} />
       <Route path="/keret" element={<Keret />} />
+      <Route path="/team" element={<Team />} />
+      <Route path="/trash" element={<Trash />} />
+      <Route path="/import" element={<Import />} />
+      <Route path="/backup" element={<Backup />} />
+      <Route path="/settings" element={<Settings />} />
       <Route path="/update-password" element={<UpdatePassword />} />
+      <Route path="/portal/:token" element={<CustomerPortal />} />
       <Route path="*" element={<Navigate to="/dashboard" replace />} />
     </Routes>
   );
@@ -55,7 +80,11 @@ const App: React.FC = () => {
   return (
     <Router>
       <AuthProvider>
-        <AppRoutes />
+        <DataProvider>
+          <UndoProvider>
+            <AppRoutes />
+          </UndoProvider>
+        </DataProvider>
       </AuthProvider>
     </Router>
   );
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { LocateFixed, Loader2 } from 'lucide-react';
+import { CustomerProfileForm } from '../../utils/customerProfile';
+
+interface CustomerProfileFieldsProps {
+  value: CustomerProfileForm;
+  onChange: (value: CustomerProfileForm) => void;
+}
+
+const inputClassName = "w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-dairy-500 focus:border-transparent";
+
+/** The phone, address, location and notes inputs shared by the add and edit customer forms. */
+const CustomerProfileFields: React.FC<CustomerProfileFieldsProps> = ({ value, onChange }) => {
+  const [isLocating, setIsLocating] = useState(false);
+
+  const setField = (key: keyof CustomerProfileForm, fieldValue: string) => onChange({ ...value, [key]: fieldValue });
+
+  const handleUseLocation = () => {
+    if (!navigator.geolocation) {
+      alert("This device can't share its location.");
+      return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        onChange({ ...value, latitude: position.coords.latitude.toFixed(6), longitude: position.coords.longitude.toFixed(6) });
+        setIsLocating(false);
+      },
+      error => {
+        console.error("Failed to get location", error);
+        alert("Couldn't get the location. Check that location access is allowed.");
+        setIsLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 15000 },
+    );
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+          <input type="tel" value={value.phone} onChange={e => setField('phone', e.target.value)} className={inputClassName} placeholder="98765 43210" required />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Alternate Phone</label>
+          <input type="tel" value={value.alternate_phone} onChange={e => setField('alternate_phone', e.target.value)} className={inputClassName} placeholder="Optional" />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">Address</label>
+        <input type="text" value={value.address_line1} onChange={e => setField('address_line1', e.target.value)} className={inputClassName} placeholder="House / flat no., building" />
+        <input type="text" value={value.address_line2} onChange={e => setField('address_line2', e.target.value)} className={inputClassName} placeholder="Street (optional)" />
+        <div className="grid grid-cols-2 gap-2">
+          <input type="text" value={value.area} onChange={e => setField('area', e.target.value)} className={inputClassName} placeholder="Area / society" />
+          <input type="text" value={value.landmark} onChange={e => setField('landmark', e.target.value)} className={inputClassName} placeholder="Landmark" />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-1">
+          <label className="block text-sm font-medium text-gray-700">Location</label>
+          <motion.button type="button" onClick={handleUseLocation} disabled={isLocating} className="text-xs text-dairy-700 flex items-center space-x-1 disabled:opacity-50" whileTap={{ scale: 0.95 }}>
+            {isLocating ? <Loader2 size={12} className="animate-spin" /> : <LocateFixed size={12} />}
+            <span>Use current location</span>
+          </motion.button>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <input type="text" inputMode="decimal" value={value.latitude} onChange={e => setField('latitude', e.target.value)} className={inputClassName} placeholder="Latitude" />
+          <input type="text" inputMode="decimal" value={value.longitude} onChange={e => setField('longitude', e.target.value)} className={inputClassName} placeholder="Longitude" />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+        <textarea value={value.notes} onChange={e => setField('notes', e.target.value)} className={inputClassName} placeholder="Delivery instructions, e.g. ring twice" rows={2} />
+      </div>
+    </>
+  );
+};
+
+export default CustomerProfileFields;
@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Link2, Copy, Share2, Loader2, Ban } from 'lucide-react';
+import { useShareLinks, useSettings } from '../../context/DataContext';
+import { useSync } from '../../context/useSync';
+import { Customer, CustomerShareLink } from '../../types';
+
+interface ShareLinkModalProps {
+  customer: Customer;
+  onClose: () => void;
+}
+
+const expiryOptions = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+];
+
+const getShareLinkUrl = (link: CustomerShareLink): string => `${window.location.origin}/portal/${link.token}`;
+
+const ShareLinkModal: React.FC<ShareLinkModalProps> = ({ customer, onClose }) => {
+  const { isOnline } = useSync();
+  const { shareLinks, createShareLink, revokeShareLink } = useShareLinks();
+  const { settings } = useSettings();
+  const [expiryDays, setExpiryDays] = useState(30);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const activeLinks = useMemo(() => {
+    const now = new Date().toISOString();
+    return shareLinks
+      .filter(link => link.customer_id === customer.id && !link.revoked_at && link.expires_at > now)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }, [shareLinks, customer.id]);
+
+  const handleShare = async (link: CustomerShareLink) => {
+    const url = getShareLinkUrl(link);
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: `${settings.business_name} - Statement`, text: `${customer.name}, view your milk account here:`, url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        alert('Link copied.');
+      }
+    } catch (error) {
+      // Closing the share sheet rejects too; nothing to report then.
+      console.error("Failed to share link", error);
+    }
+  };
+
+  const handleCopy = async (link: CustomerShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareLinkUrl(link));
+      alert('Link copied.');
+    } catch (error) {
+      console.error("Failed to copy link", error);
+      alert("Failed to copy link.");
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    try {
+      const expiresAt = new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString();
+      const link = await createShareLink(customer.id, expiresAt);
+      await handleShare(link);
+    } catch (error) {
+      console.error("Failed to create share link", error);
+      alert("Failed to create share link. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (link: CustomerShareLink) => {
+    if (!window.confirm("Revoke this link? The customer will no longer be able to open it.")) return;
+    try {
+      await revokeShareLink(link.id);
+    } catch (error) {
+      console.error("Failed to revoke share link", error);
+      alert("Failed to revoke share link. Please try again.");
+    }
+  };
+
+  return (
+    <motion.div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+      <motion.div className="bg-white rounded-xl p-4 w-full max-w-sm" initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}>
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="text-lg font-semibold text-gray-800 flex items-center"><Link2 size={20} className="mr-2 text-dairy-600" />Share Statement</h3>
+          <button onClick={onClose} className="p-1 text-gray-500"><X size={20} /></button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">{customer.name} can open the link to see their orders, balance and statement. Nothing else in your account is visible.</p>
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">Link expires after</label>
+        <div className="grid grid-cols-3 gap-2 mb-4">
+          {expiryOptions.map(option => (
+            <button key={option.days} type="button" onClick={() => setExpiryDays(option.days)} className={`py-2 rounded-lg text-sm border ${expiryDays === option.days ? 'bg-dairy-600 text-white border-dairy-600' : 'border-gray-300 text-gray-600'}`}>{option.label}</button>
+          ))}
+        </div>
+        {!isOnline && <p className="text-sm text-orange-600 mb-2">Share links can only be created while online.</p>}
+        <motion.button onClick={handleCreate} disabled={isSubmitting || !isOnline} className="w-full bg-dairy-600 text-white py-3 rounded-lg font-medium disabled:opacity-50 flex justify-center items-center space-x-2" whileTap={{ scale: 0.98 }}>
+          {isSubmitting ? <Loader2 className="animate-spin" /> : <><Share2 size={18} /><span>Create & Share Link</span></>}
+        </motion.button>
+
+        {activeLinks.length > 0 && (
+          <div className="mt-4 pt-4 border-t space-y-2">
+            <h4 className="text-sm font-semibold text-gray-700">Active Links</h4>
+            {activeLinks.map(link => (
+              <div key={link.id} className="flex justify-between items-center">
+                <p className="text-xs text-gray-500">Expires {new Date(link.expires_at).toLocaleDateString('en-IN')}</p>
+                <div className="flex space-x-2">
+                  <motion.button onClick={() => handleCopy(link)} className="p-2 text-dairy-600 bg-dairy-100 rounded-lg" whileTap={{ scale: 0.95 }} title="Copy Link"><Copy size={14} /></motion.button>
+                  <motion.button onClick={() => handleRevoke(link)} disabled={!isOnline} className="p-2 text-red-600 bg-red-100 rounded-lg disabled:opacity-50" whileTap={{ scale: 0.95 }} title="Revoke Link"><Ban size={14} /></motion.button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ShareLinkModal;
@@ -0,0 +1,240 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Repeat, Edit2, Trash2, Loader2, Plus } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { useAuth } from '../../context/AuthContext';
+import { useProducts, useSubscriptions } from '../../context/DataContext';
+import { Customer, PauseRange, SubscriptionItem } from '../../types';
+import { weekdayLabels } from '../../utils/subscriptions';
+
+type SubscriptionItemWithId = SubscriptionItem & { clientId: string };
+type PauseRangeWithId = PauseRange & { clientId: string };
+
+interface SubscriptionEditorProps {
+  customer: Customer;
+}
+
+const SubscriptionEditor: React.FC<SubscriptionEditorProps> = ({ customer }) => {
+  const { can } = useAuth();
+  const { subscriptions, addSubscription, updateSubscription, deleteSubscription } = useSubscriptions();
+  const { products } = useProducts();
+
+  const subscription = useMemo(() => subscriptions.find(s => s.customer_id === customer.id), [subscriptions, customer.id]);
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [items, setItems] = useState<SubscriptionItemWithId[]>([]);
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [pauseRanges, setPauseRanges] = useState<PauseRangeWithId[]>([]);
+
+  const handleOpenForm = () => {
+    const today = new Date().toISOString().split('T')[0];
+    setItems((subscription?.items || []).map(item => ({ ...item, clientId: uuidv4() })));
+    setWeekdays(subscription?.weekdays || [0, 1, 2, 3, 4, 5, 6]);
+    setStartDate(subscription?.start_date || today);
+    setEndDate(subscription?.end_date || '');
+    setPauseRanges((subscription?.pause_ranges || []).map(range => ({ ...range, clientId: uuidv4() })));
+    setShowForm(true);
+  };
+
+  const handleAddItem = () => {
+    if (products.length === 0) return;
+    setItems(prev => [...prev, { clientId: uuidv4(), product_id: products[0].id, quantity: 1 }]);
+  };
+
+  const handleUpdateItem = (clientId: string, field: 'product_id' | 'quantity', value: string) => {
+    setItems(prev => prev.map(item => {
+      if (item.clientId !== clientId) return item;
+      return field === 'quantity'
+        ? { ...item, quantity: parseFloat(value) || 0 }
+        : { ...item, product_id: value };
+    }));
+  };
+
+  const handleToggleWeekday = (weekday: number) => {
+    setWeekdays(prev => prev.includes(weekday) ? prev.filter(d => d !== weekday) : [...prev, weekday].sort((a, b) => a - b));
+  };
+
+  const handleUpdatePauseRange = (clientId: string, field: 'start' | 'end', value: string) => {
+    setPauseRanges(prev => prev.map(range => range.clientId === clientId ? { ...range, [field]: value } : range));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (endDate && endDate < startDate) {
+      alert('End date cannot be before the start date.');
+      return;
+    }
+    if (pauseRanges.some(range => !range.start || !range.end || range.end < range.start)) {
+      alert('Please enter a valid start and end date for every pause.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const subscriptionData = {
+        customer_id: customer.id,
+        items: items.filter(item => item.quantity > 0).map(item => ({ product_id: item.product_id, quantity: item.quantity })),
+        weekdays,
+        start_date: startDate,
+        end_date: endDate || null,
+        pause_ranges: pauseRanges.map(range => ({ start: range.start, end: range.end })),
+      };
+      if (subscription) {
+        await updateSubscription(subscription.id, subscriptionData);
+      } else {
+        await addSubscription(subscriptionData);
+      }
+      setShowForm(false);
+    } catch (error) {
+      console.error("Failed to save subscription", error);
+      alert("Failed to save subscription.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!subscription || !window.confirm(`Stop the subscription for ${customer.name}?`)) return;
+    setIsSubmitting(true);
+    try {
+      await deleteSubscription(subscription.id);
+    } catch (error) {
+      console.error("Failed to delete subscription", error);
+      alert("Failed to delete subscription.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="bg-white rounded-xl p-4 mb-6 shadow-sm border border-gray-100">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-semibold text-gray-800 flex items-center"><Repeat size={18} className="mr-2 text-dairy-600" />Subscription</h3>
+        {can('manageCustomers') && (
+          <div className="flex space-x-2">
+            <motion.button onClick={handleOpenForm} className="p-2 text-blue-600 bg-blue-100 rounded-lg" whileTap={{ scale: 0.95 }} title={subscription ? 'Edit Subscription' : 'Add Subscription'}>
+              {subscription ? <Edit2 size={16} /> : <Plus size={16} />}
+            </motion.button>
+            {subscription && (
+              <motion.button onClick={handleDelete} disabled={isSubmitting} className="p-2 text-red-600 bg-red-100 rounded-lg" whileTap={{ scale: 0.95 }} title="Delete Subscription">
+                <Trash2 size={16} />
+              </motion.button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {subscription ? (
+        <div className="text-sm text-gray-700 space-y-2">
+          <div className="space-y-1">
+            {subscription.items.map(item => {
+              const product = products.find(p => p.id === item.product_id);
+              return (
+                <div key={item.product_id} className="flex justify-between bg-gray-50 p-2 rounded-md">
+                  <span>{product?.name || 'Unknown product'}</span>
+                  <span className="font-medium">x{item.quantity}</span>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-gray-600">Days: {subscription.weekdays.map(d => weekdayLabels[d]).join(', ') || 'None'}</p>
+          <p className="text-gray-600">From {subscription.start_date}{subscription.end_date ? ` to ${subscription.end_date}` : ''}</p>
+          {subscription.pause_ranges.length > 0 && (
+            <p className="text-gray-600">Paused: {subscription.pause_ranges.map(r => `${r.start} to ${r.end}`).join(', ')}</p>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600">No recurring order set up for this customer.</p>
+      )}
+
+      <AnimatePresence>
+        {showForm && (
+          <motion.div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+            <motion.div className="bg-white rounded-xl p-4 w-full max-w-lg max-h-[90vh] flex flex-col" initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}>
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">Subscription for {customer.name}</h3>
+              <form onSubmit={handleSubmit} className="flex-grow overflow-y-auto pr-2 space-y-4">
+                <div>
+                  <div className="flex justify-between items-center mb-2">
+                    <label className="block text-sm font-medium text-gray-700">Items</label>
+                    <motion.button type="button" onClick={handleAddItem} className="text-dairy-600 text-sm font-medium" whileTap={{ scale: 0.95 }}>+ Add Item</motion.button>
+                  </div>
+                  <div className="space-y-2">
+                    {items.map(item => (
+                      <div key={item.clientId} className="grid grid-cols-12 gap-3 items-center p-2 bg-gray-50 rounded-lg">
+                        <div className="col-span-7">
+                          <select value={item.product_id} onChange={e => handleUpdateItem(item.clientId, 'product_id', e.target.value)} className="w-full px-2 py-2 text-sm border border-gray-300 rounded-lg">
+                            {products.map(p => (<option key={p.id} value={p.id}>{p.name}</option>))}
+                          </select>
+                        </div>
+                        <div className="col-span-4">
+                          <input type="number" step="any" value={item.quantity} onChange={e => handleUpdateItem(item.clientId, 'quantity', e.target.value)} className="w-full px-2 py-2 text-sm border border-gray-300 rounded-lg" placeholder="Qty" />
+                        </div>
+                        <div className="col-span-1 text-right">
+                          <motion.button type="button" onClick={() => setItems(prev => prev.filter(i => i.clientId !== item.clientId))} className="p-1 text-red-500 hover:text-red-700" whileTap={{ scale: 0.95 }}><Trash2 size={16} /></motion.button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Delivery Days</label>
+                  <div className="flex flex-wrap gap-2">
+                    {weekdayLabels.map((label, weekday) => (
+                      <motion.button
+                        key={label}
+                        type="button"
+                        onClick={() => handleToggleWeekday(weekday)}
+                        className={`px-3 py-1 rounded-full text-sm ${weekdays.includes(weekday) ? 'bg-dairy-600 text-white' : 'bg-gray-100 text-gray-600'}`}
+                        whileTap={{ scale: 0.95 }}
+                      >
+                        {label}
+                      </motion.button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+                    <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg" required />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">End Date (Optional)</label>
+                    <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg" />
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex justify-between items-center mb-2">
+                    <label className="block text-sm font-medium text-gray-700">Pauses</label>
+                    <motion.button type="button" onClick={() => setPauseRanges(prev => [...prev, { clientId: uuidv4(), start: '', end: '' }])} className="text-dairy-600 text-sm font-medium" whileTap={{ scale: 0.95 }}>+ Add Pause</motion.button>
+                  </div>
+                  <div className="space-y-2">
+                    {pauseRanges.map(range => (
+                      <div key={range.clientId} className="grid grid-cols-12 gap-2 items-center">
+                        <input type="date" value={range.start} onChange={e => handleUpdatePauseRange(range.clientId, 'start', e.target.value)} className="col-span-5 px-2 py-2 text-sm border border-gray-300 rounded-lg" />
+                        <input type="date" value={range.end} onChange={e => handleUpdatePauseRange(range.clientId, 'end', e.target.value)} className="col-span-6 px-2 py-2 text-sm border border-gray-300 rounded-lg" />
+                        <motion.button type="button" onClick={() => setPauseRanges(prev => prev.filter(r => r.clientId !== range.clientId))} className="col-span-1 p-1 text-red-500 hover:text-red-700" whileTap={{ scale: 0.95 }}><Trash2 size={16} /></motion.button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex space-x-3 pt-2">
+                  <motion.button type="button" onClick={() => setShowForm(false)} className="flex-1 bg-gray-500 text-white py-3 rounded-lg font-medium" whileTap={{ scale: 0.98 }}>Cancel</motion.button>
+                  <motion.button type="submit" disabled={isSubmitting || items.length === 0 || weekdays.length === 0} className="flex-1 bg-dairy-600 text-white py-3 rounded-lg font-medium disabled:opacity-50 flex justify-center items-center" whileTap={{ scale: 0.98 }}>{isSubmitting ? <Loader2 className="animate-spin"/> : 'Save'}</motion.button>
+                </div>
+              </form>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
+
+export default SubscriptionEditor;
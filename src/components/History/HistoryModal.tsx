@@ -0,0 +1,114 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, History, Loader2, RotateCcw } from 'lucide-react';
+import { useAccountData } from '../../context/DataContext';
+import { useSync } from '../../context/useSync';
+import { AuditAction, AuditEntry } from '../../types';
+import { auditActionLabels, canRestoreAuditEntry, describeAuditRecord, formatAuditValue, getAuditChanges } from '../../utils/audit';
+
+interface HistoryModalProps {
+  title: string;
+  loadEntries: () => Promise<AuditEntry[]>;
+  onClose: () => void;
+}
+
+const actionStyles: Record<AuditAction, string> = {
+  insert: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  delete: 'bg-red-100 text-red-700',
+};
+
+const HistoryModal: React.FC<HistoryModalProps> = ({ title, loadEntries, onClose }) => {
+  const { isOnline } = useSync();
+  const { restoreAuditVersion } = useAccountData();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      setEntries(await loadEntries());
+    } catch (err) {
+      console.error("Failed to load history", err);
+      setError('History could not be loaded. It is only available while online.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [loadEntries]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleRestore = async (entry: AuditEntry) => {
+    if (!window.confirm(`Restore ${describeAuditRecord(entry)} to how it was before this change?`)) return;
+    setRestoringId(entry.id);
+    try {
+      await restoreAuditVersion(entry);
+      await refresh();
+    } catch (err) {
+      console.error("Failed to restore version", err);
+      alert("Failed to restore this version. Please try again.");
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <motion.div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+      <motion.div className="bg-white rounded-xl p-4 w-full max-w-md max-h-[85vh] flex flex-col" initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-800 flex items-center"><History size={20} className="mr-2 text-dairy-600" />{title}</h3>
+          <button onClick={onClose} className="p-1 text-gray-500"><X size={20} /></button>
+        </div>
+
+        <div className="overflow-y-auto space-y-3">
+          {isLoading ? (
+            <div className="text-center p-8"><Loader2 className="mx-auto animate-spin text-dairy-600" size={28} /></div>
+          ) : error ? (
+            <p className="text-sm text-orange-600 text-center py-6">{error}</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">No changes recorded yet.</p>
+          ) : entries.map(entry => {
+            const changes = entry.action === 'update' ? getAuditChanges(entry) : [];
+            return (
+              <div key={entry.id} className="border border-gray-100 rounded-lg p-3">
+                <div className="flex justify-between items-start">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-800 truncate">{describeAuditRecord(entry)}</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(entry.changed_at).toLocaleString('en-IN')}{entry.actor_email && ` · ${entry.actor_email}`}
+                    </p>
+                  </div>
+                  <span className={`text-xs font-medium px-2 py-1 rounded-full flex-shrink-0 ${actionStyles[entry.action]}`}>{auditActionLabels[entry.action]}</span>
+                </div>
+                {changes.length > 0 && (
+                  <div className="mt-2 space-y-1 text-xs">
+                    {changes.map(change => (
+                      <p key={change.field} className="text-gray-600">
+                        <span className="font-medium text-gray-700">{change.field}:</span>{' '}
+                        <span className="line-through text-red-600">{formatAuditValue(change.before)}</span>{' → '}
+                        <span className="text-green-700">{formatAuditValue(change.after)}</span>
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {canRestoreAuditEntry(entry) && (
+                  <motion.button onClick={() => handleRestore(entry)} disabled={restoringId !== null || !isOnline} className="mt-2 flex items-center space-x-1 text-xs font-medium text-dairy-700 bg-dairy-50 px-2 py-1 rounded-lg disabled:opacity-50" whileTap={{ scale: 0.95 }}>
+                    {restoringId === entry.id ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                    <span>{entry.action === 'delete' ? 'Restore' : 'Restore previous version'}</span>
+                  </motion.button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default HistoryModal;
@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { useSync } from '../../context/useSync';
+import { useProducts, useCustomers, useBilling, useSettings } from '../../context/DataContext';
+import { BusinessDetails, DailyOrder } from '../../types';
+import { buildInvoiceLines, getInvoiceTotals } from '../../utils/invoice';
+import { createInvoicePdf } from '../../utils/invoicePdf';
+import { formatCustomerAddress } from '../../utils/customerProfile';
+import { getSellerDetails } from '../../utils/settings';
+import { triggerDownload } from '../../utils/download';
+
+interface IssueInvoiceModalProps {
+  customerId: string;
+  customerName: string;
+  orders: DailyOrder[];
+  periodStart: string;
+  periodEnd: string;
+  onClose: () => void;
+}
+
+const IssueInvoiceModal: React.FC<IssueInvoiceModalProps> = ({ customerId, customerName, orders, periodStart, periodEnd, onClose }) => {
+  const { can } = useAuth();
+  const { isOnline } = useSync();
+  const { issueInvoice } = useBilling();
+  const { settings, updateSettings } = useSettings();
+  const { products } = useProducts();
+  const { customers } = useCustomers();
+  const businessDetails = useMemo(() => getSellerDetails(settings), [settings]);
+  const customer = customers.find(c => c.id === customerId);
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [invoiceDate, setInvoiceDate] = useState(new Date().toISOString().split('T')[0]);
+  const [seller, setSeller] = useState<BusinessDetails>(businessDetails);
+  const [buyerAddress, setBuyerAddress] = useState(customer ? formatCustomerAddress(customer) : '');
+  const [buyerGstin, setBuyerGstin] = useState('');
+
+  const lines = useMemo(() => buildInvoiceLines(orders, products), [orders, products]);
+  const totals = useMemo(() => getInvoiceTotals(lines), [lines]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!window.confirm(`Issue a new invoice for ${customerName}? Invoice numbers cannot be reused.`)) return;
+
+    setIsSubmitting(true);
+    try {
+      const invoice = await issueInvoice({
+        customer_id: customerId,
+        invoice_date: invoiceDate,
+        period_start: periodStart,
+        period_end: periodEnd,
+        seller,
+        buyer: { name: customerName, address: buyerAddress.trim(), gstin: buyerGstin.trim().toUpperCase() },
+        lines,
+        ...totals,
+      });
+      // Seller details edited here become the account's business details.
+      const sellerChanged = (Object.keys(seller) as (keyof BusinessDetails)[]).some(key => seller[key] !== businessDetails[key]);
+      if (sellerChanged && can('manageSettings')) {
+        updateSettings({ business_name: seller.name, address: seller.address, phone: seller.phone, gstin: seller.gstin, state: seller.state })
+          .catch(error => console.error("Failed to save business details", error));
+      }
+      const doc = createInvoicePdf(invoice);
+      triggerDownload(doc.output('blob'), `Invoice_${invoice.invoice_number.replace(/\//g, '-')}.pdf`);
+      onClose();
+    } catch (error) {
+      console.error("Failed to issue invoice", error);
+      alert("Failed to issue invoice. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-dairy-500";
+
+  return (
+    <motion.div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+      <motion.div className="bg-white rounded-xl p-4 w-full max-w-lg max-h-[90vh] flex flex-col" initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}>
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">Tax Invoice for {customerName}</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          {new Date(periodStart).toLocaleDateString('en-IN', { timeZone: 'UTC' })} to {new Date(periodEnd).toLocaleDateString('en-IN', { timeZone: 'UTC' })}
+        </p>
+        <form onSubmit={handleSubmit} className="flex-grow overflow-y-auto pr-2 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Invoice Date</label>
+            <input type="date" value={invoiceDate} onChange={e => setInvoiceDate(e.target.value)} className={inputClassName} required />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Business Details</p>
+            <input type="text" value={seller.name} onChange={e => setSeller(prev => ({ ...prev, name: e.target.value }))} className={inputClassName} placeholder="Business name" required />
+            <textarea value={seller.address} onChange={e => setSeller(prev => ({ ...prev, address: e.target.value }))} className={inputClassName} placeholder="Address" rows={2} />
+            <div className="grid grid-cols-2 gap-2">
+              <input type="tel" value={seller.phone} onChange={e => setSeller(prev => ({ ...prev, phone: e.target.value }))} className={inputClassName} placeholder="Phone" />
+              <input type="text" value={seller.state} onChange={e => setSeller(prev => ({ ...prev, state: e.target.value }))} className={inputClassName} placeholder="State" />
+            </div>
+            <input type="text" value={seller.gstin} onChange={e => setSeller(prev => ({ ...prev, gstin: e.target.value.toUpperCase() }))} className={inputClassName} placeholder="GSTIN" />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Customer Details</p>
+            <textarea value={buyerAddress} onChange={e => setBuyerAddress(e.target.value)} className={inputClassName} placeholder="Billing address" rows={2} />
+            <input type="text" value={buyerGstin} onChange={e => setBuyerGstin(e.target.value)} className={inputClassName} placeholder="GSTIN (Optional)" />
+          </div>
+
+          <div className="bg-gray-50 rounded-lg p-3 text-sm space-y-1">
+            {lines.map((line, index) => (
+              <div key={index} className="flex justify-between">
+                <span className="text-gray-600">{line.product_name} x{line.quantity} ({line.gst_rate}%)</span>
+                <span className="font-medium">₹{line.total.toFixed(2)}</span>
+              </div>
+            ))}
+            <div className="pt-2 mt-2 border-t space-y-1">
+              <div className="flex justify-between"><span className="text-gray-600">Taxable Value</span><span>₹{totals.taxable_value.toFixed(2)}</span></div>
+              <div className="flex justify-between"><span className="text-gray-600">CGST + SGST</span><span>₹{(totals.cgst + totals.sgst).toFixed(2)}</span></div>
+              <div className="flex justify-between"><span className="text-gray-600">Round Off</span><span>₹{totals.round_off.toFixed(2)}</span></div>
+              <div className="flex justify-between font-bold"><span>Invoice Total</span><span>₹{totals.total.toFixed(2)}</span></div>
+            </div>
+          </div>
+
+          {!isOnline && <p className="text-sm text-orange-600">Invoices can only be issued while online.</p>}
+
+          <div className="flex space-x-3 pt-2">
+            <motion.button type="button" onClick={onClose} className="flex-1 bg-gray-500 text-white py-3 rounded-lg font-medium" whileTap={{ scale: 0.98 }}>Cancel</motion.button>
+            <motion.button type="submit" disabled={isSubmitting || !isOnline || lines.length === 0} className="flex-1 bg-dairy-600 text-white py-3 rounded-lg font-medium disabled:opacity-50 flex justify-center items-center" whileTap={{ scale: 0.98 }}>{isSubmitting ? <Loader2 className="animate-spin"/> : 'Issue Invoice'}</motion.button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default IssueInvoiceModal;
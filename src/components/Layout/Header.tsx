@@ -1,27 +1,85 @@
 import React from 'react';
 import { useAuth } from '../../context/AuthContext';
-import { LogOut, User } from 'lucide-react';
+import { useSettings } from '../../context/DataContext';
+import { useSync, useSyncStatus } from '../../context/useSync';
+import { useNavigate } from 'react-router-dom';
+import { LogOut, User, CloudOff, RefreshCw, Users, Trash2, Settings, AlertTriangle } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { roleLabels } from '../../utils/permissions';
 
 interface HeaderProps {
   title: string;
 }
 
 const Header: React.FC<HeaderProps> = ({ title }) => {
-  const { user, logout } = useAuth();
+  const navigate = useNavigate();
+  const { user, membership, logout } = useAuth();
+  const { isOnline, syncPendingChanges } = useSync();
+  const { syncing, pendingChangesCount, failedChangesCount, retryFailedChanges, discardFailedChanges } = useSyncStatus();
+  const { settings } = useSettings();
+
+  const handleDiscardFailed = () => {
+    if (!window.confirm(`Discard ${failedChangesCount} change${failedChangesCount === 1 ? '' : 's'} the server rejected? The app reloads what is saved on the server.`)) return;
+    discardFailedChanges().catch(err => console.error("Failed to discard changes", err));
+  };
 
   return (
     <header className="bg-gradient-to-r from-dairy-600 to-dairy-700 text-white p-4 shadow-lg">
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-xl font-bold">{title}</h1>
-          <p className="text-dairy-100 text-sm">Jay Goga Milk</p>
+          <p className="text-dairy-100 text-sm">{settings.business_name}</p>
+          {!isOnline ? (
+            <p className="text-xs mt-1 inline-flex items-center bg-dairy-800 px-2 py-0.5 rounded-full">
+              <CloudOff size={12} className="mr-1" />
+              Offline{pendingChangesCount > 0 && ` · ${pendingChangesCount} pending`}
+            </p>
+          ) : pendingChangesCount > 0 && (
+            <button onClick={syncPendingChanges} disabled={syncing} className="text-xs mt-1 inline-flex items-center bg-dairy-800 px-2 py-0.5 rounded-full">
+              <RefreshCw size={12} className={`mr-1 ${syncing ? 'animate-spin' : ''}`} />
+              {syncing ? 'Syncing...' : `${pendingChangesCount} pending · Sync now`}
+            </button>
+          )}
+          {failedChangesCount > 0 && (
+            <p className="text-xs mt-1 ml-1 inline-flex items-center bg-red-700 px-2 py-0.5 rounded-full" title="The server rejected these changes">
+              <AlertTriangle size={12} className="mr-1" />
+              {failedChangesCount} failed ·
+              <button onClick={retryFailedChanges} disabled={syncing || !isOnline} className="ml-1 underline disabled:opacity-50">Retry</button>
+              <span className="mx-1">·</span>
+              <button onClick={handleDiscardFailed} disabled={syncing} className="underline disabled:opacity-50">Discard</button>
+            </p>
+          )}
         </div>
         <div className="flex items-center space-x-3">
           <div className="text-right">
             <p className="text-sm text-dairy-100">Welcome</p>
             <p className="text-sm font-medium">{user?.username}</p>
+            {membership && membership.role !== 'owner' && <p className="text-xs text-dairy-100">{roleLabels[membership.role]}</p>}
           </div>
+          <motion.button
+            onClick={() => navigate('/trash')}
+            className="p-2 bg-dairy-700 rounded-full hover:bg-dairy-800 transition-colors"
+            whileTap={{ scale: 0.95 }}
+            title="Trash"
+          >
+            <Trash2 size={18} />
+          </motion.button>
+          <motion.button
+            onClick={() => navigate('/team')}
+            className="p-2 bg-dairy-700 rounded-full hover:bg-dairy-800 transition-colors"
+            whileTap={{ scale: 0.95 }}
+            title="Team"
+          >
+            <Users size={18} />
+          </motion.button>
+          <motion.button
+            onClick={() => navigate('/settings')}
+            className="p-2 bg-dairy-700 rounded-full hover:bg-dairy-800 transition-colors"
+            whileTap={{ scale: 0.95 }}
+            title="Settings"
+          >
+            <Settings size={18} />
+          </motion.button>
           <motion.button
             onClick={logout}
             className="p-2 bg-dairy-700 rounded-full hover:bg-dairy-800 transition-colors"
@@ -0,0 +1,229 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, MessageCircle, MessageSquare, Copy, Plus, Trash2, CheckCircle } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { useSync } from '../../context/useSync';
+import { useCustomers, useMessages, useSettings } from '../../context/DataContext';
+import { MessageChannel, MessageLogEntry, MessageTemplate } from '../../types';
+import { CustomerStatement } from '../../utils/statement';
+import {
+  getMessageTemplates, getMessageValues, getSmsLink, getWhatsAppLink, messageChannelLabels, messagePlaceholders, renderMessage,
+} from '../../utils/messages';
+
+interface PrepareMessagesModalProps {
+  statements: CustomerStatement[];
+  periodStart: string;
+  periodEnd: string;
+  onClose: () => void;
+}
+
+const formatSentAt = (sentAt: string) => new Date(sentAt).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' });
+
+const PrepareMessagesModal: React.FC<PrepareMessagesModalProps> = ({ statements, periodStart, periodEnd, onClose }) => {
+  const { can } = useAuth();
+  const { isOnline } = useSync();
+  const { messageLog, logMessage } = useMessages();
+  const { settings, updateSettings } = useSettings();
+  const { customers, deletedCustomers } = useCustomers();
+  const [templates, setTemplates] = useState<MessageTemplate[]>(() => getMessageTemplates(settings));
+  const [templateId, setTemplateId] = useState(templates[0]?.id || '');
+  const [onlyWithBalance, setOnlyWithBalance] = useState(true);
+
+  const template = templates.find(t => t.id === templateId) || templates[0];
+
+  const contactById = useMemo(() => {
+    return [...customers, ...deletedCustomers].reduce((acc, customer) => {
+      acc[customer.id] = customer.phone || '';
+      return acc;
+    }, {} as Record<string, string>);
+  }, [customers, deletedCustomers]);
+
+  const lastSentByCustomer = useMemo(() => {
+    return messageLog.reduce((acc, entry) => {
+      if (!acc[entry.customer_id] || entry.created_at > acc[entry.customer_id].created_at) acc[entry.customer_id] = entry;
+      return acc;
+    }, {} as Record<string, MessageLogEntry>);
+  }, [messageLog]);
+
+  const messages = useMemo(() => {
+    if (!template) return [];
+    return statements
+      .filter(statement => !onlyWithBalance || statement.pendingAmount > 0)
+      .map(statement => {
+        const text = renderMessage(template.body, getMessageValues(statement, periodStart, periodEnd, settings));
+        const phone = contactById[statement.customerId] || '';
+        return {
+          statement,
+          text,
+          whatsAppLink: getWhatsAppLink(phone, text),
+          smsLink: getSmsLink(phone, text),
+        };
+      });
+  }, [template, statements, onlyWithBalance, periodStart, periodEnd, contactById, settings]);
+
+  const recentLog = useMemo(() => {
+    const customerIds = new Set(statements.map(statement => statement.customerId));
+    return messageLog
+      .filter(entry => customerIds.has(entry.customer_id))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, 20);
+  }, [messageLog, statements]);
+
+  const customerNames = useMemo(() => {
+    return statements.reduce((acc, statement) => {
+      acc[statement.customerId] = statement.customerName;
+      return acc;
+    }, {} as Record<string, string>);
+  }, [statements]);
+
+  // Template edits are saved to the account's settings when the user may change them;
+  // otherwise they only last until the window is closed.
+  const canSaveTemplates = can('manageSettings') && isOnline;
+  const saveTemplates = async (nextTemplates: MessageTemplate[]) => {
+    if (!canSaveTemplates) return;
+    try {
+      await updateSettings({ message_templates: nextTemplates });
+    } catch (error) {
+      console.error("Failed to save message templates", error);
+      alert("Failed to save message templates.");
+    }
+  };
+
+  const updateTemplateBody = (body: string) => {
+    setTemplates(templates.map(t => t.id === template.id ? { ...t, body } : t));
+  };
+
+  const addPlaceholder = (key: string) => {
+    const nextTemplates = templates.map(t => t.id === template.id ? { ...t, body: `${t.body}{${key}}` } : t);
+    setTemplates(nextTemplates);
+    saveTemplates(nextTemplates);
+  };
+
+  const handleAddTemplate = () => {
+    const name = window.prompt('Template name')?.trim();
+    if (!name) return;
+    const newTemplate: MessageTemplate = { id: `template-${Date.now()}`, name, body: template?.body || '' };
+    const nextTemplates = [...templates, newTemplate];
+    setTemplates(nextTemplates);
+    setTemplateId(newTemplate.id);
+    saveTemplates(nextTemplates);
+  };
+
+  const handleDeleteTemplate = () => {
+    if (templates.length <= 1 || !window.confirm(`Delete the "${template.name}" template?`)) return;
+    const remaining = templates.filter(t => t.id !== template.id);
+    setTemplates(remaining);
+    setTemplateId(remaining[0].id);
+    saveTemplates(remaining);
+  };
+
+  const recordSent = async (statement: CustomerStatement, channel: MessageChannel, text: string) => {
+    try {
+      await logMessage({
+        customer_id: statement.customerId,
+        channel,
+        template_name: template.name,
+        body: text,
+        period_start: periodStart,
+        period_end: periodEnd,
+      });
+    } catch (error) {
+      console.error("Failed to log message", error);
+    }
+  };
+
+  const handleCopy = async (statement: CustomerStatement, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      await recordSent(statement, 'copy', text);
+    } catch (error) {
+      console.error("Failed to copy message", error);
+      alert("Failed to copy message.");
+    }
+  };
+
+  return (
+    <motion.div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+      <motion.div className="bg-white rounded-xl p-4 w-full max-w-lg max-h-[90vh] flex flex-col" initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}>
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="text-lg font-semibold text-gray-800 flex items-center"><MessageCircle size={20} className="mr-2 text-dairy-600" />Prepare Messages</h3>
+          <button onClick={onClose} className="p-1 text-gray-500"><X size={20} /></button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">Each message opens in WhatsApp or SMS ready to send, and is noted in the log.</p>
+
+        <div className="flex-grow overflow-y-auto pr-2 space-y-4">
+          <div className="space-y-2">
+            <div className="flex space-x-2">
+              <select value={template?.id || ''} onChange={e => setTemplateId(e.target.value)} className="flex-1 px-3 py-2 border border-gray-300 rounded-lg">
+                {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+              <motion.button onClick={handleAddTemplate} className="p-2 text-dairy-600 bg-dairy-100 rounded-lg" whileTap={{ scale: 0.95 }} title="New Template"><Plus size={18} /></motion.button>
+              <motion.button onClick={handleDeleteTemplate} disabled={templates.length <= 1} className="p-2 text-red-600 bg-red-100 rounded-lg disabled:opacity-50" whileTap={{ scale: 0.95 }} title="Delete Template"><Trash2 size={18} /></motion.button>
+            </div>
+            {template && (
+              <>
+                <textarea value={template.body} onChange={e => updateTemplateBody(e.target.value)} onBlur={() => saveTemplates(templates)} rows={5} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm" />
+                <div className="flex flex-wrap gap-1">
+                  {messagePlaceholders.map(placeholder => (
+                    <button key={placeholder.key} type="button" onClick={() => addPlaceholder(placeholder.key)} className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-full">+ {placeholder.label}</button>
+                  ))}
+                </div>
+              </>
+            )}
+            <label className="flex items-center text-sm text-gray-700">
+              <input type="checkbox" checked={onlyWithBalance} onChange={e => setOnlyWithBalance(e.target.checked)} className="mr-2" />
+              Only customers with a balance
+            </label>
+          </div>
+
+          <div className="space-y-3">
+            {messages.length === 0 && <p className="text-sm text-gray-500 text-center">No customers to message.</p>}
+            {messages.map(({ statement, text, whatsAppLink, smsLink }) => {
+              const lastSent = lastSentByCustomer[statement.customerId];
+              return (
+                <div key={statement.customerId} className="border border-gray-100 rounded-lg p-3">
+                  <div className="flex justify-between items-center mb-2">
+                    <p className="font-medium text-gray-800">{statement.customerName}</p>
+                    <span className={`text-sm font-semibold ${statement.pendingAmount > 0 ? 'text-red-600' : 'text-green-700'}`}>₹{statement.pendingAmount.toFixed(2)}</span>
+                  </div>
+                  <p className="text-xs text-gray-600 whitespace-pre-line bg-gray-50 rounded p-2 max-h-24 overflow-y-auto mb-2">{text}</p>
+                  {lastSent && (
+                    <p className="text-xs text-green-700 flex items-center mb-2"><CheckCircle size={12} className="mr-1" />{messageChannelLabels[lastSent.channel]} {formatSentAt(lastSent.created_at)}</p>
+                  )}
+                  {!whatsAppLink && <p className="text-xs text-orange-600 mb-2">No valid contact number; copy the text instead.</p>}
+                  <div className="grid grid-cols-3 gap-2">
+                    <a href={whatsAppLink || undefined} target="_blank" rel="noopener noreferrer" onClick={() => whatsAppLink && recordSent(statement, 'whatsapp', text)} className={`flex items-center justify-center space-x-1 py-2 rounded-lg text-sm bg-green-600 text-white ${whatsAppLink ? '' : 'opacity-50 pointer-events-none'}`}>
+                      <MessageCircle size={14} /><span>WhatsApp</span>
+                    </a>
+                    <a href={smsLink || undefined} onClick={() => smsLink && recordSent(statement, 'sms', text)} className={`flex items-center justify-center space-x-1 py-2 rounded-lg text-sm bg-blue-600 text-white ${smsLink ? '' : 'opacity-50 pointer-events-none'}`}>
+                      <MessageSquare size={14} /><span>SMS</span>
+                    </a>
+                    <button type="button" onClick={() => handleCopy(statement, text)} className="flex items-center justify-center space-x-1 py-2 rounded-lg text-sm bg-dairy-100 text-dairy-700">
+                      <Copy size={14} /><span>Copy</span>
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {recentLog.length > 0 && (
+            <div className="pt-4 border-t">
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">Sent Log</h4>
+              <div className="space-y-1">
+                {recentLog.map(entry => (
+                  <div key={entry.id} className="flex justify-between text-xs text-gray-600">
+                    <span className="truncate mr-2">{customerNames[entry.customer_id]} · {entry.template_name}</span>
+                    <span className="flex-shrink-0">{messageChannelLabels[entry.channel]} {formatSentAt(entry.created_at)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default PrepareMessagesModal;
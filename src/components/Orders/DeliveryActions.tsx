@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Check, SkipForward, PackageMinus, RotateCcw, Loader2 } from 'lucide-react';
+import { useOrders } from '../../context/DataContext';
+import { DailyOrder, DeliveryStatus, ShortfallItem } from '../../types';
+import { deliveryStatusLabels, getCombinedDeliveryStatus, splitShortfall } from '../../utils/delivery';
+
+interface DeliveryActionsProps {
+  customerName: string;
+  orders: DailyOrder[];
+  showActions: boolean;
+}
+
+const statusColors: Record<DeliveryStatus, string> = {
+  pending: 'bg-gray-100 text-gray-600',
+  delivered: 'bg-green-100 text-green-700',
+  partial: 'bg-yellow-100 text-yellow-800',
+  skipped: 'bg-red-100 text-red-700',
+};
+
+const skipReasons = ['Customer not home', 'Customer cancelled', 'Out of stock', 'Could not reach'];
+
+const DeliveryActions: React.FC<DeliveryActionsProps> = ({ customerName, orders, showActions }) => {
+  const { updateOrder } = useOrders();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [dialog, setDialog] = useState<'partial' | 'skipped' | null>(null);
+  const [shortfall, setShortfall] = useState<Record<string, string>>({});
+  const [skipReason, setSkipReason] = useState('');
+
+  const status = getCombinedDeliveryStatus(orders);
+  const deliveredAt = orders.map(order => order.delivered_at).filter(Boolean).sort().pop();
+
+  // Quantities per product across the customer's orders for the day
+  const itemTotals = orders.flatMap(order => order.items).reduce((acc, item) => {
+    if (!acc[item.product_id]) acc[item.product_id] = { name: item.product_name, quantity: 0 };
+    acc[item.product_id].quantity += item.quantity;
+    return acc;
+  }, {} as Record<string, { name: string; quantity: number }>);
+
+  const applyStatus = async (newStatus: DeliveryStatus, shortfallItems: ShortfallItem[] = [], reason: string | null = null) => {
+    setIsSubmitting(true);
+    try {
+      const shortfallByOrder = splitShortfall(orders, shortfallItems);
+      const timestamp = newStatus === 'pending' ? null : new Date().toISOString();
+      await Promise.all(orders.map(order => updateOrder(order.id, {
+        status: newStatus,
+        delivered_at: timestamp,
+        shortfall: shortfallByOrder[order.id],
+        skip_reason: reason,
+      })));
+      setDialog(null);
+    } catch (error) {
+      console.error("Failed to update delivery", error);
+      alert("Failed to update delivery status.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOpenPartial = () => {
+    const existing = orders.flatMap(order => order.shortfall || []).reduce((acc, item) => {
+      acc[item.product_id] = ((parseFloat(acc[item.product_id]) || 0) + item.quantity).toString();
+      return acc;
+    }, {} as Record<string, string>);
+    setShortfall(existing);
+    setDialog('partial');
+  };
+
+  const handleSavePartial = () => {
+    const items = Object.entries(shortfall)
+      .map(([product_id, quantity]) => ({ product_id, quantity: Math.min(parseFloat(quantity) || 0, itemTotals[product_id]?.quantity || 0) }))
+      .filter(item => item.quantity > 0);
+    if (items.length === 0) {
+      alert('Enter the quantity that could not be delivered.');
+      return;
+    }
+    applyStatus('partial', items);
+  };
+
+  const handleOpenSkip = () => {
+    setSkipReason(orders.find(order => order.skip_reason)?.skip_reason || '');
+    setDialog('skipped');
+  };
+
+  return (
+    <>
+      <div className="flex items-center flex-wrap gap-2">
+        <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${statusColors[status]}`}>
+          {deliveryStatusLabels[status]}
+          {deliveredAt && status !== 'pending' && ` · ${new Date(deliveredAt).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}`}
+        </span>
+        {status === 'skipped' && orders[0]?.skip_reason && <span className="text-xs text-gray-500">{orders[0].skip_reason}</span>}
+      </div>
+
+      {showActions && (
+        <div className="grid grid-cols-4 gap-2 mt-3">
+          <motion.button onClick={() => applyStatus('delivered')} disabled={isSubmitting} className="flex flex-col items-center p-2 bg-green-100 text-green-700 rounded-lg text-xs font-medium disabled:opacity-50" whileTap={{ scale: 0.95 }}>
+            {isSubmitting ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />}
+            <span>Delivered</span>
+          </motion.button>
+          <motion.button onClick={handleOpenPartial} disabled={isSubmitting} className="flex flex-col items-center p-2 bg-yellow-100 text-yellow-800 rounded-lg text-xs font-medium disabled:opacity-50" whileTap={{ scale: 0.95 }}>
+            <PackageMinus size={16} />
+            <span>Partial</span>
+          </motion.button>
+          <motion.button onClick={handleOpenSkip} disabled={isSubmitting} className="flex flex-col items-center p-2 bg-red-100 text-red-700 rounded-lg text-xs font-medium disabled:opacity-50" whileTap={{ scale: 0.95 }}>
+            <SkipForward size={16} />
+            <span>Skip</span>
+          </motion.button>
+          <motion.button onClick={() => applyStatus('pending')} disabled={isSubmitting || status === 'pending'} className="flex flex-col items-center p-2 bg-gray-100 text-gray-600 rounded-lg text-xs font-medium disabled:opacity-50" whileTap={{ scale: 0.95 }}>
+            <RotateCcw size={16} />
+            <span>Reset</span>
+          </motion.button>
+        </div>
+      )}
+
+      <AnimatePresence>
+        {dialog && (
+          <motion.div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+            <motion.div className="bg-white rounded-xl p-4 w-full max-w-sm" initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}>
+              {dialog === 'partial' ? (
+                <>
+                  <h3 className="text-lg font-semibold text-gray-800 mb-1">Partial Delivery</h3>
+                  <p className="text-sm text-gray-500 mb-4">Quantity not delivered to {customerName}</p>
+                  <div className="space-y-2">
+                    {Object.entries(itemTotals).map(([productId, item]) => (
+                      <div key={productId} className="grid grid-cols-12 gap-2 items-center">
+                        <span className="col-span-7 text-sm text-gray-700">{item.name} <span className="text-gray-400">(of {item.quantity})</span></span>
+                        <input type="number" step="any" min="0" max={item.quantity} value={shortfall[productId] || ''} onChange={e => setShortfall(prev => ({ ...prev, [productId]: e.target.value }))} className="col-span-5 px-2 py-2 text-sm border border-gray-300 rounded-lg" placeholder="0" />
+                      </div>
+                    ))}
+                  </div>
+                </>
+              ) : (
+                <>
+                  <h3 className="text-lg font-semibold text-gray-800 mb-1">Skip Delivery</h3>
+                  <p className="text-sm text-gray-500 mb-4">Why was {customerName} skipped?</p>
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {skipReasons.map(reason => (
+                      <button key={reason} type="button" onClick={() => setSkipReason(reason)} className={`text-xs px-2 py-1 rounded-full border ${skipReason === reason ? 'bg-dairy-600 text-white border-dairy-600' : 'border-gray-300 text-gray-600'}`}>{reason}</button>
+                    ))}
+                  </div>
+                  <input type="text" value={skipReason} onChange={e => setSkipReason(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg" placeholder="Reason" />
+                </>
+              )}
+              <div className="flex space-x-3 mt-4">
+                <motion.button onClick={() => setDialog(null)} className="flex-1 bg-gray-500 text-white py-2 rounded-lg font-medium" whileTap={{ scale: 0.98 }}>Cancel</motion.button>
+                <motion.button
+                  onClick={dialog === 'partial' ? handleSavePartial : () => applyStatus('skipped', [], skipReason.trim() || null)}
+                  disabled={isSubmitting || (dialog === 'skipped' && !skipReason.trim())}
+                  className="flex-1 bg-dairy-600 text-white py-2 rounded-lg font-medium disabled:opacity-50 flex justify-center items-center"
+                  whileTap={{ scale: 0.98 }}
+                >
+                  {isSubmitting ? <Loader2 className="animate-spin" /> : 'Save'}
+                </motion.button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+};
+
+export default DeliveryActions;
@@ -0,0 +1,71 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { QrCode, Settings } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { useSettings } from '../../context/DataContext';
+import { UpiSettings } from '../../types';
+import { getUpiSettings } from '../../utils/settings';
+import { createUpiQrDataUrl, isValidVpa } from '../../utils/upi';
+import UpiSettingsModal from './UpiSettingsModal';
+
+interface UpiQrCardProps {
+  amount: number;
+  note: string;
+}
+
+const UpiQrCard: React.FC<UpiQrCardProps> = ({ amount, note }) => {
+  const { can } = useAuth();
+  const { settings, updateSettings } = useSettings();
+  const upiSettings = useMemo(() => getUpiSettings(settings), [settings]);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+
+  const isConfigured = isValidVpa(upiSettings.vpa);
+
+  useEffect(() => {
+    if (!isConfigured || amount <= 0) {
+      setQrDataUrl(null);
+      return;
+    }
+    let cancelled = false;
+    createUpiQrDataUrl(upiSettings, amount, note)
+      .then(dataUrl => { if (!cancelled) setQrDataUrl(dataUrl); })
+      .catch(error => console.error("Failed to create UPI QR code", error));
+    return () => { cancelled = true; };
+  }, [upiSettings, isConfigured, amount, note]);
+
+  const handleSave = async (nextSettings: UpiSettings) => {
+    await updateSettings({ upi_vpa: nextSettings.vpa, upi_payee_name: nextSettings.payee_name });
+  };
+
+  if (!isConfigured && !can('manageSettings')) return null;
+
+  return (
+    <div className="bg-white rounded-xl p-4 mb-6 shadow-sm border border-gray-100">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center"><QrCode size={20} className="mr-2 text-dairy-600" />Pay by UPI</h3>
+        {can('manageSettings') && (
+          <motion.button onClick={() => setShowSettings(true)} className="p-2 text-gray-600 bg-gray-100 rounded-lg" whileTap={{ scale: 0.95 }} title="UPI Settings">
+            <Settings size={16} />
+          </motion.button>
+        )}
+      </div>
+      {!isConfigured ? (
+        <p className="text-sm text-gray-500">Add your UPI ID to show a payment QR code here and on statements.</p>
+      ) : qrDataUrl ? (
+        <div className="text-center">
+          <img src={qrDataUrl} alt={`UPI QR code for ₹${amount.toFixed(2)}`} className="mx-auto w-48 h-48" />
+          <p className="text-sm font-semibold text-gray-800 mt-2">₹{amount.toFixed(2)}</p>
+          <p className="text-xs text-gray-500">to {upiSettings.vpa}</p>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Nothing to pay right now.</p>
+      )}
+      <AnimatePresence>
+        {showSettings && <UpiSettingsModal settings={upiSettings} onSave={handleSave} onClose={() => setShowSettings(false)} />}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default UpiQrCard;
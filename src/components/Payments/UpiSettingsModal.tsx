@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Loader2 } from 'lucide-react';
+import { UpiSettings } from '../../types';
+import { isValidVpa } from '../../utils/upi';
+
+interface UpiSettingsModalProps {
+  settings: UpiSettings;
+  onSave: (settings: UpiSettings) => Promise<void>;
+  onClose: () => void;
+}
+
+const UpiSettingsModal: React.FC<UpiSettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const [vpa, setVpa] = useState(settings.vpa);
+  const [payeeName, setPayeeName] = useState(settings.payee_name);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidVpa(vpa)) {
+      alert("Enter a valid UPI ID, like name@okaxis.");
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await onSave({ vpa: vpa.trim(), payee_name: payeeName.trim() });
+      onClose();
+    } catch (error) {
+      console.error("Failed to save UPI settings", error);
+      alert("Failed to save UPI settings. Settings can only be changed while online.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <motion.div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+      <motion.div className="bg-white rounded-xl p-6 w-full max-w-sm" initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}>
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="text-lg font-semibold text-gray-800">UPI Payments</h3>
+          <button onClick={onClose} className="p-1 text-gray-500"><X size={20} /></button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">Payment QR codes on customer screens and statements pay to this UPI ID.</p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">UPI ID (VPA)</label>
+            <input type="text" value={vpa} onChange={e => setVpa(e.target.value)} className="w-full px-4 py-3 border border-gray-300 rounded-lg" placeholder="name@okaxis" autoCapitalize="none" required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Payee Name</label>
+            <input type="text" value={payeeName} onChange={e => setPayeeName(e.target.value)} className="w-full px-4 py-3 border border-gray-300 rounded-lg" placeholder="Business name" />
+          </div>
+          <motion.button type="submit" disabled={isSubmitting} className="w-full bg-dairy-600 text-white py-3 rounded-lg font-medium disabled:opacity-50 flex justify-center items-center" whileTap={{ scale: 0.98 }}>{isSubmitting ? <Loader2 className="animate-spin" /> : 'Save'}</motion.button>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default UpiSettingsModal;
@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Loader2, Trash2 } from 'lucide-react';
+import { useProducts, useCustomers } from '../../context/DataContext';
+import { Product } from '../../types';
+
+interface PriceScheduleProps {
+  product: Product;
+  onClose: () => void;
+}
+
+const PriceSchedule: React.FC<PriceScheduleProps> = ({ product, onClose }) => {
+  const { productPrices, addProductPrice, deleteProductPrice } = useProducts();
+  const { customers } = useCustomers();
+  const today = new Date().toISOString().split('T')[0];
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [price, setPrice] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(today);
+  const [customerId, setCustomerId] = useState('');
+
+  const entries = useMemo(() => {
+    return productPrices
+      .filter(entry => entry.product_id === product.id)
+      .sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+  }, [productPrices, product.id]);
+
+  const getCustomerName = (id: string | null) => id ? customers.find(c => c.id === id)?.name || 'Unknown' : 'All customers';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(price);
+    if (isNaN(amount) || amount < 0) return;
+    if (entries.some(entry => entry.effective_from === effectiveFrom && (entry.customer_id || '') === customerId)) {
+      alert('A price is already set for this date. Delete it first to change it.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await addProductPrice({ product_id: product.id, customer_id: customerId || null, price: amount, effective_from: effectiveFrom });
+      setPrice('');
+    } catch (error) {
+      console.error("Failed to save price", error);
+      alert("Failed to save price.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (entryId: string) => {
+    if (!window.confirm('Delete this price? Orders created from now on will use the previous price for these dates.')) return;
+    try {
+      await deleteProductPrice(entryId);
+    } catch (error) {
+      console.error("Failed to delete price", error);
+      alert("Failed to delete price.");
+    }
+  };
+
+  return (
+    <motion.div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+      <motion.div className="bg-white rounded-xl p-4 w-full max-w-lg max-h-[90vh] flex flex-col" initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}>
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">Prices for {product.name}</h3>
+        <p className="text-sm text-gray-500 mb-4">Per {product.quantity} {product.unit}. Opening price ₹{product.price.toFixed(2)}.</p>
+
+        <form onSubmit={handleSubmit} className="space-y-3 mb-4">
+          <div className="grid grid-cols-2 gap-3">
+            <input type="number" step="0.01" min="0" value={price} onChange={e => setPrice(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg" placeholder="New price ₹" required />
+            <input type="date" value={effectiveFrom} onChange={e => setEffectiveFrom(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg" required />
+          </div>
+          <select value={customerId} onChange={e => setCustomerId(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg">
+            <option value="">All customers</option>
+            {customers.map(c => <option key={c.id} value={c.id}>Special rate: {c.name}</option>)}
+          </select>
+          <motion.button type="submit" disabled={isSubmitting} className="w-full bg-dairy-600 text-white py-2 rounded-lg font-medium disabled:opacity-50 flex justify-center items-center" whileTap={{ scale: 0.98 }}>
+            {isSubmitting ? <Loader2 className="animate-spin" /> : 'Schedule Price'}
+          </motion.button>
+        </form>
+
+        <div className="flex-grow overflow-y-auto space-y-2">
+          {entries.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">No price changes yet.</p>
+          ) : entries.map(entry => (
+            <div key={entry.id} className="flex justify-between items-center bg-gray-50 rounded-lg p-3">
+              <div>
+                <p className="font-medium text-gray-800">₹{entry.price.toFixed(2)} <span className="text-xs text-gray-500">from {new Date(entry.effective_from).toLocaleDateString('en-IN', { timeZone: 'UTC' })}</span></p>
+                <p className="text-xs text-gray-500">
+                  {getCustomerName(entry.customer_id)}
+                  {entry.effective_from > today && <span className="ml-2 text-dairy-600 font-medium">Scheduled</span>}
+                </p>
+              </div>
+              <motion.button onClick={() => handleDelete(entry.id)} className="p-2 text-red-600 bg-red-100 rounded-lg" whileTap={{ scale: 0.95 }}><Trash2 size={16} /></motion.button>
+            </div>
+          ))}
+        </div>
+
+        <motion.button onClick={onClose} className="mt-4 w-full bg-gray-500 text-white py-3 rounded-lg font-medium" whileTap={{ scale: 0.98 }}>Close</motion.button>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default PriceSchedule;
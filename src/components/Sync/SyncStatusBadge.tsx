@@ -0,0 +1,38 @@
+import React from 'react';
+import { CloudOff, AlertTriangle, GitMerge } from 'lucide-react';
+import { SyncStatus } from '../../lib/offlineStore';
+
+interface SyncStatusBadgeProps {
+  status?: SyncStatus;
+}
+
+const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ status }) => {
+  if (!status) return null;
+
+  if (status === 'failed') {
+    return (
+      <span className="inline-flex items-center text-xs font-medium px-2 py-0.5 rounded-full bg-red-100 text-red-700" title="The server rejected this change. Retry or discard it from the header.">
+        <AlertTriangle size={12} className="mr-1" />
+        Sync failed
+      </span>
+    );
+  }
+
+  if (status === 'conflict') {
+    return (
+      <span className="inline-flex items-center text-xs font-medium px-2 py-0.5 rounded-full bg-orange-100 text-orange-700" title="Changed on another device too; this device's change replaces it when it syncs">
+        <GitMerge size={12} className="mr-1" />
+        Edited elsewhere
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center text-xs font-medium px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-700" title="Saved on this device, waiting for connection">
+      <CloudOff size={12} className="mr-1" />
+      Not synced
+    </span>
+  );
+};
+
+export default SyncStatusBadge;
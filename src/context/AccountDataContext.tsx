@@ -0,0 +1,147 @@
+import React, { useCallback, useMemo, ReactNode } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AuditEntry, Bill, Customer, CustomerShareLink, DailyOrder, DeliveryRoute, Invoice, Payment, PaymentAllocation, Product,
+  ProductPrice, Purchase, RouteStop, StockMovement, Subscription, Supplier,
+} from '../types';
+import { LedgerRows } from '../lib/ledgerQueries';
+import { MirrorTable } from '../lib/offlineStore';
+import { invalidateQueries } from '../lib/queryCache';
+import { buildOpeningBalanceItem, CustomerImportDraft, ProductImportDraft } from '../utils/importData';
+import { AccountBackup, BackupData, RestoreMode, createBackup, getRestoredSettings, remapBackupIds } from '../utils/backup';
+import { useAuth } from './AuthContext';
+import { useSync } from './useSync';
+import { mergeRows, useDataStore } from './useDataStore';
+import { AccountDataContext, useOrders, useSettings } from './DataContext';
+
+// Imports, backups and restores write to every domain at once, so they read the
+// tables from the data store and hand the rows they save back to it.
+export const AccountDataProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { getOutboxEntries } = useSync();
+  const { repository, publish, getRows } = useDataStore();
+  const { ordersLoadedFrom, loadOrderRange } = useOrders();
+  const { settings, updateSettings } = useSettings();
+
+  // Imports are saved online in one transaction, so a file is never half imported.
+  // A positive opening balance becomes a delivered one-line order; a negative one
+  // (an advance) becomes an unallocated payment, which the ledger treats as credit.
+  const importRecords = useCallback(async (customerDrafts: CustomerImportDraft[], productDrafts: ProductImportDraft[], balancesAsOf: string) => {
+    if (!user) throw new Error("User not authenticated");
+    const createdAt = new Date().toISOString();
+    const newCustomers: Customer[] = [];
+    const newOrders: DailyOrder[] = [];
+    const newPayments: Payment[] = [];
+
+    for (const { opening_balance, ...customer } of customerDrafts) {
+      const newCustomer: Customer = { ...customer, id: uuidv4(), user_id: user.id, created_at: createdAt };
+      newCustomers.push(newCustomer);
+      if (opening_balance > 0) {
+        newOrders.push({
+          id: uuidv4(),
+          user_id: user.id,
+          customer_id: newCustomer.id,
+          customer_name: newCustomer.name,
+          date: balancesAsOf,
+          items: [buildOpeningBalanceItem(opening_balance)],
+          total_amount: opening_balance,
+          amount_paid: 0,
+          status: 'delivered',
+          delivered_at: createdAt,
+          created_at: createdAt,
+        });
+      } else if (opening_balance < 0) {
+        newPayments.push({
+          id: uuidv4(),
+          user_id: user.id,
+          customer_id: newCustomer.id,
+          date: balancesAsOf,
+          amount: -opening_balance,
+          method: 'cash',
+          note: 'Opening balance',
+          created_at: createdAt,
+        });
+      }
+    }
+    const newProducts: Product[] = productDrafts.map(product => ({ ...product, id: uuidv4(), user_id: user.id, created_at: createdAt }));
+
+    await repository.importRecords({ customers: newCustomers, products: newProducts, orders: newOrders, payments: newPayments });
+    invalidateQueries();
+    publish({ type: 'rows', rows: { customers: newCustomers, products: newProducts, daily_orders: newOrders, payments: newPayments } });
+  }, [user, repository, publish]);
+
+  // Backups are made from local state, which includes rows in the Trash and works offline.
+  // Online, orders and payments older than the loaded window are fetched first.
+  const createAccountBackup = useCallback(async () => {
+    const orders = getRows<DailyOrder>('daily_orders');
+    const payments = getRows<Payment>('payments');
+    const paymentAllocations = getRows<PaymentAllocation>('payment_allocations');
+    let ledger: LedgerRows = { orders, payments, allocations: paymentAllocations };
+    if (ordersLoadedFrom !== null && navigator.onLine) {
+      const history = await loadOrderRange(null, null);
+      ledger = {
+        orders: mergeRows(orders, history.orders),
+        payments: mergeRows(payments, history.payments),
+        allocations: mergeRows(paymentAllocations, history.allocations),
+      };
+    }
+    const data: BackupData = {
+      products: getRows<Product>('products'),
+      customers: getRows<Customer>('customers'),
+      product_prices: getRows<ProductPrice>('product_prices'),
+      daily_orders: ledger.orders,
+      subscriptions: getRows<Subscription>('subscriptions'),
+      payments: ledger.payments,
+      payment_allocations: ledger.allocations,
+      routes: getRows<DeliveryRoute>('routes'),
+      route_stops: getRows<RouteStop>('route_stops'),
+      stock_movements: getRows<StockMovement>('stock_movements'),
+      suppliers: getRows<Supplier>('suppliers'),
+      purchases: getRows<Purchase>('purchases'),
+      bills: getRows<Bill>('bills'),
+    };
+    return createBackup(data, settings);
+  }, [settings, ordersLoadedFrom, loadOrderRange, getRows]);
+
+  // Restores run online in one transaction. Queued offline changes must be synced
+  // first, or replaying them afterwards could touch rows the restore replaced.
+  // Rejected changes must be retried or discarded for the same reason.
+  const restoreAccountBackup = useCallback(async (backup: AccountBackup, mode: RestoreMode) => {
+    if (!user) throw new Error("User not authenticated");
+    const outbox = getOutboxEntries();
+    if (outbox.some(entry => entry.error)) throw new Error("Retry or discard the changes that failed to sync before restoring a backup.");
+    if (outbox.length > 0) throw new Error("Sync pending changes before restoring a backup.");
+
+    const { data, idMaps } = remapBackupIds(backup.data, user.id);
+    await repository.restoreBackup(data, mode === 'replace');
+    invalidateQueries();
+
+    if (mode === 'replace') {
+      // Mirrors the database: share links go with their customers, invoices only lose the link.
+      const invoices = getRows<Invoice>('invoices').map(invoice => ({ ...invoice, customer_id: null }));
+      publish({ type: 'rows', rows: { ...data, customer_share_links: [] as CustomerShareLink[], invoices }, replace: true });
+    } else {
+      publish({ type: 'rows', rows: data });
+    }
+    await updateSettings(getRestoredSettings(backup.settings, mode, idMaps.products, settings));
+  }, [user, settings, updateSettings, repository, getOutboxEntries, getRows, publish]);
+
+  // Restoring runs on the server, which writes the entry's "before" snapshot back
+  // into its table. The returned row then replaces or re-adds the local copy.
+  // Payment allocations removed with a deleted order or payment are not restored.
+  const restoreAuditVersion = useCallback(async (entry: AuditEntry) => {
+    const data = await repository.restoreAuditVersion(entry);
+    invalidateQueries();
+    publish({ type: 'upserted', table: entry.table_name as MirrorTable, row: data as { id: string } });
+  }, [repository, publish]);
+
+  const value = useMemo(() => ({
+    restoreAuditVersion, importRecords, createAccountBackup, restoreAccountBackup,
+  }), [restoreAuditVersion, importRecords, createAccountBackup, restoreAccountBackup]);
+
+  return (
+    <AccountDataContext.Provider value={value}>
+      {children}
+    </AccountDataContext.Provider>
+  );
+};
@@ -1,7 +1,9 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useMemo } from 'react';
-import { supabase } from '../lib/supabase';
-import { User as AppUser, Product, Customer, DailyOrder, OrderItem } from '../types';
-import { Session, User as SupabaseUser } from '@supabase/supabase-js';
+import { isNetworkError } from '../lib/offlineStore';
+import { DataRepository, supabaseRepository } from '../lib/dataRepository';
+import { AuthClient, supabaseAuthClient } from '../lib/authClient';
+import { User as AppUser, Membership } from '../types';
+import { hasPermission, Permission } from '../utils/permissions';
 
 interface AuthContextType {
   user: AppUser | null;
@@ -11,257 +13,144 @@ interface AuthContextType {
   sendPasswordResetEmail: (email: string) => Promise<{ success: boolean; message?: string }>;
   updatePassword: (password: string) => Promise<{ success: boolean; message?: string }>;
   authLoading: boolean;
-  products: Product[];
-  customers: Customer[];
-  orders: DailyOrder[];
-  dataLoading: boolean;
-  error: string | null;
-  addProduct: (product: Omit<Product, 'id' | 'user_id' | 'created_at'>) => Promise<void>;
-  updateProduct: (productId: string, updates: Partial<Product>) => Promise<void>;
-  deleteProduct: (productId: string) => Promise<void>;
-  addCustomer: (customer: Omit<Customer, 'id' | 'user_id' | 'created_at'>) => Promise<void>;
-  updateCustomer: (customerId: string, updates: Partial<Customer>) => Promise<void>;
-  deleteCustomer: (customerId: string) => Promise<void>;
-  addOrder: (order: Omit<DailyOrder, 'id' | 'user_id' | 'created_at' | 'items'>, items: OrderItem[]) => Promise<void>;
-  updateOrder: (orderId: string, updates: Partial<DailyOrder>) => Promise<void>;
-  deleteOrder: (orderId: string) => Promise<void>;
+  // Null when the user has no organization, which leaves the app without data.
+  membership: Membership | null;
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const mapSupabaseUserToAppUser = (supabaseUser: SupabaseUser): AppUser => ({
-  id: supabaseUser.id,
-  email: supabaseUser.email || '',
-  username: supabaseUser.user_metadata.username || supabaseUser.email,
-});
+// The membership is cached so roles still apply when the app starts offline.
+const membershipCacheKey = (userId: string) => `membership-${userId}`;
 
-export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+const readCachedMembership = (userId: string): Membership | null => {
+  try {
+    const cached = localStorage.getItem(membershipCacheKey(userId));
+    return cached ? JSON.parse(cached) as Membership : null;
+  } catch {
+    return null;
+  }
+};
+
+interface AuthProviderProps {
+  children: ReactNode;
+  // Who is signed in, and where their membership is looked up. In-memory versions
+  // (see memoryRepository.ts) run the app without Supabase.
+  repository?: DataRepository;
+  auth?: AuthClient;
+}
+
+// The session and the organization membership that decides what the user may do.
+// The organization's data is provided by DataProvider, inside this one.
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children, repository = supabaseRepository, auth = supabaseAuthClient }) => {
   const [user, setUser] = useState<AppUser | null>(null);
   const [authLoading, setAuthLoading] = useState(true);
-  const [products, setProducts] = useState<Product[]>([]);
-  const [customers, setCustomers] = useState<Customer[]>([]);
-  const [orders, setOrders] = useState<DailyOrder[]>([]);
-  const [dataLoading, setDataLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [membership, setMembership] = useState<Membership | null>(null);
+  // Undefined until the auth client first reports who is signed in.
+  const [sessionUser, setSessionUser] = useState<AppUser | null>();
+
+  // Creates the user's own organization on first sign-in, or joins the one they were invited to.
+  const resolveMembership = useCallback(async (userId: string) => {
+    if (!navigator.onLine) return readCachedMembership(userId);
+    try {
+      const currentMembership = await repository.ensureMembership();
+      localStorage.setItem(membershipCacheKey(userId), JSON.stringify(currentMembership));
+      return currentMembership;
+    } catch (err) {
+      if (isNetworkError(err as Error)) return readCachedMembership(userId);
+      console.error("Error loading membership:", err);
+      return null;
+    }
+  }, [repository]);
 
+  // Supabase calls can't be made from inside its auth callback, so the reported user is
+  // kept here first. Session refreshes report the same user again and are ignored.
   useEffect(() => {
     setAuthLoading(true);
-    
-    // onAuthStateChange fires immediately with the current session,
-    // so we don't need a separate getSession() call. This is the
-    // recommended and most robust way to handle auth state. It gracefully
-    // handles session recovery, expiration, and sign-outs.
-    const { data: authListener } = supabase.auth.onAuthStateChange((_event, session) => {
-      const appUser = session ? mapSupabaseUserToAppUser(session.user) : null;
-      setUser(appUser);
-      setAuthLoading(false);
+    return auth.onUserChange(appUser => {
+      setSessionUser(current => current !== undefined && current?.id === appUser?.id ? current : appUser);
     });
+  }, [auth]);
 
-    return () => {
-      authListener.subscription.unsubscribe();
-    };
-  }, []);
-
+  // The user is set together with their membership, so data never loads for a user
+  // whose role isn't known yet.
   useEffect(() => {
-    const fetchData = async () => {
-      if (!user) {
-        setProducts([]);
-        setCustomers([]);
-        setOrders([]);
-        setDataLoading(false);
-        return;
-      }
-
-      setDataLoading(true);
-      setError(null);
-
-      try {
-        const [productsRes, customersRes, ordersRes] = await Promise.all([
-          supabase.from('products').select('*').eq('user_id', user.id),
-          supabase.from('customers').select('*').eq('user_id', user.id),
-          supabase.from('daily_orders').select('*').eq('user_id', user.id),
-        ]);
-
-        if (productsRes.error) throw productsRes.error;
-        if (customersRes.error) throw customersRes.error;
-        if (ordersRes.error) throw ordersRes.error;
-
-        setProducts(productsRes.data || []);
-        setCustomers(customersRes.data || []);
-        
-        // The 'items' column is a JSONB array and is fetched directly with the order.
-        // No need for a separate query.
-        setOrders(ordersRes.data || []);
-
-      } catch (err: any) {
-        setError(err.message);
-        console.error("Error fetching data:", err);
-      } finally {
-        setDataLoading(false);
-      }
+    if (sessionUser === undefined) return;
+    let cancelled = false;
+    (sessionUser ? resolveMembership(sessionUser.id) : Promise.resolve(null)).then(currentMembership => {
+      if (cancelled) return;
+      setMembership(currentMembership);
+      setUser(sessionUser);
+      setAuthLoading(false);
+    });
+    return () => {
+      cancelled = true;
     };
-
-    fetchData();
-  }, [user]);
+  }, [sessionUser, resolveMembership]);
 
   const login = useCallback(async (email: string, password: string) => {
     setAuthLoading(true);
-    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    const { error } = await auth.signIn(email, password);
     setAuthLoading(false);
     if (error) {
       console.error('Login error:', error.message);
       return { success: false, message: error.message };
     }
     return { success: true };
-  }, []);
+  }, [auth]);
 
   const register = useCallback(async (email: string, username: string, password: string) => {
     setAuthLoading(true);
-    const { error } = await supabase.auth.signUp({ email, password, options: { data: { username } } });
+    const { error } = await auth.signUp(email, username, password);
     setAuthLoading(false);
     if (error) {
       console.error('Registration error:', error.message);
       return { success: false, message: error.message };
     }
     return { success: true };
-  }, []);
+  }, [auth]);
 
   const logout = useCallback(async () => {
     setAuthLoading(true);
-    await supabase.auth.signOut();
+    await auth.signOut();
     setUser(null);
+    setMembership(null);
     setAuthLoading(false);
-  }, []);
+  }, [auth]);
 
   const sendPasswordResetEmail = useCallback(async (email: string) => {
     setAuthLoading(true);
-    const { error } = await supabase.auth.resetPasswordForEmail(email, {
-      redirectTo: `${window.location.origin}/update-password`,
-    });
+    const { error } = await auth.sendPasswordReset(email, `${window.location.origin}/update-password`);
     setAuthLoading(false);
     if (error) {
       console.error('Password reset error:', error.message);
       return { success: false, message: error.message };
     }
     return { success: true };
-  }, []);
+  }, [auth]);
 
   const updatePassword = useCallback(async (password: string) => {
     setAuthLoading(true);
-    const { error } = await supabase.auth.updateUser({ password });
+    const { error } = await auth.updatePassword(password);
     setAuthLoading(false);
     if (error) {
       console.error('Password update error:', error.message);
       return { success: false, message: error.message };
     }
     return { success: true };
-  }, []);
-
-  const addProduct = useCallback(async (product: Omit<Product, 'id' | 'user_id' | 'created_at'>) => {
-    if (!user) throw new Error("User not authenticated");
-    const { data, error } = await supabase.from('products').insert({ ...product, user_id: user.id }).select().single();
-    if (error) throw error;
-    if (data) setProducts(p => [...p, data]);
-  }, [user]);
-
-  const updateProduct = useCallback(async (productId: string, updates: Partial<Product>) => {
-    const { data, error } = await supabase.from('products').update(updates).eq('id', productId).select().single();
-    if (error) throw error;
-    if (data) setProducts(p => p.map(prod => prod.id === productId ? { ...prod, ...data } : prod));
-  }, []);
-
-  const deleteProduct = useCallback(async (productId: string) => {
-    const { error } = await supabase.from('products').delete().eq('id', productId);
-    if (error) throw error;
-    setProducts(p => p.filter(prod => prod.id !== productId));
-  }, []);
-
-  const addCustomer = useCallback(async (customer: Omit<Customer, 'id' | 'user_id' | 'created_at'>) => {
-    if (!user) throw new Error("User not authenticated");
-    const { data, error } = await supabase.from('customers').insert({ ...customer, user_id: user.id }).select().single();
-    if (error) throw error;
-    if (data) setCustomers(c => [...c, data]);
-  }, [user]);
-
-  const updateCustomer = useCallback(async (customerId: string, updates: Partial<Customer>) => {
-    const { data, error } = await supabase.from('customers').update(updates).eq('id', customerId).select().single();
-    if (error) throw error;
-    if (data) setCustomers(c => c.map(cust => cust.id === customerId ? { ...cust, ...data } : cust));
-  }, []);
-
-  const deleteCustomer = useCallback(async (customerId: string) => {
-    // First, delete all orders associated with this customer to prevent foreign key violation
-    const { error: ordersError } = await supabase
-      .from('daily_orders')
-      .delete()
-      .eq('customer_id', customerId);
-
-    if (ordersError) {
-      console.error("Error deleting customer's orders:", ordersError);
-      throw ordersError;
-    }
-    
-    // After associated orders are deleted, delete the customer
-    const { error: customerError } = await supabase
-      .from('customers')
-      .delete()
-      .eq('id', customerId);
+  }, [auth]);
 
-    if (customerError) {
-      console.error("Error deleting customer:", customerError);
-      throw customerError;
-    }
-
-    // Update local state for both orders and customers
-    setOrders(o => o.filter(ord => ord.customer_id !== customerId));
-    setCustomers(c => c.filter(cust => cust.id !== customerId));
-  }, []);
-
-  const addOrder = useCallback(async (order: Omit<DailyOrder, 'id' | 'user_id' | 'created_at' | 'items'>, items: OrderItem[]) => {
-    if (!user) throw new Error("User not authenticated");
-
-    // The 'items' are passed as a JSONB array in the payload.
-    const orderPayload = { ...order, user_id: user.id, items: items };
-
-    const { data: newOrder, error: orderError } = await supabase.from('daily_orders').insert(orderPayload).select().single();
-    
-    if (orderError) {
-      console.error("Failed to create order", orderError);
-      throw orderError;
-    }
-    if (!newOrder) throw new Error("Failed to create order.");
-    
-    // The newOrder returned from Supabase already includes the 'items' array.
-    setOrders(o => [...o, newOrder]);
-  }, [user]);
-
-  const updateOrder = useCallback(async (orderId: string, updates: Partial<DailyOrder>) => {
-    const { data, error } = await supabase.from('daily_orders').update(updates).eq('id', orderId).select().single();
-    if (error) throw error;
-    if (data) setOrders(o => o.map(ord => ord.id === orderId ? { ...ord, ...data } : ord));
-  }, []);
-
-  const deleteOrder = useCallback(async (orderId: string) => {
-    const { error } = await supabase.from('daily_orders').delete().eq('id', orderId);
-    if (error) throw error;
-    setOrders(o => o.filter(ord => ord.id !== orderId));
-  }, []);
+  const can = useCallback((permission: Permission) => hasPermission(membership?.role, permission), [membership]);
 
   const value = useMemo(() => ({
-    user, login, register, logout, authLoading, sendPasswordResetEmail, updatePassword,
-    products, customers, orders, dataLoading, error,
-    addProduct, updateProduct, deleteProduct,
-    addCustomer, updateCustomer, deleteCustomer,
-    addOrder, updateOrder, deleteOrder,
-  }), [
-    user, login, register, logout, authLoading, sendPasswordResetEmail, updatePassword,
-    products, customers, orders, dataLoading, error,
-    addProduct, updateProduct, deleteProduct,
-    addCustomer, updateCustomer, deleteCustomer,
-    addOrder, updateOrder, deleteOrder,
-  ]);
-
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+    user, login, register, logout, authLoading, sendPasswordResetEmail, updatePassword, membership, can,
+  }), [user, login, register, logout, authLoading, sendPasswordResetEmail, updatePassword, membership, can]);
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
 };
 
 export const useAuth = () => {
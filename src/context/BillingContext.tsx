@@ -0,0 +1,82 @@
+import React, { useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Bill, Customer, DailyOrder, Invoice, Payment } from '../types';
+import { getDueBillDrafts } from '../utils/billing';
+import { useAuth } from './AuthContext';
+import { useSync } from './useSync';
+import { mergeRows, useDataStore, useTableRows } from './useDataStore';
+import { BillingContext, useOrders } from './DataContext';
+
+export const BillingProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user, can } = useAuth();
+  const { isOnline } = useSync();
+  const { repository, dataLoading, error, getRows } = useDataStore();
+  const { ordersLoadedFrom, loadOrderRange } = useOrders();
+  const [bills, setBills] = useTableRows<Bill>('bills');
+  const [invoices, setInvoices] = useTableRows<Invoice>('invoices');
+
+  // Invoices need a server-issued number, so they can only be created online.
+  const issueInvoice = useCallback(async (invoice: Omit<Invoice, 'id' | 'user_id' | 'created_at' | 'invoice_number' | 'financial_year' | 'sequence'>) => {
+    if (!user) throw new Error("User not authenticated");
+    const issued = await repository.issueInvoice({ ...invoice, user_id: user.id });
+    setInvoices(i => [...i, issued]);
+    return issued;
+  }, [user, repository, setInvoices]);
+
+  // Bills are closed online only, so every device sees one bill per cycle. Bills another
+  // device closed first are skipped; they arrive with the next load.
+  const closeDueBills = useCallback(async () => {
+    if (!user) throw new Error("User not authenticated");
+    const today = new Date().toISOString().split('T')[0];
+    const activeCustomers = getRows<Customer>('customers').filter(customer => !customer.deleted_at);
+    const orders = getRows<DailyOrder>('daily_orders');
+    const payments = getRows<Payment>('payments');
+
+    // A customer's first bill, or a bill due from before the loaded window, needs their
+    // older orders and payments too.
+    const lastBillEnds = bills.reduce((acc, bill) => {
+      if (!acc[bill.customer_id] || bill.period_end > acc[bill.customer_id]) acc[bill.customer_id] = bill.period_end;
+      return acc;
+    }, {} as Record<string, string>);
+    const needHistory = ordersLoadedFrom === null ? [] : activeCustomers
+      .filter(customer => !lastBillEnds[customer.id] || lastBillEnds[customer.id] < ordersLoadedFrom)
+      .map(customer => customer.id);
+    let allOrders = orders;
+    let allPayments = payments;
+    if (needHistory.length > 0) {
+      const history = await loadOrderRange(null, null, needHistory);
+      allOrders = mergeRows(orders, history.orders);
+      allPayments = mergeRows(payments, history.payments);
+    }
+
+    const activeOrders = allOrders.filter(order => !order.deleted_at);
+    const createdAt = new Date().toISOString();
+    const newBills: Bill[] = getDueBillDrafts(activeCustomers, bills, activeOrders, allPayments, today)
+      .map(draft => ({ ...draft, id: uuidv4(), user_id: user.id, created_at: createdAt }));
+    if (newBills.length === 0) return;
+
+    const saved = await repository.addBills(newBills);
+    setBills(b => [...b, ...saved]);
+  }, [user, bills, ordersLoadedFrom, loadOrderRange, repository, getRows, setBills]);
+
+  // Finished cycles are closed once a day, after the data has loaded.
+  const billsClosedForRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!user || dataLoading || error || !isOnline || !can('closeBills')) return;
+    const runKey = `${user.id}-${new Date().toISOString().split('T')[0]}`;
+    if (billsClosedForRef.current === runKey) return;
+    billsClosedForRef.current = runKey;
+    closeDueBills().catch(err => {
+      console.error("Error closing bills:", err);
+      billsClosedForRef.current = null;
+    });
+  }, [user, dataLoading, error, isOnline, can, closeDueBills]);
+
+  const value = useMemo(() => ({ bills, invoices, issueInvoice }), [bills, invoices, issueInvoice]);
+
+  return (
+    <BillingContext.Provider value={value}>
+      {children}
+    </BillingContext.Provider>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useCallback, useMemo, ReactNode } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Customer } from '../types';
+import { useAuth } from './AuthContext';
+import { useSync } from './useSync';
+import { useDataStore, useTableRows } from './useDataStore';
+import { CustomersContext } from './DataContext';
+
+export const CustomersProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { runOrQueue } = useSync();
+  const { publish } = useDataStore();
+  const [customers, setCustomers] = useTableRows<Customer>('customers');
+
+  const addCustomer = useCallback(async (customer: Omit<Customer, 'id' | 'user_id' | 'created_at'>) => {
+    if (!user) throw new Error("User not authenticated");
+    const newCustomer: Customer = { ...customer, id: uuidv4(), user_id: user.id, created_at: new Date().toISOString() };
+    await runOrQueue({ table: 'customers', action: 'insert', recordId: newCustomer.id, matchColumn: 'id', payload: newCustomer });
+    setCustomers(c => [...c, newCustomer]);
+  }, [user, runOrQueue, setCustomers]);
+
+  const updateCustomer = useCallback(async (customerId: string, updates: Partial<Customer>) => {
+    await runOrQueue({ table: 'customers', action: 'update', recordId: customerId, matchColumn: 'id', payload: updates });
+    setCustomers(c => c.map(cust => cust.id === customerId ? { ...cust, ...updates } : cust));
+  }, [runOrQueue, setCustomers]);
+
+  // A deleted customer's orders stay billed, so statements and balances are unchanged.
+  const deleteCustomer = useCallback(async (customerId: string) => {
+    await updateCustomer(customerId, { deleted_at: new Date().toISOString() });
+  }, [updateCustomer]);
+
+  const restoreCustomer = useCallback(async (customerId: string) => {
+    await updateCustomer(customerId, { deleted_at: null });
+  }, [updateCustomer]);
+
+  const purgeCustomer = useCallback(async (customerId: string) => {
+    // First, delete all orders associated with this customer to prevent foreign key violation
+    try {
+      await runOrQueue({ table: 'daily_orders', action: 'delete', recordId: customerId, matchColumn: 'customer_id' });
+    } catch (ordersError) {
+      console.error("Error deleting customer's orders:", ordersError);
+      throw ordersError;
+    }
+
+    // After associated orders are deleted, delete the customer
+    try {
+      await runOrQueue({ table: 'customers', action: 'delete', recordId: customerId, matchColumn: 'id' });
+    } catch (customerError) {
+      console.error("Error deleting customer:", customerError);
+      throw customerError;
+    }
+
+    // The customer's orders, subscriptions, payments, special rates, share links and
+    // route stops go with them, as the ON DELETE CASCADE on customer_id removes them.
+    setCustomers(c => c.filter(cust => cust.id !== customerId));
+    publish({ type: 'removed', table: 'customers', ids: [customerId] });
+  }, [runOrQueue, setCustomers, publish]);
+
+  const activeCustomers = useMemo(() => customers.filter(customer => !customer.deleted_at), [customers]);
+  const deletedCustomers = useMemo(() => customers.filter(customer => customer.deleted_at), [customers]);
+
+  const value = useMemo(() => ({
+    customers: activeCustomers, deletedCustomers,
+    addCustomer, updateCustomer, deleteCustomer, restoreCustomer, purgeCustomer,
+  }), [activeCustomers, deletedCustomers, addCustomer, updateCustomer, deleteCustomer, restoreCustomer, purgeCustomer]);
+
+  return (
+    <CustomersContext.Provider value={value}>
+      {children}
+    </CustomersContext.Provider>
+  );
+};
@@ -0,0 +1,273 @@
+import { createContext, useContext } from 'react';
+import {
+  AuditEntry, Bill, BusinessSettings, Customer, CustomerShareLink, DailyOrder, DeliveryRoute, Invoice, MessageLogEntry, OrderItem,
+  OrganizationInvite, OrganizationMember, OrganizationRole, Payment, PaymentAllocation, Product, ProductPrice, Purchase, RouteStop,
+  StockMovement, Subscription, Supplier,
+} from '../types';
+import { AllocationDraft } from '../utils/ledger';
+import { LedgerRows } from '../lib/ledgerQueries';
+import { DataRepository } from '../lib/dataRepository';
+import { CustomerImportDraft, ProductImportDraft } from '../utils/importData';
+import { AccountBackup, RestoreMode } from '../utils/backup';
+
+// Each domain has its own context and provider, so a page re-renders only when the
+// data it reads changes. DataProvider provides them all, and the ledger totals worked
+// out by the repository.
+
+export interface ProductsContextType {
+  products: Product[];
+  productPrices: ProductPrice[];
+  deletedProducts: Product[];
+  addProduct: (product: Omit<Product, 'id' | 'user_id' | 'created_at'>) => Promise<void>;
+  updateProduct: (productId: string, updates: Partial<Product>) => Promise<void>;
+  deleteProduct: (productId: string) => Promise<void>;
+  restoreProduct: (productId: string) => Promise<void>;
+  purgeProduct: (productId: string) => Promise<void>;
+  addProductPrice: (productPrice: Omit<ProductPrice, 'id' | 'user_id' | 'created_at'>) => Promise<void>;
+  deleteProductPrice: (productPriceId: string) => Promise<void>;
+}
+
+export interface CustomersContextType {
+  customers: Customer[];
+  deletedCustomers: Customer[];
+  addCustomer: (customer: Omit<Customer, 'id' | 'user_id' | 'created_at'>) => Promise<void>;
+  updateCustomer: (customerId: string, updates: Partial<Customer>) => Promise<void>;
+  deleteCustomer: (customerId: string) => Promise<void>;
+  restoreCustomer: (customerId: string) => Promise<void>;
+  purgeCustomer: (customerId: string) => Promise<void>;
+}
+
+export interface OrdersContextType {
+  orders: DailyOrder[];
+  deletedOrders: DailyOrder[];
+  // Every order dated on or after this day is loaded; null once all history is.
+  ordersLoadedFrom: string | null;
+  loadOrderRange: (start: string | null, end: string | null, customerIds?: string[]) => Promise<LedgerRows>;
+  addOrder: (order: Omit<DailyOrder, 'id' | 'user_id' | 'created_at' | 'items'>, items: OrderItem[]) => Promise<DailyOrder>;
+  updateOrder: (orderId: string, updates: Partial<DailyOrder>) => Promise<void>;
+  deleteOrder: (orderId: string) => Promise<void>;
+  restoreOrder: (orderId: string) => Promise<void>;
+  purgeOrder: (orderId: string) => Promise<void>;
+}
+
+export interface PaymentsContextType {
+  payments: Payment[];
+  paymentAllocations: PaymentAllocation[];
+  recordPayment: (payment: Omit<Payment, 'id' | 'user_id' | 'created_at'>, allocations: { order_id: string; amount: number }[]) => Promise<Payment>;
+  addPaymentAllocations: (allocations: AllocationDraft[]) => Promise<void>;
+  deletePayment: (paymentId: string) => Promise<void>;
+}
+
+export interface SubscriptionsContextType {
+  subscriptions: Subscription[];
+  addSubscription: (subscription: Omit<Subscription, 'id' | 'user_id' | 'created_at'>) => Promise<void>;
+  updateSubscription: (subscriptionId: string, updates: Partial<Subscription>) => Promise<void>;
+  deleteSubscription: (subscriptionId: string) => Promise<void>;
+}
+
+export interface RoutesContextType {
+  routes: DeliveryRoute[];
+  // Stops of customers in the Trash are left out.
+  routeStops: RouteStop[];
+  addRoute: (route: Omit<DeliveryRoute, 'id' | 'user_id' | 'created_at'>) => Promise<void>;
+  updateRoute: (routeId: string, updates: Partial<DeliveryRoute>) => Promise<void>;
+  deleteRoute: (routeId: string) => Promise<void>;
+  addRouteStop: (routeId: string, customerId: string) => Promise<void>;
+  removeRouteStop: (stopId: string) => Promise<void>;
+  reorderRouteStops: (orderedStopIds: string[]) => Promise<void>;
+}
+
+export interface StockContextType {
+  stockMovements: StockMovement[];
+  addStockMovement: (movement: Omit<StockMovement, 'id' | 'user_id' | 'created_at'>) => Promise<void>;
+  deleteStockMovement: (movementId: string) => Promise<void>;
+}
+
+export interface SuppliersContextType {
+  suppliers: Supplier[];
+  purchases: Purchase[];
+  addSupplier: (supplier: Omit<Supplier, 'id' | 'user_id' | 'created_at'>) => Promise<void>;
+  updateSupplier: (supplierId: string, updates: Partial<Supplier>) => Promise<void>;
+  deleteSupplier: (supplierId: string) => Promise<void>;
+  addPurchase: (purchase: Omit<Purchase, 'id' | 'user_id' | 'created_at'>) => Promise<void>;
+  updatePurchase: (purchaseId: string, updates: Partial<Purchase>) => Promise<void>;
+  deletePurchase: (purchaseId: string) => Promise<void>;
+}
+
+export interface BillingContextType {
+  bills: Bill[];
+  invoices: Invoice[];
+  issueInvoice: (invoice: Omit<Invoice, 'id' | 'user_id' | 'created_at' | 'invoice_number' | 'financial_year' | 'sequence'>) => Promise<Invoice>;
+}
+
+export interface ShareLinksContextType {
+  shareLinks: CustomerShareLink[];
+  createShareLink: (customerId: string, expiresAt: string) => Promise<CustomerShareLink>;
+  revokeShareLink: (linkId: string) => Promise<void>;
+}
+
+export interface MessagesContextType {
+  messageLog: MessageLogEntry[];
+  logMessage: (entry: Omit<MessageLogEntry, 'id' | 'user_id' | 'created_at'>) => Promise<void>;
+}
+
+export interface TeamContextType {
+  members: OrganizationMember[];
+  invites: OrganizationInvite[];
+  inviteMember: (email: string, role: OrganizationRole) => Promise<void>;
+  revokeInvite: (inviteId: string) => Promise<void>;
+  updateMemberRole: (userId: string, role: OrganizationRole) => Promise<void>;
+  removeMember: (userId: string) => Promise<void>;
+}
+
+export interface SettingsContextType {
+  settings: BusinessSettings;
+  updateSettings: (updates: Partial<BusinessSettings>) => Promise<void>;
+}
+
+// Changes to the account as a whole, each reaching every domain's data.
+export interface AccountDataContextType {
+  restoreAuditVersion: (entry: AuditEntry) => Promise<void>;
+  importRecords: (customers: CustomerImportDraft[], products: ProductImportDraft[], balancesAsOf: string) => Promise<void>;
+  createAccountBackup: () => Promise<AccountBackup>;
+  restoreAccountBackup: (backup: AccountBackup, mode: RestoreMode) => Promise<void>;
+}
+
+// Totals over the whole history, for pages that only have the recent window loaded. Online only.
+export type LedgerQueriesContextType = Pick<DataRepository, 'statementTotals' | 'customerLedgerTotals' | 'soldBefore' | 'dailyProductTotals'>;
+
+export const ProductsContext = createContext<ProductsContextType | undefined>(undefined);
+export const CustomersContext = createContext<CustomersContextType | undefined>(undefined);
+export const OrdersContext = createContext<OrdersContextType | undefined>(undefined);
+export const PaymentsContext = createContext<PaymentsContextType | undefined>(undefined);
+export const LedgerQueriesContext = createContext<LedgerQueriesContextType | undefined>(undefined);
+export const SubscriptionsContext = createContext<SubscriptionsContextType | undefined>(undefined);
+export const RoutesContext = createContext<RoutesContextType | undefined>(undefined);
+export const StockContext = createContext<StockContextType | undefined>(undefined);
+export const SuppliersContext = createContext<SuppliersContextType | undefined>(undefined);
+export const BillingContext = createContext<BillingContextType | undefined>(undefined);
+export const ShareLinksContext = createContext<ShareLinksContextType | undefined>(undefined);
+export const MessagesContext = createContext<MessagesContextType | undefined>(undefined);
+export const TeamContext = createContext<TeamContextType | undefined>(undefined);
+export const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+export const AccountDataContext = createContext<AccountDataContextType | undefined>(undefined);
+
+export const useProducts = () => {
+  const context = useContext(ProductsContext);
+  if (context === undefined) {
+    throw new Error('useProducts must be used within a DataProvider');
+  }
+  return context;
+};
+
+export const useCustomers = () => {
+  const context = useContext(CustomersContext);
+  if (context === undefined) {
+    throw new Error('useCustomers must be used within a DataProvider');
+  }
+  return context;
+};
+
+export const useOrders = () => {
+  const context = useContext(OrdersContext);
+  if (context === undefined) {
+    throw new Error('useOrders must be used within a DataProvider');
+  }
+  return context;
+};
+
+export const usePayments = () => {
+  const context = useContext(PaymentsContext);
+  if (context === undefined) {
+    throw new Error('usePayments must be used within a DataProvider');
+  }
+  return context;
+};
+
+export const useLedgerQueries = () => {
+  const context = useContext(LedgerQueriesContext);
+  if (context === undefined) {
+    throw new Error('useLedgerQueries must be used within a DataProvider');
+  }
+  return context;
+};
+
+export const useSubscriptions = () => {
+  const context = useContext(SubscriptionsContext);
+  if (context === undefined) {
+    throw new Error('useSubscriptions must be used within a DataProvider');
+  }
+  return context;
+};
+
+export const useRoutes = () => {
+  const context = useContext(RoutesContext);
+  if (context === undefined) {
+    throw new Error('useRoutes must be used within a DataProvider');
+  }
+  return context;
+};
+
+export const useStock = () => {
+  const context = useContext(StockContext);
+  if (context === undefined) {
+    throw new Error('useStock must be used within a DataProvider');
+  }
+  return context;
+};
+
+export const useSuppliers = () => {
+  const context = useContext(SuppliersContext);
+  if (context === undefined) {
+    throw new Error('useSuppliers must be used within a DataProvider');
+  }
+  return context;
+};
+
+export const useBilling = () => {
+  const context = useContext(BillingContext);
+  if (context === undefined) {
+    throw new Error('useBilling must be used within a DataProvider');
+  }
+  return context;
+};
+
+export const useShareLinks = () => {
+  const context = useContext(ShareLinksContext);
+  if (context === undefined) {
+    throw new Error('useShareLinks must be used within a DataProvider');
+  }
+  return context;
+};
+
+export const useMessages = () => {
+  const context = useContext(MessagesContext);
+  if (context === undefined) {
+    throw new Error('useMessages must be used within a DataProvider');
+  }
+  return context;
+};
+
+export const useTeam = () => {
+  const context = useContext(TeamContext);
+  if (context === undefined) {
+    throw new Error('useTeam must be used within a DataProvider');
+  }
+  return context;
+};
+
+export const useSettings = () => {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a DataProvider');
+  }
+  return context;
+};
+
+export const useAccountData = () => {
+  const context = useContext(AccountDataContext);
+  if (context === undefined) {
+    throw new Error('useAccountData must be used within a DataProvider');
+  }
+  return context;
+};
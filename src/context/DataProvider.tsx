@@ -0,0 +1,75 @@
+import React, { useMemo, ReactNode } from 'react';
+import { DataRepository, supabaseRepository } from '../lib/dataRepository';
+import { SyncProvider } from './SyncContext';
+import { DataStoreProvider } from './DataStoreContext';
+import { SettingsProvider } from './SettingsContext';
+import { TeamProvider } from './TeamContext';
+import { ProductsProvider } from './ProductsContext';
+import { CustomersProvider } from './CustomersContext';
+import { OrdersProvider } from './OrdersContext';
+import { PaymentsProvider } from './PaymentsContext';
+import { SubscriptionsProvider } from './SubscriptionsContext';
+import { RoutesProvider } from './RoutesContext';
+import { StockProvider } from './StockContext';
+import { SuppliersProvider } from './SuppliersContext';
+import { BillingProvider } from './BillingContext';
+import { ShareLinksProvider } from './ShareLinksContext';
+import { MessagesProvider } from './MessagesContext';
+import { AccountDataProvider } from './AccountDataContext';
+import { LedgerQueriesContext } from './DataContext';
+
+interface DataProviderProps {
+  children: ReactNode;
+  // Where data is loaded from and saved to. The in-memory version (see
+  // memoryRepository.ts) runs the app without Supabase.
+  repository?: DataRepository;
+}
+
+// The signed-in user's organization data, one provider per domain. Providers that
+// read another domain's data are nested inside it.
+export const DataProvider: React.FC<DataProviderProps> = ({ children, repository = supabaseRepository }) => {
+  const ledgerQueriesValue = useMemo(() => ({
+    statementTotals: repository.statementTotals,
+    customerLedgerTotals: repository.customerLedgerTotals,
+    soldBefore: repository.soldBefore,
+    dailyProductTotals: repository.dailyProductTotals,
+  }), [repository]);
+
+  return (
+    <SyncProvider repository={repository}>
+      <DataStoreProvider repository={repository}>
+        <LedgerQueriesContext.Provider value={ledgerQueriesValue}>
+          <SettingsProvider>
+            <TeamProvider>
+              <ProductsProvider>
+                <CustomersProvider>
+                  <OrdersProvider>
+                    <PaymentsProvider>
+                      <SubscriptionsProvider>
+                        <RoutesProvider>
+                          <StockProvider>
+                            <SuppliersProvider>
+                              <BillingProvider>
+                                <ShareLinksProvider>
+                                  <MessagesProvider>
+                                    <AccountDataProvider>
+                                      {children}
+                                    </AccountDataProvider>
+                                  </MessagesProvider>
+                                </ShareLinksProvider>
+                              </BillingProvider>
+                            </SuppliersProvider>
+                          </StockProvider>
+                        </RoutesProvider>
+                      </SubscriptionsProvider>
+                    </PaymentsProvider>
+                  </OrdersProvider>
+                </CustomersProvider>
+              </ProductsProvider>
+            </TeamProvider>
+          </SettingsProvider>
+        </LedgerQueriesContext.Provider>
+      </DataStoreProvider>
+    </SyncProvider>
+  );
+};
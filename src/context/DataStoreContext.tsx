@@ -0,0 +1,126 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
+import { MirrorTable, SnapshotTable, getMirror, isNetworkError, snapshotTables } from '../lib/offlineStore';
+import { LEDGER_QUERY_PREFIX, getLedgerWindowStart, ledgerTables } from '../lib/ledgerQueries';
+import { DataRepository, DataSnapshot } from '../lib/dataRepository';
+import { invalidateQueries } from '../lib/queryCache';
+import { getChangedRecordId, getQueuedChanges } from '../lib/realtime';
+import { useAuth } from './AuthContext';
+import { useSync } from './useSync';
+import { DataEvent, DataStoreContext } from './useDataStore';
+
+const emptySnapshot: DataSnapshot = {
+  products: [], productPrices: [], customers: [], orders: [], subscriptions: [], payments: [], paymentAllocations: [],
+  bills: [], invoices: [], routes: [], routeStops: [], stockMovements: [], suppliers: [], purchases: [], shareLinks: [],
+  messageLog: [], members: [], invites: [], settings: null,
+};
+
+const loadMirror = async (userId: string): Promise<DataSnapshot> => {
+  const keys = Object.keys(snapshotTables) as SnapshotTable[];
+  const tables = await Promise.all(keys.map(key => getMirror(userId, snapshotTables[key])));
+  return keys.reduce((snapshot, key, index) => ({ ...snapshot, [key]: tables[index] }), emptySnapshot);
+};
+
+interface DataStoreProviderProps {
+  children: ReactNode;
+  repository: DataRepository;
+}
+
+// Loads the organization's data and hands it to the domain providers, which each keep
+// their own tables. Changes made on other devices arrive here live and are passed on.
+export const DataStoreProvider: React.FC<DataStoreProviderProps> = ({ children, repository }) => {
+  const { user, membership } = useAuth();
+  const { isOnline, syncPendingChanges, getOutboxEntries, markConflicted, reloadCount } = useSync();
+  const [dataLoading, setDataLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const listenersRef = useRef(new Set<(event: DataEvent) => void>());
+  const tablesRef = useRef<Partial<Record<MirrorTable, { id: string }[]>>>({});
+
+  const subscribe = useCallback((listener: (event: DataEvent) => void) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const publish = useCallback((event: DataEvent) => {
+    [...listenersRef.current].forEach(listener => listener(event));
+  }, []);
+
+  const getRows = useCallback(<T,>(table: MirrorTable) => (tablesRef.current[table] ?? []) as T[], []);
+
+  const trackRows = useCallback((table: MirrorTable, rows: { id: string }[]) => {
+    tablesRef.current[table] = rows;
+  }, []);
+
+  useEffect(() => {
+    const loadFromMirror = async (userId: string) => {
+      publish({ type: 'loaded', snapshot: await loadMirror(userId), ordersLoadedFrom: getLedgerWindowStart(), offline: true });
+    };
+
+    const fetchData = async () => {
+      if (!user) {
+        invalidateQueries();
+        publish({ type: 'loaded', snapshot: emptySnapshot, ordersLoadedFrom: null, offline: false });
+        setDataLoading(false);
+        return;
+      }
+
+      setDataLoading(true);
+      setError(null);
+
+      try {
+        if (!navigator.onLine) {
+          await loadFromMirror(user.id);
+          return;
+        }
+        if (!membership) throw new Error("No organization");
+
+        // Push changes made offline first, so the fetched rows already include them.
+        await syncPendingChanges();
+
+        const windowStart = getLedgerWindowStart();
+        const snapshot = await repository.load(membership.organization_id, windowStart);
+        invalidateQueries();
+        publish({ type: 'loaded', snapshot, ordersLoadedFrom: windowStart, offline: false });
+      } catch (err: any) {
+        if (isNetworkError(err)) {
+          try {
+            await loadFromMirror(user.id);
+            return;
+          } catch (mirrorErr) {
+            console.error("Error loading offline data:", mirrorErr);
+          }
+        }
+        setError(err.message);
+        console.error("Error fetching data:", err);
+      } finally {
+        setDataLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [user, membership, repository, syncPendingChanges, publish, reloadCount]);
+
+  // Changes made on other devices arrive live and are merged into local state.
+  // Queued changes from this device are kept on top, since they are sent later and win.
+  useEffect(() => {
+    if (!user || dataLoading || error || !isOnline || !membership) return;
+    return repository.subscribe(membership.organization_id, change => {
+      const pending = getQueuedChanges(change, getOutboxEntries());
+      if (pending.length > 0) markConflicted(getChangedRecordId(change));
+      publish({ type: 'remote', change, pending });
+      // Totals cached before the change don't include it.
+      if (ledgerTables.includes(change.table)) invalidateQueries(LEDGER_QUERY_PREFIX);
+    });
+  }, [user, repository, dataLoading, error, isOnline, membership, getOutboxEntries, markConflicted, publish]);
+
+  const value = useMemo(() => ({
+    repository, dataLoading, error, publish, subscribe, getRows, trackRows,
+  }), [repository, dataLoading, error, publish, subscribe, getRows, trackRows]);
+
+  return (
+    <DataStoreContext.Provider value={value}>
+      {children}
+    </DataStoreContext.Provider>
+  );
+};
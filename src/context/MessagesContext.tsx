@@ -0,0 +1,28 @@
+import React, { useCallback, useMemo, ReactNode } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { MessageLogEntry } from '../types';
+import { useAuth } from './AuthContext';
+import { useSync } from './useSync';
+import { useTableRows } from './useDataStore';
+import { MessagesContext } from './DataContext';
+
+export const MessagesProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { runOrQueue } = useSync();
+  const [messageLog, setMessageLog] = useTableRows<MessageLogEntry>('messageLog');
+
+  const logMessage = useCallback(async (entry: Omit<MessageLogEntry, 'id' | 'user_id' | 'created_at'>) => {
+    if (!user) throw new Error("User not authenticated");
+    const newEntry: MessageLogEntry = { ...entry, id: uuidv4(), user_id: user.id, created_at: new Date().toISOString() };
+    await runOrQueue({ table: 'message_log', action: 'insert', recordId: newEntry.id, matchColumn: 'id', payload: newEntry });
+    setMessageLog(m => [...m, newEntry]);
+  }, [user, runOrQueue, setMessageLog]);
+
+  const value = useMemo(() => ({ messageLog, logMessage }), [messageLog, logMessage]);
+
+  return (
+    <MessagesContext.Provider value={value}>
+      {children}
+    </MessagesContext.Provider>
+  );
+};
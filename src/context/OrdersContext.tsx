@@ -0,0 +1,109 @@
+import React, { useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { DailyOrder, OrderItem } from '../types';
+import { OutboxEntry } from '../lib/offlineStore';
+import { RemoteChange, keepOrderItems, mergeRemoteChange, mergeRemoteOrderItem } from '../lib/realtime';
+import { toOrderItemRows } from '../lib/orderItems';
+import { useAuth } from './AuthContext';
+import { useSync } from './useSync';
+import { TableReferences, useDataStore, useTableRows } from './useDataStore';
+import { OrdersContext } from './DataContext';
+
+const orderReferences: TableReferences<DailyOrder> = { customers: 'customer_id' };
+
+const mergeRemoteOrder = (orders: DailyOrder[], change: RemoteChange, pending: OutboxEntry[]) =>
+  mergeRemoteChange(orders, keepOrderItems(change, orders), pending);
+
+export const OrdersProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { runOrQueue } = useSync();
+  const { repository, publish, subscribe } = useDataStore();
+  const [orders, setOrders] = useTableRows<DailyOrder>('orders', orderReferences, mergeRemoteOrder);
+  // Every order and payment dated on or after this day is loaded; older ones only
+  // when they are still open or a page asked for them. Null once all history is loaded.
+  const [ordersLoadedFrom, setOrdersLoadedFrom] = useState<string | null>(null);
+
+  useEffect(() => subscribe(event => {
+    if (event.type === 'loaded') setOrdersLoadedFrom(event.ordersLoadedFrom);
+    // A replacing restore brings the whole history.
+    if (event.type === 'rows' && event.replace && event.rows.daily_orders) setOrdersLoadedFrom(null);
+    if (event.type === 'remote' && event.change.table === 'order_items') {
+      const { change, pending } = event;
+      setOrders(rows => mergeRemoteOrderItem(rows, change, pending));
+    }
+  }), [subscribe, setOrders]);
+
+  const addOrder = useCallback(async (order: Omit<DailyOrder, 'id' | 'user_id' | 'created_at' | 'items'>, items: OrderItem[]) => {
+    if (!user) throw new Error("User not authenticated");
+
+    // The id is generated here so the order can be referenced before it reaches the server.
+    // The order is sent with its items and saved together with them.
+    const newOrder: DailyOrder = { ...order, items, id: uuidv4(), user_id: user.id, created_at: new Date().toISOString() };
+
+    try {
+      await runOrQueue({ table: 'daily_orders', action: 'insert', recordId: newOrder.id, matchColumn: 'id', payload: newOrder });
+    } catch (orderError) {
+      console.error("Failed to create order", orderError);
+      throw orderError;
+    }
+
+    setOrders(o => [...o, newOrder]);
+    return newOrder;
+  }, [user, runOrQueue, setOrders]);
+
+  // New items replace the order's old ones in 'order_items', all at once.
+  const updateOrder = useCallback(async (orderId: string, updates: Partial<DailyOrder>) => {
+    const { items, ...rowUpdates } = updates;
+    if (Object.keys(rowUpdates).length > 0) {
+      await runOrQueue({ table: 'daily_orders', action: 'update', recordId: orderId, matchColumn: 'id', payload: rowUpdates });
+    }
+    if (items) {
+      if (!user) throw new Error("User not authenticated");
+      await runOrQueue({ table: 'order_items', action: 'replace', recordId: orderId, matchColumn: 'order_id', payload: toOrderItemRows({ id: orderId, user_id: user.id, items }) });
+    }
+    setOrders(o => o.map(ord => ord.id === orderId ? { ...ord, ...updates } : ord));
+  }, [user, runOrQueue, setOrders]);
+
+  // Allocations to a deleted order are kept but not exposed (see PaymentsProvider),
+  // so the money counts as credit until the order is restored.
+  const deleteOrder = useCallback(async (orderId: string) => {
+    await updateOrder(orderId, { deleted_at: new Date().toISOString() });
+  }, [updateOrder]);
+
+  const restoreOrder = useCallback(async (orderId: string) => {
+    await updateOrder(orderId, { deleted_at: null });
+  }, [updateOrder]);
+
+  const purgeOrder = useCallback(async (orderId: string) => {
+    await runOrQueue({ table: 'daily_orders', action: 'delete', recordId: orderId, matchColumn: 'id' });
+    setOrders(o => o.filter(ord => ord.id !== orderId));
+    // Allocations to the order are removed by ON DELETE CASCADE; the payment amount becomes credit.
+    publish({ type: 'removed', table: 'daily_orders', ids: [orderId] });
+  }, [runOrQueue, setOrders, publish]);
+
+  // Loads orders and payments dated in a range (either end may be open) into local
+  // state, for pages showing history older than the loaded window. Results are cached
+  // per range, so asking again costs nothing until the ledger changes.
+  const loadOrderRange = useCallback(async (start: string | null, end: string | null, customerIds?: string[]) => {
+    const loaded = await repository.loadLedgerRange(start, end, customerIds);
+    publish({ type: 'rows', rows: { daily_orders: loaded.orders, payments: loaded.payments, payment_allocations: loaded.allocations } });
+    if (!customerIds && (end === null || (ordersLoadedFrom !== null && end >= ordersLoadedFrom))) {
+      setOrdersLoadedFrom(current => current === null || start === null || start < current ? start : current);
+    }
+    return loaded;
+  }, [repository, publish, ordersLoadedFrom]);
+
+  const activeOrders = useMemo(() => orders.filter(order => !order.deleted_at), [orders]);
+  const deletedOrders = useMemo(() => orders.filter(order => order.deleted_at), [orders]);
+
+  const value = useMemo(() => ({
+    orders: activeOrders, deletedOrders, ordersLoadedFrom, loadOrderRange,
+    addOrder, updateOrder, deleteOrder, restoreOrder, purgeOrder,
+  }), [activeOrders, deletedOrders, ordersLoadedFrom, loadOrderRange, addOrder, updateOrder, deleteOrder, restoreOrder, purgeOrder]);
+
+  return (
+    <OrdersContext.Provider value={value}>
+      {children}
+    </OrdersContext.Provider>
+  );
+};
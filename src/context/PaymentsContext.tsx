@@ -0,0 +1,67 @@
+import React, { useCallback, useMemo, ReactNode } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Payment, PaymentAllocation } from '../types';
+import { AllocationDraft } from '../utils/ledger';
+import { useAuth } from './AuthContext';
+import { useSync } from './useSync';
+import { TableReferences, useDataStore, useTableRows } from './useDataStore';
+import { PaymentsContext, useOrders } from './DataContext';
+
+const paymentReferences: TableReferences<Payment> = { customers: 'customer_id' };
+const allocationReferences: TableReferences<PaymentAllocation> = { daily_orders: 'order_id', payments: 'payment_id' };
+
+export const PaymentsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { runOrQueue } = useSync();
+  const { publish } = useDataStore();
+  const { deletedOrders } = useOrders();
+  const [payments, setPayments] = useTableRows<Payment>('payments', paymentReferences);
+  const [paymentAllocations, setPaymentAllocations] = useTableRows<PaymentAllocation>('paymentAllocations', allocationReferences);
+
+  const addPaymentAllocations = useCallback(async (allocations: AllocationDraft[]) => {
+    if (!user) throw new Error("User not authenticated");
+    const newAllocations: PaymentAllocation[] = allocations.map(allocation => ({
+      ...allocation,
+      id: uuidv4(),
+      user_id: user.id,
+      created_at: new Date().toISOString(),
+    }));
+    for (const allocation of newAllocations) {
+      await runOrQueue({ table: 'payment_allocations', action: 'insert', recordId: allocation.id, matchColumn: 'id', payload: allocation });
+    }
+    setPaymentAllocations(a => [...a, ...newAllocations]);
+  }, [user, runOrQueue, setPaymentAllocations]);
+
+  const recordPayment = useCallback(async (payment: Omit<Payment, 'id' | 'user_id' | 'created_at'>, allocations: { order_id: string; amount: number }[]) => {
+    if (!user) throw new Error("User not authenticated");
+    const newPayment: Payment = { ...payment, id: uuidv4(), user_id: user.id, created_at: new Date().toISOString() };
+    await runOrQueue({ table: 'payments', action: 'insert', recordId: newPayment.id, matchColumn: 'id', payload: newPayment });
+    setPayments(p => [...p, newPayment]);
+    await addPaymentAllocations(allocations.map(allocation => ({ ...allocation, payment_id: newPayment.id })));
+    return newPayment;
+  }, [user, runOrQueue, setPayments, addPaymentAllocations]);
+
+  const deletePayment = useCallback(async (paymentId: string) => {
+    await runOrQueue({ table: 'payments', action: 'delete', recordId: paymentId, matchColumn: 'id' });
+    setPayments(p => p.filter(pay => pay.id !== paymentId));
+    publish({ type: 'removed', table: 'payments', ids: [paymentId] });
+  }, [runOrQueue, setPayments, publish]);
+
+  // Allocations to orders in the Trash are kept but not exposed, so the money
+  // counts as credit until the order is restored.
+  const activeAllocations = useMemo(() => {
+    const deletedOrderIds = new Set(deletedOrders.map(order => order.id));
+    return paymentAllocations.filter(allocation => !deletedOrderIds.has(allocation.order_id));
+  }, [paymentAllocations, deletedOrders]);
+
+  const value = useMemo(() => ({
+    payments, paymentAllocations: activeAllocations,
+    recordPayment, addPaymentAllocations, deletePayment,
+  }), [payments, activeAllocations, recordPayment, addPaymentAllocations, deletePayment]);
+
+  return (
+    <PaymentsContext.Provider value={value}>
+      {children}
+    </PaymentsContext.Provider>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useCallback, useMemo, ReactNode } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Product, ProductPrice } from '../types';
+import { useAuth } from './AuthContext';
+import { useSync } from './useSync';
+import { TableReferences, useDataStore, useTableRows } from './useDataStore';
+import { ProductsContext } from './DataContext';
+
+// Prices are removed by the ON DELETE CASCADE on product_id and customer_id.
+const priceReferences: TableReferences<ProductPrice> = { products: 'product_id', customers: 'customer_id' };
+
+export const ProductsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { runOrQueue } = useSync();
+  const { publish } = useDataStore();
+  const [products, setProducts] = useTableRows<Product>('products');
+  const [productPrices, setProductPrices] = useTableRows<ProductPrice>('productPrices', priceReferences);
+
+  const addProduct = useCallback(async (product: Omit<Product, 'id' | 'user_id' | 'created_at'>) => {
+    if (!user) throw new Error("User not authenticated");
+    const newProduct: Product = { ...product, id: uuidv4(), user_id: user.id, created_at: new Date().toISOString() };
+    await runOrQueue({ table: 'products', action: 'insert', recordId: newProduct.id, matchColumn: 'id', payload: newProduct });
+    setProducts(p => [...p, newProduct]);
+  }, [user, runOrQueue, setProducts]);
+
+  const updateProduct = useCallback(async (productId: string, updates: Partial<Product>) => {
+    await runOrQueue({ table: 'products', action: 'update', recordId: productId, matchColumn: 'id', payload: updates });
+    setProducts(p => p.map(prod => prod.id === productId ? { ...prod, ...updates } : prod));
+  }, [runOrQueue, setProducts]);
+
+  // Products, customers and orders are soft-deleted into the Trash first; purging
+  // removes them for good.
+  const deleteProduct = useCallback(async (productId: string) => {
+    await updateProduct(productId, { deleted_at: new Date().toISOString() });
+  }, [updateProduct]);
+
+  const restoreProduct = useCallback(async (productId: string) => {
+    await updateProduct(productId, { deleted_at: null });
+  }, [updateProduct]);
+
+  // Prices, stock movements and purchases of the product go with it.
+  const purgeProduct = useCallback(async (productId: string) => {
+    await runOrQueue({ table: 'products', action: 'delete', recordId: productId, matchColumn: 'id' });
+    setProducts(p => p.filter(prod => prod.id !== productId));
+    publish({ type: 'removed', table: 'products', ids: [productId] });
+  }, [runOrQueue, setProducts, publish]);
+
+  const addProductPrice = useCallback(async (productPrice: Omit<ProductPrice, 'id' | 'user_id' | 'created_at'>) => {
+    if (!user) throw new Error("User not authenticated");
+    const newProductPrice: ProductPrice = { ...productPrice, id: uuidv4(), user_id: user.id, created_at: new Date().toISOString() };
+    await runOrQueue({ table: 'product_prices', action: 'insert', recordId: newProductPrice.id, matchColumn: 'id', payload: newProductPrice });
+    setProductPrices(pp => [...pp, newProductPrice]);
+  }, [user, runOrQueue, setProductPrices]);
+
+  const deleteProductPrice = useCallback(async (productPriceId: string) => {
+    await runOrQueue({ table: 'product_prices', action: 'delete', recordId: productPriceId, matchColumn: 'id' });
+    setProductPrices(pp => pp.filter(price => price.id !== productPriceId));
+  }, [runOrQueue, setProductPrices]);
+
+  // Rows in the Trash stay in state and in the offline mirror so they can be restored,
+  // but pages only see active ones unless they ask for the deleted lists.
+  const activeProducts = useMemo(() => products.filter(product => !product.deleted_at), [products]);
+  const deletedProducts = useMemo(() => products.filter(product => product.deleted_at), [products]);
+
+  const value = useMemo(() => ({
+    products: activeProducts, productPrices, deletedProducts,
+    addProduct, updateProduct, deleteProduct, restoreProduct, purgeProduct, addProductPrice, deleteProductPrice,
+  }), [activeProducts, productPrices, deletedProducts, addProduct, updateProduct, deleteProduct, restoreProduct, purgeProduct, addProductPrice, deleteProductPrice]);
+
+  return (
+    <ProductsContext.Provider value={value}>
+      {children}
+    </ProductsContext.Provider>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useCallback, useMemo, ReactNode } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { DeliveryRoute, RouteStop } from '../types';
+import { useAuth } from './AuthContext';
+import { useSync } from './useSync';
+import { TableReferences, useDataStore, useTableRows } from './useDataStore';
+import { RoutesContext, useCustomers } from './DataContext';
+
+// Stops are removed by the ON DELETE CASCADE on route_id and customer_id.
+const stopReferences: TableReferences<RouteStop> = { routes: 'route_id', customers: 'customer_id' };
+
+export const RoutesProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { runOrQueue } = useSync();
+  const { publish } = useDataStore();
+  const { deletedCustomers } = useCustomers();
+  const [routes, setRoutes] = useTableRows<DeliveryRoute>('routes');
+  const [routeStops, setRouteStops] = useTableRows<RouteStop>('routeStops', stopReferences);
+
+  const addRoute = useCallback(async (route: Omit<DeliveryRoute, 'id' | 'user_id' | 'created_at'>) => {
+    if (!user) throw new Error("User not authenticated");
+    const newRoute: DeliveryRoute = { ...route, id: uuidv4(), user_id: user.id, created_at: new Date().toISOString() };
+    await runOrQueue({ table: 'routes', action: 'insert', recordId: newRoute.id, matchColumn: 'id', payload: newRoute });
+    setRoutes(r => [...r, newRoute]);
+  }, [user, runOrQueue, setRoutes]);
+
+  const updateRoute = useCallback(async (routeId: string, updates: Partial<DeliveryRoute>) => {
+    await runOrQueue({ table: 'routes', action: 'update', recordId: routeId, matchColumn: 'id', payload: updates });
+    setRoutes(r => r.map(route => route.id === routeId ? { ...route, ...updates } : route));
+  }, [runOrQueue, setRoutes]);
+
+  const deleteRoute = useCallback(async (routeId: string) => {
+    await runOrQueue({ table: 'routes', action: 'delete', recordId: routeId, matchColumn: 'id' });
+    setRoutes(r => r.filter(route => route.id !== routeId));
+    publish({ type: 'removed', table: 'routes', ids: [routeId] });
+  }, [runOrQueue, setRoutes, publish]);
+
+  const addRouteStop = useCallback(async (routeId: string, customerId: string) => {
+    if (!user) throw new Error("User not authenticated");
+    const lastPosition = Math.max(-1, ...routeStops.filter(stop => stop.route_id === routeId).map(stop => stop.position));
+    const newStop: RouteStop = { id: uuidv4(), user_id: user.id, route_id: routeId, customer_id: customerId, position: lastPosition + 1, created_at: new Date().toISOString() };
+    await runOrQueue({ table: 'route_stops', action: 'insert', recordId: newStop.id, matchColumn: 'id', payload: newStop });
+    setRouteStops(rs => [...rs, newStop]);
+  }, [user, routeStops, runOrQueue, setRouteStops]);
+
+  const removeRouteStop = useCallback(async (stopId: string) => {
+    await runOrQueue({ table: 'route_stops', action: 'delete', recordId: stopId, matchColumn: 'id' });
+    setRouteStops(rs => rs.filter(stop => stop.id !== stopId));
+  }, [runOrQueue, setRouteStops]);
+
+  // Only stops whose position actually changed are written.
+  const reorderRouteStops = useCallback(async (orderedStopIds: string[]) => {
+    const changed = orderedStopIds
+      .map((stopId, position) => ({ stopId, position }))
+      .filter(({ stopId, position }) => routeStops.find(stop => stop.id === stopId)?.position !== position);
+    for (const { stopId, position } of changed) {
+      await runOrQueue({ table: 'route_stops', action: 'update', recordId: stopId, matchColumn: 'id', payload: { position } });
+    }
+    const positions = new Map(orderedStopIds.map((stopId, position) => [stopId, position]));
+    setRouteStops(rs => rs.map(stop => ({ ...stop, position: positions.get(stop.id) ?? stop.position })));
+  }, [routeStops, runOrQueue, setRouteStops]);
+
+  const activeRouteStops = useMemo(() => {
+    const deletedCustomerIds = new Set(deletedCustomers.map(customer => customer.id));
+    return routeStops.filter(stop => !deletedCustomerIds.has(stop.customer_id));
+  }, [routeStops, deletedCustomers]);
+
+  const value = useMemo(() => ({
+    routes, routeStops: activeRouteStops, addRoute, updateRoute, deleteRoute, addRouteStop, removeRouteStop, reorderRouteStops,
+  }), [routes, activeRouteStops, addRoute, updateRoute, deleteRoute, addRouteStop, removeRouteStop, reorderRouteStops]);
+
+  return (
+    <RoutesContext.Provider value={value}>
+      {children}
+    </RoutesContext.Provider>
+  );
+};
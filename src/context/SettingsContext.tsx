@@ -0,0 +1,66 @@
+import React, { useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { BusinessSettings } from '../types';
+import { hasPermission } from '../utils/permissions';
+import { clearLegacySettings, defaultBusinessSettings, readLegacySettings, withSettingDefaults } from '../utils/settings';
+import { useAuth } from './AuthContext';
+import { useDataStore } from './useDataStore';
+import { SettingsContext } from './DataContext';
+
+// Settings are cached so PDFs and the Keret calculator work offline.
+const settingsCacheKey = (userId: string) => `settings-${userId}`;
+
+const readCachedSettings = (userId: string): BusinessSettings => {
+  try {
+    const cached = localStorage.getItem(settingsCacheKey(userId));
+    return withSettingDefaults(cached ? JSON.parse(cached) as Partial<BusinessSettings> : readLegacySettings());
+  } catch {
+    return defaultBusinessSettings;
+  }
+};
+
+export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user, membership } = useAuth();
+  const { repository, subscribe } = useDataStore();
+  const [settings, setSettings] = useState<BusinessSettings>(defaultBusinessSettings);
+
+  useEffect(() => subscribe(event => {
+    if (event.type !== 'loaded') return;
+    if (!user) {
+      setSettings(defaultBusinessSettings);
+      return;
+    }
+    if (event.offline || !membership) {
+      setSettings(readCachedSettings(user.id));
+      return;
+    }
+
+    // Accounts without a settings row start from what this device kept in
+    // localStorage. The first owner or accountant to load saves it for everyone.
+    const currentSettings = withSettingDefaults(event.snapshot.settings ?? readLegacySettings());
+    setSettings(currentSettings);
+    localStorage.setItem(settingsCacheKey(user.id), JSON.stringify(currentSettings));
+    if (!event.snapshot.settings && hasPermission(membership.role, 'manageSettings')) {
+      repository.saveSettings(membership.organization_id, currentSettings, user.id)
+        .then(clearLegacySettings)
+        .catch(settingsError => console.error("Error saving settings:", settingsError));
+    }
+  }), [user, membership, repository, subscribe]);
+
+  // Settings are changed online only, like team changes, so every device sees one version.
+  const updateSettings = useCallback(async (updates: Partial<BusinessSettings>) => {
+    if (!user) throw new Error("User not authenticated");
+    if (!membership) throw new Error("No organization");
+    const nextSettings = { ...settings, ...updates };
+    await repository.saveSettings(membership.organization_id, nextSettings, user.id);
+    setSettings(nextSettings);
+    localStorage.setItem(settingsCacheKey(user.id), JSON.stringify(nextSettings));
+  }, [user, membership, settings, repository]);
+
+  const value = useMemo(() => ({ settings, updateSettings }), [settings, updateSettings]);
+
+  return (
+    <SettingsContext.Provider value={value}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
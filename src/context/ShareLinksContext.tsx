@@ -0,0 +1,36 @@
+import React, { useCallback, useMemo, ReactNode } from 'react';
+import { CustomerShareLink } from '../types';
+import { useAuth } from './AuthContext';
+import { TableReferences, useDataStore, useTableRows } from './useDataStore';
+import { ShareLinksContext } from './DataContext';
+
+const linkReferences: TableReferences<CustomerShareLink> = { customers: 'customer_id' };
+
+// Share links are created and revoked online only: the token comes from the
+// database, and a revocation has to take effect before the link is shared on.
+export const ShareLinksProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { repository } = useDataStore();
+  const [shareLinks, setShareLinks] = useTableRows<CustomerShareLink>('shareLinks', linkReferences);
+
+  const createShareLink = useCallback(async (customerId: string, expiresAt: string) => {
+    if (!user) throw new Error("User not authenticated");
+    const link = await repository.createShareLink({ user_id: user.id, customer_id: customerId, expires_at: expiresAt });
+    setShareLinks(l => [...l, link]);
+    return link;
+  }, [user, repository, setShareLinks]);
+
+  const revokeShareLink = useCallback(async (linkId: string) => {
+    const revokedAt = new Date().toISOString();
+    await repository.revokeShareLink(linkId, revokedAt);
+    setShareLinks(l => l.map(link => link.id === linkId ? { ...link, revoked_at: revokedAt } : link));
+  }, [repository, setShareLinks]);
+
+  const value = useMemo(() => ({ shareLinks, createShareLink, revokeShareLink }), [shareLinks, createShareLink, revokeShareLink]);
+
+  return (
+    <ShareLinksContext.Provider value={value}>
+      {children}
+    </ShareLinksContext.Provider>
+  );
+};
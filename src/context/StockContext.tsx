@@ -0,0 +1,37 @@
+import React, { useCallback, useMemo, ReactNode } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { StockMovement } from '../types';
+import { useAuth } from './AuthContext';
+import { useSync } from './useSync';
+import { TableReferences, useTableRows } from './useDataStore';
+import { StockContext } from './DataContext';
+
+const movementReferences: TableReferences<StockMovement> = { products: 'product_id' };
+
+export const StockProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { runOrQueue } = useSync();
+  const [stockMovements, setStockMovements] = useTableRows<StockMovement>('stockMovements', movementReferences);
+
+  const addStockMovement = useCallback(async (movement: Omit<StockMovement, 'id' | 'user_id' | 'created_at'>) => {
+    if (!user) throw new Error("User not authenticated");
+    const newMovement: StockMovement = { ...movement, id: uuidv4(), user_id: user.id, created_at: new Date().toISOString() };
+    await runOrQueue({ table: 'stock_movements', action: 'insert', recordId: newMovement.id, matchColumn: 'id', payload: newMovement });
+    setStockMovements(sm => [...sm, newMovement]);
+  }, [user, runOrQueue, setStockMovements]);
+
+  const deleteStockMovement = useCallback(async (movementId: string) => {
+    await runOrQueue({ table: 'stock_movements', action: 'delete', recordId: movementId, matchColumn: 'id' });
+    setStockMovements(sm => sm.filter(movement => movement.id !== movementId));
+  }, [runOrQueue, setStockMovements]);
+
+  const value = useMemo(() => ({
+    stockMovements, addStockMovement, deleteStockMovement,
+  }), [stockMovements, addStockMovement, deleteStockMovement]);
+
+  return (
+    <StockContext.Provider value={value}>
+      {children}
+    </StockContext.Provider>
+  );
+};
@@ -0,0 +1,40 @@
+import React, { useCallback, useMemo, ReactNode } from 'react';
+import { Subscription } from '../types';
+import { useAuth } from './AuthContext';
+import { TableReferences, useDataStore, useTableRows } from './useDataStore';
+import { SubscriptionsContext } from './DataContext';
+
+const subscriptionReferences: TableReferences<Subscription> = { customers: 'customer_id' };
+
+// Subscriptions are saved online only, through the repository.
+export const SubscriptionsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { repository } = useDataStore();
+  const [subscriptions, setSubscriptions] = useTableRows<Subscription>('subscriptions', subscriptionReferences);
+
+  const addSubscription = useCallback(async (subscription: Omit<Subscription, 'id' | 'user_id' | 'created_at'>) => {
+    if (!user) throw new Error("User not authenticated");
+    const saved = await repository.addSubscription({ ...subscription, user_id: user.id });
+    setSubscriptions(s => [...s, saved]);
+  }, [user, repository, setSubscriptions]);
+
+  const updateSubscription = useCallback(async (subscriptionId: string, updates: Partial<Subscription>) => {
+    const saved = await repository.updateSubscription(subscriptionId, updates);
+    setSubscriptions(s => s.map(sub => sub.id === subscriptionId ? { ...sub, ...saved } : sub));
+  }, [repository, setSubscriptions]);
+
+  const deleteSubscription = useCallback(async (subscriptionId: string) => {
+    await repository.deleteSubscription(subscriptionId);
+    setSubscriptions(s => s.filter(sub => sub.id !== subscriptionId));
+  }, [repository, setSubscriptions]);
+
+  const value = useMemo(() => ({
+    subscriptions, addSubscription, updateSubscription, deleteSubscription,
+  }), [subscriptions, addSubscription, updateSubscription, deleteSubscription]);
+
+  return (
+    <SubscriptionsContext.Provider value={value}>
+      {children}
+    </SubscriptionsContext.Provider>
+  );
+};
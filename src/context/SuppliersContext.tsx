@@ -0,0 +1,64 @@
+import React, { useCallback, useMemo, ReactNode } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Purchase, Supplier } from '../types';
+import { useAuth } from './AuthContext';
+import { useSync } from './useSync';
+import { TableReferences, useDataStore, useTableRows } from './useDataStore';
+import { SuppliersContext } from './DataContext';
+
+// Purchases are removed by the ON DELETE CASCADE on supplier_id and product_id.
+const purchaseReferences: TableReferences<Purchase> = { suppliers: 'supplier_id', products: 'product_id' };
+
+export const SuppliersProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { runOrQueue } = useSync();
+  const { publish } = useDataStore();
+  const [suppliers, setSuppliers] = useTableRows<Supplier>('suppliers');
+  const [purchases, setPurchases] = useTableRows<Purchase>('purchases', purchaseReferences);
+
+  const addSupplier = useCallback(async (supplier: Omit<Supplier, 'id' | 'user_id' | 'created_at'>) => {
+    if (!user) throw new Error("User not authenticated");
+    const newSupplier: Supplier = { ...supplier, id: uuidv4(), user_id: user.id, created_at: new Date().toISOString() };
+    await runOrQueue({ table: 'suppliers', action: 'insert', recordId: newSupplier.id, matchColumn: 'id', payload: newSupplier });
+    setSuppliers(s => [...s, newSupplier]);
+  }, [user, runOrQueue, setSuppliers]);
+
+  const updateSupplier = useCallback(async (supplierId: string, updates: Partial<Supplier>) => {
+    await runOrQueue({ table: 'suppliers', action: 'update', recordId: supplierId, matchColumn: 'id', payload: updates });
+    setSuppliers(s => s.map(supplier => supplier.id === supplierId ? { ...supplier, ...updates } : supplier));
+  }, [runOrQueue, setSuppliers]);
+
+  const deleteSupplier = useCallback(async (supplierId: string) => {
+    await runOrQueue({ table: 'suppliers', action: 'delete', recordId: supplierId, matchColumn: 'id' });
+    setSuppliers(s => s.filter(supplier => supplier.id !== supplierId));
+    publish({ type: 'removed', table: 'suppliers', ids: [supplierId] });
+  }, [runOrQueue, setSuppliers, publish]);
+
+  const addPurchase = useCallback(async (purchase: Omit<Purchase, 'id' | 'user_id' | 'created_at'>) => {
+    if (!user) throw new Error("User not authenticated");
+    const newPurchase: Purchase = { ...purchase, id: uuidv4(), user_id: user.id, created_at: new Date().toISOString() };
+    await runOrQueue({ table: 'purchases', action: 'insert', recordId: newPurchase.id, matchColumn: 'id', payload: newPurchase });
+    setPurchases(p => [...p, newPurchase]);
+  }, [user, runOrQueue, setPurchases]);
+
+  const updatePurchase = useCallback(async (purchaseId: string, updates: Partial<Purchase>) => {
+    await runOrQueue({ table: 'purchases', action: 'update', recordId: purchaseId, matchColumn: 'id', payload: updates });
+    setPurchases(p => p.map(purchase => purchase.id === purchaseId ? { ...purchase, ...updates } : purchase));
+  }, [runOrQueue, setPurchases]);
+
+  const deletePurchase = useCallback(async (purchaseId: string) => {
+    await runOrQueue({ table: 'purchases', action: 'delete', recordId: purchaseId, matchColumn: 'id' });
+    setPurchases(p => p.filter(purchase => purchase.id !== purchaseId));
+  }, [runOrQueue, setPurchases]);
+
+  const value = useMemo(() => ({
+    suppliers, addSupplier, updateSupplier, deleteSupplier,
+    purchases, addPurchase, updatePurchase, deletePurchase,
+  }), [suppliers, addSupplier, updateSupplier, deleteSupplier, purchases, addPurchase, updatePurchase, deletePurchase]);
+
+  return (
+    <SuppliersContext.Provider value={value}>
+      {children}
+    </SuppliersContext.Provider>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { OutboxEntry, SyncStatus, getOutbox, isNetworkError, putOutboxEntry, removeOutboxEntry } from '../lib/offlineStore';
+import { LEDGER_QUERY_PREFIX, ledgerTables } from '../lib/ledgerQueries';
+import { DataRepository, Mutation } from '../lib/dataRepository';
+import { invalidateQueries } from '../lib/queryCache';
+import { useAuth } from './AuthContext';
+import { SyncContext, SyncStatusContext } from './useSync';
+
+interface SyncProviderProps {
+  children: ReactNode;
+  repository: DataRepository;
+}
+
+// Owns the outbox of mutations that couldn't reach the server yet, and sends them
+// once the device is back online.
+export const SyncProvider: React.FC<SyncProviderProps> = ({ children, repository }) => {
+  const { user } = useAuth();
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  // Rows with queued changes that another device changed in the meantime.
+  const [conflictedIds, setConflictedIds] = useState<Set<string>>(new Set());
+  const outboxRef = useRef<OutboxEntry[]>([]);
+  const syncingRef = useRef(false);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const updateOutbox = useCallback((entries: OutboxEntry[]) => {
+    outboxRef.current = entries;
+    setOutbox(entries);
+    // A conflict is settled once the row's queued changes have been sent.
+    setConflictedIds(current => {
+      const remaining = [...current].filter(id => entries.some(entry => entry.recordId === id));
+      return remaining.length === current.size ? current : new Set(remaining);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      updateOutbox([]);
+      return;
+    }
+    getOutbox(user.id)
+      .then(updateOutbox)
+      .catch(err => console.error("Error loading queued changes:", err));
+  }, [user, updateOutbox]);
+
+  // Replays mutations recorded while offline, oldest first. Stops at the first
+  // connectivity failure so the remaining entries keep their order. Entries the
+  // server already rejected are skipped until the user retries them.
+  const syncPendingChanges = useCallback(async () => {
+    if (!user || syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setSyncing(true);
+    try {
+      const entries = await getOutbox(user.id);
+      for (const entry of entries) {
+        if (entry.error) continue;
+        const { error } = await repository.send(entry);
+        if (!error) {
+          await removeOutboxEntry(user.id, entry.id);
+          // Totals fetched while the change was queued didn't include it.
+          if (ledgerTables.includes(entry.table)) invalidateQueries(LEDGER_QUERY_PREFIX);
+        } else if (isNetworkError(error)) {
+          break;
+        } else {
+          console.error("Failed to sync queued change:", error);
+          await putOutboxEntry(user.id, { ...entry, error: error.message });
+        }
+      }
+      updateOutbox(await getOutbox(user.id));
+    } catch (err) {
+      console.error("Error syncing queued changes:", err);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  }, [user, repository, updateOutbox]);
+
+  const retryFailedChanges = useCallback(async () => {
+    if (!user) return;
+    const failed = outboxRef.current.filter(entry => entry.error);
+    await Promise.all(failed.map(entry => putOutboxEntry(user.id, { ...entry, error: undefined })));
+    updateOutbox(await getOutbox(user.id));
+    await syncPendingChanges();
+  }, [user, updateOutbox, syncPendingChanges]);
+
+  // Local state still shows the discarded changes, so it is loaded from the server
+  // again; offline, it is corrected on the next load.
+  const discardFailedChanges = useCallback(async () => {
+    if (!user) return;
+    const failed = outboxRef.current.filter(entry => entry.error);
+    await Promise.all(failed.map(entry => removeOutboxEntry(user.id, entry.id)));
+    updateOutbox(await getOutbox(user.id));
+    if (navigator.onLine) setReloadCount(count => count + 1);
+  }, [user, updateOutbox]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncPendingChanges();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncPendingChanges]);
+
+  // Sends a mutation straight to Supabase when possible, otherwise records it in the outbox.
+  // Once anything is queued, later mutations queue behind it to keep their order.
+  const runOrQueue = useCallback(async (mutation: Mutation) => {
+    if (!user) throw new Error("User not authenticated");
+
+    if (ledgerTables.includes(mutation.table)) invalidateQueries(LEDGER_QUERY_PREFIX);
+
+    const hasQueuedChanges = outboxRef.current.some(entry => !entry.error);
+    if (navigator.onLine && !hasQueuedChanges) {
+      const { error } = await repository.send(mutation);
+      if (!error) return;
+      if (!isNetworkError(error)) throw error;
+    }
+
+    const entry: OutboxEntry = { ...mutation, id: uuidv4(), createdAt: new Date().toISOString() };
+    await putOutboxEntry(user.id, entry);
+    updateOutbox([...outboxRef.current, entry]);
+  }, [user, repository, updateOutbox]);
+
+  const getOutboxEntries = useCallback(() => outboxRef.current, []);
+
+  const markConflicted = useCallback((recordId: string) => {
+    setConflictedIds(current => current.has(recordId) ? current : new Set(current).add(recordId));
+  }, []);
+
+  const syncStatus = useMemo(() => {
+    return outbox.reduce((acc, entry) => {
+      if (acc[entry.recordId] !== 'failed') {
+        acc[entry.recordId] = entry.error ? 'failed' : conflictedIds.has(entry.recordId) ? 'conflict' : 'pending';
+      }
+      return acc;
+    }, {} as Record<string, SyncStatus>);
+  }, [outbox, conflictedIds]);
+
+  const failedChangesCount = useMemo(() => outbox.filter(entry => entry.error).length, [outbox]);
+  const pendingChangesCount = outbox.length - failedChangesCount;
+
+  const value = useMemo(() => ({
+    isOnline, runOrQueue, syncPendingChanges, getOutboxEntries, markConflicted, reloadCount,
+  }), [isOnline, runOrQueue, syncPendingChanges, getOutboxEntries, markConflicted, reloadCount]);
+
+  const statusValue = useMemo(() => ({
+    syncing, pendingChangesCount, failedChangesCount, syncStatus, retryFailedChanges, discardFailedChanges,
+  }), [syncing, pendingChangesCount, failedChangesCount, syncStatus, retryFailedChanges, discardFailedChanges]);
+
+  return (
+    <SyncContext.Provider value={value}>
+      <SyncStatusContext.Provider value={statusValue}>
+        {children}
+      </SyncStatusContext.Provider>
+    </SyncContext.Provider>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { OrganizationInvite, OrganizationMember, OrganizationRole } from '../types';
+import { useAuth } from './AuthContext';
+import { useDataStore } from './useDataStore';
+import { TeamContext } from './DataContext';
+
+// Team changes are made online only, and only owners pass the RLS checks for them.
+export const TeamProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user, membership } = useAuth();
+  const { repository, subscribe } = useDataStore();
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invites, setInvites] = useState<OrganizationInvite[]>([]);
+
+  useEffect(() => subscribe(event => {
+    if (event.type !== 'loaded') return;
+    setMembers(event.snapshot.members);
+    setInvites(event.snapshot.invites);
+  }), [subscribe]);
+
+  const inviteMember = useCallback(async (email: string, role: OrganizationRole) => {
+    if (!user) throw new Error("User not authenticated");
+    if (!membership) throw new Error("No organization");
+    const invite = await repository.inviteMember({
+      organization_id: membership.organization_id,
+      email: email.trim().toLowerCase(),
+      role,
+      invited_by: user.id,
+    });
+    setInvites(i => [...i, invite]);
+  }, [user, membership, repository]);
+
+  const revokeInvite = useCallback(async (inviteId: string) => {
+    await repository.revokeInvite(inviteId);
+    setInvites(i => i.filter(invite => invite.id !== inviteId));
+  }, [repository]);
+
+  const updateMemberRole = useCallback(async (userId: string, role: OrganizationRole) => {
+    await repository.updateMemberRole(userId, role);
+    setMembers(m => m.map(member => member.user_id === userId ? { ...member, role } : member));
+  }, [repository]);
+
+  const removeMember = useCallback(async (userId: string) => {
+    await repository.removeMember(userId);
+    setMembers(m => m.filter(member => member.user_id !== userId));
+  }, [repository]);
+
+  const value = useMemo(() => ({
+    members, invites, inviteMember, revokeInvite, updateMemberRole, removeMember,
+  }), [members, invites, inviteMember, revokeInvite, updateMemberRole, removeMember]);
+
+  return (
+    <TeamContext.Provider value={value}>
+      {children}
+    </TeamContext.Provider>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useState, useCallback, useMemo, useRef, useEffect, ReactNode } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Loader2, Undo2 } from 'lucide-react';
+import { UndoContext } from './useUndo';
+
+interface UndoToast {
+  id: number;
+  message: string;
+  undo: () => Promise<void>;
+}
+
+const UNDO_TIMEOUT_MS = 6000;
+
+// Shows one toast at a time after a destructive action. The toast lives above the
+// routes so it survives navigating away, e.g. back to the list after deleting a customer.
+export const UndoProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [toast, setToast] = useState<UndoToast | null>(null);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  useEffect(() => () => clearTimeout(timerRef.current), []);
+
+  const showUndo = useCallback((message: string, undo: () => Promise<void>) => {
+    clearTimeout(timerRef.current);
+    setToast({ id: Date.now(), message, undo });
+    timerRef.current = setTimeout(() => setToast(null), UNDO_TIMEOUT_MS);
+  }, []);
+
+  const handleUndo = async () => {
+    if (!toast) return;
+    clearTimeout(timerRef.current);
+    setIsUndoing(true);
+    try {
+      await toast.undo();
+      setToast(null);
+    } catch (error) {
+      console.error("Failed to undo", error);
+      alert("Failed to undo. The item can still be restored from the Trash.");
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
+  const value = useMemo(() => ({ showUndo }), [showUndo]);
+
+  return (
+    <UndoContext.Provider value={value}>
+      {children}
+      <AnimatePresence>
+        {toast && (
+          <motion.div
+            key={toast.id}
+            className="fixed bottom-20 left-4 right-4 z-50 bg-gray-800 text-white rounded-lg shadow-lg px-4 py-3 flex items-center justify-between"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+          >
+            <span className="text-sm">{toast.message}</span>
+            <motion.button onClick={handleUndo} disabled={isUndoing} className="ml-4 flex items-center space-x-1 text-dairy-300 font-semibold text-sm" whileTap={{ scale: 0.95 }}>
+              {isUndoing ? <Loader2 size={16} className="animate-spin" /> : <Undo2 size={16} />}
+              <span>Undo</span>
+            </motion.button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </UndoContext.Provider>
+  );
+};
@@ -0,0 +1,114 @@
+import { createContext, useContext, useEffect, useLayoutEffect, useState, Dispatch, SetStateAction } from 'react';
+import { DataRepository, DataSnapshot } from '../lib/dataRepository';
+import { MirrorTable, OutboxEntry, SnapshotTable, replaceMirror, snapshotTables } from '../lib/offlineStore';
+import { RemoteChange, mergeRemoteChange } from '../lib/realtime';
+import { useAuth } from './AuthContext';
+
+type TableRows = Partial<Record<MirrorTable, { id: string }[]>>;
+
+// What the domain providers hear about rows they don't write themselves.
+export type DataEvent =
+  // Everything was loaded, from the server or the offline mirror, or emptied on signing out.
+  | { type: 'loaded'; snapshot: DataSnapshot; ordersLoadedFrom: string | null; offline: boolean }
+  // Rows saved elsewhere: an import, a restored backup or older history. `replace` swaps the tables' rows.
+  | { type: 'rows'; rows: TableRows; replace?: boolean }
+  // A row written back by restoring a version from the audit log.
+  | { type: 'upserted'; table: MirrorTable; row: { id: string } }
+  // Rows deleted for good. Rows referencing them go too, as ON DELETE CASCADE removes them.
+  | { type: 'removed'; table: MirrorTable; ids: string[] }
+  // A change made on another device, with this device's queued changes to the same row.
+  | { type: 'remote'; change: RemoteChange; pending: OutboxEntry[] };
+
+export interface DataStoreContextType {
+  repository: DataRepository;
+  dataLoading: boolean;
+  error: string | null;
+  publish: (event: DataEvent) => void;
+  subscribe: (listener: (event: DataEvent) => void) => () => void;
+  // Every table's rows as last rendered, for work that reads many tables at once.
+  getRows: <T>(table: MirrorTable) => T[];
+  trackRows: (table: MirrorTable, rows: { id: string }[]) => void;
+}
+
+// Provided by DataStoreProvider; kept apart from it so the provider module only exports components.
+export const DataStoreContext = createContext<DataStoreContextType | undefined>(undefined);
+
+export const useDataStore = () => {
+  const context = useContext(DataStoreContext);
+  if (context === undefined) {
+    throw new Error('useDataStore must be used within a DataProvider');
+  }
+  return context;
+};
+
+// Adds rows that aren't in local state yet. Local copies win, since they may carry
+// changes still waiting in the outbox.
+export const mergeRows = <T extends { id: string }>(current: T[], loaded: T[]): T[] => {
+  const ids = new Set(current.map(row => row.id));
+  const added = loaded.filter(row => !ids.has(row.id));
+  return added.length > 0 ? [...current, ...added] : current;
+};
+
+// The column pointing at each parent table, for cascading deletes.
+export type TableReferences<T> = Partial<Record<MirrorTable, keyof T & string>>;
+
+const noReferences = {};
+
+/**
+ * One table's rows for a domain provider. They are filled by each load, kept in the
+ * offline mirror, and follow the rows other providers save or delete. `references`
+ * names the column pointing at each parent table whose deleted rows take these along;
+ * like `mergeRemote`, it should be defined once outside the component.
+ */
+export function useTableRows<T extends { id: string }>(
+  key: SnapshotTable,
+  references: TableReferences<T> = noReferences,
+  mergeRemote: (rows: T[], change: RemoteChange, pending: OutboxEntry[]) => T[] = mergeRemoteChange,
+): [T[], Dispatch<SetStateAction<T[]>>] {
+  const { user } = useAuth();
+  const { dataLoading, error, publish, subscribe, getRows, trackRows } = useDataStore();
+  const table = snapshotTables[key];
+  const [rows, setRows] = useState<T[]>([]);
+
+  // Tracked before any effect runs, so effects reading other tables see this render's rows.
+  useLayoutEffect(() => trackRows(table, rows), [table, rows, trackRows]);
+
+  useEffect(() => subscribe(event => {
+    switch (event.type) {
+      case 'loaded':
+        setRows(event.snapshot[key] as unknown as T[]);
+        break;
+      case 'rows': {
+        const saved = event.rows[table] as T[] | undefined;
+        if (saved) setRows(current => event.replace ? saved : mergeRows(current, saved));
+        break;
+      }
+      case 'upserted':
+        if (event.table === table) setRows(current => [...current.filter(row => row.id !== event.row.id), event.row as T]);
+        break;
+      case 'removed': {
+        const column = references[event.table];
+        if (!column) break;
+        const parentIds = new Set(event.ids);
+        const removedIds = getRows<T>(table).filter(row => parentIds.has(row[column] as string)).map(row => row.id);
+        if (removedIds.length === 0) break;
+        setRows(current => current.filter(row => !removedIds.includes(row.id)));
+        publish({ type: 'removed', table, ids: removedIds });
+        break;
+      }
+      case 'remote':
+        if (event.change.table !== table) break;
+        setRows(current => mergeRemote(current, event.change, event.pending));
+        if (event.change.type === 'DELETE') publish({ type: 'removed', table, ids: [event.change.id] });
+        break;
+    }
+  }), [key, table, references, mergeRemote, publish, subscribe, getRows]);
+
+  // Keep the IndexedDB mirror in step with local state so the app can start offline.
+  useEffect(() => {
+    if (!user || dataLoading || error) return;
+    replaceMirror(user.id, table, rows).catch(err => console.error("Error updating offline data:", err));
+  }, [user, dataLoading, error, table, rows]);
+
+  return [rows, setRows];
+}
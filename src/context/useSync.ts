@@ -0,0 +1,47 @@
+import { createContext, useContext } from 'react';
+import { OutboxEntry, SyncStatus } from '../lib/offlineStore';
+import { Mutation } from '../lib/dataRepository';
+
+export interface SyncContextType {
+  isOnline: boolean;
+  // Sends a mutation now, or queues it in the outbox while offline or behind queued ones.
+  runOrQueue: (mutation: Mutation) => Promise<void>;
+  syncPendingChanges: () => Promise<void>;
+  // The outbox as it is now, for checks that mustn't re-render on every queued change.
+  getOutboxEntries: () => OutboxEntry[];
+  // Flags a row with queued changes that another device changed in the meantime.
+  markConflicted: (recordId: string) => void;
+  // Bumped when local data must be loaded again, e.g. after discarding rejected changes.
+  reloadCount: number;
+}
+
+export interface SyncStatusContextType {
+  syncing: boolean;
+  pendingChangesCount: number;
+  // Queued changes the server rejected. They wait until retried or discarded.
+  failedChangesCount: number;
+  syncStatus: Record<string, SyncStatus>;
+  retryFailedChanges: () => Promise<void>;
+  discardFailedChanges: () => Promise<void>;
+}
+
+// Provided by SyncProvider. The status changes with every queued change, so it has
+// its own context and only pages showing sync state re-render for it.
+export const SyncContext = createContext<SyncContextType | undefined>(undefined);
+export const SyncStatusContext = createContext<SyncStatusContextType | undefined>(undefined);
+
+export const useSync = () => {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+};
+
+export const useSyncStatus = () => {
+  const context = useContext(SyncStatusContext);
+  if (context === undefined) {
+    throw new Error('useSyncStatus must be used within a SyncProvider');
+  }
+  return context;
+};
@@ -0,0 +1,16 @@
+import { createContext, useContext } from 'react';
+
+export interface UndoContextType {
+  showUndo: (message: string, undo: () => Promise<void>) => void;
+}
+
+// Provided by UndoProvider; kept apart from it so the provider module only exports components.
+export const UndoContext = createContext<UndoContextType | undefined>(undefined);
+
+export const useUndo = () => {
+  const context = useContext(UndoContext);
+  if (context === undefined) {
+    throw new Error('useUndo must be used within an UndoProvider');
+  }
+  return context;
+};
@@ -0,0 +1,31 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useSync } from '../context/useSync';
+import { useLedgerQueries, useOrders, useProducts } from '../context/DataContext';
+import { DailyProductTotals } from '../lib/ledgerQueries';
+import { ProductTotal, getOrderProductTotals, getProductTotals } from '../utils/orderSummaries';
+
+// Totals per product for the orders of one day. Online they come from the database,
+// which sees every device's orders; offline, or until they arrive, from local orders.
+export function useDailyProductTotals(date: string): ProductTotal[] {
+  const { isOnline } = useSync();
+  const { products, deletedProducts } = useProducts();
+  const { orders } = useOrders();
+  const { dailyProductTotals } = useLedgerQueries();
+  const [serverTotals, setServerTotals] = useState<{ date: string; rows: DailyProductTotals[] } | null>(null);
+
+  // Orders changing means the cached totals were invalidated, so they are fetched again.
+  useEffect(() => {
+    if (!isOnline) return;
+    dailyProductTotals(date, date)
+      .then(rows => setServerTotals({ date, rows }))
+      .catch(error => console.error("Failed to load product totals", error));
+  }, [date, isOnline, orders, dailyProductTotals]);
+
+  return useMemo(() => {
+    // Orders of products in the Trash still count, with their pack sizes.
+    const allProducts = [...products, ...deletedProducts];
+    return isOnline && serverTotals?.date === date
+      ? getProductTotals(serverTotals.rows.map(row => ({ ...row, total: row.amount })), allProducts)
+      : getOrderProductTotals(orders.filter(order => order.date === date), allProducts);
+  }, [date, isOnline, serverTotals, orders, products, deletedProducts]);
+}
@@ -0,0 +1,30 @@
+import { supabase } from './supabase';
+import { AuditEntry } from '../types';
+
+// History is read on demand and never mirrored offline; it can grow without bound.
+const HISTORY_LIMIT = 200;
+
+/** Changes to a customer and to their orders and payments, newest first. */
+export const fetchCustomerHistory = async (customerId: string): Promise<AuditEntry[]> => {
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('*')
+    .eq('customer_id', customerId)
+    .order('changed_at', { ascending: false })
+    .limit(HISTORY_LIMIT);
+  if (error) throw error;
+  return data as AuditEntry[];
+};
+
+/** Changes to orders dated on the given day, including ones since replaced or deleted. */
+export const fetchOrderHistory = async (date: string): Promise<AuditEntry[]> => {
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('*')
+    .eq('table_name', 'daily_orders')
+    .or(`new_data->>date.eq.${date},old_data->>date.eq.${date}`)
+    .order('changed_at', { ascending: false })
+    .limit(HISTORY_LIMIT);
+  if (error) throw error;
+  return data as AuditEntry[];
+};
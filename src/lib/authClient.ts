@@ -0,0 +1,47 @@
+import { User as SupabaseUser } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { User } from '../types';
+
+export type AuthResult = { error: { message: string } | null };
+
+/**
+ * Who is signed in, and the calls that change it. The app signs in through
+ * `supabaseAuthClient`; `createMemoryAuthClient` stands in for it without a backend.
+ */
+export interface AuthClient {
+  /** Reports the signed-in user now and after every change. Returns a function that stops listening. */
+  onUserChange: (onChange: (user: User | null) => void) => () => void;
+  signIn: (email: string, password: string) => Promise<AuthResult>;
+  signUp: (email: string, username: string, password: string) => Promise<AuthResult>;
+  signOut: () => Promise<void>;
+  /** Emails a link that opens `redirectTo` to choose a new password. */
+  sendPasswordReset: (email: string, redirectTo: string) => Promise<AuthResult>;
+  updatePassword: (password: string) => Promise<AuthResult>;
+}
+
+const toAppUser = (supabaseUser: SupabaseUser): User => ({
+  id: supabaseUser.id,
+  email: supabaseUser.email || '',
+  username: supabaseUser.user_metadata.username || supabaseUser.email,
+});
+
+export const supabaseAuthClient: AuthClient = {
+  onUserChange: onChange => {
+    // onAuthStateChange fires immediately with the current session, so no separate
+    // getSession() call is needed. It also handles session recovery, expiry and sign-outs.
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => onChange(session ? toAppUser(session.user) : null));
+    return () => data.subscription.unsubscribe();
+  },
+
+  signIn: (email, password) => supabase.auth.signInWithPassword({ email, password }),
+
+  signUp: (email, username, password) => supabase.auth.signUp({ email, password, options: { data: { username } } }),
+
+  signOut: async () => {
+    await supabase.auth.signOut();
+  },
+
+  sendPasswordReset: (email, redirectTo) => supabase.auth.resetPasswordForEmail(email, { redirectTo }),
+
+  updatePassword: password => supabase.auth.updateUser({ password }),
+};
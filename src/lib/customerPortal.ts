@@ -0,0 +1,12 @@
+import { supabase } from './supabase';
+import { CustomerPortalData } from '../types';
+
+/**
+ * Loads a customer's statement data for a share link. Works without a session:
+ * the database function checks the token and returns only that customer's rows.
+ */
+export const fetchCustomerPortal = async (token: string): Promise<CustomerPortalData> => {
+  const { data, error } = await supabase.rpc('get_customer_portal', { p_token: token });
+  if (error) throw error;
+  return data as CustomerPortalData;
+};
@@ -0,0 +1,293 @@
+import { supabase } from './supabase';
+import { OutboxEntry } from './offlineStore';
+import {
+  CustomerLedgerTotals, DailyProductTotals, LedgerRows, StatementTotals, fetchCustomerLedgerTotals, fetchDailyProductTotals,
+  fetchLedgerRange, fetchLedgerWindow, fetchSoldBefore, fetchStatementTotals,
+} from './ledgerQueries';
+import { RemoteChange, subscribeToRemoteChanges } from './realtime';
+import {
+  AuditEntry, Bill, BusinessSettings, Customer, CustomerShareLink, DailyOrder, DeliveryRoute, Invoice, Membership, MessageLogEntry,
+  OrganizationInvite, OrganizationMember, OrganizationRole, Payment, PaymentAllocation, Product, ProductPrice, Purchase, RouteStop,
+  StockMovement, Subscription, Supplier,
+} from '../types';
+import { BackupData } from '../utils/backup';
+import { formatInvoiceNumber, getFinancialYear } from '../utils/invoice';
+
+export type Mutation = Omit<OutboxEntry, 'id' | 'createdAt' | 'error'>;
+
+export interface DataSnapshot {
+  products: Product[];
+  productPrices: ProductPrice[];
+  customers: Customer[];
+  orders: DailyOrder[];
+  subscriptions: Subscription[];
+  payments: Payment[];
+  paymentAllocations: PaymentAllocation[];
+  bills: Bill[];
+  invoices: Invoice[];
+  routes: DeliveryRoute[];
+  routeStops: RouteStop[];
+  stockMovements: StockMovement[];
+  suppliers: Supplier[];
+  purchases: Purchase[];
+  shareLinks: CustomerShareLink[];
+  messageLog: MessageLogEntry[];
+  members: OrganizationMember[];
+  invites: OrganizationInvite[];
+  // Null until an owner or accountant first saves settings for the organization.
+  settings: Partial<BusinessSettings> | null;
+}
+
+// An invoice before the repository numbers it.
+export type InvoiceDraft = Omit<Invoice, 'id' | 'created_at' | 'invoice_number' | 'financial_year' | 'sequence'>;
+
+// The rows of an imported file, with ids generated by the app.
+export interface ImportedRecords {
+  customers: Customer[];
+  products: Product[];
+  orders: DailyOrder[];
+  payments: Payment[];
+}
+
+/**
+ * Where the app reads and writes its data. The app talks to Supabase through
+ * `supabaseRepository`; `createMemoryRepository` (see memoryRepository.ts) keeps
+ * everything in memory, so the data layer and the pages on top of it can run
+ * without a backend.
+ */
+export interface DataRepository {
+  /** Joins an invited organization, or creates one, on the first login. */
+  ensureMembership: () => Promise<Membership>;
+  /** Everything the app starts with: all rows, except orders and payments older than `ledgerSince` that are settled. */
+  load: (organizationId: string, ledgerSince: string) => Promise<DataSnapshot>;
+  /** Orders and payments dated in a range; a null end leaves that side open. */
+  loadLedgerRange: (start: string | null, end: string | null, customerIds?: string[]) => Promise<LedgerRows>;
+  /**
+   * Applies one insert, update, delete or replace. An insert may carry several rows;
+   * an order is inserted with its items. Errors are returned, not thrown, so the
+   * outbox can tell connectivity failures apart.
+   */
+  send: (mutation: Mutation) => Promise<{ error: { message: string } | null }>;
+  /** Reports changes made elsewhere. Returns a function that stops listening. */
+  subscribe: (organizationId: string, onChange: (change: RemoteChange) => void) => () => void;
+
+  // The calls below are made online only and throw on failure. Most return the
+  // rows as saved, since the server fills in ids, tokens or numbers.
+
+  saveSettings: (organizationId: string, settings: BusinessSettings, userId: string) => Promise<void>;
+  addSubscription: (subscription: Omit<Subscription, 'id' | 'created_at'>) => Promise<Subscription>;
+  updateSubscription: (subscriptionId: string, updates: Partial<Subscription>) => Promise<Subscription>;
+  deleteSubscription: (subscriptionId: string) => Promise<void>;
+  inviteMember: (invite: Pick<OrganizationInvite, 'organization_id' | 'email' | 'role' | 'invited_by'>) => Promise<OrganizationInvite>;
+  revokeInvite: (inviteId: string) => Promise<void>;
+  updateMemberRole: (userId: string, role: OrganizationRole) => Promise<void>;
+  removeMember: (userId: string) => Promise<void>;
+  createShareLink: (link: Pick<CustomerShareLink, 'user_id' | 'customer_id' | 'expires_at'>) => Promise<CustomerShareLink>;
+  revokeShareLink: (linkId: string, revokedAt: string) => Promise<void>;
+  /** Numbers an invoice with the next sequence of its financial year and saves it. */
+  issueInvoice: (invoice: InvoiceDraft) => Promise<Invoice>;
+  /** Saves closed bills. Cycles another device billed first are skipped; the bills saved are returned. */
+  addBills: (bills: Bill[]) => Promise<Bill[]>;
+  /** Saves an imported file in one transaction. */
+  importRecords: (records: ImportedRecords) => Promise<void>;
+  /** Restores a backup in one transaction, replacing the organization's data or adding to it. */
+  restoreBackup: (data: BackupData, replace: boolean) => Promise<void>;
+  /** Writes an audit entry's earlier version back into its table and returns the restored row. */
+  restoreAuditVersion: (entry: AuditEntry) => Promise<{ id: string } & Record<string, unknown>>;
+
+  // Totals over the whole history, for pages that only have the recent window loaded.
+
+  /** Per-customer order totals for a statement period. */
+  statementTotals: (start: string, end: string) => Promise<StatementTotals[]>;
+  /** A customer's order count and totals over their whole history. */
+  customerLedgerTotals: (customerId: string) => Promise<CustomerLedgerTotals | null>;
+  /** Packs taken out of stock per product by orders dated before `date`. */
+  soldBefore: (date: string) => Promise<Record<string, number>>;
+  /** Quantity and amount ordered per product per day, from `start` to `end`. */
+  dailyProductTotals: (start: string, end: string) => Promise<DailyProductTotals[]>;
+}
+
+const selectAll = async <T>(table: string, organizationId: string): Promise<T[]> => {
+  const { data, error } = await supabase.from(table).select('*').eq('organization_id', organizationId);
+  if (error) throw error;
+  return (data || []) as T[];
+};
+
+export const supabaseRepository: DataRepository = {
+  ensureMembership: async () => {
+    const { data, error } = await supabase.rpc('ensure_membership');
+    if (error) throw error;
+    return data as Membership;
+  },
+
+  load: async (organizationId, ledgerSince) => {
+    const [products, productPrices, customers, ledger, subscriptions, bills, invoices, routes, routeStops, stockMovements, suppliers, purchases, shareLinks, messageLog, members, invites, settingsRes] = await Promise.all([
+      selectAll<Product>('products', organizationId),
+      selectAll<ProductPrice>('product_prices', organizationId),
+      selectAll<Customer>('customers', organizationId),
+      // Orders, payments and allocations come as a recent window plus every open item,
+      // so start-up doesn't grow with history. Older rows load on demand.
+      fetchLedgerWindow(ledgerSince),
+      selectAll<Subscription>('subscriptions', organizationId),
+      selectAll<Bill>('bills', organizationId),
+      selectAll<Invoice>('invoices', organizationId),
+      selectAll<DeliveryRoute>('routes', organizationId),
+      selectAll<RouteStop>('route_stops', organizationId),
+      selectAll<StockMovement>('stock_movements', organizationId),
+      selectAll<Supplier>('suppliers', organizationId),
+      selectAll<Purchase>('purchases', organizationId),
+      selectAll<CustomerShareLink>('customer_share_links', organizationId),
+      selectAll<MessageLogEntry>('message_log', organizationId),
+      selectAll<OrganizationMember>('organization_members', organizationId),
+      selectAll<OrganizationInvite>('organization_invites', organizationId),
+      supabase.from('organization_settings').select('*').eq('organization_id', organizationId).maybeSingle(),
+    ]);
+    if (settingsRes.error) throw settingsRes.error;
+
+    return {
+      products, productPrices, customers, subscriptions, bills, invoices, routes, routeStops,
+      stockMovements, suppliers, purchases, shareLinks, messageLog, members, invites,
+      orders: ledger.orders,
+      payments: ledger.payments,
+      paymentAllocations: ledger.allocations,
+      settings: settingsRes.data,
+    };
+  },
+
+  loadLedgerRange: fetchLedgerRange,
+
+  send: async mutation => {
+    const table = supabase.from(mutation.table);
+    switch (mutation.action) {
+      case 'insert': {
+        // An order and its items are saved in one transaction, so neither is kept without the other.
+        if (mutation.table === 'daily_orders') {
+          const { items, ...order } = mutation.payload as DailyOrder;
+          return supabase.rpc('save_order', { p_order: order, p_items: items });
+        }
+        // Rows carry a client-generated id, so replaying an insert twice is harmless.
+        return table.upsert(mutation.payload ?? {});
+      }
+      case 'update':
+        return table.update(mutation.payload ?? {}).eq(mutation.matchColumn, mutation.recordId);
+      case 'delete':
+        return table.delete().eq(mutation.matchColumn, mutation.recordId);
+      case 'replace':
+        // Only an order's items are replaced, by deleting and reinserting them in one transaction.
+        return supabase.rpc('replace_order_items', { p_order_id: mutation.recordId, p_items: mutation.payload ?? [] });
+    }
+  },
+
+  subscribe: subscribeToRemoteChanges,
+
+  saveSettings: async (organizationId, settings, userId) => {
+    const { error } = await supabase.from('organization_settings').upsert({
+      ...settings,
+      organization_id: organizationId,
+      updated_by: userId,
+      updated_at: new Date().toISOString(),
+    });
+    if (error) throw error;
+  },
+
+  addSubscription: async subscription => {
+    const { data, error } = await supabase.from('subscriptions').insert(subscription).select().single();
+    if (error) throw error;
+    return data as Subscription;
+  },
+
+  updateSubscription: async (subscriptionId, updates) => {
+    const { data, error } = await supabase.from('subscriptions').update(updates).eq('id', subscriptionId).select().single();
+    if (error) throw error;
+    return data as Subscription;
+  },
+
+  deleteSubscription: async subscriptionId => {
+    const { error } = await supabase.from('subscriptions').delete().eq('id', subscriptionId);
+    if (error) throw error;
+  },
+
+  // Only owners pass the RLS checks for team changes.
+  inviteMember: async invite => {
+    const { data, error } = await supabase.from('organization_invites').insert(invite).select().single();
+    if (error) throw error;
+    return data as OrganizationInvite;
+  },
+
+  revokeInvite: async inviteId => {
+    const { error } = await supabase.from('organization_invites').delete().eq('id', inviteId);
+    if (error) throw error;
+  },
+
+  updateMemberRole: async (userId, role) => {
+    const { error } = await supabase.from('organization_members').update({ role }).eq('user_id', userId);
+    if (error) throw error;
+  },
+
+  removeMember: async userId => {
+    const { error } = await supabase.from('organization_members').delete().eq('user_id', userId);
+    if (error) throw error;
+  },
+
+  // The token is generated by the database.
+  createShareLink: async link => {
+    const { data, error } = await supabase.from('customer_share_links').insert(link).select().single();
+    if (error) throw error;
+    return data as CustomerShareLink;
+  },
+
+  revokeShareLink: async (linkId, revokedAt) => {
+    const { error } = await supabase.from('customer_share_links').update({ revoked_at: revokedAt }).eq('id', linkId);
+    if (error) throw error;
+  },
+
+  issueInvoice: async invoice => {
+    const financialYear = getFinancialYear(invoice.invoice_date);
+    const { data: sequence, error: sequenceError } = await supabase.rpc('next_invoice_sequence', { p_financial_year: financialYear });
+    if (sequenceError) throw sequenceError;
+
+    const { data, error } = await supabase.from('invoices').insert({
+      ...invoice,
+      financial_year: financialYear,
+      sequence,
+      invoice_number: formatInvoiceNumber(financialYear, sequence),
+    }).select().single();
+    if (error) throw error;
+    return data as Invoice;
+  },
+
+  // The unique cycle constraint skips bills another device closed first.
+  addBills: async bills => {
+    const { data, error } = await supabase.from('bills')
+      .upsert(bills, { onConflict: 'customer_id,period_start', ignoreDuplicates: true })
+      .select();
+    if (error) throw error;
+    return (data || []) as Bill[];
+  },
+
+  importRecords: async records => {
+    const { error } = await supabase.rpc('import_records', {
+      p_customers: records.customers,
+      p_products: records.products,
+      p_orders: records.orders,
+      p_payments: records.payments,
+    });
+    if (error) throw error;
+  },
+
+  restoreBackup: async (data, replace) => {
+    const { error } = await supabase.rpc('restore_backup', { p_data: data, p_replace: replace });
+    if (error) throw error;
+  },
+
+  restoreAuditVersion: async entry => {
+    const { data, error } = await supabase.rpc('restore_audit_version', { p_entry_id: entry.id });
+    if (error) throw error;
+    return data;
+  },
+
+  statementTotals: fetchStatementTotals,
+  customerLedgerTotals: fetchCustomerLedgerTotals,
+  soldBefore: fetchSoldBefore,
+  dailyProductTotals: fetchDailyProductTotals,
+};
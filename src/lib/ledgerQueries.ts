@@ -0,0 +1,110 @@
+import { supabase } from './supabase';
+import { DailyOrder, Payment, PaymentAllocation } from '../types';
+import { cachedQuery } from './queryCache';
+import { OutboxTable } from './offlineStore';
+
+// Orders and payments are loaded from this many days back, plus every open item.
+export const LEDGER_WINDOW_DAYS = 60;
+
+// Every key starts with this, so a write to the ledger invalidates them all at once.
+export const LEDGER_QUERY_PREFIX = 'ledger:';
+
+// Writes to these tables change ledger totals, so they invalidate the cached queries.
+export const ledgerTables: OutboxTable[] = ['daily_orders', 'order_items', 'payments', 'payment_allocations'];
+
+export interface LedgerRows {
+  orders: DailyOrder[];
+  payments: Payment[];
+  allocations: PaymentAllocation[];
+}
+
+export interface StatementTotals {
+  customer_id: string;
+  order_count: number;
+  total_amount: number;
+  total_paid: number;
+}
+
+export interface CustomerLedgerTotals {
+  customer_id: string;
+  order_count: number;
+  total_billed: number;
+  total_received: number;
+}
+
+export interface DailyProductTotals {
+  date: string;
+  // Null for lines that aren't a product, which are grouped by name.
+  product_id: string | null;
+  product_name: string;
+  unit: string;
+  quantity: number;
+  amount: number;
+  order_count: number;
+}
+
+const toLedgerRows = (data: Partial<LedgerRows> | null): LedgerRows => ({
+  orders: data?.orders || [],
+  payments: data?.payments || [],
+  allocations: data?.allocations || [],
+});
+
+export const getLedgerWindowStart = (today = new Date()): string => {
+  const start = new Date(today);
+  start.setDate(start.getDate() - LEDGER_WINDOW_DAYS);
+  return start.toISOString().split('T')[0];
+};
+
+/** Orders and payments since `since`, every unpaid order and unused payment, and their allocations. */
+export const fetchLedgerWindow = async (since: string): Promise<LedgerRows> => {
+  const { data, error } = await supabase.rpc('get_ledger_window', { p_since: since });
+  if (error) throw error;
+  return toLedgerRows(data);
+};
+
+/** Orders and payments dated in a range; a null end leaves that side open. */
+export const fetchLedgerRange = (start: string | null, end: string | null, customerIds?: string[]): Promise<LedgerRows> =>
+  cachedQuery(`${LEDGER_QUERY_PREFIX}range:${start}:${end}:${customerIds ? [...customerIds].sort().join(',') : '*'}`, async () => {
+    const { data, error } = await supabase.rpc('get_ledger_range', { p_start: start, p_end: end, p_customer_ids: customerIds ?? null });
+    if (error) throw error;
+    return toLedgerRows(data);
+  });
+
+/** Per-customer order totals for a statement period, worked out by the database. */
+export const fetchStatementTotals = (start: string, end: string): Promise<StatementTotals[]> =>
+  cachedQuery(`${LEDGER_QUERY_PREFIX}statement:${start}:${end}`, async () => {
+    const { data, error } = await supabase.rpc('get_statement_totals', { p_start: start, p_end: end });
+    if (error) throw error;
+    return (data || []) as StatementTotals[];
+  });
+
+/** A customer's order count and totals over their whole history. */
+export const fetchCustomerLedgerTotals = (customerId: string): Promise<CustomerLedgerTotals | null> =>
+  cachedQuery(`${LEDGER_QUERY_PREFIX}customer:${customerId}`, async () => {
+    const { data, error } = await supabase.from('customer_ledger_totals').select('*').eq('customer_id', customerId).maybeSingle();
+    if (error) throw error;
+    return data as CustomerLedgerTotals | null;
+  });
+
+/** Packs taken out of stock per product by orders dated before `date`. */
+export const fetchSoldBefore = (date: string): Promise<Record<string, number>> =>
+  cachedQuery(`${LEDGER_QUERY_PREFIX}sold:${date}`, async () => {
+    const { data, error } = await supabase.rpc('get_sold_before', { p_date: date });
+    if (error) throw error;
+    return ((data || []) as { product_id: string; packs: number }[]).reduce((acc, row) => {
+      acc[row.product_id] = row.packs;
+      return acc;
+    }, {} as Record<string, number>);
+  });
+
+/** Quantity and amount ordered per product per day, from `start` to `end`, over every order. */
+export const fetchDailyProductTotals = (start: string, end: string): Promise<DailyProductTotals[]> =>
+  cachedQuery(`${LEDGER_QUERY_PREFIX}products:${start}:${end}`, async () => {
+    const { data, error } = await supabase
+      .from('daily_product_totals')
+      .select('date, product_id, product_name, unit, quantity, amount, order_count')
+      .gte('date', start)
+      .lte('date', end);
+    if (error) throw error;
+    return (data || []) as DailyProductTotals[];
+  });
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { Customer, DailyOrder, OrderItem, Product } from '../types';
+import { createMemoryAuthClient, createMemoryRepository } from './memoryRepository';
+import { toOrderItemRows } from './orderItems';
+import { emptyCustomerProfile } from '../utils/customerProfile';
+
+const milk: Product = { id: 'milk', user_id: 'user', name: 'Milk 500 ml', price: 30, quantity: 500, unit: 'ml', created_at: '2025-01-01T00:00:00Z' };
+const curd: Product = { id: 'curd', user_id: 'user', name: 'Curd 400 gm', price: 45, quantity: 400, unit: 'gm', created_at: '2025-01-01T00:00:00Z' };
+const customer: Customer = { ...emptyCustomerProfile, id: 'asha', user_id: 'user', name: 'Asha', created_at: '2025-01-01T00:00:00Z' };
+
+const item = (product: Product, quantity: number): OrderItem => ({
+  product_id: product.id, product_name: product.name, quantity, unit: product.unit, price: product.price, total: quantity * product.price,
+});
+
+const order = (id: string, date: string, items: OrderItem[], changes: Partial<DailyOrder> = {}): DailyOrder => ({
+  id,
+  user_id: 'user',
+  customer_id: customer.id,
+  customer_name: customer.name,
+  date,
+  items,
+  total_amount: items.reduce((sum, line) => sum + line.total, 0),
+  amount_paid: 0,
+  status: 'delivered',
+  created_at: `${date}T06:00:00Z`,
+  ...changes,
+});
+
+const seeded = () => createMemoryRepository({
+  products: [milk, curd],
+  customers: [customer],
+  orders: [order('first', '2025-01-01', [item(milk, 2), item(curd, 1)])],
+});
+
+describe('createMemoryRepository', () => {
+  it('saves an order with its items and replaces them later', async () => {
+    const repository = seeded();
+    const saved = order('second', '2025-01-02', [item(milk, 1)]);
+    await repository.send({ table: 'daily_orders', action: 'insert', recordId: saved.id, matchColumn: 'id', payload: saved });
+
+    const edited = { ...saved, items: [item(milk, 3), item(curd, 2)] };
+    const { error } = await repository.send({
+      table: 'order_items', action: 'replace', recordId: saved.id, matchColumn: 'order_id', payload: toOrderItemRows(edited),
+    });
+
+    expect(error).toBeNull();
+    const { orders } = await repository.load('memory', '2025-01-01');
+    expect(orders.find(row => row.id === 'second')?.items).toEqual(edited.items);
+    expect(orders.find(row => row.id === 'first')?.items).toEqual([item(milk, 2), item(curd, 1)]);
+  });
+
+  it('leaves an order that already exists as it is, like a replayed save', async () => {
+    const repository = seeded();
+    const replayed = order('first', '2025-01-01', [item(milk, 9)]);
+    await repository.send({ table: 'daily_orders', action: 'insert', recordId: replayed.id, matchColumn: 'id', payload: replayed });
+
+    const { orders } = await repository.load('memory', '2025-01-01');
+    expect(orders).toHaveLength(1);
+    expect(orders[0].items).toEqual([item(milk, 2), item(curd, 1)]);
+  });
+
+  it("removes an order's allocations with it, like the database", async () => {
+    const repository = createMemoryRepository({
+      products: [milk],
+      customers: [customer],
+      orders: [order('first', '2025-01-01', [item(milk, 2)]), order('second', '2025-01-02', [item(milk, 1)])],
+      paymentAllocations: [
+        { id: 'to-first', user_id: 'user', payment_id: 'payment', order_id: 'first', amount: 60, created_at: '2025-01-02T00:00:00Z' },
+        { id: 'to-second', user_id: 'user', payment_id: 'payment', order_id: 'second', amount: 30, created_at: '2025-01-02T00:00:00Z' },
+      ],
+    });
+    await repository.send({ table: 'daily_orders', action: 'delete', recordId: 'first', matchColumn: 'id' });
+
+    const { orders, paymentAllocations } = await repository.load('memory', '2025-01-01');
+    expect(orders.map(row => row.id)).toEqual(['second']);
+    expect(paymentAllocations.map(row => row.id)).toEqual(['to-second']);
+  });
+
+  it('totals statements without deleted orders', async () => {
+    const repository = createMemoryRepository({
+      products: [milk],
+      customers: [customer],
+      orders: [
+        order('first', '2025-01-01', [item(milk, 2)]),
+        order('second', '2025-01-02', [item(milk, 1)]),
+        order('deleted', '2025-01-02', [item(milk, 5)], { deleted_at: '2025-01-03T00:00:00Z' }),
+      ],
+      paymentAllocations: [{ id: 'allocation', user_id: 'user', payment_id: 'payment', order_id: 'first', amount: 60, created_at: '2025-01-02T00:00:00Z' }],
+    });
+
+    expect(await repository.statementTotals('2025-01-01', '2025-01-31')).toEqual([
+      { customer_id: customer.id, order_count: 2, total_amount: 90, total_paid: 60 },
+    ]);
+  });
+
+  it('totals each product by day', async () => {
+    const repository = seeded();
+    const second = order('second', '2025-01-01', [item(milk, 1)], { customer_name: 'Ravi' });
+    await repository.send({ table: 'daily_orders', action: 'insert', recordId: second.id, matchColumn: 'id', payload: second });
+
+    const totals = await repository.dailyProductTotals('2025-01-01', '2025-01-01');
+    expect(totals).toEqual([
+      { date: '2025-01-01', product_id: 'milk', product_name: 'Milk 500 ml', unit: 'ml', quantity: 3, amount: 90, order_count: 2 },
+      { date: '2025-01-01', product_id: 'curd', product_name: 'Curd 400 gm', unit: 'gm', quantity: 1, amount: 45, order_count: 1 },
+    ]);
+  });
+
+  it('counts packs sold before a date, less shortfalls and skipped orders', async () => {
+    const repository = createMemoryRepository({
+      products: [milk],
+      customers: [customer],
+      orders: [
+        order('first', '2025-01-01', [item(milk, 4)], { status: 'partial', shortfall: [{ product_id: 'milk', quantity: 1 }] }),
+        order('skipped', '2025-01-02', [item(milk, 2)], { status: 'skipped' }),
+        order('later', '2025-01-05', [item(milk, 7)]),
+      ],
+    });
+
+    expect(await repository.soldBefore('2025-01-05')).toEqual({ milk: 3 });
+  });
+});
+
+describe('createMemoryAuthClient', () => {
+  it('reports the user as they sign in and out', async () => {
+    const auth = createMemoryAuthClient();
+    const seen: (string | null)[] = [];
+    const stop = auth.onUserChange(user => seen.push(user?.email ?? null));
+
+    await auth.signIn('asha@example.com', 'password');
+    await auth.signOut();
+    stop();
+    await auth.signIn('ravi@example.com', 'password');
+
+    expect(seen).toEqual([null, 'asha@example.com', null]);
+  });
+});
@@ -0,0 +1,321 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AuthClient } from './authClient';
+import { DataRepository, DataSnapshot } from './dataRepository';
+import { OutboxTable, snapshotTables } from './offlineStore';
+import { attachOrderItems, toOrderItemRows } from './orderItems';
+import { CustomerLedgerTotals, DailyProductTotals, StatementTotals } from './ledgerQueries';
+import {
+  BusinessSettings, DailyOrder, Membership, OrderItemRow, OrganizationInvite, OrganizationMember, Payment, PaymentAllocation,
+  Product, Subscription, User,
+} from '../types';
+import { backupTables } from '../utils/backup';
+import { roundQuantity } from '../utils/inventory';
+import { formatInvoiceNumber, getFinancialYear } from '../utils/invoice';
+import { getPaidByOrder, roundMoney } from '../utils/ledger';
+
+// In-memory stand-ins for Supabase. They don't load the Supabase client, so they
+// also run where it isn't configured, like tests.
+
+type Row = { id: string } & Record<string, unknown>;
+
+/**
+ * A repository that keeps rows in memory, seeded from `seed`. Mutations apply
+ * immediately and never fail; nothing arrives from elsewhere. Every load returns
+ * the whole history, since there is nothing to save by windowing it. Order items
+ * are kept in their own table, as on the server.
+ */
+export const createMemoryRepository = (
+  seed: Partial<DataSnapshot> = {},
+  membership: Membership = { organization_id: 'memory', organization_name: 'Test Dairy', role: 'owner' },
+): DataRepository => {
+  const tables = Object.entries(snapshotTables).reduce((acc, [key, table]) => {
+    acc[table] = [...((seed[key as keyof typeof snapshotTables] || []) as unknown as Row[])];
+    return acc;
+  }, {} as Record<OutboxTable, Row[]>);
+  let members: OrganizationMember[] = [...(seed.members || [])];
+  let invites: OrganizationInvite[] = [...(seed.invites || [])];
+  let settings: Partial<BusinessSettings> | null = seed.settings ?? null;
+
+  const toOrderRow = (order: DailyOrder): Row => {
+    const row: Partial<DailyOrder> = { ...order };
+    delete row.items;
+    return row as Row;
+  };
+  // Saves orders with their items, leaving out orders that already exist, like save_order.
+  const addOrders = (orders: DailyOrder[]) => {
+    const added = orders.filter(order => !tables.daily_orders.some(row => row.id === order.id));
+    tables.daily_orders = [...tables.daily_orders, ...added.map(toOrderRow)];
+    tables.order_items = [...tables.order_items, ...added.flatMap(order => toOrderItemRows(order)) as unknown as Row[]];
+  };
+  // Adds rows, replacing any with the same id.
+  const upsertRows = <T extends { id: string }>(table: OutboxTable, added: T[]) => {
+    const addedIds = new Set(added.map(row => row.id));
+    tables[table] = [...tables[table].filter(existing => !addedIds.has(existing.id)), ...added as unknown as Row[]];
+  };
+  tables.order_items = [];
+  tables.daily_orders = [];
+  addOrders(seed.orders || []);
+
+  const rowsOf = <T>(table: OutboxTable): T[] => tables[table].map(row => ({ ...row })) as unknown as T[];
+  const withItems = (orders: DailyOrder[]): DailyOrder[] => attachOrderItems(orders, rowsOf<OrderItemRow>('order_items'));
+  const activeOrders = () => withItems(rowsOf<DailyOrder>('daily_orders').filter(order => !order.deleted_at));
+
+  return {
+    ensureMembership: async () => membership,
+
+    load: async () => ({
+      ...(Object.fromEntries(Object.entries(snapshotTables).map(([key, table]) => [key, rowsOf(table)])) as Omit<DataSnapshot, 'members' | 'invites' | 'settings'>),
+      orders: withItems(rowsOf('daily_orders')),
+      members: [...members],
+      invites: [...invites],
+      settings,
+    }),
+
+    loadLedgerRange: async (start, end, customerIds) => {
+      const inRange = (row: { date: string; customer_id: string }) =>
+        (start === null || row.date >= start) && (end === null || row.date <= end) && (!customerIds || customerIds.includes(row.customer_id));
+      const orders = withItems(rowsOf<DailyOrder>('daily_orders').filter(inRange));
+      const payments = rowsOf<Payment>('payments').filter(inRange);
+      const orderIds = new Set(orders.map(order => order.id));
+      const paymentIds = new Set(payments.map(payment => payment.id));
+      const allocations = rowsOf<PaymentAllocation>('payment_allocations')
+        .filter(allocation => orderIds.has(allocation.order_id) || paymentIds.has(allocation.payment_id));
+      return { orders, payments, allocations };
+    },
+
+    send: async mutation => {
+      const rows = tables[mutation.table];
+      const matches = (row: Row) => row[mutation.matchColumn] === mutation.recordId;
+      switch (mutation.action) {
+        case 'insert':
+          if (mutation.table === 'daily_orders') addOrders([mutation.payload as DailyOrder]);
+          else upsertRows(mutation.table, (Array.isArray(mutation.payload) ? mutation.payload : [mutation.payload]).map(row => ({ ...row }) as Row));
+          break;
+        case 'update':
+          tables[mutation.table] = rows.map(row => matches(row) ? { ...row, ...mutation.payload } : row);
+          break;
+        case 'delete':
+          tables[mutation.table] = rows.filter(row => !matches(row));
+          // Like ON DELETE CASCADE, an order's items and allocations and a payment's allocations go with it.
+          if (mutation.table === 'daily_orders') {
+            tables.order_items = tables.order_items.filter(row => row.order_id !== mutation.recordId);
+            tables.payment_allocations = tables.payment_allocations.filter(row => row.order_id !== mutation.recordId);
+          } else if (mutation.table === 'payments') {
+            tables.payment_allocations = tables.payment_allocations.filter(row => row.payment_id !== mutation.recordId);
+          }
+          break;
+        case 'replace':
+          tables[mutation.table] = [...rows.filter(row => !matches(row)), ...((mutation.payload || []) as Row[])];
+          break;
+      }
+      return { error: null };
+    },
+
+    subscribe: () => () => {},
+
+    saveSettings: async (_organizationId, nextSettings) => {
+      settings = { ...nextSettings };
+    },
+
+    addSubscription: async subscription => {
+      const saved = { ...subscription, id: uuidv4(), created_at: new Date().toISOString() };
+      upsertRows('subscriptions', [saved]);
+      return saved;
+    },
+
+    updateSubscription: async (subscriptionId, updates) => {
+      tables.subscriptions = tables.subscriptions.map(row => row.id === subscriptionId ? { ...row, ...updates } : row);
+      const saved = rowsOf<Subscription>('subscriptions').find(row => row.id === subscriptionId);
+      if (!saved) throw new Error('Subscription not found.');
+      return saved;
+    },
+
+    deleteSubscription: async subscriptionId => {
+      tables.subscriptions = tables.subscriptions.filter(row => row.id !== subscriptionId);
+    },
+
+    inviteMember: async invite => {
+      const saved: OrganizationInvite = { ...invite, id: uuidv4(), accepted_at: null, created_at: new Date().toISOString() };
+      invites = [...invites, saved];
+      return saved;
+    },
+
+    revokeInvite: async inviteId => {
+      invites = invites.filter(invite => invite.id !== inviteId);
+    },
+
+    updateMemberRole: async (userId, role) => {
+      members = members.map(member => member.user_id === userId ? { ...member, role } : member);
+    },
+
+    removeMember: async userId => {
+      members = members.filter(member => member.user_id !== userId);
+    },
+
+    createShareLink: async link => {
+      const saved = { ...link, id: uuidv4(), token: uuidv4().replace(/-/g, ''), revoked_at: null, created_at: new Date().toISOString() };
+      upsertRows('customer_share_links', [saved]);
+      return saved;
+    },
+
+    revokeShareLink: async (linkId, revokedAt) => {
+      tables.customer_share_links = tables.customer_share_links.map(row => row.id === linkId ? { ...row, revoked_at: revokedAt } : row);
+    },
+
+    issueInvoice: async invoice => {
+      const financialYear = getFinancialYear(invoice.invoice_date);
+      const sequence = 1 + Math.max(0, ...tables.invoices.filter(row => row.financial_year === financialYear).map(row => Number(row.sequence)));
+      const saved = {
+        ...invoice,
+        id: uuidv4(),
+        financial_year: financialYear,
+        sequence,
+        invoice_number: formatInvoiceNumber(financialYear, sequence),
+        created_at: new Date().toISOString(),
+      };
+      upsertRows('invoices', [saved]);
+      return saved;
+    },
+
+    addBills: async bills => {
+      const billed = new Set(tables.bills.map(row => `${row.customer_id}:${row.period_start}`));
+      const added = bills.filter(bill => !billed.has(`${bill.customer_id}:${bill.period_start}`));
+      upsertRows('bills', added);
+      return added;
+    },
+
+    importRecords: async records => {
+      upsertRows('customers', records.customers);
+      upsertRows('products', records.products);
+      addOrders(records.orders);
+      upsertRows('payments', records.payments);
+    },
+
+    // Replacing mirrors the database: share links go with their customers, invoices only lose the link.
+    restoreBackup: async (data, replace) => {
+      if (replace) {
+        backupTables.forEach(table => { tables[table] = []; });
+        tables.order_items = [];
+        tables.customer_share_links = [];
+        tables.invoices = tables.invoices.map(row => ({ ...row, customer_id: null }));
+      }
+      backupTables.forEach(table => {
+        if (table === 'daily_orders') addOrders(data.daily_orders);
+        else upsertRows<{ id: string }>(table, data[table]);
+      });
+    },
+
+    restoreAuditVersion: async entry => {
+      if (!entry.old_data) throw new Error('There is no earlier version to restore.');
+      if (entry.table_name !== 'daily_orders') {
+        upsertRows(entry.table_name, [entry.old_data as Row]);
+        return { ...entry.old_data } as Row;
+      }
+      const order = entry.old_data as unknown as DailyOrder;
+      upsertRows('daily_orders', [toOrderRow(order)]);
+      if (order.items) {
+        tables.order_items = [...tables.order_items.filter(row => row.order_id !== order.id), ...toOrderItemRows(order) as unknown as Row[]];
+      }
+      return withItems(rowsOf<DailyOrder>('daily_orders').filter(row => row.id === order.id))[0] as unknown as Row;
+    },
+
+    statementTotals: async (start, end) => {
+      const paidByOrder = getPaidByOrder(rowsOf<PaymentAllocation>('payment_allocations'));
+      const totals = activeOrders()
+        .filter(order => order.date >= start && order.date <= end)
+        .reduce((acc, order) => {
+          const total = (acc[order.customer_id] = acc[order.customer_id] || { customer_id: order.customer_id, order_count: 0, total_amount: 0, total_paid: 0 });
+          total.order_count += 1;
+          total.total_amount = roundMoney(total.total_amount + order.total_amount);
+          total.total_paid = roundMoney(total.total_paid + (paidByOrder[order.id] || 0));
+          return acc;
+        }, {} as Record<string, StatementTotals>);
+      return Object.values(totals);
+    },
+
+    customerLedgerTotals: async customerId => {
+      if (!tables.customers.some(row => row.id === customerId)) return null;
+      const orders = activeOrders().filter(order => order.customer_id === customerId);
+      const payments = rowsOf<Payment>('payments').filter(payment => payment.customer_id === customerId);
+      const totals: CustomerLedgerTotals = {
+        customer_id: customerId,
+        order_count: orders.length,
+        total_billed: roundMoney(orders.reduce((sum, order) => sum + order.total_amount, 0)),
+        total_received: roundMoney(payments.reduce((sum, payment) => sum + payment.amount, 0)),
+      };
+      return totals;
+    },
+
+    // Packs delivered: ordered quantities less any shortfall; skipped orders take nothing.
+    soldBefore: async date => activeOrders()
+      .filter(order => order.date < date && order.status !== 'skipped')
+      .flatMap(order => [
+        ...order.items.filter(item => item.product_id).map(item => ({ productId: item.product_id, packs: item.quantity })),
+        ...(order.shortfall || []).map(item => ({ productId: item.product_id, packs: -item.quantity })),
+      ])
+      .reduce((acc, entry) => {
+        acc[entry.productId] = roundQuantity((acc[entry.productId] || 0) + entry.packs);
+        return acc;
+      }, {} as Record<string, number>),
+
+    // Lines without a product are grouped by the name they were ordered under.
+    dailyProductTotals: async (start, end) => {
+      const products = rowsOf<Product>('products');
+      const totals: Record<string, DailyProductTotals> = {};
+      const orderIds: Record<string, Set<string>> = {};
+      activeOrders()
+        .filter(order => order.date >= start && order.date <= end)
+        .forEach(order => order.items.forEach(item => {
+          const productName = products.find(product => product.id === item.product_id)?.name ?? item.product_name;
+          const key = [order.date, item.product_id, productName, item.unit].join(':');
+          const total = (totals[key] = totals[key] || {
+            date: order.date,
+            product_id: item.product_id || null,
+            product_name: productName,
+            unit: item.unit,
+            quantity: 0,
+            amount: 0,
+            order_count: 0,
+          });
+          total.quantity = roundQuantity(total.quantity + item.quantity);
+          total.amount = roundMoney(total.amount + item.total);
+          total.order_count = (orderIds[key] = orderIds[key] || new Set()).add(order.id).size;
+        }));
+      return Object.values(totals);
+    },
+  };
+};
+
+/**
+ * An auth client that keeps the signed-in user in memory, starting with `user`.
+ * Any password is accepted; signing in as someone new makes up their user.
+ */
+export const createMemoryAuthClient = (user: User | null = null): AuthClient => {
+  let current = user;
+  const listeners = new Set<(user: User | null) => void>();
+  const setUser = (next: User | null) => {
+    current = next;
+    listeners.forEach(listener => listener(current));
+  };
+
+  return {
+    onUserChange: onChange => {
+      listeners.add(onChange);
+      onChange(current);
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+    signIn: async email => {
+      setUser(current?.email === email ? current : { id: uuidv4(), email, username: email });
+      return { error: null };
+    },
+    signUp: async (email, username) => {
+      setUser({ id: uuidv4(), email, username });
+      return { error: null };
+    },
+    signOut: async () => setUser(null),
+    sendPasswordReset: async () => ({ error: null }),
+    updatePassword: async () => ({ error: null }),
+  };
+};
@@ -0,0 +1,132 @@
+import { DataSnapshot } from './dataRepository';
+
+// A small promise wrapper around IndexedDB that keeps a local mirror of the
+// user's data and an outbox of mutations that could not reach Supabase yet.
+
+export type MirrorTable = 'products' | 'product_prices' | 'customers' | 'daily_orders' | 'subscriptions' | 'payments' | 'payment_allocations' | 'invoices' | 'routes' | 'route_stops' | 'stock_movements' | 'suppliers' | 'purchases' | 'customer_share_links' | 'bills' | 'message_log';
+
+// The mirror table each list of a loaded snapshot is kept in.
+export type SnapshotTable = Exclude<keyof DataSnapshot, 'members' | 'invites' | 'settings'>;
+
+export const snapshotTables: Record<SnapshotTable, MirrorTable> = {
+  products: 'products',
+  productPrices: 'product_prices',
+  customers: 'customers',
+  orders: 'daily_orders',
+  subscriptions: 'subscriptions',
+  payments: 'payments',
+  paymentAllocations: 'payment_allocations',
+  bills: 'bills',
+  invoices: 'invoices',
+  routes: 'routes',
+  routeStops: 'route_stops',
+  stockMovements: 'stock_movements',
+  suppliers: 'suppliers',
+  purchases: 'purchases',
+  shareLinks: 'customer_share_links',
+  messageLog: 'message_log',
+};
+
+// Order items are sent to their own table but kept inside their order locally, so they have no mirror.
+export type OutboxTable = MirrorTable | 'order_items';
+
+// 'conflict' marks a queued change to a row another device has changed since.
+export type SyncStatus = 'pending' | 'conflict' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  table: OutboxTable;
+  // 'replace' swaps all rows matching recordId for the payload rows; it is used for an order's items.
+  action: 'insert' | 'update' | 'delete' | 'replace';
+  // The row the mutation applies to, used to report per-row sync state.
+  recordId: string;
+  // The column matched against recordId for updates, deletes and replaces.
+  matchColumn: string;
+  // An array inserts several rows at once. A 'daily_orders' insert carries the order with its items.
+  payload?: object;
+  createdAt: string;
+  // Set when Supabase rejected the mutation for a reason other than connectivity.
+  error?: string;
+}
+
+const DB_VERSION = 10;
+const OUTBOX = 'outbox';
+const mirrorTables: MirrorTable[] = ['products', 'product_prices', 'customers', 'daily_orders', 'subscriptions', 'payments', 'payment_allocations', 'invoices', 'routes', 'route_stops', 'stock_movements', 'suppliers', 'purchases', 'customer_share_links', 'bills', 'message_log'];
+
+const dbCache: Record<string, Promise<IDBDatabase>> = {};
+
+// Each user gets their own database so switching accounts on a shared phone never mixes data.
+const openDB = (userId: string): Promise<IDBDatabase> => {
+  if (!dbCache[userId]) {
+    dbCache[userId] = new Promise((resolve, reject) => {
+      const request = indexedDB.open(`jaygoga-offline-${userId}`, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        mirrorTables.forEach(table => {
+          if (!db.objectStoreNames.contains(table)) db.createObjectStore(table, { keyPath: 'id' });
+        });
+        if (!db.objectStoreNames.contains(OUTBOX)) db.createObjectStore(OUTBOX, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        delete dbCache[userId];
+        reject(request.error);
+      };
+    });
+  }
+  return dbCache[userId];
+};
+
+const runTransaction = async <T>(
+  userId: string,
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest | void,
+): Promise<T> => {
+  const db = await openDB(userId);
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getMirror = <T>(userId: string, table: MirrorTable): Promise<T[]> =>
+  runTransaction<T[]>(userId, table, 'readonly', store => store.getAll());
+
+export const replaceMirror = <T extends { id: string }>(userId: string, table: MirrorTable, rows: T[]): Promise<void> =>
+  runTransaction<void>(userId, table, 'readwrite', store => {
+    store.clear();
+    rows.forEach(row => store.put(row));
+  });
+
+export const getOutbox = async (userId: string): Promise<OutboxEntry[]> => {
+  const entries = await runTransaction<OutboxEntry[]>(userId, OUTBOX, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const putOutboxEntry = (userId: string, entry: OutboxEntry): Promise<void> =>
+  runTransaction<void>(userId, OUTBOX, 'readwrite', store => store.put(entry));
+
+export const removeOutboxEntry = (userId: string, entryId: string): Promise<void> =>
+  runTransaction<void>(userId, OUTBOX, 'readwrite', store => store.delete(entryId));
+
+/**
+ * Distinguishes "could not reach the server" from real rejections (RLS, constraints).
+ * supabase-js reports fetch failures as errors whose message comes from the browser.
+ */
+export const isNetworkError = (error: { message?: string } | null | undefined): boolean => {
+  if (!navigator.onLine) return true;
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(error?.message || '');
+};
+
+/** Reduces the sync state of several rows (e.g. a customer's orders for a day) to one. */
+export const combineSyncStatus = (recordIds: string[], syncStatus: Record<string, SyncStatus>): SyncStatus | undefined => {
+  const statuses = recordIds.map(id => syncStatus[id]);
+  if (statuses.includes('failed')) return 'failed';
+  if (statuses.includes('conflict')) return 'conflict';
+  if (statuses.includes('pending')) return 'pending';
+  return undefined;
+};
@@ -0,0 +1,37 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DailyOrder, OrderItem, OrderItemRow } from '../types';
+
+// An order's items are rows of 'order_items' on the server, but the app keeps them
+// inside the order. These convert between the two.
+
+/** The order_items rows for an order's items, in order. */
+export const toOrderItemRows = (order: Pick<DailyOrder, 'id' | 'user_id' | 'items'>): OrderItemRow[] =>
+  order.items.map((item, position) => ({
+    ...item,
+    id: uuidv4(),
+    user_id: order.user_id,
+    order_id: order.id,
+    product_id: item.product_id || null,
+    position,
+  }));
+
+/** An order_items row as the app's item. Numeric columns may arrive as strings. */
+export const toOrderItem = (row: Record<string, unknown>): OrderItem => ({
+  product_id: typeof row.product_id === 'string' ? row.product_id : '',
+  product_name: String(row.product_name ?? ''),
+  quantity: Number(row.quantity),
+  unit: row.unit as OrderItem['unit'],
+  price: Number(row.price),
+  total: Number(row.total),
+});
+
+/** Puts each order's items back inside it, in their original order. */
+export const attachOrderItems = <T extends { id: string }>(orders: T[], rows: OrderItemRow[]): (T & { items: OrderItem[] })[] => {
+  const itemsByOrder = [...rows]
+    .sort((a, b) => a.position - b.position)
+    .reduce((acc, row) => {
+      (acc[row.order_id] = acc[row.order_id] || []).push(toOrderItem(row as unknown as Record<string, unknown>));
+      return acc;
+    }, {} as Record<string, OrderItem[]>);
+  return orders.map(order => ({ ...order, items: itemsByOrder[order.id] || [] }));
+};
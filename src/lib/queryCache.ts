@@ -0,0 +1,21 @@
+// Results of server-side queries, kept for the session so revisiting a page or a
+// date range doesn't ask the server again. Writes invalidate the keys they affect:
+// this device's own, its queued ones once they are sent, and other devices' as they arrive live.
+const cache = new Map<string, Promise<unknown>>();
+
+/** Runs `fetcher` once per key. A failed fetch is forgotten so the next call retries it. */
+export const cachedQuery = <T>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+  const cached = cache.get(key);
+  if (cached) return cached as Promise<T>;
+  const result = fetcher();
+  cache.set(key, result);
+  result.catch(() => cache.delete(key));
+  return result;
+};
+
+/** Forgets every cached result whose key starts with `prefix`, or all of them. */
+export const invalidateQueries = (prefix = '') => {
+  for (const key of [...cache.keys()]) {
+    if (key.startsWith(prefix)) cache.delete(key);
+  }
+};
@@ -0,0 +1,96 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { OutboxEntry } from './offlineStore';
+import { toOrderItem } from './orderItems';
+import { DailyOrder } from '../types';
+
+// Tables whose changes other devices see live. Each is in the supabase_realtime publication.
+export const realtimeTables = ['products', 'customers', 'daily_orders', 'order_items', 'payments', 'payment_allocations'] as const;
+export type RealtimeTable = typeof realtimeTables[number];
+
+export interface RemoteChange {
+  table: RealtimeTable;
+  type: 'INSERT' | 'UPDATE' | 'DELETE';
+  id: string;
+  row: Record<string, unknown> | null;
+}
+
+/**
+ * Listens for changes other devices make to the organization's products, customers,
+ * orders and payments. Inserts and updates are filtered to the organization on the server;
+ * delete events can't be filtered and only carry the row's id, so an id that isn't
+ * loaded here is simply ignored by the caller. Returns a function that stops listening.
+ */
+export const subscribeToRemoteChanges = (organizationId: string, onChange: (change: RemoteChange) => void): (() => void) => {
+  const channel = supabase.channel(`organization-${organizationId}`);
+  realtimeTables.forEach(table => {
+    const handle = (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => {
+      const row = payload.eventType === 'DELETE' ? null : payload.new;
+      const id = (row ?? payload.old as Record<string, unknown>).id;
+      if (typeof id === 'string') onChange({ table, type: payload.eventType, id, row });
+    };
+    channel
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter: `organization_id=eq.${organizationId}` }, handle)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter: `organization_id=eq.${organizationId}` }, handle)
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, handle);
+  });
+  channel.subscribe();
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+/**
+ * The row a remote change touches, as queued changes name it. An order's items are
+ * queued as one change to the order, so an item change is reported against its order.
+ */
+export const getChangedRecordId = (change: RemoteChange): string =>
+  change.table === 'order_items' && typeof change.row?.order_id === 'string' ? change.row.order_id : change.id;
+
+/** Changes this device has queued for the row a remote change touches. */
+export const getQueuedChanges = (change: RemoteChange, queued: OutboxEntry[]): OutboxEntry[] =>
+  change.table === 'order_items'
+    ? queued.filter(entry => !entry.error && entry.table === 'order_items' && entry.action === 'replace' && entry.recordId === getChangedRecordId(change))
+    : queued.filter(entry => !entry.error && entry.table === change.table && entry.matchColumn === 'id' && entry.recordId === change.id);
+
+/**
+ * Merges a change from another device into local rows. Changes this device has
+ * queued for the same row are sent after it and will win, so they are applied on
+ * top of the incoming row.
+ */
+export const mergeRemoteChange = <T extends { id: string }>(rows: T[], change: RemoteChange, pending: OutboxEntry[]): T[] => {
+  let merged: T | null = change.type === 'DELETE' ? null : change.row as unknown as T;
+  for (const entry of pending) {
+    if (entry.action === 'delete') merged = null;
+    else if (merged) merged = { ...merged, ...entry.payload };
+  }
+
+  const exists = rows.some(row => row.id === change.id);
+  if (!merged) return exists ? rows.filter(row => row.id !== change.id) : rows;
+  if (!exists) return [...rows, merged];
+  return rows.map(row => row.id === change.id ? merged as T : row);
+};
+
+/** Order rows arrive without their items, which come as order_items changes; the local items are kept. */
+export const keepOrderItems = (change: RemoteChange, orders: DailyOrder[]): RemoteChange =>
+  change.row ? { ...change, row: { items: orders.find(order => order.id === change.id)?.items ?? [], ...change.row } } : change;
+
+/**
+ * Merges an order item added elsewhere into its order. An order's items are always
+ * written as a whole list starting at position 0, so an item at position 0 starts
+ * the list afresh. Removed items need no event: items only go with their order or
+ * when the list is rewritten. Items this device has queued replace the list once
+ * sent, so while any are pending the local items are kept.
+ */
+export const mergeRemoteOrderItem = (orders: DailyOrder[], change: RemoteChange, pending: OutboxEntry[]): DailyOrder[] => {
+  if (!change.row || pending.length > 0) return orders;
+  const orderId = change.row.order_id;
+  const position = Number(change.row.position);
+  const item = toOrderItem(change.row);
+  return orders.map(order => {
+    if (order.id !== orderId) return order;
+    const items = position === 0 ? [] : [...order.items];
+    items[Math.min(position, items.length)] = item;
+    return { ...order, items };
+  });
+};
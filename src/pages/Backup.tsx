@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import Layout from '../components/Layout/Layout';
+import { useAuth } from '../context/AuthContext';
+import { useAccountData } from '../context/DataContext';
+import { useSync, useSyncStatus } from '../context/useSync';
+import { ArrowLeft, Download, Upload, Loader2, AlertTriangle, DatabaseBackup } from 'lucide-react';
+import { AccountBackup, BackupTable, RestoreMode, countBackupRows, parseBackup } from '../utils/backup';
+import { triggerDownload } from '../utils/download';
+
+const tableLabels: Record<BackupTable, string> = {
+  products: 'Products',
+  customers: 'Customers',
+  product_prices: 'Price changes',
+  daily_orders: 'Orders',
+  subscriptions: 'Subscriptions',
+  payments: 'Payments',
+  payment_allocations: 'Payment allocations',
+  routes: 'Routes',
+  route_stops: 'Route stops',
+  stock_movements: 'Stock entries',
+  suppliers: 'Suppliers',
+  purchases: 'Purchases',
+  bills: 'Bills',
+};
+
+const modeDescriptions: Record<RestoreMode, string> = {
+  merge: 'Adds everything from the backup next to your current data.',
+  replace: 'Deletes your current data first, then restores the backup. Issued invoices are kept.',
+};
+
+const Backup: React.FC = () => {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const { isOnline } = useSync();
+  const { pendingChangesCount } = useSyncStatus();
+  const { createAccountBackup, restoreAccountBackup } = useAccountData();
+  const [backup, setBackup] = useState<AccountBackup | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const newBackup = await createAccountBackup();
+      const blob = new Blob([JSON.stringify(newBackup)], { type: 'application/json' });
+      triggerDownload(blob, `JayGogaMilk_Backup_${newBackup.exported_at.split('T')[0]}.json`);
+    } catch (error) {
+      console.error("Failed to create backup", error);
+      alert("Failed to load the full history for the backup. Please try again.");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setBackup(parseBackup(JSON.parse(await file.text())));
+      setFileName(file.name);
+    } catch (error) {
+      console.error("Failed to read backup", error);
+      alert(error instanceof SyntaxError ? "This file is not a valid backup." : (error as Error).message);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    const warning = mode === 'replace'
+      ? 'This deletes all current products, customers, orders and payments before restoring. Continue?'
+      : 'Add everything from this backup to your current data?';
+    if (!window.confirm(warning)) return;
+    setIsSubmitting(true);
+    try {
+      await restoreAccountBackup(backup, mode);
+      setBackup(null);
+      setFileName('');
+      alert("Backup restored.");
+    } catch (error) {
+      console.error("Failed to restore backup", error);
+      alert("Failed to restore backup. Nothing was changed; please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Layout title="Backup">
+      <div className="px-4">
+        <div className="flex items-center mb-6">
+          <motion.button onClick={() => navigate('/team')} className="p-2 mr-2 rounded-full hover:bg-gray-100" whileTap={{ scale: 0.9 }}>
+            <ArrowLeft size={20} className="text-gray-700" />
+          </motion.button>
+          <h2 className="text-xl font-bold text-gray-800">Backup & Restore</h2>
+        </div>
+
+        {!can('manageBackups') ? (
+          <p className="text-sm text-gray-600">Only owners can back up and restore the account.</p>
+        ) : (
+          <>
+            <div className="bg-white rounded-xl p-4 mb-6 shadow-sm border border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-800 mb-1 flex items-center"><DatabaseBackup size={20} className="mr-2 text-dairy-600" />Backup</h3>
+              <p className="text-sm text-gray-500 mb-4">Downloads all products, customers, orders, payments, bills, routes, stock and suppliers, including the Trash, as one file.</p>
+              {!isOnline && <p className="text-sm text-orange-600 mb-2">Offline, the backup only includes the orders and payments on this device.</p>}
+              <motion.button onClick={handleDownload} disabled={isDownloading} className="w-full flex items-center justify-center space-x-2 bg-dairy-600 text-white py-3 rounded-lg font-medium disabled:opacity-50" whileTap={{ scale: 0.98 }}>
+                {isDownloading ? <Loader2 className="animate-spin" /> : <><Download size={18} /><span>Download Backup</span></>}
+              </motion.button>
+            </div>
+
+            <div className="bg-white rounded-xl p-4 mb-6 shadow-sm border border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-800 mb-1 flex items-center"><Upload size={20} className="mr-2 text-dairy-600" />Restore</h3>
+              <p className="text-sm text-gray-500 mb-4">Restores a backup file. Everything is restored together, or nothing is.</p>
+              <label className="w-full flex items-center justify-center space-x-2 bg-dairy-50 text-dairy-700 py-3 rounded-lg font-medium cursor-pointer mb-4">
+                <Upload size={18} />
+                <span>{fileName || 'Choose backup file'}</span>
+                <input type="file" accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+              </label>
+
+              {backup && (
+                <>
+                  <p className="text-sm text-gray-700 mb-2">Made on {new Date(backup.exported_at).toLocaleString('en-IN')}</p>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-gray-600 mb-4">
+                    {Object.entries(countBackupRows(backup.data)).map(([table, count]) => (
+                      <p key={table}>{tableLabels[table as BackupTable]}: <span className="font-medium text-gray-800">{count}</span></p>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 mb-2">
+                    {(Object.keys(modeDescriptions) as RestoreMode[]).map(option => (
+                      <button key={option} type="button" onClick={() => setMode(option)} className={`py-2 rounded-lg text-sm border capitalize ${mode === option ? (option === 'replace' ? 'bg-red-600 text-white border-red-600' : 'bg-dairy-600 text-white border-dairy-600') : 'border-gray-300 text-gray-600'}`}>{option}</button>
+                    ))}
+                  </div>
+                  <p className={`text-xs mb-4 ${mode === 'replace' ? 'text-red-600 flex items-start' : 'text-gray-500'}`}>
+                    {mode === 'replace' && <AlertTriangle size={14} className="mr-1 flex-shrink-0" />}
+                    {modeDescriptions[mode]}
+                  </p>
+                  {!isOnline && <p className="text-sm text-orange-600 mb-2">Backups can only be restored while online.</p>}
+                  {pendingChangesCount > 0 && <p className="text-sm text-orange-600 mb-2">Sync your pending changes before restoring.</p>}
+                  <motion.button onClick={handleRestore} disabled={isSubmitting || !isOnline || pendingChangesCount > 0} className="w-full bg-dairy-600 text-white py-3 rounded-lg font-medium disabled:opacity-50 flex justify-center items-center" whileTap={{ scale: 0.98 }}>
+                    {isSubmitting ? <Loader2 className="animate-spin" /> : 'Restore Backup'}
+                  </motion.button>
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Backup;
@@ -1,45 +1,36 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import Layout from '../components/Layout/Layout';
 import { useAuth } from '../context/AuthContext';
-import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useDataStore } from '../context/useDataStore';
+import { useProducts, useSettings } from '../context/DataContext';
+import { useDailyProductTotals } from '../hooks/useDailyProductTotals';
 import { Package, Loader2, IndianRupee } from 'lucide-react';
 
 const Boxes: React.FC = () => {
-  const { orders, products, dataLoading } = useAuth();
-  const [boxConfigs, setBoxConfigs] = useLocalStorage<Record<string, number>>('boxConfigs', {});
+  const { can } = useAuth();
+  const { dataLoading } = useDataStore();
+  const { settings, updateSettings } = useSettings();
+  const { products } = useProducts();
+  // Box sizes are account settings; a change is saved when its field loses focus.
+  const [boxConfigs, setBoxConfigs] = useState<Record<string, number>>(settings.box_configs);
+  useEffect(() => setBoxConfigs(settings.box_configs), [settings.box_configs]);
 
   const today = new Date().toISOString().split('T')[0];
+  const todayTotals = useDailyProductTotals(today);
 
   const productSummary = useMemo(() => {
-    // Create a summary of sales for today
-    const salesSummary: { [productId: string]: { totalQuantity: number; totalValue: number } } = {};
-    const todayOrders = orders.filter(order => order.date === today);
-
-    todayOrders.forEach(order => {
-      order.items.forEach(item => {
-        if (!salesSummary[item.product_id]) {
-          salesSummary[item.product_id] = { totalQuantity: 0, totalValue: 0 };
-        }
-        salesSummary[item.product_id].totalQuantity += item.quantity;
-        salesSummary[item.product_id].totalValue += item.total;
-      });
-    });
-
-    // Map over ALL products and merge with sales data
-    const allProductsSummary = products.map(product => {
-      const sales = salesSummary[product.id] || { totalQuantity: 0, totalValue: 0 };
+    // Today's sales for every product, including ones not sold today
+    return products.map(product => {
+      const total = todayTotals.find(entry => entry.productId === product.id);
       return {
         productId: product.id,
         name: product.name,
-        totalQuantity: sales.totalQuantity,
-        totalValue: sales.totalValue,
+        totalQuantity: total?.packs ?? 0,
+        totalValue: total?.amount ?? 0,
       };
-    });
-
-    // Sort the final list by product name
-    return allProductsSummary.sort((a, b) => a.name.localeCompare(b.name));
-  }, [orders, products, today]);
+    }).sort((a, b) => a.name.localeCompare(b.name));
+  }, [products, todayTotals]);
 
   const handleConfigChange = (productId: string, value: string) => {
     const pieces = parseInt(value, 10);
@@ -49,6 +40,15 @@ const Boxes: React.FC = () => {
     }));
   };
 
+  const handleConfigSave = async () => {
+    try {
+      await updateSettings({ box_configs: boxConfigs });
+    } catch (error) {
+      console.error("Failed to save box config", error);
+      alert("Failed to save box config. Settings can only be changed while online.");
+    }
+  };
+
   const calculateBoxNeeds = (totalQuantity: number, piecesPerBox: number) => {
     if (piecesPerBox <= 0) {
       return null;
@@ -131,6 +131,8 @@ const Boxes: React.FC = () => {
                           type="number"
                           value={boxConfigs[productId] || ''}
                           onChange={(e) => handleConfigChange(productId, e.target.value)}
+                          onBlur={handleConfigSave}
+                          disabled={!can('manageSettings')}
                           className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-dairy-500"
                           placeholder="Pcs/Box"
                         />
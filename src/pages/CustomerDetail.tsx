@@ -1,101 +1,150 @@
-import React, { useMemo, useState, useEffect } from 'react';
+import React, { useCallback, useMemo, useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { Customer, DailyOrder, OrderItem } from '../types';
+import { useSync, useSyncStatus } from '../context/useSync';
+import { useDataStore } from '../context/useDataStore';
+import { useCustomers, useOrders, usePayments, useLedgerQueries, useBilling } from '../context/DataContext';
+import { useUndo } from '../context/useUndo';
+import { BillStatus, Customer, Payment, PaymentMethod } from '../types';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowLeft, Edit2, Trash2, ShoppingCart, IndianRupee, Clock, CheckCircle, AlertTriangle, CreditCard, Loader2, Package, Home, Phone } from 'lucide-react';
+import { ArrowLeft, Edit2, Trash2, ShoppingCart, IndianRupee, Clock, CheckCircle, AlertTriangle, CreditCard, Loader2, Package, Home, Phone, Wallet, Share2, History, CalendarDays, MapPin, StickyNote } from 'lucide-react';
+import SubscriptionEditor from '../components/Customers/SubscriptionEditor';
+import ShareLinkModal from '../components/Customers/ShareLinkModal';
+import CustomerProfileFields from '../components/Customers/CustomerProfileFields';
+import HistoryModal from '../components/History/HistoryModal';
+import UpiQrCard from '../components/Payments/UpiQrCard';
+import SyncStatusBadge from '../components/Sync/SyncStatusBadge';
+import { combineSyncStatus } from '../lib/offlineStore';
+import { fetchCustomerHistory } from '../lib/auditLog';
+import { CustomerLedgerTotals } from '../lib/ledgerQueries';
+import { allocateCredit, getPaidByOrder } from '../utils/ledger';
+import { allocatePayment, getCustomerAccount } from '../utils/customerAccount';
+import { emptyCustomerProfile, formatCustomerAddress, getMapLink, parseCustomerProfileForm, toCustomerProfileForm } from '../utils/customerProfile';
+import { DateSummary, summarizeByDate } from '../utils/orderSummaries';
+import { DEFAULT_BILLING_DAY, billStatusLabels, getBillPayment, getCycleEnd, getCycleStart } from '../utils/billing';
 
-interface DailySummary {
-  date: string;
-  orders: DailyOrder[];
-  totalAmount: number;
-  totalPaid: number;
-  balance: number;
-  allItems: OrderItem[];
-}
+const paymentMethodLabels: Record<PaymentMethod, string> = { cash: 'Cash', upi: 'UPI', bank: 'Bank' };
+
+const billStatusColors: Record<BillStatus, string> = {
+  open: 'bg-red-100 text-red-700',
+  partially_paid: 'bg-orange-100 text-orange-700',
+  paid: 'bg-green-100 text-green-700',
+};
+
+const billingDays = Array.from({ length: 28 }, (_, index) => index + 1);
+
+const formatBillDate = (date: string) => new Date(date).toLocaleDateString('en-IN', { timeZone: 'UTC', day: 'numeric', month: 'short', year: 'numeric' });
 
 const CustomerDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   
-  const { customers, orders, updateCustomer, deleteCustomer, updateOrder, dataLoading } = useAuth();
+  const { can } = useAuth();
+  const { dataLoading } = useDataStore();
+  const { isOnline } = useSync();
+  const { syncStatus } = useSyncStatus();
+  const { bills } = useBilling();
+  
+  const { customers, updateCustomer, deleteCustomer, restoreCustomer } = useCustomers();
+  
+  const { orders, ordersLoadedFrom, loadOrderRange } = useOrders();
+  
+  const { payments, paymentAllocations, recordPayment, addPaymentAllocations, deletePayment } = usePayments();
+  const { customerLedgerTotals } = useLedgerQueries();
+
+  const { showUndo } = useUndo();
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showEditForm, setShowEditForm] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
-  const [paymentModal, setPaymentModal] = useState<{ show: boolean; summary: DailySummary | null }>({ show: false, summary: null });
+  const [showShareLink, setShowShareLink] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [paymentModal, setPaymentModal] = useState<{ show: boolean; summary: DateSummary | null }>({ show: false, summary: null });
   const [paymentAmount, setPaymentAmount] = useState('');
-  const [formData, setFormData] = useState({ name: '', address: '', contact_number: '' });
+  const [paymentDate, setPaymentDate] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [paymentNote, setPaymentNote] = useState('');
+  const [formData, setFormData] = useState({ name: '', billing_day: DEFAULT_BILLING_DAY });
+  const [profileForm, setProfileForm] = useState(toCustomerProfileForm(emptyCustomerProfile));
+  const [lifetimeTotals, setLifetimeTotals] = useState<CustomerLedgerTotals | null>(null);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
 
   const customer = useMemo(() => customers.find(c => c.id === id), [customers, id]);
+  const loadHistory = useCallback(() => fetchCustomerHistory(id || ''), [id]);
   
   useEffect(() => {
     if (customer) {
       setFormData({
         name: customer.name,
-        address: customer.address,
-        contact_number: customer.contact_number,
+        billing_day: customer.billing_day || DEFAULT_BILLING_DAY,
       });
+      // Customers mirrored before profiles existed may lack some fields.
+      setProfileForm(toCustomerProfileForm({ ...emptyCustomerProfile, ...customer }));
     }
   }, [customer]);
 
-  const customerOrders = useMemo(() => {
+  const account = useMemo(() => getCustomerAccount(id || '', orders, payments, paymentAllocations), [id, orders, payments, paymentAllocations]);
+  const { orders: customerOrders, payments: customerPayments, ledger, unallocatedByPayment, amountDue } = account;
+
+  // Only recent and unpaid orders are loaded, so lifetime totals come from the database.
+  useEffect(() => {
+    if (!id || !isOnline) return;
+    customerLedgerTotals(id)
+      .then(setLifetimeTotals)
+      .catch(error => console.error("Failed to load customer totals", error));
+  }, [id, isOnline, customerOrders, customerPayments, customerLedgerTotals]);
+
+  const handleLoadHistory = async () => {
+    if (!id) return;
+    setIsLoadingHistory(true);
+    try {
+      await loadOrderRange(null, null, [id]);
+      setHistoryLoaded(true);
+    } catch (error) {
+      console.error("Failed to load earlier history", error);
+      alert("Failed to load earlier orders. Please try again.");
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  const paidByOrder = useMemo(() => getPaidByOrder(paymentAllocations), [paymentAllocations]);
+
+  const customerBills = useMemo(() => {
     if (!id) return [];
-    return orders
-      .filter(o => o.customer_id === id)
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [orders, id]);
-
-  const dailySummaries = useMemo((): DailySummary[] => {
-    if (!customerOrders) return [];
-
-    const groupedByDate = customerOrders.reduce((acc, order) => {
-        const date = order.date;
-        if (!acc[date]) {
-            acc[date] = {
-                date: date,
-                orders: [],
-                totalAmount: 0,
-                totalPaid: 0,
-                balance: 0,
-                allItems: [],
-            };
-        }
-        acc[date].orders.push(order);
-        acc[date].totalAmount += order.total_amount;
-        acc[date].totalPaid += order.amount_paid || 0;
-        acc[date].allItems.push(...order.items);
-        return acc;
-    }, {} as Record<string, Omit<DailySummary, 'balance'>>);
-
-    return Object.values(groupedByDate).map(summary => ({
-        ...summary,
-        balance: summary.totalAmount - summary.totalPaid,
-    })).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [customerOrders]);
-
-  const stats = useMemo(() => {
-    const totalOrdersValue = dailySummaries.reduce((sum, s) => sum + s.totalAmount, 0);
-    const totalPaid = dailySummaries.reduce((sum, s) => sum + s.totalPaid, 0);
-    return {
-      totalOrders: customerOrders.length,
-      totalSpent: totalPaid,
-      pendingAmount: totalOrdersValue - totalPaid,
-    };
-  }, [dailySummaries, customerOrders.length]);
+    return bills
+      .filter(bill => bill.customer_id === id)
+      .sort((a, b) => b.period_start.localeCompare(a.period_start))
+      .map(bill => ({ bill, ...getBillPayment(bill, customerPayments) }));
+  }, [bills, customerPayments, id]);
+
+  const currentCycle = useMemo(() => {
+    const billingDay = customer?.billing_day || DEFAULT_BILLING_DAY;
+    const start = getCycleStart(new Date().toISOString().split('T')[0], billingDay);
+    return { start, end: getCycleEnd(start, billingDay) };
+  }, [customer]);
+
+  const dailySummaries = useMemo(() => summarizeByDate(customerOrders, paidByOrder), [customerOrders, paidByOrder]);
 
   const statCards = [
-    { icon: ShoppingCart, label: 'Total Orders', value: stats.totalOrders, color: 'bg-blue-100 text-blue-600' },
-    { icon: IndianRupee, label: 'Total Paid', value: `₹${stats.totalSpent.toFixed(2)}`, color: 'bg-green-100 text-green-600' },
-    { icon: Clock, label: 'Pending Amount', value: `₹${stats.pendingAmount.toFixed(2)}`, color: 'bg-orange-100 text-orange-600' },
+    { icon: ShoppingCart, label: 'Total Orders', value: lifetimeTotals?.order_count ?? customerOrders.length, color: 'bg-blue-100 text-blue-600' },
+    { icon: IndianRupee, label: 'Total Paid', value: `₹${(lifetimeTotals?.total_received ?? ledger.totalReceived).toFixed(2)}`, color: 'bg-green-100 text-green-600' },
+    { icon: Clock, label: 'Pending Amount', value: `₹${ledger.pending.toFixed(2)}`, color: 'bg-orange-100 text-orange-600' },
+    { icon: Wallet, label: 'Advance', value: `₹${ledger.credit.toFixed(2)}`, color: 'bg-purple-100 text-purple-600' },
   ];
 
   const handleEditSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!id) return;
+    const { profile, errors } = parseCustomerProfileForm(profileForm);
+    if (!profile) {
+      alert(errors.join('\n'));
+      return;
+    }
     setIsSubmitting(true);
     try {
-      await updateCustomer(id, formData);
+      await updateCustomer(id, { ...formData, name: formData.name.trim(), ...profile });
       setShowEditForm(false);
     } catch (error) {
       console.error("Failed to update customer", error);
@@ -110,6 +159,7 @@ const CustomerDetail: React.FC = () => {
     setIsSubmitting(true);
     try {
       await deleteCustomer(id);
+      showUndo("Customer moved to Trash", () => restoreCustomer(id));
       setShowDeleteConfirm(false);
       navigate('/customers', { replace: true });
     } catch (error) {
@@ -120,53 +170,40 @@ const CustomerDetail: React.FC = () => {
     }
   };
 
-  const handleOpenPaymentModal = (summary: DailySummary) => {
+  // Opened from a day's card the payment settles that day first; from the header it settles the oldest dues.
+  const handleOpenPaymentModal = (summary: DateSummary | null) => {
     setPaymentModal({ show: true, summary });
     setPaymentAmount('');
+    setPaymentDate(new Date().toISOString().split('T')[0]);
+    setPaymentMethod('cash');
+    setPaymentNote('');
   };
 
   const handleSavePayment = async () => {
-    if (!paymentModal.summary) return;
+    if (!id) return;
 
-    let amountToPay = parseFloat(paymentAmount);
+    const amountToPay = parseFloat(paymentAmount);
     if (isNaN(amountToPay) || amountToPay <= 0) {
       alert('Please enter a valid payment amount.');
       return;
     }
 
-    const balance = paymentModal.summary.balance;
+    const { balance, allocations } = allocatePayment(amountToPay, account, paidByOrder, paymentModal.summary);
     if (amountToPay > balance) {
-      if (!window.confirm(`Payment (₹${amountToPay.toFixed(2)}) is more than the balance (₹${balance.toFixed(2)}). Record as overpayment?`)) {
+      if (!window.confirm(`Payment (₹${amountToPay.toFixed(2)}) is more than the balance (₹${balance.toFixed(2)}). Keep the extra ₹${(amountToPay - Math.max(balance, 0)).toFixed(2)} as advance?`)) {
         return;
       }
     }
     
     setIsSubmitting(true);
     try {
-      const updates: { orderId: string, newAmountPaid: number }[] = [];
-      const pendingOrders = paymentModal.summary.orders
-          .filter(o => (o.total_amount - (o.amount_paid || 0)) > 0)
-          .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
-
-      for (const order of pendingOrders) {
-          if (amountToPay <= 0) break;
-          const orderBalance = order.total_amount - (order.amount_paid || 0);
-          const paymentForOrder = Math.min(amountToPay, orderBalance);
-          updates.push({ orderId: order.id, newAmountPaid: (order.amount_paid || 0) + paymentForOrder });
-          amountToPay -= paymentForOrder;
-      }
-
-      if (amountToPay > 0 && updates.length > 0) {
-          const lastUpdate = updates[updates.length - 1];
-          lastUpdate.newAmountPaid += amountToPay;
-      } else if (amountToPay > 0) {
-           const mostRecentOrder = paymentModal.summary.orders.sort((a,b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
-           if(mostRecentOrder) {
-              updates.push({ orderId: mostRecentOrder.id, newAmountPaid: (mostRecentOrder.amount_paid || 0) + amountToPay });
-           }
-      }
-      
-      await Promise.all(updates.map(u => updateOrder(u.orderId, { amount_paid: u.newAmountPaid })));
+      await recordPayment({
+        customer_id: id,
+        date: paymentDate,
+        amount: amountToPay,
+        method: paymentMethod,
+        note: paymentNote.trim() || null,
+      }, allocations);
 
       setPaymentModal({ show: false, summary: null });
       setPaymentAmount('');
@@ -178,6 +215,28 @@ const CustomerDetail: React.FC = () => {
     }
   };
 
+  const handleApplyCredit = async () => {
+    setIsSubmitting(true);
+    try {
+      await addPaymentAllocations(allocateCredit(customerPayments, paymentAllocations, customerOrders));
+    } catch (error) {
+      console.error("Failed to apply advance", error);
+      alert("Failed to apply advance.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeletePayment = async (payment: Payment) => {
+    if (!window.confirm(`Delete the payment of ₹${payment.amount.toFixed(2)} received on ${new Date(payment.date).toLocaleDateString('en-IN', { timeZone: 'UTC' })}?`)) return;
+    try {
+      await deletePayment(payment.id);
+    } catch (error) {
+      console.error("Failed to delete payment", error);
+      alert("Failed to delete payment.");
+    }
+  };
+
   if (dataLoading) {
     return <div className="min-h-screen bg-milk-100 flex items-center justify-center"><Loader2 className="animate-spin text-dairy-600" size={32} /></div>;
   }
@@ -196,6 +255,9 @@ const CustomerDetail: React.FC = () => {
     );
   }
 
+  const address = formatCustomerAddress(customer);
+  const mapLink = getMapLink({ latitude: customer.latitude ?? null, longitude: customer.longitude ?? null });
+
   return (
     <div className="min-h-screen bg-milk-100 pb-10">
       <header className="bg-white p-4 shadow-sm sticky top-0 z-20">
@@ -213,28 +275,62 @@ const CustomerDetail: React.FC = () => {
             <div className="flex-1 min-w-0">
               <h2 className="text-xl font-bold text-gray-800">{customer.name}</h2>
               <div className="mt-2 space-y-1 text-sm text-gray-600">
-                <div className="flex items-center">
-                  <Home size={14} className="mr-2 flex-shrink-0" />
-                  <span>{customer.address}</span>
-                </div>
-                <div className="flex items-center">
-                  <Phone size={14} className="mr-2 flex-shrink-0" />
-                  <span>{customer.contact_number}</span>
-                </div>
+                {address && (
+                  <div className="flex items-start">
+                    <Home size={14} className="mr-2 mt-0.5 flex-shrink-0" />
+                    <span>{address}</span>
+                  </div>
+                )}
+                {(customer.phone || customer.alternate_phone) && (
+                  <div className="flex items-center">
+                    <Phone size={14} className="mr-2 flex-shrink-0" />
+                    <span>
+                      {[customer.phone, customer.alternate_phone].filter(Boolean).map((phone, index) => (
+                        <React.Fragment key={phone}>{index > 0 && ' · '}<a href={`tel:${phone}`} className="text-dairy-700">{phone}</a></React.Fragment>
+                      ))}
+                    </span>
+                  </div>
+                )}
+                {mapLink && (
+                  <div className="flex items-center">
+                    <MapPin size={14} className="mr-2 flex-shrink-0" />
+                    <a href={mapLink} target="_blank" rel="noopener noreferrer" className="text-dairy-700">Open in Maps</a>
+                  </div>
+                )}
+                {customer.notes && (
+                  <div className="flex items-start">
+                    <StickyNote size={14} className="mr-2 mt-0.5 flex-shrink-0" />
+                    <span className="whitespace-pre-line">{customer.notes}</span>
+                  </div>
+                )}
               </div>
             </div>
             <div className="flex space-x-2">
-              <motion.button onClick={() => setShowEditForm(true)} className="p-2 text-blue-600 bg-blue-100 rounded-lg" whileTap={{ scale: 0.95 }} title="Edit Customer">
-                <Edit2 size={16} />
-              </motion.button>
-              <motion.button onClick={() => setShowDeleteConfirm(true)} className="p-2 text-red-600 bg-red-100 rounded-lg" whileTap={{ scale: 0.95 }} title="Delete Customer">
-                <Trash2 size={16} />
-              </motion.button>
+              {can('viewHistory') && (
+                <motion.button onClick={() => setShowHistory(true)} className="p-2 text-gray-600 bg-gray-100 rounded-lg" whileTap={{ scale: 0.95 }} title="History">
+                  <History size={16} />
+                </motion.button>
+              )}
+              {can('shareLinks') && (
+                <motion.button onClick={() => setShowShareLink(true)} className="p-2 text-dairy-600 bg-dairy-100 rounded-lg" whileTap={{ scale: 0.95 }} title="Share Statement Link">
+                  <Share2 size={16} />
+                </motion.button>
+              )}
+              {can('manageCustomers') && (
+                <motion.button onClick={() => setShowEditForm(true)} className="p-2 text-blue-600 bg-blue-100 rounded-lg" whileTap={{ scale: 0.95 }} title="Edit Customer">
+                  <Edit2 size={16} />
+                </motion.button>
+              )}
+              {can('deleteCustomers') && (
+                <motion.button onClick={() => setShowDeleteConfirm(true)} className="p-2 text-red-600 bg-red-100 rounded-lg" whileTap={{ scale: 0.95 }} title="Delete Customer">
+                  <Trash2 size={16} />
+                </motion.button>
+              )}
             </div>
           </div>
         </motion.div>
         
-        <div className="grid grid-cols-3 gap-4 mb-6">
+        <div className="grid grid-cols-2 gap-4 mb-4">
           {statCards.map((stat, index) => (
             <motion.div key={stat.label} initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 + index * 0.1 }} className="bg-white p-3 rounded-xl border border-gray-100 shadow-sm text-center">
               <div className={`p-2 rounded-full inline-block ${stat.color} mb-2`}>
@@ -245,6 +341,23 @@ const CustomerDetail: React.FC = () => {
             </motion.div>
           ))}
         </div>
+
+        <div className="flex space-x-3 mb-6">
+          <motion.button onClick={() => handleOpenPaymentModal(null)} className="flex-1 bg-dairy-600 text-white px-4 py-2 rounded-lg flex items-center justify-center space-x-2 text-sm" whileTap={{ scale: 0.95 }}>
+            <CreditCard size={16} />
+            <span>Record Payment</span>
+          </motion.button>
+          {ledger.credit > 0 && ledger.pending > 0 && (
+            <motion.button onClick={handleApplyCredit} disabled={isSubmitting} className="flex-1 bg-purple-600 text-white px-4 py-2 rounded-lg flex items-center justify-center space-x-2 text-sm disabled:opacity-50" whileTap={{ scale: 0.95 }}>
+              <Wallet size={16} />
+              <span>Apply Advance</span>
+            </motion.button>
+          )}
+        </div>
+
+        {amountDue > 0 && <UpiQrCard amount={amountDue} note={`Milk bill - ${customer.name}`} />}
+
+        <SubscriptionEditor customer={customer} />
         
         <h3 className="text-lg font-semibold text-gray-800 mb-4">Order History</h3>
         {dailySummaries.length > 0 ? (
@@ -253,6 +366,7 @@ const CustomerDetail: React.FC = () => {
               <motion.div key={summary.date} initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.3 + index * 0.05 }} className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
                 <div className="flex justify-between items-center mb-3 pb-3 border-b">
                   <h4 className="font-bold text-gray-800">{new Date(summary.date).toLocaleDateString('en-IN', { timeZone: 'UTC', weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</h4>
+                  <SyncStatusBadge status={combineSyncStatus(summary.orders.map(o => o.id), syncStatus)} />
                 </div>
 
                 <div className="mb-4">
@@ -295,25 +409,85 @@ const CustomerDetail: React.FC = () => {
             <p className="text-gray-600">This customer has no orders yet.</p>
           </motion.div>
         )}
+        {ordersLoadedFrom !== null && !historyLoaded && isOnline && (lifetimeTotals === null || lifetimeTotals.order_count > customerOrders.length) && (
+          <div className="mt-4 text-center">
+            <p className="text-xs text-gray-500 mb-2">Showing orders since {formatBillDate(ordersLoadedFrom)}, and older ones still unpaid.</p>
+            <motion.button onClick={handleLoadHistory} disabled={isLoadingHistory} className="bg-dairy-50 text-dairy-700 px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50 inline-flex items-center" whileTap={{ scale: 0.95 }}>
+              {isLoadingHistory ? <Loader2 size={16} className="animate-spin" /> : 'Load earlier history'}
+            </motion.button>
+          </div>
+        )}
+
+        <h3 className="text-lg font-semibold text-gray-800 mt-6 mb-1">Bills</h3>
+        <p className="text-xs text-gray-500 mb-4 flex items-center"><CalendarDays size={14} className="mr-1" />Current cycle {formatBillDate(currentCycle.start)} – {formatBillDate(currentCycle.end)}, billed automatically when it ends.</p>
+        {customerBills.length > 0 ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 divide-y mb-2">
+            {customerBills.map(({ bill, paidSince, status }) => (
+              <div key={bill.id} className="p-3 text-sm">
+                <div className="flex justify-between items-center">
+                  <p className="font-medium text-gray-800">{formatBillDate(bill.period_start)} – {formatBillDate(bill.period_end)}</p>
+                  <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${billStatusColors[status]}`}>{billStatusLabels[status]}</span>
+                </div>
+                <div className="grid grid-cols-2 gap-x-4 text-xs text-gray-600 mt-2">
+                  <span>Previous dues: ₹{bill.opening_balance.toFixed(2)}</span>
+                  <span>This cycle: ₹{bill.billed_amount.toFixed(2)}</span>
+                  <span>Paid in cycle: ₹{bill.paid_amount.toFixed(2)}</span>
+                  <span>Paid since: ₹{paidSince.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between mt-2 pt-2 border-t">
+                  <span className="text-gray-600 font-bold">{bill.closing_balance < 0 ? 'Advance:' : 'Bill Amount:'}</span>
+                  <span className={`font-bold ${bill.closing_balance <= 0 ? 'text-green-700' : 'text-red-600'}`}>₹{Math.abs(bill.closing_balance).toFixed(2)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl p-6 text-center shadow-sm border border-gray-100">
+            <p className="text-gray-600 text-sm">No bills yet. The first bill is made when the current cycle ends.</p>
+          </div>
+        )}
+
+        <h3 className="text-lg font-semibold text-gray-800 mt-6 mb-4">Payments</h3>
+        {customerPayments.length > 0 ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 divide-y">
+            {customerPayments.map(payment => (
+              <div key={payment.id} className="flex justify-between items-center p-3 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800">{new Date(payment.date).toLocaleDateString('en-IN', { timeZone: 'UTC' })} · {paymentMethodLabels[payment.method]}</p>
+                  {payment.note && <p className="text-xs text-gray-500 truncate">{payment.note}</p>}
+                  {unallocatedByPayment[payment.id] > 0 && <p className="text-xs text-purple-600">₹{unallocatedByPayment[payment.id].toFixed(2)} held as advance</p>}
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0 ml-2">
+                  <span className="font-semibold text-green-600">₹{payment.amount.toFixed(2)}</span>
+                  <SyncStatusBadge status={syncStatus[payment.id]} />
+                  {can('correctPayments') && <motion.button onClick={() => handleDeletePayment(payment)} className="p-1 text-red-500 hover:text-red-700" whileTap={{ scale: 0.95 }} title="Delete Payment"><Trash2 size={14} /></motion.button>}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl p-6 text-center shadow-sm border border-gray-100">
+            <p className="text-gray-600 text-sm">No payments recorded yet.</p>
+          </div>
+        )}
       </main>
 
       <AnimatePresence>
         {showEditForm && (
           <motion.div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
-            <motion.div className="bg-white rounded-xl p-6 w-full max-w-md" initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}>
+            <motion.div className="bg-white rounded-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto" initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}>
               <h3 className="text-lg font-semibold text-gray-800 mb-4">Edit Customer</h3>
               <form onSubmit={handleEditSubmit} className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
                   <input type="text" value={formData.name} onChange={e => setFormData(p => ({...p, name: e.target.value}))} className="w-full px-4 py-3 border border-gray-300 rounded-lg" required />
                 </div>
+                <CustomerProfileFields value={profileForm} onChange={setProfileForm} />
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Address</label>
-                  <input type="text" value={formData.address} onChange={e => setFormData(p => ({...p, address: e.target.value}))} className="w-full px-4 py-3 border border-gray-300 rounded-lg" required />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Contact Number</label>
-                  <input type="text" value={formData.contact_number} onChange={e => setFormData(p => ({...p, contact_number: e.target.value}))} className="w-full px-4 py-3 border border-gray-300 rounded-lg" required />
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Billing Cycle Starts On</label>
+                  <select value={formData.billing_day} onChange={e => setFormData(p => ({...p, billing_day: Number(e.target.value)}))} className="w-full px-4 py-3 border border-gray-300 rounded-lg">
+                    {billingDays.map(day => <option key={day} value={day}>{day === 1 ? '1st (calendar month)' : `Day ${day} of each month`}</option>)}
+                  </select>
                 </div>
                 <div className="flex space-x-3 pt-2">
                   <motion.button type="button" onClick={() => setShowEditForm(false)} className="flex-1 bg-gray-500 text-white py-3 rounded-lg font-medium" whileTap={{ scale: 0.98 }}>Cancel</motion.button>
@@ -328,20 +502,30 @@ const CustomerDetail: React.FC = () => {
             <motion.div className="bg-white rounded-xl p-6 w-full max-w-sm text-center" initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}>
               <div className="mx-auto w-12 h-12 bg-red-100 rounded-full flex items-center justify-center mb-4"><AlertTriangle className="w-6 h-6 text-red-600" /></div>
               <h3 className="text-lg font-semibold text-gray-800 mb-2">Delete Customer?</h3>
-              <p className="text-gray-600 mb-6">Are you sure you want to delete <strong>{customer.name}</strong>? This action cannot be undone.</p>
+              <p className="text-gray-600 mb-6">Move <strong>{customer.name}</strong> to the Trash? Their orders stay in statements, and you can restore them from the Trash.</p>
               <div className="flex space-x-3"><motion.button onClick={() => setShowDeleteConfirm(false)} className="flex-1 px-4 py-2 bg-gray-500 text-white rounded-lg font-medium" whileTap={{ scale: 0.98 }}>Cancel</motion.button><motion.button onClick={handleDeleteConfirm} disabled={isSubmitting} className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg font-medium flex justify-center items-center" whileTap={{ scale: 0.98 }}>{isSubmitting ? <Loader2 className="animate-spin"/> : 'Delete'}</motion.button></div>
             </motion.div>
           </motion.div>
         )}
-        {paymentModal.show && paymentModal.summary && (
+        {paymentModal.show && (
           <motion.div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
             <motion.div className="bg-white rounded-xl p-6 w-full max-w-md" initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}>
-              <h3 className="text-lg font-semibold text-gray-800 mb-4">Record Payment for {new Date(paymentModal.summary.date).toLocaleDateString('en-IN', { timeZone: 'UTC' })}</h3>
-              <div className="bg-gray-50 rounded-lg p-4 mb-4 space-y-2">
-                <div className="flex justify-between"><span className="text-gray-600">Day's Total Amount:</span><span className="font-medium">₹{paymentModal.summary.totalAmount.toFixed(2)}</span></div>
-                <div className="flex justify-between"><span className="text-gray-600">Already Paid:</span><span className="font-medium text-green-600">₹{paymentModal.summary.totalPaid.toFixed(2)}</span></div>
-                <div className="flex justify-between border-t pt-2 mt-2"><span className="text-gray-600 font-bold">Balance Due:</span><span className="font-bold text-red-600">₹{paymentModal.summary.balance.toFixed(2)}</span></div>
-              </div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">
+                {paymentModal.summary ? `Record Payment for ${new Date(paymentModal.summary.date).toLocaleDateString('en-IN', { timeZone: 'UTC' })}` : `Record Payment from ${customer.name}`}
+              </h3>
+              {paymentModal.summary ? (
+                <div className="bg-gray-50 rounded-lg p-4 mb-4 space-y-2">
+                  <div className="flex justify-between"><span className="text-gray-600">Day's Total Amount:</span><span className="font-medium">₹{paymentModal.summary.totalAmount.toFixed(2)}</span></div>
+                  <div className="flex justify-between"><span className="text-gray-600">Already Paid:</span><span className="font-medium text-green-600">₹{paymentModal.summary.totalPaid.toFixed(2)}</span></div>
+                  <div className="flex justify-between border-t pt-2 mt-2"><span className="text-gray-600 font-bold">Balance Due:</span><span className="font-bold text-red-600">₹{paymentModal.summary.balance.toFixed(2)}</span></div>
+                </div>
+              ) : (
+                <div className="bg-gray-50 rounded-lg p-4 mb-4 space-y-2">
+                  <div className="flex justify-between"><span className="text-gray-600">Pending Amount:</span><span className="font-bold text-red-600">₹{ledger.pending.toFixed(2)}</span></div>
+                  <div className="flex justify-between"><span className="text-gray-600">Advance:</span><span className="font-medium text-purple-600">₹{ledger.credit.toFixed(2)}</span></div>
+                  <p className="text-xs text-gray-500 pt-1">The payment settles the oldest unpaid days first.</p>
+                </div>
+              )}
               <div className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Enter Amount to Pay</label>
@@ -350,15 +534,41 @@ const CustomerDetail: React.FC = () => {
                     <input type="number" value={paymentAmount} onChange={e => setPaymentAmount(e.target.value)} className="w-full pl-7 pr-4 py-3 border border-gray-300 rounded-lg" placeholder="0.00" required />
                   </div>
                 </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                    <input type="date" value={paymentDate} onChange={e => setPaymentDate(e.target.value)} className="w-full px-3 py-3 border border-gray-300 rounded-lg" required />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+                    <select value={paymentMethod} onChange={e => setPaymentMethod(e.target.value as PaymentMethod)} className="w-full px-3 py-3 border border-gray-300 rounded-lg">
+                      {(Object.keys(paymentMethodLabels) as PaymentMethod[]).map(method => (
+                        <option key={method} value={method}>{paymentMethodLabels[method]}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Note (Optional)</label>
+                  <input type="text" value={paymentNote} onChange={e => setPaymentNote(e.target.value)} className="w-full px-4 py-3 border border-gray-300 rounded-lg" placeholder="e.g., UPI ref. number" />
+                </div>
                 <div className="flex space-x-3 pt-2">
                   <motion.button type="button" onClick={() => setPaymentModal({ show: false, summary: null })} className="flex-1 bg-gray-500 text-white py-3 rounded-lg font-medium" whileTap={{ scale: 0.98 }}>Cancel</motion.button>
-                  <motion.button type="button" onClick={handleSavePayment} disabled={isSubmitting} className="flex-1 bg-dairy-600 text-white py-3 rounded-lg font-medium flex justify-center items-center" whileTap={{ scale: 0.98 }}>{isSubmitting ? <Loader2 className="animate-spin"/> : 'Save Payment'}</motion.button>
+                  <motion.button type="button" onClick={handleSavePayment} disabled={isSubmitting || !paymentDate} className="flex-1 bg-dairy-600 text-white py-3 rounded-lg font-medium flex justify-center items-center" whileTap={{ scale: 0.98 }}>{isSubmitting ? <Loader2 className="animate-spin"/> : 'Save Payment'}</motion.button>
                 </div>
               </div>
             </motion.div>
           </motion.div>
         )}
       </AnimatePresence>
+
+      <AnimatePresence>
+        {showShareLink && <ShareLinkModal customer={customer} onClose={() => setShowShareLink(false)} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showHistory && <HistoryModal title={`${customer.name} History`} loadEntries={loadHistory} onClose={() => setShowHistory(false)} />}
+      </AnimatePresence>
     </div>
   );
 };
@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Loader2, FileDown, AlertTriangle, Clock, Wallet, Package } from 'lucide-react';
+import { CustomerPortalData } from '../types';
+import { fetchCustomerPortal } from '../lib/customerPortal';
+import { getCustomerLedgerSummary, getPaidByOrder } from '../utils/ledger';
+import { getOrderTotals, summarizeByDate } from '../utils/orderSummaries';
+import { createStatementPdf } from '../utils/statementPdf';
+import { triggerDownload } from '../utils/download';
+
+const CustomerPortal: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [data, setData] = useState<CustomerPortalData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const today = new Date().toISOString().split('T')[0];
+  const [startDate, setStartDate] = useState(today.slice(0, 8) + '01');
+  const [endDate, setEndDate] = useState(today);
+
+  useEffect(() => {
+    if (!token) return;
+    fetchCustomerPortal(token)
+      .then(setData)
+      .catch(err => {
+        console.error("Failed to load customer portal", err);
+        setError('This link is invalid or has expired. Please ask for a new one.');
+      })
+      .finally(() => setIsLoading(false));
+  }, [token]);
+
+  const paidByOrder = useMemo(() => getPaidByOrder(data?.allocations || []), [data]);
+  const ledger = useMemo(() => data && getCustomerLedgerSummary(data.orders, data.payments, data.allocations), [data]);
+  const periodOrders = useMemo(() => (data?.orders || []).filter(order => order.date >= startDate && order.date <= endDate), [data, startDate, endDate]);
+  const dailySummaries = useMemo(() => summarizeByDate(periodOrders, paidByOrder), [periodOrders, paidByOrder]);
+
+  const handleDownloadPDF = () => {
+    if (!data) return;
+    const { totalAmount, totalPaid, balance } = getOrderTotals(periodOrders, paidByOrder);
+    const doc = createStatementPdf({
+      periodStart: startDate,
+      periodEnd: endDate,
+      totalAmount,
+      totalPaid,
+      pendingAmount: balance,
+      sections: [{ customerName: data.customer_name, orders: periodOrders, totalAmount, totalPaid, pendingAmount: balance }],
+    }, paidByOrder);
+    triggerDownload(doc.output('blob'), `Statement_${data.customer_name.replace(/\s+/g, '_')}_${startDate}_to_${endDate}.pdf`);
+  };
+
+  if (isLoading) {
+    return <div className="min-h-screen bg-milk-100 flex items-center justify-center"><Loader2 className="animate-spin text-dairy-600" size={32} /></div>;
+  }
+
+  if (error || !data || !ledger) {
+    return (
+      <div className="min-h-screen bg-milk-100 flex items-center justify-center p-4">
+        <div className="text-center bg-white p-8 rounded-xl shadow-lg">
+          <AlertTriangle className="mx-auto mb-4 text-orange-500" size={40} />
+          <h2 className="text-xl font-bold text-gray-800 mb-2">Link Unavailable</h2>
+          <p className="text-gray-600">{error || 'This link is invalid or has expired. Please ask for a new one.'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-milk-100 pb-10">
+      <header className="bg-white p-4 shadow-sm sticky top-0 z-20">
+        <h1 className="text-lg font-bold text-gray-800">Jay Goga Milk</h1>
+        <p className="text-sm text-gray-500">Statement for {data.customer_name}</p>
+      </header>
+
+      <main className="px-4 pt-4">
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="bg-white p-3 rounded-xl border border-gray-100 shadow-sm text-center">
+            <div className="p-2 rounded-full inline-block bg-red-100 text-red-600 mb-2"><Clock size={18} /></div>
+            <p className="text-base font-bold text-gray-800">₹{ledger.pending.toFixed(2)}</p>
+            <p className="text-xs text-gray-600">Amount Due</p>
+          </motion.div>
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 }} className="bg-white p-3 rounded-xl border border-gray-100 shadow-sm text-center">
+            <div className="p-2 rounded-full inline-block bg-purple-100 text-purple-600 mb-2"><Wallet size={18} /></div>
+            <p className="text-base font-bold text-gray-800">₹{ledger.credit.toFixed(2)}</p>
+            <p className="text-xs text-gray-600">Advance</p>
+          </motion.div>
+        </div>
+
+        <div className="bg-white rounded-xl p-4 mb-6 shadow-sm border border-gray-100">
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg" />
+            </div>
+          </div>
+          <motion.button onClick={handleDownloadPDF} disabled={periodOrders.length === 0} className="w-full flex items-center justify-center space-x-2 bg-red-50 text-red-700 py-3 rounded-lg font-medium disabled:opacity-50" whileTap={{ scale: 0.98 }}>
+            <FileDown size={18} />
+            <span>Download Statement PDF</span>
+          </motion.button>
+        </div>
+
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">Daily Summary</h3>
+        {dailySummaries.length > 0 ? (
+          <div className="space-y-4">
+            {dailySummaries.map(summary => (
+              <div key={summary.date} className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+                <h4 className="font-bold text-gray-800 mb-2">{new Date(summary.date).toLocaleDateString('en-IN', { timeZone: 'UTC', weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</h4>
+                <div className="text-sm text-gray-700 space-y-1 mb-3 pl-2 border-l-2 border-dairy-200">
+                  {summary.allItems.map((item, idx) => (
+                    <p key={idx}>{item.product_name} (x{item.quantity} @ ₹{item.price.toFixed(2)}) - ₹{item.total.toFixed(2)}</p>
+                  ))}
+                </div>
+                <div className="grid grid-cols-3 gap-2 text-center text-xs">
+                  <div className="p-2 bg-gray-50 rounded-lg"><p className="text-gray-500">Total</p><p className="font-semibold text-gray-800">₹{summary.totalAmount.toFixed(2)}</p></div>
+                  <div className="p-2 bg-green-50 rounded-lg"><p className="text-green-700">Paid</p><p className="font-semibold text-green-700">₹{summary.totalPaid.toFixed(2)}</p></div>
+                  <div className="p-2 bg-red-50 rounded-lg"><p className="text-red-700">Balance</p><p className="font-semibold text-red-700">₹{summary.balance.toFixed(2)}</p></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl p-8 text-center shadow-sm border border-gray-100">
+            <Package className="mx-auto text-gray-300 mb-4" size={48} />
+            <p className="text-gray-600">No orders in this period.</p>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-400 text-center mt-6">This link expires on {new Date(data.expires_at).toLocaleDateString('en-IN')}.</p>
+      </main>
+    </div>
+  );
+};
+
+export default CustomerPortal;
@@ -1,29 +1,34 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import Layout from '../components/Layout/Layout';
 import { useAuth } from '../context/AuthContext';
-import { Plus, Users, ChevronRight, Loader2 } from 'lucide-react';
+import { useDataStore } from '../context/useDataStore';
+import { useCustomers } from '../context/DataContext';
+import CustomerProfileFields from '../components/Customers/CustomerProfileFields';
+import { Plus, Users, ChevronRight, Loader2, Upload } from 'lucide-react';
+import { emptyCustomerProfile, parseCustomerProfileForm, toCustomerProfileForm } from '../utils/customerProfile';
 
 const Customers: React.FC = () => {
-  const { customers, addCustomer, dataLoading } = useAuth();
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const { dataLoading } = useDataStore();
+  const { customers, addCustomer } = useCustomers();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showForm, setShowForm] = useState(false);
-  const [formData, setFormData] = useState({
-    name: '',
-    address: '',
-    contact_number: '',
-  });
+  const [name, setName] = useState('');
+  const [profileForm, setProfileForm] = useState(toCustomerProfileForm(emptyCustomerProfile));
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const { profile, errors } = parseCustomerProfileForm(profileForm);
+    if (!profile) {
+      alert(errors.join('\n'));
+      return;
+    }
     setIsSubmitting(true);
     try {
-      await addCustomer({ 
-        name: formData.name,
-        address: formData.address,
-        contact_number: formData.contact_number,
-      });
+      await addCustomer({ name: name.trim(), ...profile });
       handleCancel();
     } catch (error) {
       console.error("Failed to add customer", error);
@@ -34,7 +39,8 @@ const Customers: React.FC = () => {
   };
 
   const handleCancel = () => {
-    setFormData({ name: '', address: '', contact_number: '' });
+    setName('');
+    setProfileForm(toCustomerProfileForm(emptyCustomerProfile));
     setShowForm(false);
   };
 
@@ -43,14 +49,26 @@ const Customers: React.FC = () => {
       <div className="px-4">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-xl font-bold text-gray-800">Customers</h2>
-          <motion.button
-            onClick={() => setShowForm(true)}
-            className="bg-dairy-600 text-white px-4 py-2 rounded-lg flex items-center space-x-2 shadow-lg"
-            whileTap={{ scale: 0.95 }}
-          >
-            <Plus size={20} />
-            <span>Add Customer</span>
-          </motion.button>
+          {can('manageCustomers') && (
+            <div className="flex space-x-2">
+              <motion.button
+                onClick={() => navigate('/import?type=customers')}
+                className="bg-dairy-100 text-dairy-700 px-3 py-2 rounded-lg flex items-center space-x-1"
+                whileTap={{ scale: 0.95 }}
+              >
+                <Upload size={18} />
+                <span>Import</span>
+              </motion.button>
+              <motion.button
+                onClick={() => setShowForm(true)}
+                className="bg-dairy-600 text-white px-4 py-2 rounded-lg flex items-center space-x-2 shadow-lg"
+                whileTap={{ scale: 0.95 }}
+              >
+                <Plus size={20} />
+                <span>Add Customer</span>
+              </motion.button>
+            </div>
+          )}
         </div>
 
         <AnimatePresence>
@@ -72,41 +90,15 @@ const Customers: React.FC = () => {
                   </label>
                   <input
                     type="text"
-                    value={formData.name}
-                    onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-dairy-500 focus:border-transparent"
                     placeholder="Rameshભાઈ, Sureshભાઈ..."
                     required
                   />
                 </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Address
-                  </label>
-                  <input
-                    type="text"
-                    value={formData.address}
-                    onChange={(e) => setFormData(prev => ({ ...prev, address: e.target.value }))}
-                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-dairy-500 focus:border-transparent"
-                    placeholder="Enter customer's address"
-                    required
-                  />
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Contact Number
-                  </label>
-                  <input
-                    type="text"
-                    value={formData.contact_number}
-                    onChange={(e) => setFormData(prev => ({ ...prev, contact_number: e.target.value }))}
-                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-dairy-500 focus:border-transparent"
-                    placeholder="Enter customer's phone number"
-                    required
-                  />
-                </div>
+                <CustomerProfileFields value={profileForm} onChange={setProfileForm} />
 
                 <div className="flex space-x-3">
                   <motion.button
@@ -143,13 +135,15 @@ const Customers: React.FC = () => {
               <Users className="mx-auto mb-4 text-gray-300" size={48} />
               <h3 className="text-lg font-semibold text-gray-800 mb-2">No Customers Added</h3>
               <p className="text-gray-600 mb-4">Start by adding your first customer</p>
-              <motion.button
-                onClick={() => setShowForm(true)}
-                className="bg-dairy-600 text-white px-6 py-2 rounded-lg"
-                whileTap={{ scale: 0.95 }}
-              >
-                Add First Customer
-              </motion.button>
+              {can('manageCustomers') && (
+                <motion.button
+                  onClick={() => setShowForm(true)}
+                  className="bg-dairy-600 text-white px-6 py-2 rounded-lg"
+                  whileTap={{ scale: 0.95 }}
+                >
+                  Add First Customer
+                </motion.button>
+              )}
             </motion.div>
           ) : (
             customers.map((customer, index) => (
@@ -164,6 +158,7 @@ const Customers: React.FC = () => {
                   <div className="flex justify-between items-center">
                     <div className="flex-1 min-w-0">
                       <h3 className="text-lg font-semibold text-gray-800 truncate">{customer.name}</h3>
+                      {customer.area && <p className="text-sm text-gray-500 truncate">{customer.area}</p>}
                     </div>
 
                     <div className="pl-2">
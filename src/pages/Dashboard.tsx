@@ -1,18 +1,28 @@
 import React, { useMemo } from 'react';
 import { motion } from 'framer-motion';
 import Layout from '../components/Layout/Layout';
-import { useAuth } from '../context/AuthContext';
-import { Users, ShoppingCart, TrendingUp, Clock, IndianRupee, Loader2 } from 'lucide-react';
+import { useDataStore } from '../context/useDataStore';
+import { useCustomers, useOrders, usePayments } from '../context/DataContext';
+import { useDailyProductTotals } from '../hooks/useDailyProductTotals';
+import { Users, ShoppingCart, TrendingUp, Clock, IndianRupee, Loader2, Truck } from 'lucide-react';
+import { getPaidByOrder } from '../utils/ledger';
+import { getDeliveryCounts } from '../utils/delivery';
+import { getOrderTotals } from '../utils/orderSummaries';
 
 const Dashboard: React.FC = () => {
-  const { orders, products, customers, dataLoading } = useAuth();
+  const { dataLoading } = useDataStore();
+  const { customers } = useCustomers();
+  const { orders } = useOrders();
+  const { payments, paymentAllocations } = usePayments();
 
   const today = new Date().toISOString().split('T')[0];
   const todayOrders = orders.filter(order => order.date === today);
 
-  const totalCollectionToday = todayOrders.reduce((sum, order) => sum + (order.amount_paid || 0), 0);
-  const totalAmountToday = todayOrders.reduce((sum, order) => sum + order.total_amount, 0);
-  const totalPendingToday = totalAmountToday - totalCollectionToday;
+  const paidByOrder = useMemo(() => getPaidByOrder(paymentAllocations), [paymentAllocations]);
+
+  const totalCollectionToday = payments.filter(payment => payment.date === today).reduce((sum, payment) => sum + payment.amount, 0);
+  const { totalAmount: totalAmountToday, balance: totalPendingToday } = getOrderTotals(todayOrders, paidByOrder);
+  const deliveryCounts = getDeliveryCounts(todayOrders);
 
   const stats = [
     {
@@ -43,6 +53,13 @@ const Dashboard: React.FC = () => {
       color: 'bg-blue-100 text-blue-600',
       bgColor: 'bg-blue-50'
     },
+    {
+      icon: Truck,
+      label: `Delivered · ${deliveryCounts.outstanding} outstanding`,
+      value: `${deliveryCounts.delivered + deliveryCounts.partial}/${deliveryCounts.total}`,
+      color: 'bg-teal-100 text-teal-600',
+      bgColor: 'bg-teal-50'
+    },
     {
       icon: Users,
       label: 'Total Customers',
@@ -52,28 +69,8 @@ const Dashboard: React.FC = () => {
     }
   ];
 
-  const productSummary = useMemo(() => {
-    const summary: { [productName: string]: { quantity: number; unit: string } } = {};
-    todayOrders.forEach(order => {
-        order.items.forEach(item => {
-            const product = products.find(p => p.id === item.product_id);
-            const baseUnit = product?.unit || 'units';
-
-            let displayUnit = '';
-            if (baseUnit === 'piece') {
-                displayUnit = 'pcs';
-            } else if (baseUnit !== 'ml') {
-                displayUnit = baseUnit;
-            }
-
-            if (!summary[item.product_name]) {
-                summary[item.product_name] = { quantity: 0, unit: displayUnit };
-            }
-            summary[item.product_name].quantity += item.quantity;
-        });
-    });
-    return Object.entries(summary).sort((a, b) => b[1].quantity - a[1].quantity);
-  }, [todayOrders, products]);
+  const todayProductTotals = useDailyProductTotals(today);
+  const productSummary = useMemo(() => [...todayProductTotals].sort((a, b) => b.packs - a.packs), [todayProductTotals]);
 
   if (dataLoading) {
     return (
@@ -137,12 +134,12 @@ const Dashboard: React.FC = () => {
           >
             <h3 className="text-lg font-semibold text-gray-800 mb-4">Today's Product Summary</h3>
             <div className="space-y-3 max-h-48 overflow-y-auto">
-              {productSummary.map(([productName, { quantity, unit }]) => (
-                <div key={productName} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
-                  <p className="font-medium text-gray-800 text-sm">{productName}</p>
+              {productSummary.map(total => (
+                <div key={total.productId || total.productName} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+                  <p className="font-medium text-gray-800 text-sm">{total.productName}</p>
                   <p className="font-semibold text-dairy-700">
-                    {quantity}
-                    {unit && <span className="text-sm font-normal text-gray-600 ml-1">{unit}</span>}
+                    {total.quantity}
+                    <span className="text-sm font-normal text-gray-600 ml-1">{total.unit === 'piece' ? 'pcs' : total.unit}</span>
                   </p>
                 </div>
               ))}
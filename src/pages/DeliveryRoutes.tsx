@@ -0,0 +1,262 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence, Reorder } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import Layout from '../components/Layout/Layout';
+import { useAuth } from '../context/AuthContext';
+import { useDataStore } from '../context/useDataStore';
+import { useCustomers, useOrders, usePayments, useRoutes } from '../context/DataContext';
+import { DeliveryRoute, RouteStop } from '../types';
+import { ArrowLeft, Plus, Edit2, Trash2, Loader2, Route, FileDown, GripVertical, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { getCustomerLedgerSummary } from '../utils/ledger';
+import { createRunSheetPdf } from '../utils/runSheetPdf';
+import { triggerDownload } from '../utils/download';
+
+const DeliveryRoutes: React.FC = () => {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const { dataLoading } = useDataStore();
+  const { routes, routeStops, addRoute, updateRoute, deleteRoute, addRouteStop, removeRouteStop, reorderRouteStops } = useRoutes();
+  const { customers } = useCustomers();
+  const { orders } = useOrders();
+  const { payments, paymentAllocations } = usePayments();
+  const canManageRoutes = can('manageRoutes');
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [runDate, setRunDate] = useState(new Date().toISOString().split('T')[0]);
+  const [showForm, setShowForm] = useState(false);
+  const [editingRoute, setEditingRoute] = useState<DeliveryRoute | null>(null);
+  const [formData, setFormData] = useState({ name: '', delivery_person: '' });
+  const [expandedRouteId, setExpandedRouteId] = useState<string | null>(null);
+  // Local order while dragging; written to the database when the drag ends.
+  const [draggedOrder, setDraggedOrder] = useState<RouteStop[] | null>(null);
+
+  const stopsByRoute = useMemo(() => {
+    return routeStops.reduce((acc, stop) => {
+      (acc[stop.route_id] = acc[stop.route_id] || []).push(stop);
+      return acc;
+    }, {} as Record<string, RouteStop[]>);
+  }, [routeStops]);
+
+  const getRouteStops = (routeId: string) => [...(stopsByRoute[routeId] || [])].sort((a, b) => a.position - b.position);
+
+  const unassignedCustomers = useMemo(() => {
+    const assigned = new Set(routeStops.map(stop => stop.customer_id));
+    return customers.filter(c => !assigned.has(c.id)).sort((a, b) => a.name.localeCompare(b.name));
+  }, [customers, routeStops]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const routeData = { name: formData.name.trim(), delivery_person: formData.delivery_person.trim() || null };
+      if (editingRoute) {
+        await updateRoute(editingRoute.id, routeData);
+      } else {
+        await addRoute(routeData);
+      }
+      handleCancel();
+    } catch (error) {
+      console.error("Failed to save route", error);
+      alert("Failed to save route. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEdit = (route: DeliveryRoute) => {
+    setFormData({ name: route.name, delivery_person: route.delivery_person || '' });
+    setEditingRoute(route);
+    setShowForm(true);
+  };
+
+  const handleCancel = () => {
+    setFormData({ name: '', delivery_person: '' });
+    setEditingRoute(null);
+    setShowForm(false);
+  };
+
+  const handleDelete = async (route: DeliveryRoute) => {
+    if (!window.confirm(`Delete the route "${route.name}"? Its customers will no longer be on any route.`)) return;
+    try {
+      await deleteRoute(route.id);
+    } catch (error) {
+      console.error("Failed to delete route", error);
+      alert("Failed to delete route. Please try again.");
+    }
+  };
+
+  const handleAddStop = async (routeId: string, customerId: string) => {
+    if (!customerId) return;
+    try {
+      await addRouteStop(routeId, customerId);
+    } catch (error) {
+      console.error("Failed to add stop", error);
+      alert("Failed to add customer to the route.");
+    }
+  };
+
+  const handleRemoveStop = async (stopId: string) => {
+    try {
+      await removeRouteStop(stopId);
+    } catch (error) {
+      console.error("Failed to remove stop", error);
+      alert("Failed to remove customer from the route.");
+    }
+  };
+
+  const handleDragEnd = async () => {
+    if (!draggedOrder) return;
+    try {
+      await reorderRouteStops(draggedOrder.map(stop => stop.id));
+    } catch (error) {
+      console.error("Failed to reorder stops", error);
+      alert("Failed to save the new stop order.");
+    } finally {
+      setDraggedOrder(null);
+    }
+  };
+
+  const handleDownloadRunSheet = (route: DeliveryRoute) => {
+    const stops = getRouteStops(route.id).flatMap(stop => {
+      const customer = customers.find(c => c.id === stop.customer_id);
+      if (!customer) return [];
+      const customerOrders = orders.filter(order => order.customer_id === customer.id);
+      const summary = getCustomerLedgerSummary(
+        customerOrders,
+        payments.filter(payment => payment.customer_id === customer.id),
+        paymentAllocations,
+      );
+      return [{
+        customer,
+        orders: customerOrders.filter(order => order.date === runDate),
+        balance: summary.pending - summary.credit,
+      }];
+    });
+    const doc = createRunSheetPdf(route, runDate, stops);
+    triggerDownload(doc.output('blob'), `Run_Sheet_${route.name.replace(/\s+/g, '_')}_${runDate}.pdf`);
+  };
+
+  return (
+    <Layout title="Delivery Routes">
+      <div className="px-4">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center">
+            <motion.button onClick={() => navigate('/orders')} className="p-2 mr-2 rounded-full hover:bg-gray-100" whileTap={{ scale: 0.9 }}>
+              <ArrowLeft size={20} className="text-gray-700" />
+            </motion.button>
+            <h2 className="text-xl font-bold text-gray-800">Routes</h2>
+          </div>
+          {canManageRoutes && (
+            <motion.button
+              onClick={() => { setShowForm(true); setEditingRoute(null); }}
+              className="bg-dairy-600 text-white px-4 py-2 rounded-lg flex items-center space-x-2 shadow-lg"
+              whileTap={{ scale: 0.95 }}
+            >
+              <Plus size={20} />
+              <span>Add Route</span>
+            </motion.button>
+          )}
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Run Sheet Date</label>
+          <input type="date" value={runDate} onChange={e => setRunDate(e.target.value)} className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-dairy-500 focus:border-transparent" />
+        </div>
+
+        <AnimatePresence>
+          {showForm && (
+            <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: 'auto' }} exit={{ opacity: 0, height: 0 }} className="bg-white rounded-xl p-4 mb-6 shadow-sm border border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">{editingRoute ? 'Edit Route' : 'Add New Route'}</h3>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Route Name</label>
+                  <input type="text" value={formData.name} onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))} className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-dairy-500 focus:border-transparent" placeholder="e.g., Morning - Station Road" required />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Delivery Person (Optional)</label>
+                  <input type="text" value={formData.delivery_person} onChange={e => setFormData(prev => ({ ...prev, delivery_person: e.target.value }))} className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-dairy-500 focus:border-transparent" />
+                </div>
+                <div className="flex space-x-3">
+                  <motion.button type="submit" disabled={isSubmitting} className="flex-1 bg-dairy-600 text-white py-3 rounded-lg font-medium disabled:opacity-50 flex justify-center items-center" whileTap={{ scale: 0.98 }}>
+                    {isSubmitting ? <Loader2 className="animate-spin" /> : (editingRoute ? 'Update Route' : 'Add Route')}
+                  </motion.button>
+                  <motion.button type="button" onClick={handleCancel} className="flex-1 bg-gray-500 text-white py-3 rounded-lg font-medium" whileTap={{ scale: 0.98 }}>Cancel</motion.button>
+                </div>
+              </form>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        <div className="space-y-4">
+          {dataLoading ? (
+            <div className="text-center p-8"><Loader2 className="mx-auto animate-spin text-dairy-600" size={32} /></div>
+          ) : routes.length === 0 ? (
+            <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="bg-white rounded-xl p-8 shadow-sm border border-gray-100 text-center">
+              <Route className="mx-auto mb-4 text-gray-300" size={48} />
+              <h3 className="text-lg font-semibold text-gray-800 mb-2">No Routes Yet</h3>
+              <p className="text-gray-600">Create a route and add customers in the order you visit them.</p>
+            </motion.div>
+          ) : (
+            [...routes].sort((a, b) => a.name.localeCompare(b.name)).map(route => {
+              const stops = getRouteStops(route.id);
+              const isExpanded = expandedRouteId === route.id;
+              return (
+                <motion.div key={route.id} initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+                  <div className="flex items-center justify-between">
+                    <button onClick={() => { setExpandedRouteId(isExpanded ? null : route.id); setDraggedOrder(null); }} className="flex-1 text-left">
+                      <h3 className="text-lg font-semibold text-gray-800 flex items-center">
+                        {route.name}
+                        {isExpanded ? <ChevronUp size={18} className="ml-1 text-gray-400" /> : <ChevronDown size={18} className="ml-1 text-gray-400" />}
+                      </h3>
+                      <p className="text-sm text-gray-600">{stops.length} stop(s){route.delivery_person && ` · ${route.delivery_person}`}</p>
+                    </button>
+                    <div className="flex space-x-2">
+                      <motion.button onClick={() => handleDownloadRunSheet(route)} disabled={stops.length === 0} className="p-2 text-red-700 bg-red-50 rounded-lg disabled:opacity-50" whileTap={{ scale: 0.95 }} title="Run Sheet PDF">
+                        <FileDown size={16} />
+                      </motion.button>
+                      {canManageRoutes && (
+                        <>
+                          <motion.button onClick={() => handleEdit(route)} className="p-2 text-blue-600 bg-blue-100 rounded-lg" whileTap={{ scale: 0.95 }} title="Edit Route">
+                            <Edit2 size={16} />
+                          </motion.button>
+                          <motion.button onClick={() => handleDelete(route)} className="p-2 text-red-600 bg-red-100 rounded-lg" whileTap={{ scale: 0.95 }} title="Delete Route">
+                            <Trash2 size={16} />
+                          </motion.button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  <AnimatePresence>
+                    {isExpanded && (
+                      <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: 'auto' }} exit={{ opacity: 0, height: 0 }} className="mt-4">
+                        <Reorder.Group axis="y" values={draggedOrder || stops} onReorder={setDraggedOrder} className="space-y-2">
+                          {(draggedOrder || stops).map((stop, index) => (
+                            <Reorder.Item key={stop.id} value={stop} dragListener={canManageRoutes} onDragEnd={handleDragEnd} className={`flex items-center bg-gray-50 rounded-lg p-3 ${canManageRoutes ? 'cursor-grab active:cursor-grabbing' : ''}`}>
+                              {canManageRoutes && <GripVertical size={16} className="text-gray-400 mr-2" />}
+                              <span className="text-sm text-gray-500 w-6">{index + 1}.</span>
+                              <span className="flex-1 font-medium text-gray-800">{customers.find(c => c.id === stop.customer_id)?.name || 'Unknown'}</span>
+                              {canManageRoutes && <button onClick={() => handleRemoveStop(stop.id)} className="p-1 text-red-500 hover:text-red-700"><X size={16} /></button>}
+                            </Reorder.Item>
+                          ))}
+                        </Reorder.Group>
+                        {canManageRoutes && unassignedCustomers.length > 0 && (
+                          <select value="" onChange={e => handleAddStop(route.id, e.target.value)} className="mt-3 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm">
+                            <option value="">+ Add customer to route...</option>
+                            {unassignedCustomers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                          </select>
+                        )}
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </motion.div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default DeliveryRoutes;
@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import Layout from '../components/Layout/Layout';
+import { useAuth } from '../context/AuthContext';
+import { useSync } from '../context/useSync';
+import { useProducts, useCustomers, useAccountData } from '../context/DataContext';
+import { ArrowLeft, Upload, FileSpreadsheet, CheckCircle, AlertTriangle, Loader2 } from 'lucide-react';
+import {
+  ColumnMapping, ImportKind, ImportRowResult, ParsedSheet,
+  getMissingFields, guessMapping, importFields, readSheet, validateCustomerRows, validateProductRows,
+} from '../utils/importData';
+
+const kindLabels: Record<ImportKind, string> = { customers: 'Customers', products: 'Products' };
+
+// Enough rows to review a file; the rest are still validated and counted.
+const PREVIEW_LIMIT = 100;
+
+const Import: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { can } = useAuth();
+  const { isOnline } = useSync();
+  const { importRecords } = useAccountData();
+  const { products, deletedProducts } = useProducts();
+  const { customers, deletedCustomers } = useCustomers();
+
+  const allowedKinds = (Object.keys(kindLabels) as ImportKind[]).filter(kind => can(kind === 'customers' ? 'manageCustomers' : 'manageProducts'));
+  const requestedKind = searchParams.get('type') as ImportKind | null;
+  const today = new Date().toISOString().split('T')[0];
+
+  const [kind, setKind] = useState<ImportKind>(requestedKind && allowedKinds.includes(requestedKind) ? requestedKind : allowedKinds[0] || 'customers');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [balancesAsOf, setBalancesAsOf] = useState(today);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const customerResults = useMemo(
+    () => sheet && kind === 'customers' ? validateCustomerRows(sheet, mapping, [...customers, ...deletedCustomers]) : [],
+    [sheet, kind, mapping, customers, deletedCustomers],
+  );
+  const productResults = useMemo(
+    () => sheet && kind === 'products' ? validateProductRows(sheet, mapping, [...products, ...deletedProducts]) : [],
+    [sheet, kind, mapping, products, deletedProducts],
+  );
+  const results: ImportRowResult<unknown>[] = kind === 'customers' ? customerResults : productResults;
+  const validCount = results.filter(result => result.draft).length;
+  const errorCount = results.length - validCount;
+  const missingFields = getMissingFields(kind, mapping);
+  const mappedFields = importFields[kind].filter(field => mapping[field.key] !== null && mapping[field.key] !== undefined);
+
+  const handleKindChange = (newKind: ImportKind) => {
+    setKind(newKind);
+    if (sheet) setMapping(guessMapping(newKind, sheet.headers));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = readSheet(await file.arrayBuffer());
+      if (parsed.headers.length === 0) {
+        alert("The file is empty. The first row should hold the column names.");
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessMapping(kind, parsed.headers));
+    } catch (error) {
+      console.error("Failed to read import file", error);
+      alert("Failed to read the file. Please upload an Excel (.xlsx) or CSV file.");
+    }
+  };
+
+  const handleImport = async () => {
+    if (validCount === 0) return;
+    const skipped = errorCount > 0 ? ` ${errorCount} row(s) with errors will be skipped.` : '';
+    if (!window.confirm(`Import ${validCount} ${kindLabels[kind].toLowerCase()}?${skipped}`)) return;
+    setIsSubmitting(true);
+    try {
+      const customerDrafts = customerResults.flatMap(result => result.draft ? [result.draft] : []);
+      const productDrafts = productResults.flatMap(result => result.draft ? [result.draft] : []);
+      await importRecords(customerDrafts, productDrafts, balancesAsOf);
+      navigate(kind === 'customers' ? '/customers' : '/products');
+    } catch (error) {
+      console.error("Failed to import", error);
+      alert("Failed to import. Nothing was saved; please check the file and try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Layout title="Import">
+      <div className="px-4">
+        <div className="flex items-center mb-6">
+          <motion.button onClick={() => navigate(kind === 'customers' ? '/customers' : '/products')} className="p-2 mr-2 rounded-full hover:bg-gray-100" whileTap={{ scale: 0.9 }}>
+            <ArrowLeft size={20} className="text-gray-700" />
+          </motion.button>
+          <h2 className="text-xl font-bold text-gray-800">Import from Excel</h2>
+        </div>
+
+        {allowedKinds.length === 0 ? (
+          <p className="text-sm text-gray-600">Your role can't add customers or products.</p>
+        ) : (
+          <>
+            <div className="bg-white rounded-xl p-4 mb-6 shadow-sm border border-gray-100">
+              <h3 className="font-semibold text-gray-800 mb-3">1. Choose a file</h3>
+              <div className="grid grid-cols-2 gap-2 mb-4">
+                {allowedKinds.map(option => (
+                  <button key={option} type="button" onClick={() => handleKindChange(option)} className={`py-2 rounded-lg text-sm border ${kind === option ? 'bg-dairy-600 text-white border-dairy-600' : 'border-gray-300 text-gray-600'}`}>{kindLabels[option]}</button>
+                ))}
+              </div>
+              <label className="w-full flex items-center justify-center space-x-2 bg-dairy-50 text-dairy-700 py-3 rounded-lg font-medium cursor-pointer">
+                <Upload size={18} />
+                <span>{fileName || 'Upload .xlsx or .csv'}</span>
+                <input type="file" accept=".xlsx,.xls,.csv" onChange={handleFileChange} className="hidden" />
+              </label>
+              <p className="text-xs text-gray-500 mt-2">
+                The first row must hold column names, e.g. {importFields[kind].map(field => field.label).join(', ')}.
+              </p>
+            </div>
+
+            {sheet && (
+              <div className="bg-white rounded-xl p-4 mb-6 shadow-sm border border-gray-100">
+                <h3 className="font-semibold text-gray-800 mb-3">2. Match columns</h3>
+                <div className="space-y-2">
+                  {importFields[kind].map(field => (
+                    <div key={field.key} className="flex items-center justify-between">
+                      <label className="text-sm text-gray-700">{field.label}{field.required && <span className="text-red-500"> *</span>}</label>
+                      <select
+                        value={mapping[field.key] ?? ''}
+                        onChange={e => setMapping(prev => ({ ...prev, [field.key]: e.target.value === '' ? null : Number(e.target.value) }))}
+                        className="w-1/2 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                      >
+                        <option value="">— Not in file —</option>
+                        {sheet.headers.map((header, index) => <option key={index} value={index}>{header || `Column ${index + 1}`}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                {kind === 'customers' && mapping.opening_balance !== null && mapping.opening_balance !== undefined && (
+                  <div className="mt-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Opening balances as of</label>
+                    <input type="date" value={balancesAsOf} onChange={e => setBalancesAsOf(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg" />
+                    <p className="text-xs text-gray-500 mt-1">Positive amounts are billed as dues; negative amounts are recorded as advance.</p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {sheet && (
+              <div className="bg-white rounded-xl p-4 mb-6 shadow-sm border border-gray-100">
+                <h3 className="font-semibold text-gray-800 mb-3">3. Review</h3>
+                {missingFields.length > 0 ? (
+                  <p className="text-sm text-orange-600">Choose a column for {missingFields.map(field => field.label).join(', ')}.</p>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-2 gap-2 mb-4 text-center text-sm">
+                      <div className="p-2 bg-green-50 rounded-lg text-green-700"><CheckCircle size={16} className="inline mr-1" />{validCount} ready</div>
+                      <div className="p-2 bg-red-50 rounded-lg text-red-700"><AlertTriangle size={16} className="inline mr-1" />{errorCount} with errors</div>
+                    </div>
+                    <div className="space-y-2 max-h-96 overflow-y-auto">
+                      {results.slice(0, PREVIEW_LIMIT).map(result => (
+                        <div key={result.rowNumber} className={`rounded-lg p-2 text-sm border ${result.errors.length > 0 ? 'border-red-200 bg-red-50' : 'border-gray-100'}`}>
+                          <p className="text-gray-800">
+                            <span className="text-xs text-gray-400 mr-2">Row {result.rowNumber}</span>
+                            {mappedFields.map(field => String(sheet.rows[result.rowNumber - 2][mapping[field.key] as number] ?? '')).filter(Boolean).join(' · ')}
+                          </p>
+                          {result.errors.map(error => <p key={error} className="text-xs text-red-600">{error}</p>)}
+                        </div>
+                      ))}
+                      {results.length > PREVIEW_LIMIT && <p className="text-xs text-gray-500 text-center">Showing the first {PREVIEW_LIMIT} of {results.length} rows.</p>}
+                    </div>
+                  </>
+                )}
+                {!isOnline && <p className="text-sm text-orange-600 mt-3">Imports can only be saved while online.</p>}
+                <motion.button onClick={handleImport} disabled={isSubmitting || !isOnline || missingFields.length > 0 || validCount === 0} className="w-full mt-4 bg-dairy-600 text-white py-3 rounded-lg font-medium disabled:opacity-50 flex justify-center items-center space-x-2" whileTap={{ scale: 0.98 }}>
+                  {isSubmitting ? <Loader2 className="animate-spin" /> : <><FileSpreadsheet size={18} /><span>Import {validCount} {kindLabels[kind]}</span></>}
+                </motion.button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Import;
@@ -0,0 +1,250 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import Layout from '../components/Layout/Layout';
+import { useAuth } from '../context/AuthContext';
+import { useSync } from '../context/useSync';
+import { useDataStore } from '../context/useDataStore';
+import { useProducts, useOrders, useLedgerQueries, useStock, useSuppliers } from '../context/DataContext';
+import { StockMovementType, Unit } from '../types';
+import { ArrowLeft, Plus, Trash2, Loader2, Warehouse, Calendar, Truck } from 'lucide-react';
+import { buildStockReport, getStockUnit } from '../utils/inventory';
+
+const movementTypeLabels: Record<StockMovementType, string> = {
+  in: 'Stock In',
+  wastage: 'Wastage',
+  return: 'Customer Return',
+};
+
+const entryUnits: Record<Unit, Unit[]> = {
+  L: ['L', 'ml'],
+  kg: ['kg', 'gm'],
+  piece: ['piece'],
+  ml: ['L', 'ml'],
+  gm: ['kg', 'gm'],
+};
+
+const Inventory: React.FC = () => {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const { dataLoading } = useDataStore();
+  const { isOnline } = useSync();
+  const { stockMovements, addStockMovement, deleteStockMovement } = useStock();
+  const { purchases } = useSuppliers();
+  const { products } = useProducts();
+  const { orders, ordersLoadedFrom, loadOrderRange } = useOrders();
+  const { soldBefore: fetchSoldBefore } = useLedgerQueries();
+
+  const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState({ product_id: '', type: 'in' as StockMovementType, quantity: '', unit: 'L' as Unit, note: '' });
+
+  const [soldBefore, setSoldBefore] = useState<{ date: string; packs: Record<string, number> } | null>(null);
+
+  // Opening stock needs every earlier sale, which the database totals; offline the
+  // report falls back to the orders on this device.
+  useEffect(() => {
+    if (!isOnline) return;
+    fetchSoldBefore(selectedDate)
+      .then(packs => setSoldBefore({ date: selectedDate, packs }))
+      .catch(error => console.error("Failed to load earlier sales", error));
+    if (ordersLoadedFrom !== null && selectedDate < ordersLoadedFrom) {
+      loadOrderRange(selectedDate, selectedDate).catch(error => console.error("Failed to load orders for the day", error));
+    }
+  }, [selectedDate, isOnline, orders, ordersLoadedFrom, loadOrderRange, fetchSoldBefore]);
+
+  const report = useMemo(
+    () => buildStockReport(selectedDate, products, stockMovements, orders, purchases, soldBefore?.date === selectedDate ? soldBefore.packs : undefined),
+    [selectedDate, products, stockMovements, orders, purchases, soldBefore],
+  );
+
+  const dayMovements = useMemo(() => {
+    return stockMovements
+      .filter(movement => movement.date === selectedDate)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }, [stockMovements, selectedDate]);
+
+  const handleOpenForm = () => {
+    const product = products[0];
+    setFormData({ product_id: product?.id || '', type: 'in', quantity: '', unit: product ? getStockUnit(product) : 'L', note: '' });
+    setShowForm(true);
+  };
+
+  const handleProductChange = (productId: string) => {
+    const product = products.find(p => p.id === productId);
+    setFormData(prev => ({ ...prev, product_id: productId, unit: product ? getStockUnit(product) : prev.unit }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const quantity = parseFloat(formData.quantity);
+    if (!formData.product_id || isNaN(quantity) || quantity <= 0) return;
+
+    setIsSubmitting(true);
+    try {
+      await addStockMovement({
+        product_id: formData.product_id,
+        date: selectedDate,
+        type: formData.type,
+        quantity,
+        unit: formData.unit,
+        note: formData.note.trim() || null,
+      });
+      setShowForm(false);
+    } catch (error) {
+      console.error("Failed to save stock entry", error);
+      alert("Failed to save stock entry. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (movementId: string) => {
+    if (!window.confirm("Delete this stock entry?")) return;
+    try {
+      await deleteStockMovement(movementId);
+    } catch (error) {
+      console.error("Failed to delete stock entry", error);
+      alert("Failed to delete stock entry. Please try again.");
+    }
+  };
+
+  const selectedProduct = products.find(p => p.id === formData.product_id);
+
+  return (
+    <Layout title="Inventory">
+      <div className="px-4">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center">
+            <motion.button onClick={() => navigate('/products')} className="p-2 mr-2 rounded-full hover:bg-gray-100" whileTap={{ scale: 0.9 }}>
+              <ArrowLeft size={20} className="text-gray-700" />
+            </motion.button>
+            <h2 className="text-xl font-bold text-gray-800">Stock</h2>
+          </div>
+          <div className="flex space-x-2">
+            {can('manageSuppliers') && (
+              <motion.button
+                onClick={() => navigate('/suppliers')}
+                className="bg-dairy-100 text-dairy-700 px-3 py-2 rounded-lg flex items-center space-x-1"
+                whileTap={{ scale: 0.95 }}
+              >
+                <Truck size={18} />
+                <span>Suppliers</span>
+              </motion.button>
+            )}
+            <motion.button
+              onClick={handleOpenForm}
+              disabled={products.length === 0}
+              className="bg-dairy-600 text-white px-4 py-2 rounded-lg flex items-center space-x-2 shadow-lg disabled:opacity-50"
+              whileTap={{ scale: 0.95 }}
+            >
+              <Plus size={20} />
+              <span>Add Entry</span>
+            </motion.button>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2 mb-6">
+          <Calendar className="text-dairy-600" size={20} />
+          <input type="date" value={selectedDate} onChange={e => setSelectedDate(e.target.value)} className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-dairy-500 focus:border-transparent" />
+        </div>
+
+        <AnimatePresence>
+          {showForm && (
+            <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: 'auto' }} exit={{ opacity: 0, height: 0 }} className="bg-white rounded-xl p-4 mb-6 shadow-sm border border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">New Stock Entry</h3>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Product</label>
+                    <select value={formData.product_id} onChange={e => handleProductChange(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg">
+                      {products.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                    <select value={formData.type} onChange={e => setFormData(prev => ({ ...prev, type: e.target.value as StockMovementType }))} className="w-full px-3 py-2 border border-gray-300 rounded-lg">
+                      {(Object.keys(movementTypeLabels) as StockMovementType[]).map(type => <option key={type} value={type}>{movementTypeLabels[type]}</option>)}
+                    </select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Quantity</label>
+                    <input type="number" step="any" min="0" value={formData.quantity} onChange={e => setFormData(prev => ({ ...prev, quantity: e.target.value }))} className="w-full px-3 py-2 border border-gray-300 rounded-lg" required />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Unit</label>
+                    <select value={formData.unit} onChange={e => setFormData(prev => ({ ...prev, unit: e.target.value as Unit }))} className="w-full px-3 py-2 border border-gray-300 rounded-lg">
+                      {(selectedProduct ? entryUnits[selectedProduct.unit] : []).map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Note (Optional)</label>
+                  <input type="text" value={formData.note} onChange={e => setFormData(prev => ({ ...prev, note: e.target.value }))} className="w-full px-3 py-2 border border-gray-300 rounded-lg" placeholder="e.g., Morning delivery from dairy" />
+                </div>
+                <div className="flex space-x-3">
+                  <motion.button type="submit" disabled={isSubmitting} className="flex-1 bg-dairy-600 text-white py-3 rounded-lg font-medium disabled:opacity-50 flex justify-center items-center" whileTap={{ scale: 0.98 }}>
+                    {isSubmitting ? <Loader2 className="animate-spin" /> : 'Save Entry'}
+                  </motion.button>
+                  <motion.button type="button" onClick={() => setShowForm(false)} className="flex-1 bg-gray-500 text-white py-3 rounded-lg font-medium" whileTap={{ scale: 0.98 }}>Cancel</motion.button>
+                </div>
+              </form>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {dataLoading ? (
+          <div className="text-center p-8"><Loader2 className="mx-auto animate-spin text-dairy-600" size={32} /></div>
+        ) : products.length === 0 ? (
+          <div className="bg-white rounded-xl p-8 shadow-sm border border-gray-100 text-center">
+            <Warehouse className="mx-auto mb-4 text-gray-300" size={48} />
+            <p className="text-gray-600">Add products before tracking stock.</p>
+          </div>
+        ) : (
+          <>
+            <h3 className="text-lg font-semibold text-gray-800 mb-3">Reconciliation</h3>
+            <div className="space-y-3 mb-6">
+              {report.map(row => (
+                <div key={row.productId} className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+                  <div className="flex justify-between items-center mb-3">
+                    <h4 className="font-semibold text-gray-800">{row.productName}</h4>
+                    <span className={`font-bold ${row.closing < 0 ? 'text-red-600' : 'text-dairy-700'}`}>{row.closing} {row.unit}</span>
+                  </div>
+                  <div className="grid grid-cols-5 gap-1 text-center text-xs">
+                    <div className="p-2 bg-gray-50 rounded-lg"><p className="text-gray-500">Opening</p><p className="font-semibold text-gray-800">{row.opening}</p></div>
+                    <div className="p-2 bg-green-50 rounded-lg"><p className="text-green-700">In</p><p className="font-semibold text-green-700">{row.stockIn}</p></div>
+                    <div className="p-2 bg-blue-50 rounded-lg"><p className="text-blue-700">Sold</p><p className="font-semibold text-blue-700">{row.sold}</p></div>
+                    <div className="p-2 bg-purple-50 rounded-lg"><p className="text-purple-700">Returned</p><p className="font-semibold text-purple-700">{row.returned}</p></div>
+                    <div className="p-2 bg-red-50 rounded-lg"><p className="text-red-700">Wasted</p><p className="font-semibold text-red-700">{row.wasted}</p></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <h3 className="text-lg font-semibold text-gray-800 mb-3">Entries</h3>
+            {dayMovements.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-4">No stock entries for this date.</p>
+            ) : (
+              <div className="space-y-2">
+                {dayMovements.map(movement => (
+                  <div key={movement.id} className="flex justify-between items-center bg-white rounded-lg p-3 shadow-sm border border-gray-100">
+                    <div>
+                      <p className="font-medium text-gray-800">{products.find(p => p.id === movement.product_id)?.name || 'Unknown'} · {movement.quantity} {movement.unit}</p>
+                      <p className="text-xs text-gray-500">{movementTypeLabels[movement.type]}{movement.note && ` · ${movement.note}`}</p>
+                    </div>
+                    {can('deleteStock') && <motion.button onClick={() => handleDelete(movement.id)} className="p-2 text-red-600 bg-red-100 rounded-lg" whileTap={{ scale: 0.95 }}><Trash2 size={16} /></motion.button>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Inventory;
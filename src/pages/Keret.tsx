@@ -2,53 +2,65 @@ import React, { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import Layout from '../components/Layout/Layout';
 import { useAuth } from '../context/AuthContext';
-import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useSync } from '../context/useSync';
+import { useDataStore } from '../context/useDataStore';
+import { useProducts, useSettings } from '../context/DataContext';
+import { useDailyProductTotals } from '../hooks/useDailyProductTotals';
 import { Package, Loader2, IndianRupee, Edit2, Save } from 'lucide-react';
 
 const Keret: React.FC = () => {
-  const { orders, products, dataLoading } = useAuth();
-  const [boxConfigs, setBoxConfigs] = useLocalStorage<Record<string, number>>('boxConfigs', {});
-  const [isEditing, setIsEditing] = useState(false);
+  const { can } = useAuth();
+  const { dataLoading } = useDataStore();
+  const { isOnline } = useSync();
+  const { settings, updateSettings } = useSettings();
+  const { products } = useProducts();
+  // Box sizes are account settings; edits stay in a draft until saved.
+  const [draftConfigs, setDraftConfigs] = useState<Record<string, number> | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const isEditing = draftConfigs !== null;
+  const boxConfigs = draftConfigs ?? settings.box_configs;
 
   const today = new Date().toISOString().split('T')[0];
+  const todayTotals = useDailyProductTotals(today);
 
   const productSummary = useMemo(() => {
-    // Create a summary of sales for today
-    const salesSummary: { [productId: string]: { totalQuantity: number; totalValue: number } } = {};
-    const todayOrders = orders.filter(order => order.date === today);
-
-    todayOrders.forEach(order => {
-      order.items.forEach(item => {
-        if (!salesSummary[item.product_id]) {
-          salesSummary[item.product_id] = { totalQuantity: 0, totalValue: 0 };
-        }
-        salesSummary[item.product_id].totalQuantity += item.quantity;
-        salesSummary[item.product_id].totalValue += item.total;
-      });
-    });
-
-    // Map over ALL products and merge with sales data, preserving the original order
-    const allProductsSummary = products.map(product => {
-      const sales = salesSummary[product.id] || { totalQuantity: 0, totalValue: 0 };
+    // Today's sales for every product, including ones not sold today
+    return products.map(product => {
+      const total = todayTotals.find(entry => entry.productId === product.id);
       return {
         productId: product.id,
         name: product.name,
-        totalQuantity: sales.totalQuantity,
-        totalValue: sales.totalValue,
+        totalQuantity: total?.packs ?? 0,
+        totalValue: total?.amount ?? 0,
       };
     });
-
-    return allProductsSummary;
-  }, [orders, products, today]);
+  }, [products, todayTotals]);
 
   const handleConfigChange = (productId: string, value: string) => {
     const pieces = parseInt(value, 10);
-    setBoxConfigs(prev => ({
+    setDraftConfigs(prev => ({
       ...prev,
       [productId]: isNaN(pieces) || pieces < 0 ? 0 : pieces,
     }));
   };
 
+  const handleToggleEditing = async () => {
+    if (!draftConfigs) {
+      setDraftConfigs(settings.box_configs);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await updateSettings({ box_configs: draftConfigs });
+      setDraftConfigs(null);
+    } catch (error) {
+      console.error("Failed to save box config", error);
+      alert("Failed to save box config. Settings can only be changed while online.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const calculateBoxNeeds = (totalQuantity: number, piecesPerBox: number) => {
     if (piecesPerBox <= 0) {
       return null;
@@ -90,14 +102,17 @@ const Keret: React.FC = () => {
                 })}
               </p>
             </div>
-            <motion.button
-              onClick={() => setIsEditing(prev => !prev)}
-              className={`px-4 py-2 rounded-lg flex items-center space-x-2 shadow-md ${isEditing ? 'bg-green-600 text-white' : 'bg-dairy-600 text-white'}`}
-              whileTap={{ scale: 0.95 }}
-            >
-              {isEditing ? <Save size={18} /> : <Edit2 size={18} />}
-              <span>{isEditing ? 'Save Config' : 'Edit Config'}</span>
-            </motion.button>
+            {can('manageSettings') && (
+              <motion.button
+                onClick={handleToggleEditing}
+                disabled={isSaving || !isOnline}
+                className={`px-4 py-2 rounded-lg flex items-center space-x-2 shadow-md disabled:opacity-50 ${isEditing ? 'bg-green-600 text-white' : 'bg-dairy-600 text-white'}`}
+                whileTap={{ scale: 0.95 }}
+              >
+                {isSaving ? <Loader2 size={18} className="animate-spin" /> : isEditing ? <Save size={18} /> : <Edit2 size={18} />}
+                <span>{isEditing ? 'Save Config' : 'Edit Config'}</span>
+              </motion.button>
+            )}
           </div>
         </motion.div>
 
@@ -1,27 +1,53 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
 import Layout from '../components/Layout/Layout';
 import { useAuth } from '../context/AuthContext';
+import { useSync, useSyncStatus } from '../context/useSync';
+import { useDataStore } from '../context/useDataStore';
+import { useProducts, useCustomers, useOrders, usePayments, useSubscriptions, useRoutes } from '../context/DataContext';
+import { useUndo } from '../context/useUndo';
 import { Customer, Product, OrderItem } from '../types';
-import { Calendar, Plus, ShoppingCart, Trash2, AlertTriangle, Loader2, IndianRupee, User, Edit } from 'lucide-react';
+import { Calendar, Plus, ShoppingCart, Trash2, AlertTriangle, Loader2, IndianRupee, User, Edit, Repeat, Route, History } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
+import { buildSubscriptionOrderItems } from '../utils/subscriptions';
+import { combineSyncStatus } from '../lib/offlineStore';
+import { getPaidByOrder } from '../utils/ledger';
+import { resolvePrice } from '../utils/pricing';
+import SyncStatusBadge from '../components/Sync/SyncStatusBadge';
+import DeliveryActions from '../components/Orders/DeliveryActions';
+import HistoryModal from '../components/History/HistoryModal';
+import { fetchOrderHistory } from '../lib/auditLog';
+import { getConsolidatedDelivery, getDueSubscriptions, moveAllocations, sortByRoute } from '../utils/dailyOrders';
+import { CustomerOrderSummary, summarizeByCustomer } from '../utils/orderSummaries';
 
 type OrderItemWithId = OrderItem & { clientId: string };
 
-interface CustomerDailySummary {
-  customerId: string;
-  customerName: string;
-  orderIds: string[];
-  allItems: OrderItem[];
-  totalAmount: number;
-  amountPaid: number;
-}
+// Two summaries match when they cover the same orders with the same items.
+const isSameSummary = (a: CustomerOrderSummary, b: CustomerOrderSummary) =>
+  [...a.orderIds].sort().join() === [...b.orderIds].sort().join() &&
+  JSON.stringify(a.allItems) === JSON.stringify(b.allItems);
 
 const Orders: React.FC = () => {
-  const { orders, customers, products, addOrder, updateOrder, deleteOrder, dataLoading } = useAuth();
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const { dataLoading } = useDataStore();
+  const { isOnline } = useSync();
+  const { syncStatus } = useSyncStatus();
+  const { subscriptions } = useSubscriptions();
+  const { routeStops } = useRoutes();
+  const { products, productPrices } = useProducts();
+  const { customers } = useCustomers();
+  const { orders, addOrder, deleteOrder, restoreOrder, purgeOrder, ordersLoadedFrom, loadOrderRange } = useOrders();
+  const { paymentAllocations, addPaymentAllocations } = usePayments();
   
+  const { showUndo } = useUndo();
+
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
   const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+  const [deliveryMode, setDeliveryMode] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   
   // State for adding a new order
   const [showOrderForm, setShowOrderForm] = useState(false);
@@ -29,54 +55,41 @@ const Orders: React.FC = () => {
   const [orderItems, setOrderItems] = useState<OrderItemWithId[]>([]);
   
   // State for editing an existing order
-  const [editingSummary, setEditingSummary] = useState<CustomerDailySummary | null>(null);
+  const [editingSummary, setEditingSummary] = useState<CustomerOrderSummary | null>(null);
   const [editingOrderItems, setEditingOrderItems] = useState<OrderItemWithId[]>([]);
 
   // State for delete confirmation
-  const [deleteConfirmation, setDeleteConfirmation] = useState<{ show: boolean; summary: CustomerDailySummary | null }>({ show: false, summary: null });
+  const [deleteConfirmation, setDeleteConfirmation] = useState<{ show: boolean; summary: CustomerOrderSummary | null }>({ show: false, summary: null });
+
+  const [isLoadingDate, setIsLoadingDate] = useState(false);
+
+  const loadHistory = useCallback(() => fetchOrderHistory(selectedDate), [selectedDate]);
+
+  // Days before the loaded window are fetched when picked.
+  useEffect(() => {
+    if (!isOnline || ordersLoadedFrom === null || selectedDate >= ordersLoadedFrom) return;
+    setIsLoadingDate(true);
+    loadOrderRange(selectedDate, selectedDate)
+      .catch(error => console.error("Failed to load orders for the day", error))
+      .finally(() => setIsLoadingDate(false));
+  }, [selectedDate, isOnline, ordersLoadedFrom, loadOrderRange]);
 
   const dailyOrders = useMemo(() => {
     return orders.filter(order => order.date === selectedDate);
   }, [orders, selectedDate]);
 
-  const customerDailySummaries = useMemo((): CustomerDailySummary[] => {
-    const summaryMap: Record<string, CustomerDailySummary> = {};
-
-    for (const order of dailyOrders) {
-        if (!summaryMap[order.customer_id]) {
-            summaryMap[order.customer_id] = {
-                customerId: order.customer_id,
-                customerName: order.customer_name,
-                orderIds: [],
-                allItems: [],
-                totalAmount: 0,
-                amountPaid: 0,
-            };
-        }
-
-        const summary = summaryMap[order.customer_id];
-        summary.orderIds.push(order.id);
-        summary.allItems.push(...order.items);
-        summary.totalAmount += order.total_amount;
-        summary.amountPaid += order.amount_paid || 0;
-    }
-    
-    Object.values(summaryMap).forEach(summary => {
-        const aggregatedItems: Record<string, OrderItem> = {};
-        summary.allItems.forEach(item => {
-            const key = `${item.product_id}-${item.price}`;
-            if (aggregatedItems[key]) {
-                aggregatedItems[key].quantity += item.quantity;
-                aggregatedItems[key].total += item.total;
-            } else {
-                aggregatedItems[key] = { ...item };
-            }
-        });
-        summary.allItems = Object.values(aggregatedItems).sort((a,b) => a.product_name.localeCompare(b.product_name));
-    });
-
-    return Object.values(summaryMap).sort((a, b) => a.customerName.localeCompare(b.customerName));
-  }, [dailyOrders]);
+  const customerDailySummaries = useMemo(() => summarizeByCustomer(dailyOrders, getPaidByOrder(paymentAllocations)), [dailyOrders, paymentAllocations]);
+
+  // In delivery mode customers are listed in route order.
+  const displayedSummaries = useMemo(
+    () => deliveryMode ? sortByRoute(customerDailySummaries, routeStops) : customerDailySummaries,
+    [customerDailySummaries, deliveryMode, routeStops],
+  );
+
+  const pendingSubscriptions = useMemo(
+    () => getDueSubscriptions(subscriptions, customers, dailyOrders, selectedDate),
+    [subscriptions, customers, dailyOrders, selectedDate],
+  );
 
   const dailyTotal = useMemo(() => {
     return customerDailySummaries.reduce((sum, summary) => sum + summary.totalAmount, 0);
@@ -85,13 +98,14 @@ const Orders: React.FC = () => {
   const handleAddOrderItem = (isEditing = false) => {
     if (products.length > 0) {
       const firstProduct = products[0];
+      const customerId = isEditing ? editingSummary?.customerId : selectedCustomer?.id;
       const newItem: OrderItemWithId = {
         clientId: uuidv4(),
         product_id: firstProduct.id,
         product_name: firstProduct.name,
         quantity: 0,
         unit: firstProduct.unit,
-        price: firstProduct.price,
+        price: resolvePrice(firstProduct, productPrices, selectedDate, customerId),
         total: 0
       };
       const setState = isEditing ? setEditingOrderItems : setOrderItems;
@@ -104,8 +118,11 @@ const Orders: React.FC = () => {
     setState(prev => prev.filter(item => item.clientId !== clientId));
   };
 
+  // Prices are resolved for the order's date and customer, so editing an old order never picks up a later price.
+  // Changing only the quantity keeps the price already on the item.
   const handleUpdateOrderItem = (clientId: string, field: 'product_id' | 'quantity', value: any, isEditing = false) => {
     const setState = isEditing ? setEditingOrderItems : setOrderItems;
+    const customerId = isEditing ? editingSummary?.customerId : selectedCustomer?.id;
     setState(prev => prev.map(item => {
       if (item.clientId !== clientId) return item;
       let updatedItem = { ...item };
@@ -119,23 +136,31 @@ const Orders: React.FC = () => {
           product_id: product.id,
           product_name: product.name,
           unit: product.unit,
-          price: product.price,
+          price: resolvePrice(product, productPrices, selectedDate, customerId),
           quantity: 1,
         };
       } else if (field === 'quantity') {
         updatedItem.quantity = parseFloat(value) || 0;
       }
       
-      const currentProduct = products.find(p => p.id === updatedItem.product_id);
-      if(currentProduct) {
-        updatedItem.price = currentProduct.price;
-        updatedItem.total = updatedItem.quantity * currentProduct.price;
-      }
+      updatedItem.total = updatedItem.quantity * updatedItem.price;
 
       return updatedItem;
     }));
   };
 
+  const handleSelectCustomer = (customerId: string) => {
+    const customer = customers.find(c => c.id === customerId) || null;
+    setSelectedCustomer(customer);
+    // Special rates depend on the customer, so re-price anything already added
+    setOrderItems(prev => prev.map(item => {
+      const product = products.find(p => p.id === item.product_id);
+      if (!product) return item;
+      const price = resolvePrice(product, productPrices, selectedDate, customer?.id);
+      return { ...item, price, total: item.quantity * price };
+    }));
+  };
+
   const handleSubmitOrder = async () => {
     if (!selectedCustomer || orderItems.length === 0) return;
     setIsSubmitting(true);
@@ -162,7 +187,42 @@ const Orders: React.FC = () => {
     }
   };
 
-  const handleOpenEditModal = (summary: CustomerDailySummary) => {
+  const handleGenerateOrders = async () => {
+    if (pendingSubscriptions.length === 0) return;
+    setIsGenerating(true);
+    let failedCount = 0;
+    for (const subscription of pendingSubscriptions) {
+      const customer = customers.find(c => c.id === subscription.customer_id);
+      const items = buildSubscriptionOrderItems(subscription, products, productPrices, selectedDate);
+      if (!customer || items.length === 0) continue;
+      try {
+        await addOrder({
+          customer_id: customer.id,
+          customer_name: customer.name,
+          date: selectedDate,
+          total_amount: items.reduce((sum, item) => sum + item.total, 0),
+          amount_paid: 0,
+          status: 'pending',
+        }, items);
+      } catch (error) {
+        console.error(`Failed to generate order for ${customer.name}`, error);
+        failedCount++;
+      }
+    }
+    setIsGenerating(false);
+    if (failedCount > 0) {
+      alert(`Failed to generate ${failedCount} order(s).`);
+    }
+  };
+
+  // Another device can change the same orders while they are being edited here.
+  const liveEditingSummary = useMemo(
+    () => editingSummary ? customerDailySummaries.find(summary => summary.customerId === editingSummary.customerId) ?? null : null,
+    [editingSummary, customerDailySummaries],
+  );
+  const editChangedElsewhere = !!editingSummary && !isSubmitting && (!liveEditingSummary || !isSameSummary(editingSummary, liveEditingSummary));
+
+  const handleOpenEditModal = (summary: CustomerOrderSummary) => {
     setEditingSummary(summary);
     setEditingOrderItems(summary.allItems.map(item => ({ ...item, clientId: uuidv4() })));
     setShowOrderForm(false);
@@ -175,23 +235,35 @@ const Orders: React.FC = () => {
 
   const handleSaveEdit = async () => {
     if (!editingSummary) return;
+    if (editChangedElsewhere && !window.confirm(`${editingSummary.customerName}'s order was changed on another device while you were editing. Save your version over it?`)) return;
+    // Replace the orders as they are now, so a change made elsewhere isn't left behind as a duplicate.
+    const replacedOrderIds = liveEditingSummary?.orderIds ?? [];
     setIsSubmitting(true);
     try {
       const newTotalAmount = editingOrderItems.reduce((sum, item) => sum + item.total, 0);
       const itemsToSave = editingOrderItems.map(({ clientId, ...rest }) => rest);
-      
-      // Consolidate orders: delete all old ones and create a single new one
-      await Promise.all(editingSummary.orderIds.map(id => deleteOrder(id)));
 
-      if (itemsToSave.length > 0) {
-        await addOrder({
-          customer_id: editingSummary.customerId,
-          customer_name: editingSummary.customerName,
-          date: selectedDate,
-          total_amount: newTotalAmount,
-          amount_paid: editingSummary.amountPaid, // Preserve total payment
-          status: 'pending',
-        }, itemsToSave);
+      // Keep the delivery confirmation of the orders being replaced
+      const previousOrders = dailyOrders.filter(order => replacedOrderIds.includes(order.id));
+      const delivery = getConsolidatedDelivery(previousOrders, itemsToSave);
+
+      // Consolidate orders: create a single new one and remove all old ones for good.
+      // The new order is saved first, so a failed save leaves the old ones in place.
+      // They are replaced rather than deleted, so they skip the Trash; the history keeps them.
+      const newOrder = itemsToSave.length > 0 ? await addOrder({
+        customer_id: editingSummary.customerId,
+        customer_name: editingSummary.customerName,
+        date: selectedDate,
+        total_amount: newTotalAmount,
+        amount_paid: 0,
+        ...delivery,
+      }, itemsToSave) : null;
+
+      await Promise.all(replacedOrderIds.map(id => purgeOrder(id)));
+
+      // Payments allocated to the old orders are dropped with them, so they move across
+      if (newOrder) {
+        await addPaymentAllocations(moveAllocations(paymentAllocations, replacedOrderIds, newOrder));
       }
 
       handleCloseEditModal();
@@ -203,17 +275,19 @@ const Orders: React.FC = () => {
     }
   };
 
-  const handleDelete = (summary: CustomerDailySummary) => {
+  const handleDelete = (summary: CustomerOrderSummary) => {
     setDeleteConfirmation({ show: true, summary });
   };
 
   const confirmDelete = async () => {
     if (!deleteConfirmation.summary) return;
     setIsSubmitting(true);
+    const { orderIds } = deleteConfirmation.summary;
     try {
-      await Promise.all(
-        deleteConfirmation.summary.orderIds.map(orderId => deleteOrder(orderId))
-      );
+      await Promise.all(orderIds.map(orderId => deleteOrder(orderId)));
+      showUndo("Orders moved to Trash", async () => {
+        await Promise.all(orderIds.map(orderId => restoreOrder(orderId)));
+      });
       setDeleteConfirmation({ show: false, summary: null });
     } catch (error) {
       console.error("Failed to delete orders", error);
@@ -251,16 +325,55 @@ const Orders: React.FC = () => {
               onChange={(e) => setSelectedDate(e.target.value)}
               className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-dairy-500 focus:border-transparent"
             />
+            {isLoadingDate && <Loader2 size={18} className="animate-spin text-dairy-600" />}
+            <motion.button
+              onClick={() => navigate('/routes')}
+              className="ml-auto flex items-center space-x-1 bg-dairy-100 text-dairy-700 px-3 py-2 rounded-lg text-sm font-medium"
+              whileTap={{ scale: 0.95 }}
+            >
+              <Route size={16} />
+              <span>Routes</span>
+            </motion.button>
+            {can('viewHistory') && (
+              <motion.button
+                onClick={() => setShowHistory(true)}
+                className="p-2 bg-gray-100 text-gray-600 rounded-lg"
+                whileTap={{ scale: 0.95 }}
+                title="History"
+              >
+                <History size={16} />
+              </motion.button>
+            )}
           </div>
+
+          {pendingSubscriptions.length > 0 && (
+            <motion.button
+              onClick={handleGenerateOrders}
+              disabled={isGenerating}
+              className="w-full bg-green-600 text-white py-3 rounded-lg font-medium flex justify-center items-center space-x-2 disabled:opacity-50"
+              whileTap={{ scale: 0.98 }}
+            >
+              {isGenerating ? <Loader2 className="animate-spin" /> : (
+                <>
+                  <Repeat size={18} />
+                  <span>Generate Today's Orders ({pendingSubscriptions.length})</span>
+                </>
+              )}
+            </motion.button>
+          )}
         </div>
 
+        <AnimatePresence>
+          {showHistory && <HistoryModal title={`Order History · ${selectedDate}`} loadEntries={loadHistory} onClose={() => setShowHistory(false)} />}
+        </AnimatePresence>
+
         <AnimatePresence>
           {deleteConfirmation.show && deleteConfirmation.summary && (
             <motion.div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
               <motion.div className="bg-white rounded-xl p-6 w-full max-w-sm text-center" initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}>
                 <div className="mx-auto w-12 h-12 bg-red-100 rounded-full flex items-center justify-center mb-4"><AlertTriangle className="w-6 h-6 text-red-600" /></div>
                 <h3 className="text-lg font-semibold text-gray-800 mb-2">Delete Orders?</h3>
-                <p className="text-gray-600 mb-6">Are you sure you want to delete all orders for <strong>{deleteConfirmation.summary.customerName}</strong> for this day? This action cannot be undone.</p>
+                <p className="text-gray-600 mb-6">Are you sure you want to delete all orders for <strong>{deleteConfirmation.summary.customerName}</strong> for this day? They move to the Trash and stop being billed.</p>
                 <div className="flex space-x-3">
                   <motion.button onClick={() => setDeleteConfirmation({ show: false, summary: null })} className="flex-1 px-4 py-2 bg-gray-500 text-white rounded-lg font-medium" whileTap={{ scale: 0.98 }}>Cancel</motion.button>
                   <motion.button onClick={confirmDelete} disabled={isSubmitting} className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg font-medium flex justify-center items-center" whileTap={{ scale: 0.98 }}>{isSubmitting ? <Loader2 className="animate-spin"/> : 'Delete'}</motion.button>
@@ -276,6 +389,17 @@ const Orders: React.FC = () => {
               <motion.div className="bg-white rounded-xl p-4 w-full max-w-lg max-h-[90vh] flex flex-col" initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}>
                 <h3 className="text-lg font-semibold text-gray-800 mb-2">Edit Order for {editingSummary.customerName}</h3>
                 <p className="text-sm text-gray-500 mb-4">Date: {selectedDate}</p>
+                {editChangedElsewhere && (
+                  <div className="flex items-start bg-orange-50 border border-orange-200 rounded-lg p-3 mb-4 text-sm text-orange-800">
+                    <AlertTriangle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+                    <div className="flex-1">
+                      <p>{liveEditingSummary ? 'This order was changed on another device.' : 'This order was deleted on another device.'}</p>
+                      <motion.button onClick={() => liveEditingSummary ? handleOpenEditModal(liveEditingSummary) : handleCloseEditModal()} className="font-medium underline mt-1" whileTap={{ scale: 0.95 }}>
+                        {liveEditingSummary ? 'Load their version' : 'Discard my edit'}
+                      </motion.button>
+                    </div>
+                  </div>
+                )}
                 
                 <div className="flex-grow overflow-y-auto pr-2 space-y-3">
                   <div className="flex justify-between items-center mb-2">
@@ -335,7 +459,7 @@ const Orders: React.FC = () => {
                   <div className="space-y-4">
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">Select Customer</label>
-                      <select value={selectedCustomer?.id || ''} onChange={(e) => setSelectedCustomer(customers.find(c => c.id === e.target.value) || null)} className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-dairy-500 focus:border-transparent">
+                      <select value={selectedCustomer?.id || ''} onChange={(e) => handleSelectCustomer(e.target.value)} className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-dairy-500 focus:border-transparent">
                         <option value="">Choose customer...</option>
                         {customers.map(customer => (<option key={customer.id} value={customer.id}>{customer.name}</option>))}
                       </select>
@@ -383,7 +507,13 @@ const Orders: React.FC = () => {
 
             <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 mb-6">
               <div className="flex justify-between items-center">
-                <h3 className="text-lg font-bold text-gray-800">Day's Summary</h3>
+                <div>
+                  <h3 className="text-lg font-bold text-gray-800">Day's Summary</h3>
+                  <label className="flex items-center space-x-2 mt-1 text-sm text-gray-600">
+                    <input type="checkbox" checked={deliveryMode} onChange={e => setDeliveryMode(e.target.checked)} className="rounded text-dairy-600 focus:ring-dairy-500" />
+                    <span>Delivery mode</span>
+                  </label>
+                </div>
                 <div className="text-right">
                   <p className="text-sm text-gray-500">Total Value</p>
                   <p className="font-bold text-lg text-dairy-700 flex items-center justify-end"><IndianRupee size={16} className="mr-1"/>{dailyTotal.toFixed(2)}</p>
@@ -399,12 +529,13 @@ const Orders: React.FC = () => {
                   <p className="text-gray-600">Start adding orders for this date</p>
                 </div>
               ) : (
-                customerDailySummaries.map(summary => (
+                displayedSummaries.map(summary => (
                   <motion.div key={summary.customerId} initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 }}>
                     <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
                       <div className="flex justify-between items-start mb-3 pb-3 border-b">
                         <div>
                           <h3 className="font-bold text-lg text-gray-800 flex items-center"><User size={18} className="mr-2 text-dairy-600"/>{summary.customerName}</h3>
+                          <SyncStatusBadge status={combineSyncStatus(summary.orderIds, syncStatus)} />
                         </div>
                         <div className="text-right flex-shrink-0 ml-2">
                           <p className="text-sm text-gray-500">Total</p>
@@ -412,6 +543,12 @@ const Orders: React.FC = () => {
                         </div>
                       </div>
 
+                      <DeliveryActions
+                        customerName={summary.customerName}
+                        orders={dailyOrders.filter(order => summary.orderIds.includes(order.id))}
+                        showActions={deliveryMode}
+                      />
+
                       <div className="space-y-2 my-3">
                         <h4 className="text-sm font-semibold text-gray-600 mb-1">Items</h4>
                         {summary.allItems.map((item, index) => (
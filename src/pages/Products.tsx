@@ -1,14 +1,27 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
 import Layout from '../components/Layout/Layout';
 import { useAuth } from '../context/AuthContext';
+import { useDataStore } from '../context/useDataStore';
+import { useProducts, useSettings } from '../context/DataContext';
+import { useUndo } from '../context/useUndo';
 import { Product, Unit } from '../types';
-import { Plus, Edit2, Trash2, Package, Calculator, Loader2 } from 'lucide-react';
+import { Plus, Edit2, Trash2, Package, Calculator, Loader2, CalendarClock, Warehouse, Upload } from 'lucide-react';
 import PriceCalculator from '../components/Products/PriceCalculator';
+import PriceSchedule from '../components/Products/PriceSchedule';
+import { getUpcomingPrice, resolvePrice } from '../utils/pricing';
 import ProductImage from '../components/Products/ProductImage';
 
 const Products: React.FC = () => {
-  const { products, addProduct, updateProduct, deleteProduct, dataLoading } = useAuth();
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const { dataLoading } = useDataStore();
+  const { settings } = useSettings();
+  const { products, productPrices, addProduct, updateProduct, deleteProduct, restoreProduct, addProductPrice } = useProducts();
+  const { showUndo } = useUndo();
+  const canManageProducts = can('manageProducts');
+  const today = new Date().toISOString().split('T')[0];
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showForm, setShowForm] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
@@ -16,10 +29,17 @@ const Products: React.FC = () => {
     name: '',
     price: '',
     quantity: '',
-    unit: 'ml' as Unit,
-    photo: ''
+    unit: settings.default_unit,
+    photo: '',
+    hsn_code: '',
+    gst_rate: '',
+    effective_from: today
   });
   const [openCalculatorId, setOpenCalculatorId] = useState<string | null>(null);
+  const [scheduleProduct, setScheduleProduct] = useState<Product | null>(null);
+
+  const editingCurrentPrice = editingProduct ? resolvePrice(editingProduct, productPrices, today) : null;
+  const isPriceChanged = editingCurrentPrice !== null && parseFloat(formData.price) !== editingCurrentPrice;
 
   const units: Unit[] = ['ml', 'L', 'gm', 'kg', 'piece'];
 
@@ -33,10 +53,18 @@ const Products: React.FC = () => {
         quantity: parseFloat(formData.quantity),
         unit: formData.unit,
         photo: formData.photo,
+        hsn_code: formData.hsn_code.trim() || null,
+        gst_rate: parseFloat(formData.gst_rate) || 0,
       };
 
       if (editingProduct) {
-        await updateProduct(editingProduct.id, productData);
+        // The product's own price is the opening price; later changes go into the price history
+        // so orders on earlier dates keep their price.
+        const { price, ...details } = productData;
+        await updateProduct(editingProduct.id, details);
+        if (isPriceChanged) {
+          await addProductPrice({ product_id: editingProduct.id, customer_id: null, price, effective_from: formData.effective_from });
+        }
       } else {
         await addProduct(productData);
       }
@@ -53,10 +81,13 @@ const Products: React.FC = () => {
   const handleEdit = (product: Product) => {
     setFormData({
       name: product.name,
-      price: product.price.toString(),
+      price: resolvePrice(product, productPrices, today).toString(),
       quantity: product.quantity.toString(),
       unit: product.unit,
-      photo: product.photo || ''
+      photo: product.photo || '',
+      hsn_code: product.hsn_code || '',
+      gst_rate: product.gst_rate ? product.gst_rate.toString() : '',
+      effective_from: today
     });
     setEditingProduct(product);
     setShowForm(true);
@@ -64,9 +95,10 @@ const Products: React.FC = () => {
   };
 
   const handleDelete = async (id: string) => {
-    if (window.confirm("Are you sure you want to delete this product?")) {
+    if (window.confirm("Move this product to the Trash?")) {
       try {
         await deleteProduct(id);
+        showUndo("Product moved to Trash", () => restoreProduct(id));
       } catch (error) {
         console.error("Failed to delete product", error);
         alert("Failed to delete product. Please try again.");
@@ -75,7 +107,7 @@ const Products: React.FC = () => {
   };
 
   const handleCancel = () => {
-    setFormData({ name: '', price: '', quantity: '', unit: 'ml', photo: '' });
+    setFormData({ name: '', price: '', quantity: '', unit: settings.default_unit, photo: '', hsn_code: '', gst_rate: '', effective_from: today });
     setShowForm(false);
     setEditingProduct(null);
   };
@@ -85,14 +117,36 @@ const Products: React.FC = () => {
       <div className="px-4">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-xl font-bold text-gray-800">Products</h2>
-          <motion.button
-            onClick={() => { setShowForm(true); setEditingProduct(null); setOpenCalculatorId(null); }}
-            className="bg-dairy-600 text-white px-4 py-2 rounded-lg flex items-center space-x-2 shadow-lg"
-            whileTap={{ scale: 0.95 }}
-          >
-            <Plus size={20} />
-            <span>Add Product</span>
-          </motion.button>
+          <div className="flex space-x-2">
+            <motion.button
+              onClick={() => navigate('/inventory')}
+              className="bg-dairy-100 text-dairy-700 px-3 py-2 rounded-lg flex items-center space-x-1"
+              whileTap={{ scale: 0.95 }}
+            >
+              <Warehouse size={18} />
+              <span>Stock</span>
+            </motion.button>
+            {canManageProducts && (
+              <motion.button
+                onClick={() => navigate('/import?type=products')}
+                className="bg-dairy-100 text-dairy-700 px-3 py-2 rounded-lg flex items-center"
+                whileTap={{ scale: 0.95 }}
+                title="Import"
+              >
+                <Upload size={18} />
+              </motion.button>
+            )}
+            {canManageProducts && (
+              <motion.button
+                onClick={() => { setShowForm(true); setEditingProduct(null); setOpenCalculatorId(null); }}
+                className="bg-dairy-600 text-white px-4 py-2 rounded-lg flex items-center space-x-2 shadow-lg"
+                whileTap={{ scale: 0.95 }}
+              >
+                <Plus size={20} />
+                <span>Add Product</span>
+              </motion.button>
+            )}
+          </div>
         </div>
 
         <AnimatePresence>
@@ -168,6 +222,50 @@ const Products: React.FC = () => {
                     />
                 </div>
 
+                {isPriceChanged && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      New Price Effective From
+                    </label>
+                    <input
+                      type="date"
+                      value={formData.effective_from}
+                      onChange={(e) => setFormData(prev => ({ ...prev, effective_from: e.target.value }))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-dairy-500 focus:border-transparent"
+                      required
+                    />
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      HSN Code (Optional)
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.hsn_code}
+                      onChange={(e) => setFormData(prev => ({ ...prev, hsn_code: e.target.value }))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-dairy-500 focus:border-transparent"
+                      placeholder="e.g., 0401"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      GST Rate (%)
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.gst_rate}
+                      onChange={(e) => setFormData(prev => ({ ...prev, gst_rate: e.target.value }))}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-dairy-500 focus:border-transparent"
+                      placeholder="0"
+                    />
+                  </div>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Photo URL (Optional)
@@ -216,16 +314,21 @@ const Products: React.FC = () => {
               <Package className="mx-auto mb-4 text-gray-300" size={48} />
               <h3 className="text-lg font-semibold text-gray-800 mb-2">No Products Added</h3>
               <p className="text-gray-600 mb-4">Start by adding your dairy products</p>
-              <motion.button
-                onClick={() => setShowForm(true)}
-                className="bg-dairy-600 text-white px-6 py-2 rounded-lg"
-                whileTap={{ scale: 0.95 }}
-              >
-                Add First Product
-              </motion.button>
+              {canManageProducts && (
+                <motion.button
+                  onClick={() => setShowForm(true)}
+                  className="bg-dairy-600 text-white px-6 py-2 rounded-lg"
+                  whileTap={{ scale: 0.95 }}
+                >
+                  Add First Product
+                </motion.button>
+              )}
             </motion.div>
           ) : (
-            products.map((product, index) => (
+            products.map((product, index) => {
+              const currentPrice = resolvePrice(product, productPrices, today);
+              const upcomingPrice = getUpcomingPrice(product, productPrices, today);
+              return (
               <motion.div
                 key={product.id}
                 initial={{ opacity: 0, y: 20 }}
@@ -239,27 +342,36 @@ const Products: React.FC = () => {
                   <div className="flex-1">
                     <h3 className="text-lg font-semibold text-gray-800">{product.name}</h3>
                     <div className="text-sm text-gray-600">
-                      <span className="font-medium text-gray-700">₹{product.price.toFixed(2)}</span> for {product.quantity} {product.unit}
+                      <span className="font-medium text-gray-700">₹{currentPrice.toFixed(2)}</span> for {product.quantity} {product.unit}
                     </div>
+                    {upcomingPrice && (
+                      <div className="text-xs text-dairy-600">
+                        ₹{upcomingPrice.price.toFixed(2)} from {new Date(upcomingPrice.effective_from).toLocaleDateString('en-IN', { timeZone: 'UTC' })}
+                      </div>
+                    )}
                   </div>
 
                   <div className="flex space-x-2">
-                    <motion.button
-                      onClick={() => handleEdit(product)}
-                      className="p-2 text-blue-600 bg-blue-100 rounded-lg"
-                      whileTap={{ scale: 0.95 }}
-                      title="Edit Product"
-                    >
-                      <Edit2 size={16} />
-                    </motion.button>
-                    <motion.button
-                      onClick={() => handleDelete(product.id)}
-                      className="p-2 text-red-600 bg-red-100 rounded-lg"
-                      whileTap={{ scale: 0.95 }}
-                      title="Delete Product"
-                    >
-                      <Trash2 size={16} />
-                    </motion.button>
+                    {canManageProducts && (
+                      <>
+                        <motion.button
+                          onClick={() => handleEdit(product)}
+                          className="p-2 text-blue-600 bg-blue-100 rounded-lg"
+                          whileTap={{ scale: 0.95 }}
+                          title="Edit Product"
+                        >
+                          <Edit2 size={16} />
+                        </motion.button>
+                        <motion.button
+                          onClick={() => handleDelete(product.id)}
+                          className="p-2 text-red-600 bg-red-100 rounded-lg"
+                          whileTap={{ scale: 0.95 }}
+                          title="Delete Product"
+                        >
+                          <Trash2 size={16} />
+                        </motion.button>
+                      </>
+                    )}
                     <motion.button
                       onClick={() => {
                         setOpenCalculatorId(openCalculatorId === product.id ? null : product.id);
@@ -272,6 +384,16 @@ const Products: React.FC = () => {
                     >
                       <Calculator size={16} />
                     </motion.button>
+                    {canManageProducts && (
+                      <motion.button
+                        onClick={() => setScheduleProduct(product)}
+                        className="p-2 text-purple-600 bg-purple-100 rounded-lg"
+                        whileTap={{ scale: 0.95 }}
+                        title="Price History"
+                      >
+                        <CalendarClock size={16} />
+                      </motion.button>
+                    )}
                   </div>
                 </div>
                 <AnimatePresence>
@@ -282,14 +404,21 @@ const Products: React.FC = () => {
                       exit={{ opacity: 0, height: 0, marginTop: 0 }}
                       transition={{ duration: 0.3 }}
                     >
-                      <PriceCalculator product={product} />
+                      <PriceCalculator product={{ ...product, price: currentPrice }} />
                     </motion.div>
                   )}
                 </AnimatePresence>
               </motion.div>
-            ))
+              );
+            })
           )}
         </div>
+
+        <AnimatePresence>
+          {scheduleProduct && (
+            <PriceSchedule product={scheduleProduct} onClose={() => setScheduleProduct(null)} />
+          )}
+        </AnimatePresence>
       </div>
     </Layout>
   );
@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import Layout from '../components/Layout/Layout';
+import { useAuth } from '../context/AuthContext';
+import { useSync } from '../context/useSync';
+import { useProducts, useSettings } from '../context/DataContext';
+import { ArrowLeft, Building2, Coins, Box, QrCode, Image, Trash2, Loader2 } from 'lucide-react';
+import { BusinessSettings, Unit } from '../types';
+import { formatMoney, numberLocaleOptions } from '../utils/settings';
+import { isValidVpa } from '../utils/upi';
+
+const units: Unit[] = ['ml', 'L', 'gm', 'kg', 'piece'];
+
+const LOGO_SIZE = 256;
+
+// Logos are scaled down to a small PNG so the settings row stays light.
+const readLogo = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const image = new window.Image();
+  image.onload = () => {
+    const scale = Math.min(1, LOGO_SIZE / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    resolve(canvas.toDataURL('image/png'));
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('This file is not an image.'));
+  };
+  image.src = url;
+});
+
+const Settings: React.FC = () => {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const { isOnline } = useSync();
+  const { settings, updateSettings } = useSettings();
+  const { products } = useProducts();
+  const [form, setForm] = useState<BusinessSettings>(settings);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const canEdit = can('manageSettings');
+
+  useEffect(() => setForm(settings), [settings]);
+
+  const setField = <K extends keyof BusinessSettings>(key: K, value: BusinessSettings[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleBoxSizeChange = (productId: string, value: string) => {
+    const pieces = parseInt(value, 10);
+    setForm(prev => ({ ...prev, box_configs: { ...prev.box_configs, [productId]: isNaN(pieces) || pieces < 0 ? 0 : pieces } }));
+  };
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setField('logo', await readLogo(file));
+    } catch (error) {
+      console.error("Failed to read logo", error);
+      alert((error as Error).message);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form.upi_vpa.trim() && !isValidVpa(form.upi_vpa)) {
+      alert("Enter a valid UPI ID, like name@okaxis, or leave it empty.");
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await updateSettings({
+        ...form,
+        business_name: form.business_name.trim() || settings.business_name,
+        address: form.address.trim(),
+        phone: form.phone.trim(),
+        gstin: form.gstin.trim().toUpperCase(),
+        state: form.state.trim(),
+        currency_symbol: form.currency_symbol.trim(),
+        upi_vpa: form.upi_vpa.trim(),
+        upi_payee_name: form.upi_payee_name.trim(),
+      });
+      alert("Settings saved.");
+    } catch (error) {
+      console.error("Failed to save settings", error);
+      alert("Failed to save settings. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-dairy-500 disabled:bg-gray-50";
+  const sectionClassName = "bg-white rounded-xl p-4 mb-6 shadow-sm border border-gray-100";
+
+  return (
+    <Layout title="Settings">
+      <div className="px-4">
+        <div className="flex items-center mb-6">
+          <motion.button onClick={() => navigate('/')} className="p-2 mr-2 rounded-full hover:bg-gray-100" whileTap={{ scale: 0.9 }}>
+            <ArrowLeft size={20} className="text-gray-700" />
+          </motion.button>
+          <h2 className="text-xl font-bold text-gray-800">Settings</h2>
+        </div>
+
+        {!canEdit && <p className="text-sm text-gray-600 mb-4">Only owners and accountants can change settings.</p>}
+
+        <form onSubmit={handleSubmit}>
+          <fieldset disabled={!canEdit}>
+            <div className={sectionClassName}>
+              <h3 className="text-lg font-semibold text-gray-800 mb-1 flex items-center"><Building2 size={20} className="mr-2 text-dairy-600" />Business</h3>
+              <p className="text-sm text-gray-500 mb-4">Printed on statements, invoices and customer messages.</p>
+              <div className="space-y-2">
+                <input type="text" value={form.business_name} onChange={e => setField('business_name', e.target.value)} className={inputClassName} placeholder="Business name" required />
+                <textarea value={form.address} onChange={e => setField('address', e.target.value)} className={inputClassName} placeholder="Address" rows={2} />
+                <div className="grid grid-cols-2 gap-2">
+                  <input type="tel" value={form.phone} onChange={e => setField('phone', e.target.value)} className={inputClassName} placeholder="Phone" />
+                  <input type="text" value={form.state} onChange={e => setField('state', e.target.value)} className={inputClassName} placeholder="State" />
+                </div>
+                <input type="text" value={form.gstin} onChange={e => setField('gstin', e.target.value.toUpperCase())} className={inputClassName} placeholder="GSTIN" />
+              </div>
+              <div className="flex items-center space-x-3 mt-4">
+                {form.logo ? (
+                  <img src={form.logo} alt="Logo" className="w-16 h-16 object-contain rounded-lg border border-gray-200" />
+                ) : (
+                  <div className="w-16 h-16 rounded-lg border border-dashed border-gray-300 flex items-center justify-center text-gray-400"><Image size={24} /></div>
+                )}
+                <label className={`flex-1 flex items-center justify-center space-x-2 bg-dairy-50 text-dairy-700 py-2 rounded-lg text-sm font-medium ${canEdit ? 'cursor-pointer' : 'opacity-50'}`}>
+                  <Image size={16} />
+                  <span>{form.logo ? 'Change Logo' : 'Add Logo'}</span>
+                  <input type="file" accept="image/*" onChange={handleLogoChange} className="hidden" />
+                </label>
+                {form.logo && (
+                  <motion.button type="button" onClick={() => setField('logo', null)} className="p-2 text-red-600 bg-red-100 rounded-lg" whileTap={{ scale: 0.95 }} title="Remove Logo"><Trash2 size={16} /></motion.button>
+                )}
+              </div>
+            </div>
+
+            <div className={sectionClassName}>
+              <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center"><Coins size={20} className="mr-2 text-dairy-600" />Formatting & Defaults</h3>
+              <div className="grid grid-cols-3 gap-2 mb-2">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Symbol</label>
+                  <input type="text" value={form.currency_symbol} onChange={e => setField('currency_symbol', e.target.value)} className={inputClassName} maxLength={4} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Grouping</label>
+                  <select value={form.number_locale} onChange={e => setField('number_locale', e.target.value)} className={inputClassName}>
+                    {numberLocaleOptions.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Decimals</label>
+                  <select value={form.currency_decimals} onChange={e => setField('currency_decimals', parseInt(e.target.value, 10))} className={inputClassName}>
+                    {[0, 1, 2].map(decimals => <option key={decimals} value={decimals}>{decimals}</option>)}
+                  </select>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mb-4">Amounts in PDFs, exports and messages look like {formatMoney(123456.5, form)}.</p>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Default unit for new products</label>
+              <select value={form.default_unit} onChange={e => setField('default_unit', e.target.value as Unit)} className={inputClassName}>
+                {units.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+              </select>
+            </div>
+
+            <div className={sectionClassName}>
+              <h3 className="text-lg font-semibold text-gray-800 mb-1 flex items-center"><QrCode size={20} className="mr-2 text-dairy-600" />UPI Payments</h3>
+              <p className="text-sm text-gray-500 mb-4">Payment QR codes on customer screens and statements pay to this UPI ID.</p>
+              <div className="space-y-2">
+                <input type="text" value={form.upi_vpa} onChange={e => setField('upi_vpa', e.target.value)} className={inputClassName} placeholder="UPI ID, e.g. name@okaxis" autoCapitalize="none" />
+                <input type="text" value={form.upi_payee_name} onChange={e => setField('upi_payee_name', e.target.value)} className={inputClassName} placeholder={`Payee name (${form.business_name})`} />
+              </div>
+            </div>
+
+            <div className={sectionClassName}>
+              <h3 className="text-lg font-semibold text-gray-800 mb-1 flex items-center"><Box size={20} className="mr-2 text-dairy-600" />Keret Sizes</h3>
+              <p className="text-sm text-gray-500 mb-4">Pieces per box, used by the Keret calculator.</p>
+              {products.length === 0 ? (
+                <p className="text-sm text-gray-500">Add products to set their box sizes.</p>
+              ) : (
+                <div className="space-y-2">
+                  {products.map(product => (
+                    <div key={product.id} className="flex items-center justify-between">
+                      <span className="text-sm text-gray-700 truncate mr-2">{product.name}</span>
+                      <input type="number" min="0" value={form.box_configs[product.id] || ''} onChange={e => handleBoxSizeChange(product.id, e.target.value)} className="w-24 px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-dairy-500" placeholder="Pcs/Box" />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {canEdit && (
+              <>
+                {!isOnline && <p className="text-sm text-orange-600 mb-2">Settings can only be changed while online.</p>}
+                <motion.button type="submit" disabled={isSubmitting || !isOnline} className="w-full bg-dairy-600 text-white py-3 rounded-lg font-medium disabled:opacity-50 flex justify-center items-center mb-6" whileTap={{ scale: 0.98 }}>
+                  {isSubmitting ? <Loader2 className="animate-spin" /> : 'Save Settings'}
+                </motion.button>
+              </>
+            )}
+          </fieldset>
+        </form>
+      </div>
+    </Layout>
+  );
+};
+
+export default Settings;
@@ -2,89 +2,42 @@ import React, { useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import Layout from '../components/Layout/Layout';
 import { useAuth } from '../context/AuthContext';
-import { DailyOrder, OrderItem } from '../types';
-import { IndianRupee, ShoppingCart, CheckCircle, Clock, FileText, FileDown, FileSpreadsheet, Loader2, User } from 'lucide-react';
-import jsPDF from 'jspdf';
-import 'jspdf-autotable';
+import { useSync } from '../context/useSync';
+import { useDataStore } from '../context/useDataStore';
+import { useProducts, useCustomers, useOrders, usePayments, useLedgerQueries, useBilling, useSuppliers, useSettings } from '../context/DataContext';
+import IssueInvoiceModal from '../components/Invoices/IssueInvoiceModal';
+import PrepareMessagesModal from '../components/Messages/PrepareMessagesModal';
+import { DailyOrder, Invoice, Payment } from '../types';
+import { IndianRupee, ShoppingCart, CheckCircle, Clock, FileText, FileDown, FileSpreadsheet, Loader2, User, Receipt, MessageCircle } from 'lucide-react';
 import * as XLSX from 'xlsx';
-import hindVadodaraRegularBase64 from '../assets/HindVadodaraRegularBase64.txt?raw';
-
-interface CustomerStatement {
-  customerId: string;
-  customerName: string;
-  orders: DailyOrder[];
-  totalAmount: number;
-  totalPaid: number;
-  pendingAmount: number;
-}
-
-interface StatementResult {
-  customerStatements: CustomerStatement[];
-  grandTotalAmount: number;
-  grandTotalPaid: number;
-  grandTotalPending: number;
-  totalOrders: number;
-}
-
-interface DailySummaryForStatement {
-  date: string;
-  totalAmount: number;
-  totalPaid: number;
-  balance: number;
-  allItems: OrderItem[];
-}
-
-const triggerDownload = (blob: Blob, filename: string) => {
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
-};
-
-const getDailySummariesForStatement = (orders: DailyOrder[]): DailySummaryForStatement[] => {
-    const groupedByDate = orders.reduce((acc, order) => {
-        const date = order.date;
-        if (!acc[date]) {
-            acc[date] = {
-                date,
-                totalAmount: 0,
-                totalPaid: 0,
-                allItems: [],
-            };
-        }
-        const summary = acc[date];
-        summary.totalAmount += order.total_amount;
-        summary.totalPaid += order.amount_paid || 0;
-        summary.allItems.push(...order.items);
-        return acc;
-    }, {} as Record<string, Omit<DailySummaryForStatement, 'balance'>>);
-
-    return Object.values(groupedByDate).map(summary => {
-        const aggregatedItems: Record<string, OrderItem> = {};
-        summary.allItems.forEach(item => {
-            const key = `${item.product_id}-${item.price}`;
-            if (aggregatedItems[key]) {
-                aggregatedItems[key].quantity += item.quantity;
-                aggregatedItems[key].total += item.total;
-            } else {
-                aggregatedItems[key] = { ...item };
-            }
-        });
-
-        return {
-            ...summary,
-            allItems: Object.values(aggregatedItems).sort((a, b) => a.product_name.localeCompare(b.product_name)),
-            balance: summary.totalAmount - summary.totalPaid,
-        };
-    }).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-};
+import { triggerDownload } from '../utils/download';
+import { createInvoicePdf } from '../utils/invoicePdf';
+import { getPaidByOrder } from '../utils/ledger';
+import { DailyProductTotals, StatementTotals } from '../lib/ledgerQueries';
+import { deliveryStatusLabels, getCombinedDeliveryStatus, getDeliveryCounts } from '../utils/delivery';
+import { buildProfitReport, getProfitSheetData } from '../utils/profit';
+import { CustomerStatement, StatementResult, buildStatement } from '../utils/statement';
+import { formatProductQuantity, getOrderProductTotals, getOrderTotals, getProductTotals, summarizeByCustomer, summarizeByDate } from '../utils/orderSummaries';
+import { createStatementPdf } from '../utils/statementPdf';
+import { createUpiQrDataUrl, isValidVpa } from '../utils/upi';
+import { formatMoney, getExcelMoneyFormat, getUpiSettings } from '../utils/settings';
 
 const Statement: React.FC = () => {
-  const { orders, customers, products, dataLoading } = useAuth();
+  const { can } = useAuth();
+  const { dataLoading } = useDataStore();
+  const { isOnline } = useSync();
+  const { invoices } = useBilling();
+  const { purchases } = useSuppliers();
+  const { settings } = useSettings();
+  const { products: activeProducts, deletedProducts } = useProducts();
+  const { customers: activeCustomers, deletedCustomers } = useCustomers();
+  const { orders, ordersLoadedFrom, loadOrderRange } = useOrders();
+  const { payments, paymentAllocations } = usePayments();
+  const { statementTotals, dailyProductTotals } = useLedgerQueries();
+
+  // Statements cover customers and products in the Trash too, since their orders are still billed.
+  const customers = useMemo(() => [...activeCustomers, ...deletedCustomers], [activeCustomers, deletedCustomers]);
+  const products = useMemo(() => [...activeProducts, ...deletedProducts], [activeProducts, deletedProducts]);
 
   const today = new Date().toISOString().split('T')[0];
   const [startDate, setStartDate] = useState(today);
@@ -92,120 +45,96 @@ const Statement: React.FC = () => {
   const [reportDate, setReportDate] = useState(today);
   const [selectedCustomerId, setSelectedCustomerId] = useState('all');
   const [generatedStatement, setGeneratedStatement] = useState<StatementResult | null>(null);
-
-  const handleGenerateStatement = () => {
-    const filteredOrders = orders.filter(order => {
-      const orderDate = new Date(order.date);
-      const start = new Date(startDate);
-      const end = new Date(endDate);
-      
-      orderDate.setUTCHours(0, 0, 0, 0);
-      start.setUTCHours(0, 0, 0, 0);
-      end.setUTCHours(0, 0, 0, 0);
-
-      const isDateInRange = orderDate >= start && orderDate <= end;
-      const isCustomerMatch = selectedCustomerId === 'all' || order.customer_id === selectedCustomerId;
-      
-      return isDateInRange && isCustomerMatch;
-    });
-
-    let customerStatements: CustomerStatement[] = [];
-
-    if (selectedCustomerId === 'all') {
-      const ordersByCustomer = filteredOrders.reduce((acc, order) => {
-        (acc[order.customer_id] = acc[order.customer_id] || []).push(order);
-        return acc;
-      }, {} as Record<string, DailyOrder[]>);
-
-      customerStatements = Object.entries(ordersByCustomer).map(([customerId, customerOrders]) => {
-        const totalAmount = customerOrders.reduce((sum, o) => sum + o.total_amount, 0);
-        const totalPaid = customerOrders.reduce((sum, o) => sum + (o.amount_paid || 0), 0);
-        return {
-          customerId,
-          customerName: customerOrders[0]?.customer_name || 'Unknown',
-          orders: customerOrders.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()),
-          totalAmount,
-          totalPaid,
-          pendingAmount: totalAmount - totalPaid,
-        };
-      });
-    } else {
-      const customerOrders = filteredOrders.filter(o => o.customer_id === selectedCustomerId);
-      if (customerOrders.length > 0) {
-          const totalAmount = customerOrders.reduce((sum, o) => sum + o.total_amount, 0);
-          const totalPaid = customerOrders.reduce((sum, o) => sum + (o.amount_paid || 0), 0);
-          customerStatements.push({
-              customerId: selectedCustomerId,
-              customerName: customers.find(c => c.id === selectedCustomerId)?.name || 'Unknown',
-              orders: customerOrders.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()),
-              totalAmount,
-              totalPaid,
-              pendingAmount: totalAmount - totalPaid,
-          });
+  const [invoiceFor, setInvoiceFor] = useState<CustomerStatement | null>(null);
+  const [showMessages, setShowMessages] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isDownloadingReport, setIsDownloadingReport] = useState(false);
+  const upiSettings = useMemo(() => getUpiSettings(settings), [settings]);
+
+  const paidByOrder = useMemo(() => getPaidByOrder(paymentAllocations), [paymentAllocations]);
+
+  // Only the recent window of orders is kept locally; an older period is loaded from the
+  // server first, and its totals come from the database while online.
+  const handleGenerateStatement = async () => {
+    setIsGenerating(true);
+    try {
+      const customerIds = selectedCustomerId === 'all' ? undefined : [selectedCustomerId];
+      let periodOrders = orders;
+      let periodPaidByOrder = paidByOrder;
+      let serverTotals: StatementTotals[] | null = null;
+      if (isOnline) {
+        if (ordersLoadedFrom !== null && startDate < ordersLoadedFrom) {
+          const loaded = await loadOrderRange(startDate, endDate, customerIds);
+          periodOrders = loaded.orders.filter(order => !order.deleted_at);
+          periodPaidByOrder = getPaidByOrder(loaded.allocations);
+        }
+        serverTotals = await statementTotals(startDate, endDate);
       }
+      setGeneratedStatement(buildStatement(periodOrders, periodPaidByOrder, serverTotals, customers, startDate, endDate, selectedCustomerId));
+    } catch (error) {
+      console.error("Failed to generate statement", error);
+      alert("Failed to load orders for this period. Please try again.");
+    } finally {
+      setIsGenerating(false);
     }
+  };
 
-    const grandTotalAmount = customerStatements.reduce((sum, cs) => sum + cs.totalAmount, 0);
-    const grandTotalPaid = customerStatements.reduce((sum, cs) => sum + cs.totalPaid, 0);
-    
-    setGeneratedStatement({
-      customerStatements: customerStatements.sort((a, b) => a.customerName.localeCompare(b.customerName)),
-      grandTotalAmount,
-      grandTotalPaid,
-      grandTotalPending: grandTotalAmount - grandTotalPaid,
-      totalOrders: filteredOrders.length,
-    });
+  const handleDownloadDailyFullReport = async () => {
+    setIsDownloadingReport(true);
+    try {
+      // Online, product totals are added up by the database; offline, from the day's orders.
+      const productTotals = isOnline ? await dailyProductTotals(reportDate, reportDate) : null;
+      if (isOnline && ordersLoadedFrom !== null && reportDate < ordersLoadedFrom) {
+        const loaded = await loadOrderRange(reportDate, reportDate);
+        buildDailyFullReport(loaded.orders.filter(order => !order.deleted_at), loaded.payments, getPaidByOrder(loaded.allocations), productTotals);
+      } else {
+        buildDailyFullReport(orders.filter(order => order.date === reportDate), payments, paidByOrder, productTotals);
+      }
+    } catch (error) {
+      console.error("Failed to download daily report", error);
+      alert("Failed to load orders for this day. Please try again.");
+    } finally {
+      setIsDownloadingReport(false);
+    }
   };
 
-  const handleDownloadDailyFullReport = () => {
-    const reportDateOrders = orders.filter(order => order.date === reportDate);
+  const buildDailyFullReport = (reportDateOrders: DailyOrder[], reportPayments: Payment[], reportPaidByOrder: Record<string, number>, productTotals: DailyProductTotals[] | null) => {
 
     // Financial Summary Sheet
-    const totalCollection = reportDateOrders.reduce((sum, order) => sum + (order.amount_paid || 0), 0);
-    const totalAmount = reportDateOrders.reduce((sum, order) => sum + order.total_amount, 0);
-    const totalPending = totalAmount - totalCollection;
+    // Collection is the money received on the day; pending is what is still owed for the day's orders.
+    const totalCollection = reportPayments.filter(payment => payment.date === reportDate).reduce((sum, payment) => sum + payment.amount, 0);
+    const { totalAmount, balance: totalPending } = getOrderTotals(reportDateOrders, reportPaidByOrder);
+    const deliveryCounts = getDeliveryCounts(reportDateOrders);
     const financialSummaryData = [
       ["Metric", "Value"],
-      ["Total Amount", `₹${totalAmount.toFixed(2)}`],
-      ["Collection", `₹${totalCollection.toFixed(2)}`],
-      ["Pending", `₹${totalPending.toFixed(2)}`],
+      ["Total Amount", formatMoney(totalAmount, settings)],
+      ["Collection", formatMoney(totalCollection, settings)],
+      ["Pending", formatMoney(totalPending, settings)],
       ["Total Orders", reportDateOrders.length],
+      ["Delivered", deliveryCounts.delivered],
+      ["Partially Delivered", deliveryCounts.partial],
+      ["Skipped", deliveryCounts.skipped],
+      ["Outstanding Deliveries", deliveryCounts.outstanding],
     ];
     const financialWs = XLSX.utils.aoa_to_sheet(financialSummaryData);
-    financialWs['!cols'] = [{wch: 20}, {wch: 15}];
+    financialWs['!cols'] = [{wch: 24}, {wch: 15}];
 
     // Customer Summary Sheet
-    const customerSummary = reportDateOrders.reduce((acc, order) => {
-      if (!acc[order.customer_id]) {
-        acc[order.customer_id] = { name: order.customer_name, total: 0, paid: 0 };
-      }
-      acc[order.customer_id].total += order.total_amount;
-      acc[order.customer_id].paid += order.amount_paid || 0;
-      return acc;
-    }, {} as Record<string, { name: string, total: number, paid: number }>);
+    const customerSummaries = summarizeByCustomer(reportDateOrders, reportPaidByOrder);
     const customerSummaryData = [
-        ["Customer Name", "Total Amount", "Amount Paid", "Pending Amount"],
-        ...Object.values(customerSummary).map(c => [ c.name, c.total, c.paid, c.total - c.paid ])
+        ["Customer Name", "Total Amount", "Amount Paid", "Pending Amount", "Delivery"],
+        ...customerSummaries.map(c => [ c.customerName, c.totalAmount, c.totalPaid, c.balance, deliveryStatusLabels[getCombinedDeliveryStatus(c.orders)] ])
     ];
     const customerWs = XLSX.utils.aoa_to_sheet(customerSummaryData);
-    customerWs['!cols'] = [{wch: 25}, {wch: 15}, {wch: 15}, {wch: 15}];
+    customerWs['!cols'] = [{wch: 25}, {wch: 15}, {wch: 15}, {wch: 15}, {wch: 15}];
 
     // Product Summary Sheet
-    const productSummary: { [productName: string]: { quantity: number; unit: string } } = {};
-    reportDateOrders.forEach(order => {
-        order.items.forEach(item => {
-            const product = products.find(p => p.id === item.product_id);
-            const baseUnit = product?.unit || 'units';
-            let displayUnit = baseUnit === 'piece' ? 'pcs' : (baseUnit === 'ml' ? '' : baseUnit);
-            if (!productSummary[item.product_name]) {
-                productSummary[item.product_name] = { quantity: 0, unit: displayUnit };
-            }
-            productSummary[item.product_name].quantity += item.quantity;
-        });
-    });
+    const productTotalsForDay = productTotals
+      ? getProductTotals(productTotals.map(row => ({ ...row, total: row.amount })), products)
+      : getOrderProductTotals(reportDateOrders, products);
     const productSummaryData = [
         ["Product Name", "Total Quantity Sold"],
-        ...Object.entries(productSummary).map(([name, {quantity, unit}]) => [ name, `${quantity} ${unit}`.trim() ])
+        ...productTotalsForDay.map(total => [ total.productName, formatProductQuantity(total) ])
     ];
     const productWs = XLSX.utils.aoa_to_sheet(productSummaryData);
     productWs['!cols'] = [{wch: 30}, {wch: 20}];
@@ -214,16 +143,7 @@ const Statement: React.FC = () => {
     const allOrdersData: (string | number)[][] = [
         ["Customer Name", "Product Name", "Quantity", "Unit", "Price per Unit", "Total Price"],
     ];
-    const ordersByCustomer = reportDateOrders.reduce((acc, order) => {
-        (acc[order.customer_id] = acc[order.customer_id] || []).push(order);
-        return acc;
-    }, {} as Record<string, DailyOrder[]>);
-
-    let grandTotal = 0;
-    Object.values(ordersByCustomer).sort((a,b) => a[0].customer_name.localeCompare(b[0].customer_name)).forEach(customerOrders => {
-        const customerName = customerOrders[0].customer_name;
-        let customerTotal = 0;
-        
+    customerSummaries.forEach(({ customerName, orders: customerOrders, totalAmount: customerTotal }) => {
         customerOrders.flatMap(order => order.items).forEach(item => {
             allOrdersData.push([
                 customerName,
@@ -233,108 +153,55 @@ const Statement: React.FC = () => {
                 item.price,
                 item.total
             ]);
-            customerTotal += item.total;
         });
 
-        allOrdersData.push(["", "", "", "", { t: 's', v: "Customer Total", s: { font: { bold: true } } }, { t: 'n', v: customerTotal, s: { font: { bold: true }, num_fmt: '"₹"#,##0.00' } }]);
+        allOrdersData.push(["", "", "", "", { t: 's', v: "Customer Total", s: { font: { bold: true } } }, { t: 'n', v: customerTotal, s: { font: { bold: true }, num_fmt: getExcelMoneyFormat(settings) } }]);
         allOrdersData.push([]); // Blank row for spacing
-        grandTotal += customerTotal;
     });
     
-    allOrdersData.push(["", "", "", "", { t: 's', v: "Grand Total", s: { font: { bold: true, sz: 14 } } }, { t: 'n', v: grandTotal, s: { font: { bold: true, sz: 14 }, num_fmt: '"₹"#,##0.00' } }]);
+    allOrdersData.push(["", "", "", "", { t: 's', v: "Grand Total", s: { font: { bold: true, sz: 14 } } }, { t: 'n', v: totalAmount, s: { font: { bold: true, sz: 14 }, num_fmt: getExcelMoneyFormat(settings) } }]);
     
     const allOrdersWs = XLSX.utils.aoa_to_sheet(allOrdersData);
     allOrdersWs['!cols'] = [{wch: 25}, {wch: 30}, {wch: 10}, {wch: 10}, {wch: 15}, {wch: 15}];
 
+    // Profit Sheet
+    const profitWs = XLSX.utils.aoa_to_sheet(getProfitSheetData(buildProfitReport(reportDateOrders, purchases, products, reportDate)));
+    profitWs['!cols'] = [{wch: 25}, {wch: 14}, {wch: 8}, {wch: 12}, {wch: 14}, {wch: 12}, {wch: 12}, {wch: 10}];
+
     // Create workbook and download
     const wb = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(wb, financialWs, "Financial Summary");
     XLSX.utils.book_append_sheet(wb, customerWs, "Customer Summary");
     XLSX.utils.book_append_sheet(wb, productWs, "Product Summary");
     XLSX.utils.book_append_sheet(wb, allOrdersWs, "All Orders Detailed");
+    XLSX.utils.book_append_sheet(wb, profitWs, "Profit");
     
     const wbout = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
     const blob = new Blob([wbout], { type: "application/octet-stream" });
     triggerDownload(blob, `Daily_Full_Report_${reportDate}.xlsx`);
   };
 
-  const handleDownloadPDF = () => {
+  const handleDownloadPDF = async () => {
     if (!generatedStatement) return;
-    const doc = new jsPDF();
-    
-    if (hindVadodaraRegularBase64 && hindVadodaraRegularBase64.trim().length > 0) {
+    // Each customer with a balance gets a UPI QR code for it, once a UPI ID is set.
+    const sections = await Promise.all(generatedStatement.customerStatements.map(async cs => {
+      if (!isValidVpa(upiSettings.vpa) || cs.pendingAmount <= 0) return cs;
       try {
-        let pureBase64 = hindVadodaraRegularBase64;
-        const commaIndex = pureBase64.indexOf(',');
-        if (commaIndex !== -1) {
-          pureBase64 = pureBase64.substring(commaIndex + 1);
-        }
-        // Remove all non-base64 characters to prevent encoding errors
-        pureBase64 = pureBase64.replace(/[^A-Za-z0-9+/=]/g, '');
-
-        doc.addFileToVFS('HindVadodara-Regular.ttf', pureBase64);
-        doc.addFont('HindVadodara-Regular.ttf', 'HindVadodara', 'normal');
-        doc.setFont('HindVadodara');
-      } catch (e) {
-        console.error("Failed to load custom font for PDF. Falling back to default.", e);
-        doc.setFont('helvetica');
+        const note = `Milk bill ${generatedStatement.periodStart} to ${generatedStatement.periodEnd}`;
+        return { ...cs, paymentQr: { dataUrl: await createUpiQrDataUrl(upiSettings, cs.pendingAmount, note), vpa: upiSettings.vpa } };
+      } catch (error) {
+        console.error("Failed to create UPI QR code", error);
+        return cs;
       }
-    } else {
-      console.warn("Gujarati font data not found. PDF will not render Gujarati characters correctly.");
-      doc.setFont('helvetica');
-    }
-
-    doc.setFontSize(18);
-    doc.text('Jay Goga Milk - Statement', 14, 22);
-    doc.setFontSize(11);
-    doc.text(`Period: ${startDate} to ${endDate}`, 14, 30);
-
-    doc.setFontSize(14);
-    doc.text('Overall Summary', 14, 45);
-    doc.setFontSize(10);
-    doc.text(`Total Order Value: ₹${generatedStatement.grandTotalAmount.toFixed(2)}`, 14, 52);
-    doc.text(`Total Paid: ₹${generatedStatement.grandTotalPaid.toFixed(2)}`, 14, 58);
-    doc.text(`Pending Amount: ₹${generatedStatement.grandTotalPending.toFixed(2)}`, 14, 64);
-
-    let yPos = 75;
-
-    generatedStatement.customerStatements.forEach(cs => {
-        if (yPos > 250) {
-            doc.addPage();
-            yPos = 20;
-        }
-
-        doc.setFontSize(12);
-        doc.setFont(undefined, 'bold');
-        doc.text(`Customer: ${cs.customerName}`, 14, yPos);
-        yPos += 7;
-
-        doc.setFontSize(10);
-        doc.setFont(undefined, 'normal');
-        doc.text(`Total: ₹${cs.totalAmount.toFixed(2)} | Paid: ₹${cs.totalPaid.toFixed(2)} | Pending: ₹${cs.pendingAmount.toFixed(2)}`, 14, yPos);
-        yPos += 5;
-
-        const dailySummaries = getDailySummariesForStatement(cs.orders);
-        const tableColumn = ["Date", "Items", "Total", "Paid", "Balance"];
-        const tableRows = dailySummaries.map(summary => [
-            new Date(summary.date).toLocaleDateString('en-IN', { timeZone: 'UTC' }),
-            summary.allItems.map(i => `${i.product_name} (x${i.quantity} @ ₹${i.price.toFixed(2)})`).join('\n'),
-            `₹${summary.totalAmount.toFixed(2)}`,
-            `₹${summary.totalPaid.toFixed(2)}`,
-            `₹${summary.balance.toFixed(2)}`,
-        ]);
-
-        (doc as any).autoTable({
-            head: [tableColumn],
-            body: tableRows,
-            startY: yPos,
-            theme: 'grid',
-            headStyles: { fillColor: [2, 132, 199] }, // dairy-600
-            styles: { font: 'HindVadodara', fontStyle: 'normal' },
-        });
-
-        yPos = (doc as any).lastAutoTable.finalY + 15;
-    });
+    }));
+    const doc = createStatementPdf({
+      periodStart: startDate,
+      periodEnd: endDate,
+      totalAmount: generatedStatement.grandTotalAmount,
+      totalPaid: generatedStatement.grandTotalPaid,
+      pendingAmount: generatedStatement.grandTotalPending,
+      sections,
+    }, paidByOrder, settings);
 
     const customerName = selectedCustomerId === 'all' 
         ? 'All_Customers' 
@@ -348,7 +215,7 @@ const Statement: React.FC = () => {
     if (!generatedStatement) return;
     
     const ws_data: (string | number)[][] = [
-      ["Jay Goga Milk - Statement"],
+      [`${settings.business_name} - Statement`],
       [`Period: ${startDate} to ${endDate}`],
       [],
       ["Overall Summary"],
@@ -362,7 +229,7 @@ const Statement: React.FC = () => {
         ws_data.push([`Customer: ${cs.customerName}`]);
         ws_data.push(["Customer Total", cs.totalAmount, "Customer Paid", cs.totalPaid, "Customer Pending", cs.pendingAmount]);
         
-        const dailySummaries = getDailySummariesForStatement(cs.orders);
+        const dailySummaries = summarizeByDate(cs.orders, paidByOrder);
         ws_data.push(["Date", "Items", "Total", "Paid", "Balance"]);
         dailySummaries.forEach(summary => {
             ws_data.push([
@@ -381,6 +248,11 @@ const Statement: React.FC = () => {
     const wb = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(wb, ws, "Statement");
 
+    const statementOrders = generatedStatement.customerStatements.flatMap(cs => cs.orders);
+    const profitWs = XLSX.utils.aoa_to_sheet(getProfitSheetData(buildProfitReport(statementOrders, purchases, products, generatedStatement.periodEnd)));
+    profitWs['!cols'] = [{wch: 25}, {wch: 14}, {wch: 8}, {wch: 12}, {wch: 14}, {wch: 12}, {wch: 12}, {wch: 10}];
+    XLSX.utils.book_append_sheet(wb, profitWs, "Profit");
+
     const customerName = selectedCustomerId === 'all' 
         ? 'All_Customers' 
         : customers.find(c => c.id === selectedCustomerId)?.name.replace(/\s+/g, '_') || 'Customer';
@@ -390,6 +262,17 @@ const Statement: React.FC = () => {
     triggerDownload(blob, `Statement_${customerName}_${startDate}_to_${endDate}.xlsx`);
   };
 
+  const handleDownloadInvoice = (invoice: Invoice) => {
+    const doc = createInvoicePdf(invoice);
+    triggerDownload(doc.output('blob'), `Invoice_${invoice.invoice_number.replace(/\//g, '-')}.pdf`);
+  };
+
+  const issuedInvoices = useMemo(() => {
+    return invoices
+      .filter(invoice => selectedCustomerId === 'all' || invoice.customer_id === selectedCustomerId)
+      .sort((a, b) => b.financial_year.localeCompare(a.financial_year) || b.sequence - a.sequence);
+  }, [invoices, selectedCustomerId]);
+
   const grandStats = useMemo(() => {
     if (!generatedStatement) return [];
     return [
@@ -424,16 +307,16 @@ const Statement: React.FC = () => {
               <label className="block text-sm font-medium text-gray-700 mb-1">Customer</label>
               <select value={selectedCustomerId} onChange={e => setSelectedCustomerId(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-dairy-500">
                 <option value="all">All Customers</option>
-                {customers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                {customers.map(c => <option key={c.id} value={c.id}>{c.name}{c.deleted_at ? ' (deleted)' : ''}</option>)}
               </select>
             </div>
             <motion.button
               onClick={handleGenerateStatement}
-              disabled={dataLoading}
+              disabled={dataLoading || isGenerating}
               className="w-full bg-dairy-600 text-white py-3 rounded-lg font-medium flex justify-center items-center"
               whileTap={{ scale: 0.98 }}
             >
-              {dataLoading ? <Loader2 className="animate-spin" /> : 'Generate Statement'}
+              {dataLoading || isGenerating ? <Loader2 className="animate-spin" /> : 'Generate Statement'}
             </motion.button>
           </div>
         </motion.div>
@@ -453,11 +336,11 @@ const Statement: React.FC = () => {
             </div>
             <motion.button
               onClick={handleDownloadDailyFullReport}
-              disabled={dataLoading}
+              disabled={dataLoading || isDownloadingReport}
               className="w-full bg-green-600 text-white py-3 rounded-lg font-medium flex justify-center items-center space-x-2"
               whileTap={{ scale: 0.98 }}
             >
-              {dataLoading ? <Loader2 className="animate-spin" /> : (
+              {dataLoading || isDownloadingReport ? <Loader2 className="animate-spin" /> : (
                 <>
                   <FileSpreadsheet size={20} />
                   <span>Download Daily Report</span>
@@ -467,6 +350,28 @@ const Statement: React.FC = () => {
           </div>
         </motion.div>
 
+        {issuedInvoices.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            className="bg-white rounded-xl p-4 mb-6 shadow-sm border border-gray-100"
+          >
+            <h2 className="text-xl font-bold text-gray-800 mb-4">Issued Invoices</h2>
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {issuedInvoices.map(invoice => (
+                <div key={invoice.id} className="flex justify-between items-center bg-gray-50 rounded-lg p-3">
+                  <div>
+                    <p className="font-medium text-gray-800">{invoice.invoice_number}</p>
+                    <p className="text-xs text-gray-500">{invoice.buyer.name} &middot; {new Date(invoice.invoice_date).toLocaleDateString('en-IN', { timeZone: 'UTC' })} &middot; ₹{invoice.total.toFixed(2)}</p>
+                  </div>
+                  <motion.button onClick={() => handleDownloadInvoice(invoice)} className="p-2 text-red-700 bg-red-50 rounded-lg" whileTap={{scale: 0.95}}><FileDown size={16}/></motion.button>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
         <AnimatePresence>
           {generatedStatement && (
             <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
@@ -485,17 +390,19 @@ const Statement: React.FC = () => {
                 <div className="flex space-x-2">
                   <motion.button onClick={handleDownloadPDF} className="flex items-center space-x-2 bg-red-50 text-red-700 px-3 py-2 rounded-lg text-sm font-medium" whileTap={{scale: 0.95}}><FileDown size={16}/><span>PDF</span></motion.button>
                   <motion.button onClick={handleDownloadExcel} className="flex items-center space-x-2 bg-green-50 text-green-700 px-3 py-2 rounded-lg text-sm font-medium" whileTap={{scale: 0.95}}><FileSpreadsheet size={16}/><span>Excel</span></motion.button>
+                  {generatedStatement.customerStatements.length > 0 && <motion.button onClick={() => setShowMessages(true)} className="flex items-center space-x-2 bg-dairy-50 text-dairy-700 px-3 py-2 rounded-lg text-sm font-medium" whileTap={{scale: 0.95}}><MessageCircle size={16}/><span>Messages</span></motion.button>}
                 </div>
               </div>
               
               {generatedStatement.customerStatements.length > 0 ? (
                 <div className="space-y-6">
                   {generatedStatement.customerStatements.map(cs => {
-                    const dailySummaries = getDailySummariesForStatement(cs.orders);
+                    const dailySummaries = summarizeByDate(cs.orders, paidByOrder);
                     return (
                       <div key={cs.customerId} className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
                         <div className="flex items-center justify-between mb-4 pb-4 border-b">
                           <h3 className="text-lg font-bold text-gray-800 flex items-center"><User size={20} className="mr-2 text-dairy-700"/>{cs.customerName}</h3>
+                          {can('issueInvoices') && <motion.button onClick={() => setInvoiceFor(cs)} className="flex items-center space-x-1 bg-dairy-50 text-dairy-700 px-3 py-2 rounded-lg text-sm font-medium" whileTap={{scale: 0.95}}><Receipt size={16}/><span>Invoice</span></motion.button>}
                         </div>
                         <div className="grid grid-cols-3 gap-2 mb-4 text-center">
                           <div className="p-2 bg-gray-50 rounded-lg"><p className="text-xs text-gray-500">Total</p><p className="font-bold text-sm text-gray-800">₹{cs.totalAmount.toFixed(2)}</p></div>
@@ -534,6 +441,27 @@ const Statement: React.FC = () => {
             </motion.div>
           )}
         </AnimatePresence>
+
+        <AnimatePresence>
+          {invoiceFor && generatedStatement && (
+            <IssueInvoiceModal
+              customerId={invoiceFor.customerId}
+              customerName={invoiceFor.customerName}
+              orders={invoiceFor.orders}
+              periodStart={generatedStatement.periodStart}
+              periodEnd={generatedStatement.periodEnd}
+              onClose={() => setInvoiceFor(null)}
+            />
+          )}
+          {showMessages && generatedStatement && (
+            <PrepareMessagesModal
+              statements={generatedStatement.customerStatements}
+              periodStart={generatedStatement.periodStart}
+              periodEnd={generatedStatement.periodEnd}
+              onClose={() => setShowMessages(false)}
+            />
+          )}
+        </AnimatePresence>
       </div>
     </Layout>
   );
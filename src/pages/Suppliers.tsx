@@ -0,0 +1,362 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import Layout from '../components/Layout/Layout';
+import { useAuth } from '../context/AuthContext';
+import { useDataStore } from '../context/useDataStore';
+import { useProducts, useOrders, useSuppliers } from '../context/DataContext';
+import { Supplier, Unit } from '../types';
+import { ArrowLeft, Plus, Edit, Trash2, Loader2, Truck, ChevronDown, ChevronUp, CheckCircle, Circle, TrendingUp } from 'lucide-react';
+import { getStockUnit } from '../utils/inventory';
+import { roundMoney } from '../utils/ledger';
+import { buildProfitReport, getProfitTotals } from '../utils/profit';
+import { getSupplierLedgerSummary, getSupplierPurchases } from '../utils/suppliers';
+
+const entryUnits: Record<Unit, Unit[]> = {
+  L: ['L', 'ml'],
+  kg: ['kg', 'gm'],
+  piece: ['piece'],
+  ml: ['L', 'ml'],
+  gm: ['kg', 'gm'],
+};
+
+const Suppliers: React.FC = () => {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const { dataLoading } = useDataStore();
+  const { suppliers, addSupplier, updateSupplier, deleteSupplier, purchases, addPurchase, updatePurchase, deletePurchase } = useSuppliers();
+  const { products } = useProducts();
+  const { orders } = useOrders();
+  const canManageSuppliers = can('manageSuppliers');
+
+  const today = new Date().toISOString().split('T')[0];
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showSupplierForm, setShowSupplierForm] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [supplierForm, setSupplierForm] = useState({ name: '', contact_number: '' });
+  const [expandedSupplierId, setExpandedSupplierId] = useState<string | null>(null);
+  const [purchaseFor, setPurchaseFor] = useState<Supplier | null>(null);
+  const [purchaseForm, setPurchaseForm] = useState({ product_id: '', date: today, quantity: '', unit: 'L' as Unit, rate: '', is_paid: false, note: '' });
+  const [profitStart, setProfitStart] = useState(today.slice(0, 8) + '01');
+  const [profitEnd, setProfitEnd] = useState(today);
+
+  const profitRows = useMemo(() => {
+    const periodOrders = orders.filter(order => order.date >= profitStart && order.date <= profitEnd);
+    return buildProfitReport(periodOrders, purchases, products, profitEnd);
+  }, [orders, purchases, products, profitStart, profitEnd]);
+  const profitTotals = getProfitTotals(profitRows);
+
+  const sortedSuppliers = useMemo(() => [...suppliers].sort((a, b) => a.name.localeCompare(b.name)), [suppliers]);
+
+  const handleOpenSupplierForm = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier);
+    setSupplierForm({ name: supplier?.name || '', contact_number: supplier?.contact_number || '' });
+    setShowSupplierForm(true);
+  };
+
+  const handleSupplierSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!supplierForm.name.trim()) return;
+    setIsSubmitting(true);
+    const data = { name: supplierForm.name.trim(), contact_number: supplierForm.contact_number.trim() || null };
+    try {
+      if (editingSupplier) await updateSupplier(editingSupplier.id, data);
+      else await addSupplier(data);
+      setShowSupplierForm(false);
+      setEditingSupplier(null);
+    } catch (error) {
+      console.error("Failed to save supplier", error);
+      alert("Failed to save supplier. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteSupplier = async (supplier: Supplier) => {
+    if (!window.confirm(`Delete ${supplier.name}? All purchases from this supplier will also be removed.`)) return;
+    try {
+      await deleteSupplier(supplier.id);
+    } catch (error) {
+      console.error("Failed to delete supplier", error);
+      alert("Failed to delete supplier. Please try again.");
+    }
+  };
+
+  const handleOpenPurchase = (supplier: Supplier) => {
+    const product = products[0];
+    setPurchaseForm({ product_id: product?.id || '', date: today, quantity: '', unit: product ? getStockUnit(product) : 'L', rate: '', is_paid: false, note: '' });
+    setPurchaseFor(supplier);
+  };
+
+  const handlePurchaseProductChange = (productId: string) => {
+    const product = products.find(p => p.id === productId);
+    setPurchaseForm(prev => ({ ...prev, product_id: productId, unit: product ? getStockUnit(product) : prev.unit }));
+  };
+
+  const purchaseQuantity = parseFloat(purchaseForm.quantity);
+  const purchaseRate = parseFloat(purchaseForm.rate);
+  const purchaseTotal = !isNaN(purchaseQuantity) && !isNaN(purchaseRate) ? roundMoney(purchaseQuantity * purchaseRate) : 0;
+
+  const handlePurchaseSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!purchaseFor || !purchaseForm.product_id || isNaN(purchaseQuantity) || purchaseQuantity <= 0 || isNaN(purchaseRate) || purchaseRate < 0) return;
+
+    setIsSubmitting(true);
+    try {
+      await addPurchase({
+        supplier_id: purchaseFor.id,
+        product_id: purchaseForm.product_id,
+        date: purchaseForm.date,
+        quantity: purchaseQuantity,
+        unit: purchaseForm.unit,
+        rate: purchaseRate,
+        total: purchaseTotal,
+        is_paid: purchaseForm.is_paid,
+        paid_on: purchaseForm.is_paid ? purchaseForm.date : null,
+        note: purchaseForm.note.trim() || null,
+      });
+      setExpandedSupplierId(purchaseFor.id);
+      setPurchaseFor(null);
+    } catch (error) {
+      console.error("Failed to save purchase", error);
+      alert("Failed to save purchase. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleTogglePaid = async (purchaseId: string, isPaid: boolean) => {
+    try {
+      await updatePurchase(purchaseId, { is_paid: !isPaid, paid_on: isPaid ? null : today });
+    } catch (error) {
+      console.error("Failed to update purchase", error);
+      alert("Failed to update purchase. Please try again.");
+    }
+  };
+
+  const handleDeletePurchase = async (purchaseId: string) => {
+    if (!window.confirm("Delete this purchase?")) return;
+    try {
+      await deletePurchase(purchaseId);
+    } catch (error) {
+      console.error("Failed to delete purchase", error);
+      alert("Failed to delete purchase. Please try again.");
+    }
+  };
+
+  const selectedProduct = products.find(p => p.id === purchaseForm.product_id);
+
+  return (
+    <Layout title="Suppliers">
+      <div className="px-4">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center">
+            <motion.button onClick={() => navigate('/inventory')} className="p-2 mr-2 rounded-full hover:bg-gray-100" whileTap={{ scale: 0.9 }}>
+              <ArrowLeft size={20} className="text-gray-700" />
+            </motion.button>
+            <h2 className="text-xl font-bold text-gray-800">Suppliers</h2>
+          </div>
+          {canManageSuppliers && (
+            <motion.button
+              onClick={() => handleOpenSupplierForm(null)}
+              className="bg-dairy-600 text-white px-4 py-2 rounded-lg flex items-center space-x-2 shadow-lg"
+              whileTap={{ scale: 0.95 }}
+            >
+              <Plus size={20} />
+              <span>Add Supplier</span>
+            </motion.button>
+          )}
+        </div>
+
+        <AnimatePresence>
+          {showSupplierForm && (
+            <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: 'auto' }} exit={{ opacity: 0, height: 0 }} className="bg-white rounded-xl p-4 mb-6 shadow-sm border border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">{editingSupplier ? 'Edit Supplier' : 'New Supplier'}</h3>
+              <form onSubmit={handleSupplierSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input type="text" value={supplierForm.name} onChange={e => setSupplierForm(prev => ({ ...prev, name: e.target.value }))} className="w-full px-3 py-2 border border-gray-300 rounded-lg" placeholder="e.g., Village Collection Centre" required />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Contact Number (Optional)</label>
+                  <input type="tel" value={supplierForm.contact_number} onChange={e => setSupplierForm(prev => ({ ...prev, contact_number: e.target.value }))} className="w-full px-3 py-2 border border-gray-300 rounded-lg" />
+                </div>
+                <div className="flex space-x-3">
+                  <motion.button type="submit" disabled={isSubmitting} className="flex-1 bg-dairy-600 text-white py-3 rounded-lg font-medium disabled:opacity-50 flex justify-center items-center" whileTap={{ scale: 0.98 }}>
+                    {isSubmitting ? <Loader2 className="animate-spin" /> : (editingSupplier ? 'Update' : 'Add Supplier')}
+                  </motion.button>
+                  <motion.button type="button" onClick={() => setShowSupplierForm(false)} className="flex-1 bg-gray-500 text-white py-3 rounded-lg font-medium" whileTap={{ scale: 0.98 }}>Cancel</motion.button>
+                </div>
+              </form>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {dataLoading ? (
+          <div className="text-center p-8"><Loader2 className="mx-auto animate-spin text-dairy-600" size={32} /></div>
+        ) : sortedSuppliers.length === 0 ? (
+          <div className="bg-white rounded-xl p-8 shadow-sm border border-gray-100 text-center mb-6">
+            <Truck className="mx-auto mb-4 text-gray-300" size={48} />
+            <p className="text-gray-600">No suppliers yet. Add the dairies and collection centres you buy from.</p>
+          </div>
+        ) : (
+          <div className="space-y-3 mb-6">
+            {sortedSuppliers.map(supplier => {
+              const summary = getSupplierLedgerSummary(supplier.id, purchases);
+              const supplierPurchases = getSupplierPurchases(supplier.id, purchases);
+              const isExpanded = expandedSupplierId === supplier.id;
+              return (
+                <div key={supplier.id} className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+                  <div className="flex justify-between items-start">
+                    <button onClick={() => setExpandedSupplierId(isExpanded ? null : supplier.id)} className="flex-1 text-left">
+                      <h4 className="font-semibold text-gray-800 flex items-center">
+                        {supplier.name}
+                        {isExpanded ? <ChevronUp size={16} className="ml-1 text-gray-400" /> : <ChevronDown size={16} className="ml-1 text-gray-400" />}
+                      </h4>
+                      {supplier.contact_number && <p className="text-xs text-gray-500">{supplier.contact_number}</p>}
+                    </button>
+                    {canManageSuppliers && (
+                      <div className="flex space-x-2">
+                        <motion.button onClick={() => handleOpenPurchase(supplier)} disabled={products.length === 0} className="p-2 text-dairy-600 bg-dairy-100 rounded-lg disabled:opacity-50" whileTap={{ scale: 0.95 }}><Plus size={16} /></motion.button>
+                        <motion.button onClick={() => handleOpenSupplierForm(supplier)} className="p-2 text-blue-600 bg-blue-100 rounded-lg" whileTap={{ scale: 0.95 }}><Edit size={16} /></motion.button>
+                        <motion.button onClick={() => handleDeleteSupplier(supplier)} className="p-2 text-red-600 bg-red-100 rounded-lg" whileTap={{ scale: 0.95 }}><Trash2 size={16} /></motion.button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-3 gap-2 text-center text-xs mt-3">
+                    <div className="p-2 bg-gray-50 rounded-lg"><p className="text-gray-500">Purchased</p><p className="font-semibold text-gray-800">₹{summary.totalPurchased.toFixed(2)}</p></div>
+                    <div className="p-2 bg-green-50 rounded-lg"><p className="text-green-700">Paid</p><p className="font-semibold text-green-700">₹{summary.paid.toFixed(2)}</p></div>
+                    <div className="p-2 bg-red-50 rounded-lg"><p className="text-red-700">Unpaid</p><p className="font-semibold text-red-700">₹{summary.unpaid.toFixed(2)}</p></div>
+                  </div>
+
+                  <AnimatePresence>
+                    {isExpanded && (
+                      <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: 'auto' }} exit={{ opacity: 0, height: 0 }} className="mt-3 pt-3 border-t border-gray-100 space-y-2 overflow-hidden">
+                        {supplierPurchases.map(purchase => (
+                          <div key={purchase.id} className="flex justify-between items-center">
+                            <div>
+                              <p className="text-sm font-medium text-gray-800">{products.find(p => p.id === purchase.product_id)?.name || 'Unknown'} · {purchase.quantity} {purchase.unit} @ ₹{purchase.rate}</p>
+                              <p className="text-xs text-gray-500">{new Date(purchase.date).toLocaleDateString('en-IN', { timeZone: 'UTC' })}{purchase.note && ` · ${purchase.note}`}</p>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              <span className="text-sm font-semibold text-gray-800">₹{purchase.total.toFixed(2)}</span>
+                              <motion.button onClick={() => handleTogglePaid(purchase.id, purchase.is_paid)} disabled={!canManageSuppliers} className={`p-1 ${purchase.is_paid ? 'text-green-600' : 'text-gray-400'}`} title={purchase.is_paid ? 'Paid' : 'Mark as paid'} whileTap={{ scale: 0.9 }}>
+                                {purchase.is_paid ? <CheckCircle size={18} /> : <Circle size={18} />}
+                              </motion.button>
+                              {canManageSuppliers && <motion.button onClick={() => handleDeletePurchase(purchase.id)} className="p-1 text-red-600" whileTap={{ scale: 0.9 }}><Trash2 size={16} /></motion.button>}
+                            </div>
+                          </div>
+                        ))}
+                        {supplierPurchases.length === 0 && <p className="text-sm text-gray-500 text-center py-2">No purchases yet.</p>}
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center"><TrendingUp size={20} className="mr-2 text-dairy-600" />Profit Report</h3>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input type="date" value={profitStart} onChange={e => setProfitStart(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input type="date" value={profitEnd} onChange={e => setProfitEnd(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg" />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-center text-xs mb-4">
+            <div className="p-2 bg-blue-50 rounded-lg"><p className="text-blue-700">Revenue</p><p className="font-semibold text-blue-700">₹{profitTotals.revenue.toFixed(2)}</p></div>
+            <div className="p-2 bg-orange-50 rounded-lg"><p className="text-orange-700">Cost</p><p className="font-semibold text-orange-700">₹{profitTotals.cost.toFixed(2)}</p></div>
+            <div className="p-2 bg-green-50 rounded-lg"><p className="text-green-700">Profit</p><p className={`font-semibold ${profitTotals.profit < 0 ? 'text-red-600' : 'text-green-700'}`}>₹{profitTotals.profit.toFixed(2)}{profitTotals.margin !== null && ` (${profitTotals.margin}%)`}</p></div>
+          </div>
+          {profitRows.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-2">No sales in this period.</p>
+          ) : (
+            <div className="space-y-2">
+              {profitRows.map(row => (
+                <div key={row.productId} className="flex justify-between items-center text-sm border-b border-gray-100 pb-2">
+                  <div>
+                    <p className="font-medium text-gray-800">{row.productName}</p>
+                    <p className="text-xs text-gray-500">
+                      {row.soldQuantity} {row.unit} sold · {row.costRate === null ? 'No purchase cost' : `cost ₹${row.costRate}/${row.unit}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`font-semibold ${row.profit < 0 ? 'text-red-600' : 'text-green-700'}`}>₹{row.profit.toFixed(2)}</p>
+                    <p className="text-xs text-gray-500">{row.margin !== null ? `${row.margin}% of ₹${row.revenue.toFixed(2)}` : `₹${row.revenue.toFixed(2)}`}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <AnimatePresence>
+        {purchaseFor && (
+          <motion.div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+            <motion.div className="bg-white rounded-xl p-4 w-full max-w-sm" initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}>
+              <h3 className="text-lg font-semibold text-gray-800 mb-1">New Purchase</h3>
+              <p className="text-sm text-gray-500 mb-4">From {purchaseFor.name}</p>
+              <form onSubmit={handlePurchaseSubmit} className="space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Product</label>
+                    <select value={purchaseForm.product_id} onChange={e => handlePurchaseProductChange(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg">
+                      {products.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                    <input type="date" value={purchaseForm.date} onChange={e => setPurchaseForm(prev => ({ ...prev, date: e.target.value }))} className="w-full px-3 py-2 border border-gray-300 rounded-lg" required />
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Quantity</label>
+                    <input type="number" step="any" min="0" value={purchaseForm.quantity} onChange={e => setPurchaseForm(prev => ({ ...prev, quantity: e.target.value }))} className="w-full px-3 py-2 border border-gray-300 rounded-lg" required />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Unit</label>
+                    <select value={purchaseForm.unit} onChange={e => setPurchaseForm(prev => ({ ...prev, unit: e.target.value as Unit }))} className="w-full px-3 py-2 border border-gray-300 rounded-lg">
+                      {(selectedProduct ? entryUnits[selectedProduct.unit] : []).map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Rate (₹)</label>
+                    <input type="number" step="0.01" min="0" value={purchaseForm.rate} onChange={e => setPurchaseForm(prev => ({ ...prev, rate: e.target.value }))} className="w-full px-3 py-2 border border-gray-300 rounded-lg" required />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Note (Optional)</label>
+                  <input type="text" value={purchaseForm.note} onChange={e => setPurchaseForm(prev => ({ ...prev, note: e.target.value }))} className="w-full px-3 py-2 border border-gray-300 rounded-lg" placeholder="e.g., Morning collection" />
+                </div>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={purchaseForm.is_paid} onChange={e => setPurchaseForm(prev => ({ ...prev, is_paid: e.target.checked }))} className="rounded text-dairy-600 focus:ring-dairy-500" />
+                  <span>Already paid</span>
+                </label>
+                <div className="flex justify-between items-center bg-dairy-50 rounded-lg p-3">
+                  <span className="text-sm text-gray-600">Total</span>
+                  <span className="font-bold text-dairy-700">₹{purchaseTotal.toFixed(2)}</span>
+                </div>
+                <div className="flex space-x-3">
+                  <motion.button type="button" onClick={() => setPurchaseFor(null)} className="flex-1 bg-gray-500 text-white py-2 rounded-lg font-medium" whileTap={{ scale: 0.98 }}>Cancel</motion.button>
+                  <motion.button type="submit" disabled={isSubmitting} className="flex-1 bg-dairy-600 text-white py-2 rounded-lg font-medium disabled:opacity-50 flex justify-center items-center" whileTap={{ scale: 0.98 }}>
+                    {isSubmitting ? <Loader2 className="animate-spin" /> : 'Save'}
+                  </motion.button>
+                </div>
+              </form>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </Layout>
+  );
+};
+
+export default Suppliers;
@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import Layout from '../components/Layout/Layout';
+import { useAuth } from '../context/AuthContext';
+import { useTeam } from '../context/DataContext';
+import { useSync } from '../context/useSync';
+import { OrganizationRole } from '../types';
+import { ArrowLeft, Users, UserPlus, Trash2, Loader2, Mail, DatabaseBackup } from 'lucide-react';
+import { roleLabels } from '../utils/permissions';
+
+const roleDescriptions: Record<OrganizationRole, string> = {
+  owner: 'Everything, including products, prices, routes and the team.',
+  accountant: 'Customers, payments, invoices and suppliers.',
+  staff: 'Orders, deliveries, stock entries and collections.',
+};
+
+const roles = Object.keys(roleLabels) as OrganizationRole[];
+
+const Team: React.FC = () => {
+  const navigate = useNavigate();
+  const { user, membership, can } = useAuth();
+  const { isOnline } = useSync();
+  const { members, invites, inviteMember, revokeInvite, updateMemberRole, removeMember } = useTeam();
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>('staff');
+
+  const canManageTeam = can('manageTeam');
+  const pendingInvites = useMemo(() => invites.filter(invite => !invite.accepted_at), [invites]);
+  const sortedMembers = useMemo(() => [...members].sort((a, b) => roles.indexOf(a.role) - roles.indexOf(b.role) || a.email.localeCompare(b.email)), [members]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+    setIsSubmitting(true);
+    try {
+      await inviteMember(inviteEmail, inviteRole);
+      setInviteEmail('');
+    } catch (error) {
+      console.error("Failed to invite member", error);
+      alert("Failed to send invite. The email may already be invited.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRoleChange = async (userId: string, role: OrganizationRole) => {
+    try {
+      await updateMemberRole(userId, role);
+    } catch (error) {
+      console.error("Failed to update role", error);
+      alert("Failed to update role. Please try again.");
+    }
+  };
+
+  const handleRemoveMember = async (userId: string, email: string) => {
+    if (!window.confirm(`Remove ${email} from the team? They will no longer see any data.`)) return;
+    try {
+      await removeMember(userId);
+    } catch (error) {
+      console.error("Failed to remove member", error);
+      alert("Failed to remove member. Please try again.");
+    }
+  };
+
+  const handleRevokeInvite = async (inviteId: string) => {
+    try {
+      await revokeInvite(inviteId);
+    } catch (error) {
+      console.error("Failed to revoke invite", error);
+      alert("Failed to revoke invite. Please try again.");
+    }
+  };
+
+  return (
+    <Layout title="Team">
+      <div className="px-4">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center">
+            <motion.button onClick={() => navigate('/dashboard')} className="p-2 mr-2 rounded-full hover:bg-gray-100" whileTap={{ scale: 0.9 }}>
+              <ArrowLeft size={20} className="text-gray-700" />
+            </motion.button>
+            <div>
+              <h2 className="text-xl font-bold text-gray-800">{membership?.organization_name || 'Team'}</h2>
+              {membership && <p className="text-sm text-gray-500">You are {roleLabels[membership.role]}</p>}
+            </div>
+          </div>
+          {can('manageBackups') && (
+            <motion.button onClick={() => navigate('/backup')} className="bg-dairy-100 text-dairy-700 px-3 py-2 rounded-lg flex items-center space-x-1" whileTap={{ scale: 0.95 }}>
+              <DatabaseBackup size={18} />
+              <span>Backup</span>
+            </motion.button>
+          )}
+        </div>
+
+        {!isOnline && <p className="text-sm text-orange-600 mb-4">The team can only be viewed and changed while online.</p>}
+
+        {canManageTeam && (
+          <div className="bg-white rounded-xl p-4 mb-6 shadow-sm border border-gray-100">
+            <h3 className="text-lg font-semibold text-gray-800 mb-1 flex items-center"><UserPlus size={20} className="mr-2 text-dairy-600" />Invite</h3>
+            <p className="text-sm text-gray-500 mb-4">They register or log in with this email and join your team automatically.</p>
+            <form onSubmit={handleInvite} className="space-y-3">
+              <input type="email" value={inviteEmail} onChange={e => setInviteEmail(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg" placeholder="Email address" required />
+              <select value={inviteRole} onChange={e => setInviteRole(e.target.value as OrganizationRole)} className="w-full px-3 py-2 border border-gray-300 rounded-lg">
+                {roles.map(role => <option key={role} value={role}>{roleLabels[role]}</option>)}
+              </select>
+              <p className="text-xs text-gray-500">{roleDescriptions[inviteRole]}</p>
+              <motion.button type="submit" disabled={isSubmitting || !isOnline} className="w-full bg-dairy-600 text-white py-3 rounded-lg font-medium disabled:opacity-50 flex justify-center items-center" whileTap={{ scale: 0.98 }}>
+                {isSubmitting ? <Loader2 className="animate-spin" /> : 'Send Invite'}
+              </motion.button>
+            </form>
+
+            {pendingInvites.length > 0 && (
+              <div className="mt-4 pt-4 border-t space-y-2">
+                <h4 className="text-sm font-semibold text-gray-700">Pending Invites</h4>
+                {pendingInvites.map(invite => (
+                  <div key={invite.id} className="flex justify-between items-center">
+                    <div className="flex items-center min-w-0">
+                      <Mail size={14} className="mr-2 text-gray-400 flex-shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-sm text-gray-800 truncate">{invite.email}</p>
+                        <p className="text-xs text-gray-500">{roleLabels[invite.role]}</p>
+                      </div>
+                    </div>
+                    <motion.button onClick={() => handleRevokeInvite(invite.id)} disabled={!isOnline} className="p-2 text-red-600 bg-red-100 rounded-lg disabled:opacity-50" whileTap={{ scale: 0.95 }} title="Revoke Invite"><Trash2 size={14} /></motion.button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <h3 className="text-lg font-semibold text-gray-800 mb-3 flex items-center"><Users size={20} className="mr-2 text-dairy-600" />Members</h3>
+        <div className="space-y-2">
+          {sortedMembers.map(member => {
+            const isSelf = member.user_id === user?.id;
+            return (
+              <div key={member.user_id} className="bg-white rounded-lg p-3 shadow-sm border border-gray-100 flex justify-between items-center">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800 truncate">{member.email}{isSelf && ' (you)'}</p>
+                  {(!canManageTeam || isSelf) && <p className="text-xs text-gray-500">{roleLabels[member.role]}</p>}
+                </div>
+                {canManageTeam && !isSelf && (
+                  <div className="flex items-center space-x-2">
+                    <select value={member.role} onChange={e => handleRoleChange(member.user_id, e.target.value as OrganizationRole)} disabled={!isOnline} className="px-2 py-1 text-sm border border-gray-300 rounded-lg">
+                      {roles.map(role => <option key={role} value={role}>{roleLabels[role]}</option>)}
+                    </select>
+                    <motion.button onClick={() => handleRemoveMember(member.user_id, member.email)} disabled={!isOnline} className="p-2 text-red-600 bg-red-100 rounded-lg disabled:opacity-50" whileTap={{ scale: 0.95 }} title="Remove Member"><Trash2 size={14} /></motion.button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default Team;
@@ -0,0 +1,153 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import Layout from '../components/Layout/Layout';
+import { useAuth } from '../context/AuthContext';
+import { useProducts, useCustomers, useOrders } from '../context/DataContext';
+import { ArrowLeft, Trash2, RotateCcw, Users, Package, ShoppingCart } from 'lucide-react';
+
+interface TrashRowProps {
+  title: string;
+  subtitle: string;
+  canRestore: boolean;
+  canPurge: boolean;
+  isBusy: boolean;
+  onRestore: () => void;
+  onPurge: () => void;
+}
+
+const TrashRow: React.FC<TrashRowProps> = ({ title, subtitle, canRestore, canPurge, isBusy, onRestore, onPurge }) => (
+  <div className="flex justify-between items-center bg-white rounded-lg p-3 shadow-sm border border-gray-100">
+    <div className="min-w-0">
+      <p className="font-medium text-gray-800 truncate">{title}</p>
+      <p className="text-xs text-gray-500">{subtitle}</p>
+    </div>
+    <div className="flex space-x-2 flex-shrink-0">
+      {canRestore && (
+        <motion.button onClick={onRestore} disabled={isBusy} className="p-2 text-dairy-600 bg-dairy-100 rounded-lg disabled:opacity-50" whileTap={{ scale: 0.95 }} title="Restore">
+          <RotateCcw size={16} />
+        </motion.button>
+      )}
+      {canPurge && (
+        <motion.button onClick={onPurge} disabled={isBusy} className="p-2 text-red-600 bg-red-100 rounded-lg disabled:opacity-50" whileTap={{ scale: 0.95 }} title="Delete Forever">
+          <Trash2 size={16} />
+        </motion.button>
+      )}
+    </div>
+  </div>
+);
+
+const newestFirst = <T extends { deleted_at?: string | null }>(rows: T[]) => [...rows].sort((a, b) => (b.deleted_at || '').localeCompare(a.deleted_at || ''));
+
+const deletedOn = (deletedAt?: string | null) => `Deleted ${deletedAt ? new Date(deletedAt).toLocaleDateString('en-IN') : ''}`;
+
+const Trash: React.FC = () => {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const { deletedProducts, restoreProduct, purgeProduct } = useProducts();
+  const { deletedCustomers, restoreCustomer, purgeCustomer } = useCustomers();
+  const { deletedOrders, restoreOrder, purgeOrder } = useOrders();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const customers = useMemo(() => newestFirst(deletedCustomers), [deletedCustomers]);
+  const products = useMemo(() => newestFirst(deletedProducts), [deletedProducts]);
+  const orders = useMemo(() => newestFirst(deletedOrders), [deletedOrders]);
+  const isEmpty = customers.length === 0 && products.length === 0 && orders.length === 0;
+
+  const run = async (id: string, action: () => Promise<void>, failure: string) => {
+    setBusyId(id);
+    try {
+      await action();
+    } catch (error) {
+      console.error(failure, error);
+      alert(`${failure}. Please try again.`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const confirmPurge = (name: string, detail: string) => window.confirm(`Delete ${name} forever? ${detail}This cannot be undone.`);
+
+  return (
+    <Layout title="Trash">
+      <div className="px-4">
+        <div className="flex items-center mb-2">
+          <motion.button onClick={() => navigate('/dashboard')} className="p-2 mr-2 rounded-full hover:bg-gray-100" whileTap={{ scale: 0.9 }}>
+            <ArrowLeft size={20} className="text-gray-700" />
+          </motion.button>
+          <h2 className="text-xl font-bold text-gray-800">Trash</h2>
+        </div>
+        <p className="text-sm text-gray-500 mb-6">Deleted customers and products are hidden but still appear in statements. Deleted orders are not billed until restored.</p>
+
+        {isEmpty && (
+          <div className="bg-white rounded-xl p-8 text-center shadow-sm border border-gray-100">
+            <Trash2 className="mx-auto text-gray-300 mb-4" size={48} />
+            <p className="text-gray-600">The Trash is empty.</p>
+          </div>
+        )}
+
+        {customers.length > 0 && (
+          <>
+            <h3 className="text-lg font-semibold text-gray-800 mb-3 flex items-center"><Users size={20} className="mr-2 text-dairy-600" />Customers</h3>
+            <div className="space-y-2 mb-6">
+              {customers.map(customer => (
+                <TrashRow
+                  key={customer.id}
+                  title={customer.name}
+                  subtitle={deletedOn(customer.deleted_at)}
+                  canRestore={can('deleteCustomers')}
+                  canPurge={can('deleteCustomers')}
+                  isBusy={busyId !== null}
+                  onRestore={() => run(customer.id, () => restoreCustomer(customer.id), "Failed to restore customer")}
+                  onPurge={() => confirmPurge(customer.name, 'Their orders, payments and subscription are deleted too. ') && run(customer.id, () => purgeCustomer(customer.id), "Failed to delete customer")}
+                />
+              ))}
+            </div>
+          </>
+        )}
+
+        {products.length > 0 && (
+          <>
+            <h3 className="text-lg font-semibold text-gray-800 mb-3 flex items-center"><Package size={20} className="mr-2 text-dairy-600" />Products</h3>
+            <div className="space-y-2 mb-6">
+              {products.map(product => (
+                <TrashRow
+                  key={product.id}
+                  title={product.name}
+                  subtitle={deletedOn(product.deleted_at)}
+                  canRestore={can('manageProducts')}
+                  canPurge={can('manageProducts')}
+                  isBusy={busyId !== null}
+                  onRestore={() => run(product.id, () => restoreProduct(product.id), "Failed to restore product")}
+                  onPurge={() => confirmPurge(product.name, 'Its prices, stock entries and purchases are deleted too. ') && run(product.id, () => purgeProduct(product.id), "Failed to delete product")}
+                />
+              ))}
+            </div>
+          </>
+        )}
+
+        {orders.length > 0 && (
+          <>
+            <h3 className="text-lg font-semibold text-gray-800 mb-3 flex items-center"><ShoppingCart size={20} className="mr-2 text-dairy-600" />Orders</h3>
+            <div className="space-y-2 mb-6">
+              {orders.map(order => (
+                <TrashRow
+                  key={order.id}
+                  title={`${order.customer_name} · ₹${order.total_amount.toFixed(2)}`}
+                  subtitle={`${new Date(order.date).toLocaleDateString('en-IN', { timeZone: 'UTC' })} · ${deletedOn(order.deleted_at)}`}
+                  canRestore
+                  canPurge
+                  isBusy={busyId !== null}
+                  onRestore={() => run(order.id, () => restoreOrder(order.id), "Failed to restore order")}
+                  onPurge={() => confirmPurge('this order', 'Payments allocated to it become customer credit. ') && run(order.id, () => purgeOrder(order.id), "Failed to delete order")}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Trash;
@@ -4,6 +4,35 @@ export interface User {
   username: string;
 }
 
+export type OrganizationRole = 'owner' | 'accountant' | 'staff';
+
+// Returned by the 'ensure_membership' function after login.
+export interface Membership {
+  organization_id: string;
+  organization_name: string;
+  role: OrganizationRole;
+}
+
+// Corresponds to the 'organization_members' table
+export interface OrganizationMember {
+  organization_id: string;
+  user_id: string;
+  role: OrganizationRole;
+  email: string;
+  created_at: string;
+}
+
+// Corresponds to the 'organization_invites' table
+export interface OrganizationInvite {
+  id: string;
+  organization_id: string;
+  email: string;
+  role: OrganizationRole;
+  invited_by: string;
+  accepted_at?: string | null;
+  created_at: string;
+}
+
 // Corresponds to the 'profiles' table
 export interface Profile {
   id: string; // Foreign key to auth.users.id
@@ -20,22 +49,50 @@ export interface Product {
   quantity: number;
   unit: Unit;
   photo?: string;
+  hsn_code?: string | null;
+  gst_rate?: number; // Percentage, e.g. 5 for 5% GST
+  deleted_at?: string | null; // Set while the product is in the Trash
+  created_at: string;
+}
+
+// Corresponds to the 'product_prices' table.
+// A price applies from effective_from until the next entry; customer_id marks a special rate.
+export interface ProductPrice {
+  id: string;
+  user_id: string;
+  product_id: string;
+  customer_id: string | null;
+  price: number;
+  effective_from: string;
   created_at: string;
 }
 
+// The contact and address fields of a customer
+export interface CustomerProfile {
+  phone: string; // Digits only, with an optional leading + and country code
+  alternate_phone: string; // Empty when there is none
+  address_line1: string;
+  address_line2: string;
+  area: string; // Locality or society
+  landmark: string;
+  latitude: number | null; // Set together with longitude, e.g. from the phone's location
+  longitude: number | null;
+  notes: string; // Delivery instructions and the like
+}
+
 // Corresponds to the 'customers' table
-export interface Customer {
+export interface Customer extends CustomerProfile {
   id: string;
   user_id: string;
   name: string;
-  address: string;
-  contact_number: string;
+  billing_day?: number; // Day of the month each billing cycle starts, 1 to 28; 1 bills calendar months
+  deleted_at?: string | null; // Set while the customer is in the Trash
   created_at: string;
 }
 
-// Represents an item within the 'items' JSONB array of a DailyOrder
+// One line of a DailyOrder. Stored as a row of the 'order_items' table (see OrderItemRow)
 export interface OrderItem {
-  product_id: string;
+  product_id: string; // Empty for lines that aren't a product, like an opening balance, or whose product was purged
   product_name: string;
   quantity: number;
   unit: Unit;
@@ -50,10 +107,298 @@ export interface DailyOrder {
   customer_id: string;
   customer_name: string;
   date: string;
-  items: OrderItem[]; // This is a JSONB column in the database
+  items: OrderItem[]; // Rows of 'order_items', kept inside the order in the app
   total_amount: number;
-  amount_paid: number;
-  status: 'pending' | 'delivered';
+  amount_paid: number; // Superseded by the payments ledger; only kept for rows created before it
+  status: DeliveryStatus;
+  delivered_at?: string | null; // When the delivery was confirmed (or skipped)
+  shortfall?: ShortfallItem[]; // This is a JSONB column in the database
+  skip_reason?: string | null;
+  deleted_at?: string | null; // Set while the order is in the Trash; deleted orders are not billed
+  created_at: string;
+}
+
+// Corresponds to the 'order_items' table
+export interface OrderItemRow extends Omit<OrderItem, 'product_id'> {
+  id: string;
+  user_id: string;
+  order_id: string;
+  product_id: string | null;
+  position: number; // The line's place within its order
+}
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'partial' | 'skipped';
+
+// Represents an entry within the 'shortfall' JSONB array of a DailyOrder: quantity that could not be delivered
+export interface ShortfallItem {
+  product_id: string;
+  quantity: number;
+}
+
+export type PaymentMethod = 'cash' | 'upi' | 'bank';
+
+// Corresponds to the 'payments' table
+export interface Payment {
+  id: string;
+  user_id: string;
+  customer_id: string;
+  date: string;
+  amount: number;
+  method: PaymentMethod;
+  note?: string | null;
+  created_at: string;
+}
+
+// Corresponds to the 'payment_allocations' table.
+// The part of a payment that is not allocated is the customer's advance (credit).
+export interface PaymentAllocation {
+  id: string;
+  user_id: string;
+  payment_id: string;
+  order_id: string;
+  amount: number;
+  created_at: string;
+}
+
+// Corresponds to the 'bills' table. A bill closes one billing cycle of a customer;
+// its amounts are snapshots taken at closing and are not changed afterwards.
+export interface Bill {
+  id: string;
+  user_id: string;
+  customer_id: string;
+  period_start: string;
+  period_end: string;
+  opening_balance: number; // Previous dues carried forward from the last bill; negative is advance
+  billed_amount: number;
+  paid_amount: number;
+  closing_balance: number; // opening_balance + billed_amount - paid_amount
+  created_at: string;
+}
+
+export type BillStatus = 'open' | 'partially_paid' | 'paid';
+
+export type MessageChannel = 'whatsapp' | 'sms' | 'copy';
+
+// A reusable customer message with {placeholders}, kept in the account's settings
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  body: string;
+}
+
+// Corresponds to the 'message_log' table: one row per message sent to a customer
+export interface MessageLogEntry {
+  id: string;
+  user_id: string;
+  customer_id: string;
+  channel: MessageChannel;
+  template_name: string;
+  body: string;
+  period_start: string | null;
+  period_end: string | null;
+  created_at: string; // When the message was sent
+}
+
+// Seller details printed on an invoice
+export interface BusinessDetails {
+  name: string;
+  address: string;
+  phone: string;
+  gstin: string;
+  state: string;
+}
+
+// Where customers pay by UPI; printed as QR codes on statements
+export interface UpiSettings {
+  vpa: string; // e.g. jaygogamilk@okaxis
+  payee_name: string;
+}
+
+// Corresponds to the 'organization_settings' table: the account's business details,
+// formatting and defaults, shared by every device
+export interface BusinessSettings {
+  business_name: string;
+  address: string;
+  phone: string;
+  gstin: string;
+  state: string;
+  logo: string | null; // A small PNG as a data URL
+  currency_symbol: string;
+  number_locale: string; // Digit grouping, e.g. 'en-IN' for 1,00,000.00
+  currency_decimals: number;
+  default_unit: Unit; // Preselected for new products
+  box_configs: Record<string, number>; // Pieces per box, keyed by product id
+  upi_vpa: string;
+  upi_payee_name: string;
+  message_templates: MessageTemplate[]; // Empty means the built-in templates
+}
+
+// Buyer details printed on an invoice
+export interface InvoiceParty {
+  name: string;
+  address: string;
+  gstin: string;
+}
+
+// Represents a line within the 'lines' JSONB array of an Invoice
+export interface InvoiceLine {
+  product_id: string;
+  product_name: string;
+  hsn_code: string;
+  quantity: number;
+  unit: Unit;
+  rate: number;
+  gst_rate: number;
+  taxable_value: number;
+  cgst: number;
+  sgst: number;
+  total: number;
+}
+
+// Corresponds to the 'invoices' table. Seller, buyer and lines are snapshots taken at issue time.
+export interface Invoice {
+  id: string;
+  user_id: string;
+  customer_id: string | null;
+  invoice_number: string;
+  financial_year: string;
+  sequence: number;
+  invoice_date: string;
+  period_start: string;
+  period_end: string;
+  seller: BusinessDetails;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  taxable_value: number;
+  cgst: number;
+  sgst: number;
+  round_off: number;
+  total: number;
+  created_at: string;
+}
+
+// Represents an item within the 'items' JSONB array of a Subscription
+export interface SubscriptionItem {
+  product_id: string;
+  quantity: number;
+}
+
+// Represents an entry within the 'pause_ranges' JSONB array of a Subscription
+export interface PauseRange {
+  start: string;
+  end: string;
+}
+
+// Corresponds to the 'subscriptions' table
+export interface Subscription {
+  id: string;
+  user_id: string;
+  customer_id: string;
+  items: SubscriptionItem[]; // This is a JSONB column in the database
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  start_date: string;
+  end_date: string | null;
+  pause_ranges: PauseRange[]; // This is a JSONB column in the database
+  created_at: string;
+}
+
+export type StockMovementType = 'in' | 'wastage' | 'return';
+
+// Corresponds to the 'stock_movements' table. Sales are derived from order items, not stored here.
+export interface StockMovement {
+  id: string;
+  user_id: string;
+  product_id: string;
+  date: string;
+  type: StockMovementType;
+  quantity: number;
+  unit: Unit;
+  note?: string | null;
+  created_at: string;
+}
+
+// Corresponds to the 'suppliers' table
+export interface Supplier {
+  id: string;
+  user_id: string;
+  name: string;
+  contact_number?: string | null;
+  created_at: string;
+}
+
+// Corresponds to the 'purchases' table. Rate is the cost per `unit`.
+export interface Purchase {
+  id: string;
+  user_id: string;
+  supplier_id: string;
+  product_id: string;
+  date: string;
+  quantity: number;
+  unit: Unit;
+  rate: number;
+  total: number;
+  is_paid: boolean;
+  paid_on?: string | null;
+  note?: string | null;
+  created_at: string;
+}
+
+// Corresponds to the 'customer_share_links' table
+export interface CustomerShareLink {
+  id: string;
+  user_id: string;
+  customer_id: string;
+  token: string;
+  expires_at: string;
+  revoked_at?: string | null;
+  created_at: string;
+}
+
+// Returned by the 'get_customer_portal' function for a valid share link.
+// Only the fields a customer needs to see their statement are included.
+export interface CustomerPortalData {
+  customer_name: string;
+  expires_at: string;
+  orders: Pick<DailyOrder, 'id' | 'date' | 'items' | 'total_amount' | 'status'>[];
+  payments: Pick<Payment, 'id' | 'date' | 'amount' | 'method'>[];
+  allocations: Pick<PaymentAllocation, 'payment_id' | 'order_id' | 'amount'>[];
+}
+
+export type AuditTable = 'products' | 'customers' | 'daily_orders' | 'payments';
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+// Corresponds to the 'audit_log' table, written only by database triggers.
+// old_data and new_data are full row snapshots from before and after the change.
+export interface AuditEntry {
+  id: string;
+  organization_id: string;
+  table_name: AuditTable;
+  record_id: string;
+  customer_id: string | null;
+  action: AuditAction;
+  actor_id: string | null;
+  actor_email: string | null;
+  old_data: Record<string, unknown> | null;
+  new_data: Record<string, unknown> | null;
+  changed_at: string;
+}
+
+// Corresponds to the 'routes' table
+export interface DeliveryRoute {
+  id: string;
+  user_id: string;
+  name: string;
+  delivery_person: string | null;
+  created_at: string;
+}
+
+// Corresponds to the 'route_stops' table. A customer is on at most one route.
+export interface RouteStop {
+  id: string;
+  user_id: string;
+  route_id: string;
+  customer_id: string;
+  position: number;
   created_at: string;
 }
 
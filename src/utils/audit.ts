@@ -0,0 +1,61 @@
+import { AuditAction, AuditEntry, AuditTable, OrderItem } from '../types';
+
+export const auditTableLabels: Record<AuditTable, string> = {
+  products: 'Product',
+  customers: 'Customer',
+  daily_orders: 'Order',
+  payments: 'Payment',
+};
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  insert: 'Created',
+  update: 'Changed',
+  delete: 'Deleted',
+};
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Bookkeeping columns that every row has; changes to them are not interesting to read.
+const hiddenFields = new Set(['id', 'user_id', 'organization_id', 'created_at']);
+
+const isOrderItems = (value: unknown): value is OrderItem[] => Array.isArray(value) && value.every(item => item && typeof item === 'object' && 'product_name' in item);
+
+/** Renders a snapshot value for display, e.g. order items as "Milk x2, Curd x1". */
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (isOrderItems(value)) return value.map(item => `${item.product_name} x${item.quantity}`).join(', ') || '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/** Lists the fields that differ between the before and after snapshots of an entry. */
+export const getAuditChanges = (entry: AuditEntry): AuditFieldChange[] => {
+  const before = entry.old_data || {};
+  const after = entry.new_data || {};
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields]
+    .filter(field => !hiddenFields.has(field))
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+};
+
+/** A short description of the row an entry is about, such as "Order · 2025-10-01 · Ramesh". */
+export const describeAuditRecord = (entry: AuditEntry): string => {
+  const row = entry.new_data || entry.old_data || {};
+  const label = auditTableLabels[entry.table_name];
+  switch (entry.table_name) {
+    case 'daily_orders':
+      return `${label} · ${row.date} · ${row.customer_name}`;
+    case 'payments':
+      return `${label} · ${row.date} · ₹${Number(row.amount).toFixed(2)}`;
+    default:
+      return `${label} · ${row.name}`;
+  }
+};
+
+/** Only changes with an earlier version can be restored; a creation has none. */
+export const canRestoreAuditEntry = (entry: AuditEntry): boolean => entry.old_data !== null;
@@ -0,0 +1,170 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Bill, BusinessSettings, Customer, DailyOrder, DeliveryRoute, Payment, PaymentAllocation, Product, ProductPrice,
+  Purchase, RouteStop, StockMovement, Subscription, Supplier,
+} from '../types';
+import { LegacySettings, settingsFromLegacy } from './settings';
+
+export const BACKUP_APP_ID = 'jay-goga-milk';
+export const BACKUP_FORMAT_VERSION = 3;
+
+// Tables in a backup, parents before children so they can be inserted in this order.
+// Invoices are left out: their numbers are issued once and can't be issued again.
+export const backupTables = [
+  'products',
+  'customers',
+  'product_prices',
+  'daily_orders',
+  'subscriptions',
+  'payments',
+  'payment_allocations',
+  'routes',
+  'route_stops',
+  'stock_movements',
+  'suppliers',
+  'purchases',
+  'bills',
+] as const;
+
+export type BackupTable = typeof backupTables[number];
+
+// The app's row type for each backup table.
+interface BackupRowTypes {
+  products: Product;
+  customers: Customer;
+  product_prices: ProductPrice;
+  daily_orders: DailyOrder;
+  subscriptions: Subscription;
+  payments: Payment;
+  payment_allocations: PaymentAllocation;
+  routes: DeliveryRoute;
+  route_stops: RouteStop;
+  stock_movements: StockMovement;
+  suppliers: Supplier;
+  purchases: Purchase;
+  bills: Bill;
+}
+
+export type BackupData = { [T in BackupTable]: BackupRowTypes[T][] };
+
+export type BackupSettings = Partial<BusinessSettings>;
+
+// Backups before this version carry the old per-device settings instead.
+const ACCOUNT_SETTINGS_SINCE_VERSION = 3;
+
+export interface AccountBackup {
+  app: typeof BACKUP_APP_ID;
+  version: number;
+  exported_at: string;
+  data: BackupData;
+  settings: BackupSettings;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+// Tables added after the first format version. Older backups restore them as empty.
+const tableSinceVersion: Partial<Record<BackupTable, number>> = {
+  bills: 2,
+};
+
+// Columns that point at another table's id, per table.
+const foreignKeys: Partial<Record<BackupTable, Record<string, BackupTable>>> = {
+  product_prices: { product_id: 'products', customer_id: 'customers' },
+  daily_orders: { customer_id: 'customers' },
+  subscriptions: { customer_id: 'customers' },
+  payments: { customer_id: 'customers' },
+  payment_allocations: { payment_id: 'payments', order_id: 'daily_orders' },
+  route_stops: { route_id: 'routes', customer_id: 'customers' },
+  stock_movements: { product_id: 'products' },
+  purchases: { supplier_id: 'suppliers', product_id: 'products' },
+  bills: { customer_id: 'customers' },
+};
+
+// JSONB array columns whose entries carry a product_id.
+const productArrays: Partial<Record<BackupTable, string[]>> = {
+  daily_orders: ['items', 'shortfall'],
+  subscriptions: ['items'],
+};
+
+export const createBackup = (data: BackupData, settings: BackupSettings): AccountBackup => ({
+  app: BACKUP_APP_ID,
+  version: BACKUP_FORMAT_VERSION,
+  exported_at: new Date().toISOString(),
+  data,
+  settings,
+});
+
+/** Checks a parsed backup file and returns it typed, or throws with a message to show. */
+export const parseBackup = (json: unknown): AccountBackup => {
+  const backup = json as Partial<AccountBackup> | null;
+  if (!backup || typeof backup !== 'object' || backup.app !== BACKUP_APP_ID) {
+    throw new Error('This file is not a Jay Goga Milk backup.');
+  }
+  if (typeof backup.version !== 'number' || backup.version > BACKUP_FORMAT_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Please update the app first.');
+  }
+  const version = backup.version;
+  const data = backup.data && Object.fromEntries(backupTables.map(table => [
+    table,
+    backup.data?.[table] ?? (version < (tableSinceVersion[table] ?? 1) ? [] : undefined),
+  ])) as Partial<BackupData> | undefined;
+  const invalidTable = backupTables.find(table => !Array.isArray(data?.[table]) || !data[table].every(row => row && typeof row.id === 'string'));
+  if (invalidTable) {
+    throw new Error(`The backup is damaged: "${invalidTable}" is missing or malformed.`);
+  }
+  const settings = version < ACCOUNT_SETTINGS_SINCE_VERSION
+    ? settingsFromLegacy((backup.settings || {}) as LegacySettings)
+    : backup.settings || {};
+  return { ...backup, data: data as BackupData, settings } as AccountBackup;
+};
+
+export const countBackupRows = (data: BackupData): Record<BackupTable, number> =>
+  backupTables.reduce((counts, table) => ({ ...counts, [table]: data[table].length }), {} as Record<BackupTable, number>);
+
+/**
+ * Gives every row a new id and rewrites the references between them, so a backup
+ * can be restored next to existing data (or into another account) without clashes.
+ * Rows are assigned to `userId`; the organization is filled in by the database.
+ * Returns the remapped data and the old-to-new id map for each table.
+ */
+export const remapBackupIds = (data: BackupData, userId: string) => {
+  const idMaps = Object.fromEntries(backupTables.map(table => [table, new Map<string, string>()])) as Record<BackupTable, Map<string, string>>;
+  backupTables.forEach(table => data[table].forEach(row => idMaps[table].set(row.id, uuidv4())));
+
+  const remapProductId = <T extends { product_id?: unknown }>(entry: T): T =>
+    typeof entry.product_id === 'string' && idMaps.products.has(entry.product_id)
+      ? { ...entry, product_id: idMaps.products.get(entry.product_id) }
+      : entry;
+
+  const remapRow = <R extends { id: string }>(table: BackupTable, row: R): R => {
+    // organization_id is dropped so the column default assigns the current organization.
+    const rest = Object.fromEntries(Object.entries(row).filter(([column]) => column !== 'organization_id'));
+    const next: Record<string, unknown> = { ...rest, id: idMaps[table].get(row.id) as string, user_id: userId };
+    Object.entries(foreignKeys[table] || {}).forEach(([column, target]) => {
+      const oldId = next[column];
+      if (typeof oldId === 'string') next[column] = idMaps[target].get(oldId) ?? oldId;
+    });
+    (productArrays[table] || []).forEach(column => {
+      const entries = next[column];
+      if (Array.isArray(entries)) next[column] = entries.map(remapProductId);
+    });
+    return next as R;
+  };
+  const remapTable = <T extends BackupTable>(table: T): BackupRowTypes[T][] => data[table].map(row => remapRow(table, row));
+  const remapped = Object.fromEntries(backupTables.map(table => [table, remapTable(table)])) as BackupData;
+
+  return { data: remapped, idMaps };
+};
+
+/**
+ * Returns the settings changes a restore makes. Box sizes are keyed by product id, so
+ * they follow the products' new ids. When merging, only box sizes are added, and
+ * sizes already set win; everything else keeps the account's current settings.
+ */
+export const getRestoredSettings = (settings: BackupSettings, mode: RestoreMode, productIds: Map<string, string>, current: BusinessSettings): BackupSettings => {
+  const boxConfigs = Object.fromEntries(
+    Object.entries(settings.box_configs || {}).map(([productId, size]) => [productIds.get(productId) ?? productId, size]),
+  );
+  if (mode === 'merge') return { box_configs: { ...boxConfigs, ...current.box_configs } };
+  return { ...settings, box_configs: boxConfigs };
+};
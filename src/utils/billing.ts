@@ -0,0 +1,119 @@
+import { Bill, BillStatus, Customer, DailyOrder, Payment } from '../types';
+import { roundMoney } from './ledger';
+
+export type BillDraft = Omit<Bill, 'id' | 'user_id' | 'created_at'>;
+
+export const billStatusLabels: Record<BillStatus, string> = {
+  open: 'Open',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+};
+
+export const DEFAULT_BILLING_DAY = 1;
+
+// Dates are 'YYYY-MM-DD' strings read as UTC, like the rest of the app.
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+const addDays = (date: string, days: number): string => {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return toDateString(next);
+};
+
+/** The first day of the billing cycle that contains `date`. */
+export const getCycleStart = (date: string, billingDay: number): string => {
+  const day = new Date(date);
+  const monthOffset = day.getUTCDate() >= billingDay ? 0 : -1;
+  return toDateString(new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + monthOffset, billingDay)));
+};
+
+/**
+ * The last day of the cycle starting on `start`: the day before the next billing day.
+ * When the billing day has changed since the previous bill, this cycle is shorter or
+ * longer than a month, and the cycles after it follow the new day.
+ */
+export const getCycleEnd = (start: string, billingDay: number): string => {
+  const day = new Date(start);
+  const monthOffset = day.getUTCDate() < billingDay ? 0 : 1;
+  return addDays(toDateString(new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + monthOffset, billingDay))), -1);
+};
+
+/**
+ * Builds the bills for every finished cycle since each customer's last bill.
+ * A customer's first bill starts with the cycle of their first order or payment.
+ *
+ * Each bill's opening balance is the previous bill's closing balance. Orders and
+ * payments dated before the cycle but added after the previous bill was closed
+ * count in this bill, so late entries are not lost between bills.
+ */
+export const getDueBillDrafts = (
+  customers: Customer[],
+  bills: Bill[],
+  orders: DailyOrder[],
+  payments: Payment[],
+  today: string,
+): BillDraft[] => {
+  const drafts: BillDraft[] = [];
+
+  for (const customer of customers) {
+    const billingDay = customer.billing_day || DEFAULT_BILLING_DAY;
+    const customerOrders = orders.filter(order => order.customer_id === customer.id);
+    const customerPayments = payments.filter(payment => payment.customer_id === customer.id);
+    const lastBill = bills
+      .filter(bill => bill.customer_id === customer.id)
+      .sort((a, b) => b.period_start.localeCompare(a.period_start))[0];
+
+    let start: string;
+    let openingBalance = 0;
+    // Entries added after this moment, dated before the next cycle, are carried into it.
+    let closedAt: string | null = null;
+    if (lastBill) {
+      start = addDays(lastBill.period_end, 1);
+      openingBalance = lastBill.closing_balance;
+      closedAt = lastBill.created_at;
+    } else {
+      const firstDate = [...customerOrders, ...customerPayments].map(entry => entry.date).sort()[0];
+      if (!firstDate) continue;
+      start = getCycleStart(firstDate, billingDay);
+    }
+
+    for (let end = getCycleEnd(start, billingDay); end < today; end = getCycleEnd(start, billingDay)) {
+      const isInBill = (entry: { date: string; created_at: string }) =>
+        entry.date <= end && (entry.date >= start || (closedAt !== null && entry.created_at > closedAt));
+      const billedAmount = roundMoney(customerOrders.filter(isInBill).reduce((sum, order) => sum + order.total_amount, 0));
+      const paidAmount = roundMoney(customerPayments.filter(isInBill).reduce((sum, payment) => sum + payment.amount, 0));
+      const closingBalance = roundMoney(openingBalance + billedAmount - paidAmount);
+
+      drafts.push({
+        customer_id: customer.id,
+        period_start: start,
+        period_end: end,
+        opening_balance: openingBalance,
+        billed_amount: billedAmount,
+        paid_amount: paidAmount,
+        closing_balance: closingBalance,
+      });
+
+      openingBalance = closingBalance;
+      closedAt = null;
+      start = addDays(end, 1);
+    }
+  }
+
+  return drafts;
+};
+
+/**
+ * How much has been paid towards a bill since it closed, and its status. Payments
+ * dated after the cycle, or added after the bill was closed, count towards it.
+ */
+export const getBillPayment = (bill: Bill, payments: Payment[]): { paidSince: number; status: BillStatus } => {
+  const paidSince = roundMoney(payments
+    .filter(payment => payment.customer_id === bill.customer_id && (payment.date > bill.period_end || payment.created_at > bill.created_at))
+    .reduce((sum, payment) => sum + payment.amount, 0));
+
+  let status: BillStatus = 'open';
+  if (bill.closing_balance <= 0 || paidSince >= bill.closing_balance) status = 'paid';
+  else if (paidSince > 0) status = 'partially_paid';
+  return { paidSince, status };
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { Customer, DailyOrder, OrderItem, Payment, PaymentAllocation, Product } from '../types';
+import { createMemoryRepository } from '../lib/memoryRepository';
+import { allocatePayment, getCustomerAccount } from './customerAccount';
+import { emptyCustomerProfile } from './customerProfile';
+import { getPaidByOrder } from './ledger';
+import { summarizeByDate } from './orderSummaries';
+
+const milk: Product = { id: 'milk', user_id: 'user', name: 'Milk 500 ml', price: 30, quantity: 500, unit: 'ml', created_at: '2025-01-01T00:00:00Z' };
+
+const customer = (id: string, name: string): Customer => ({ ...emptyCustomerProfile, id, user_id: 'user', name, created_at: '2025-01-01T00:00:00Z' });
+const asha = customer('asha', 'Asha');
+const ravi = customer('ravi', 'Ravi');
+
+const item = (quantity: number): OrderItem => ({
+  product_id: milk.id, product_name: milk.name, quantity, unit: milk.unit, price: milk.price, total: quantity * milk.price,
+});
+
+const order = (id: string, owner: Customer, date: string, quantity: number): DailyOrder => ({
+  id,
+  user_id: 'user',
+  customer_id: owner.id,
+  customer_name: owner.name,
+  date,
+  items: [item(quantity)],
+  total_amount: quantity * milk.price,
+  amount_paid: 0,
+  status: 'delivered',
+  created_at: `${date}T06:00:00Z`,
+});
+
+const payment = (id: string, owner: Customer, date: string, amount: number): Payment => ({
+  id, user_id: 'user', customer_id: owner.id, date, amount, method: 'cash', created_at: `${date}T20:00:00Z`,
+});
+
+const allocation = (paymentId: string, orderId: string, amount: number): PaymentAllocation => ({
+  id: `${paymentId}-${orderId}`, user_id: 'user', payment_id: paymentId, order_id: orderId, amount, created_at: '2025-01-05T20:00:00Z',
+});
+
+const seeded = () => createMemoryRepository({
+  products: [milk],
+  customers: [asha, ravi],
+  orders: [
+    order('first', asha, '2025-01-01', 2),
+    order('second', asha, '2025-01-02', 1),
+    order('third', asha, '2025-01-03', 3),
+    order('ravi', ravi, '2025-01-02', 4),
+  ],
+  payments: [payment('early', asha, '2025-01-01', 60), payment('advance', asha, '2025-01-05', 50), payment('ravi-cash', ravi, '2025-01-05', 120)],
+  paymentAllocations: [allocation('early', 'first', 60), allocation('advance', 'second', 30), allocation('ravi-cash', 'ravi', 120)],
+});
+
+describe('getCustomerAccount', () => {
+  it("lists the customer's orders and payments newest first and agrees with the database totals", async () => {
+    const repository = seeded();
+    const { orders, payments, paymentAllocations } = await repository.load('memory', '2025-01-01');
+
+    const account = getCustomerAccount(asha.id, orders, payments, paymentAllocations);
+
+    expect(account.orders.map(row => row.id)).toEqual(['third', 'second', 'first']);
+    expect(account.payments.map(row => row.id)).toEqual(['advance', 'early']);
+    expect(account.unallocatedByPayment).toEqual({ advance: 20, early: 0 });
+    expect(account.ledger).toEqual({ totalBilled: 180, totalReceived: 110, totalAllocated: 90, pending: 90, credit: 20 });
+    expect(account.amountDue).toBe(70);
+    expect(await repository.customerLedgerTotals(asha.id)).toEqual({
+      customer_id: asha.id, order_count: 3, total_billed: account.ledger.totalBilled, total_received: account.ledger.totalReceived,
+    });
+  });
+});
+
+describe('allocatePayment', () => {
+  it('settles the oldest dues, or a chosen day first', async () => {
+    const { orders, payments, paymentAllocations } = await seeded().load('memory', '2025-01-01');
+    const account = getCustomerAccount(asha.id, orders, payments, paymentAllocations);
+    const paidByOrder = getPaidByOrder(paymentAllocations);
+    const thirdDay = summarizeByDate(account.orders, paidByOrder).find(summary => summary.date === '2025-01-03') ?? null;
+
+    expect(allocatePayment(40, account, paidByOrder, null)).toEqual({ balance: 90, allocations: [{ order_id: 'third', amount: 40 }] });
+    expect(allocatePayment(100, account, paidByOrder, thirdDay)).toEqual({ balance: 90, allocations: [{ order_id: 'third', amount: 90 }] });
+  });
+
+  it('leaves only what the advance covers due once the payment is saved', async () => {
+    const repository = seeded();
+    const before = await repository.load('memory', '2025-01-01');
+    const account = getCustomerAccount(asha.id, before.orders, before.payments, before.paymentAllocations);
+    const saved = payment('settle', asha, '2025-01-06', 70);
+    const { allocations } = allocatePayment(saved.amount, account, getPaidByOrder(before.paymentAllocations), null);
+
+    await repository.send({ table: 'payments', action: 'insert', recordId: saved.id, matchColumn: 'id', payload: saved });
+    for (const draft of allocations) {
+      const row = allocation(saved.id, draft.order_id, draft.amount);
+      await repository.send({ table: 'payment_allocations', action: 'insert', recordId: row.id, matchColumn: 'id', payload: row });
+    }
+
+    const { orders, payments, paymentAllocations } = await repository.load('memory', '2025-01-01');
+    expect(getCustomerAccount(asha.id, orders, payments, paymentAllocations)).toMatchObject({ amountDue: 0, ledger: { pending: 20, credit: 20 } });
+  });
+});
@@ -0,0 +1,51 @@
+import { DailyOrder, Payment, PaymentAllocation } from '../types';
+import { CustomerLedgerSummary, allocateAmount, getCustomerLedgerSummary, getUnallocatedByPayment, roundMoney } from './ledger';
+import { DateSummary } from './orderSummaries';
+
+// A customer's loaded orders and payments, newest first, with their ledger.
+export interface CustomerAccount {
+  orders: DailyOrder[];
+  payments: Payment[];
+  ledger: CustomerLedgerSummary;
+  unallocatedByPayment: Record<string, number>;
+  // What the customer still owes once their advance is applied.
+  amountDue: number;
+}
+
+export const getCustomerAccount = (
+  customerId: string,
+  orders: DailyOrder[],
+  payments: Payment[],
+  allocations: PaymentAllocation[],
+): CustomerAccount => {
+  const customerOrders = orders
+    .filter(o => o.customer_id === customerId)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  const customerPayments = payments
+    .filter(p => p.customer_id === customerId)
+    .sort((a, b) => b.date.localeCompare(a.date) || b.created_at.localeCompare(a.created_at));
+  const ledger = getCustomerLedgerSummary(customerOrders, customerPayments, allocations);
+
+  return {
+    orders: customerOrders,
+    payments: customerPayments,
+    ledger,
+    unallocatedByPayment: getUnallocatedByPayment(customerPayments, allocations),
+    amountDue: roundMoney(ledger.pending - ledger.credit),
+  };
+};
+
+/**
+ * Splits a payment across the customer's orders. Taken for a day it settles that
+ * day's orders first; otherwise the oldest dues. `balance` is what it was taken
+ * against, so any amount above it is kept as advance.
+ */
+export const allocatePayment = (
+  amount: number,
+  account: CustomerAccount,
+  paidByOrder: Record<string, number>,
+  day: DateSummary | null,
+): { balance: number; allocations: { order_id: string; amount: number }[] } => ({
+  balance: day ? day.balance : account.ledger.pending,
+  allocations: allocateAmount(amount, day ? day.orders : account.orders, paidByOrder),
+});
@@ -0,0 +1,80 @@
+import { Customer, CustomerProfile } from '../types';
+
+export const emptyCustomerProfile: CustomerProfile = {
+  phone: '',
+  alternate_phone: '',
+  address_line1: '',
+  address_line2: '',
+  area: '',
+  landmark: '',
+  latitude: null,
+  longitude: null,
+  notes: '',
+};
+
+// Matches the CHECK constraints on customers.phone and customers.alternate_phone.
+const PHONE_PATTERN = /^\+?[0-9]{10,15}$/;
+
+/** Drops the spaces, dashes, dots and brackets people type into phone numbers. */
+export const normalizePhone = (phone: string): string => phone.replace(/[\s\-().]/g, '');
+
+export const isValidPhone = (phone: string): boolean => PHONE_PATTERN.test(normalizePhone(phone));
+
+// Coordinates are edited as text, so a half-typed value doesn't jump around.
+export type CustomerProfileForm = Omit<CustomerProfile, 'latitude' | 'longitude'> & { latitude: string; longitude: string };
+
+export const toCustomerProfileForm = (profile: CustomerProfile): CustomerProfileForm => ({
+  ...profile,
+  latitude: profile.latitude === null ? '' : String(profile.latitude),
+  longitude: profile.longitude === null ? '' : String(profile.longitude),
+});
+
+/**
+ * Checks a profile form the same way the database does and returns the profile to
+ * save, or the problems to show. A phone number is required; everything else is optional.
+ */
+export const parseCustomerProfileForm = (form: CustomerProfileForm): { profile: CustomerProfile | null; errors: string[] } => {
+  const errors: string[] = [];
+  const phone = normalizePhone(form.phone);
+  const alternatePhone = normalizePhone(form.alternate_phone);
+  if (!PHONE_PATTERN.test(phone)) errors.push('Enter a phone number with 10 to 15 digits.');
+  if (alternatePhone && !PHONE_PATTERN.test(alternatePhone)) errors.push('The alternate phone number needs 10 to 15 digits.');
+
+  const latitudeText = form.latitude.trim();
+  const longitudeText = form.longitude.trim();
+  const latitude = latitudeText ? Number(latitudeText) : null;
+  const longitude = longitudeText ? Number(longitudeText) : null;
+  if ((latitude === null) !== (longitude === null)) {
+    errors.push('Enter both latitude and longitude, or neither.');
+  } else if (latitude !== null && longitude !== null) {
+    if (isNaN(latitude) || latitude < -90 || latitude > 90) errors.push('Latitude must be between -90 and 90.');
+    if (isNaN(longitude) || longitude < -180 || longitude > 180) errors.push('Longitude must be between -180 and 180.');
+  }
+
+  if (errors.length > 0) return { profile: null, errors };
+  return {
+    profile: {
+      phone,
+      alternate_phone: alternatePhone,
+      address_line1: form.address_line1.trim(),
+      address_line2: form.address_line2.trim(),
+      area: form.area.trim(),
+      landmark: form.landmark.trim(),
+      latitude,
+      longitude,
+      notes: form.notes.trim(),
+    },
+    errors,
+  };
+};
+
+/** The address on one line, e.g. "12 Shanti Nagar, Near Ram Mandir, Bapunagar". */
+export const formatCustomerAddress = (customer: Pick<Customer, 'address_line1' | 'address_line2' | 'area' | 'landmark'>): string =>
+  [customer.address_line1, customer.address_line2, customer.landmark && `Near ${customer.landmark}`, customer.area]
+    .filter(Boolean)
+    .join(', ');
+
+export const getMapLink = (customer: Pick<Customer, 'latitude' | 'longitude'>): string | null =>
+  customer.latitude === null || customer.longitude === null
+    ? null
+    : `https://www.google.com/maps/search/?api=1&query=${customer.latitude},${customer.longitude}`;
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { Customer, DailyOrder, OrderItem, PaymentAllocation, Product, RouteStop, Subscription } from '../types';
+import { createMemoryRepository } from '../lib/memoryRepository';
+import { emptyCustomerProfile } from './customerProfile';
+import { getConsolidatedDelivery, getDueSubscriptions, moveAllocations, sortByRoute } from './dailyOrders';
+import { getCustomerLedgerSummary } from './ledger';
+import { summarizeByCustomer } from './orderSummaries';
+
+const milk: Product = { id: 'milk', user_id: 'user', name: 'Milk 500 ml', price: 30, quantity: 500, unit: 'ml', created_at: '2025-01-01T00:00:00Z' };
+const curd: Product = { id: 'curd', user_id: 'user', name: 'Curd 400 gm', price: 45, quantity: 400, unit: 'gm', created_at: '2025-01-01T00:00:00Z' };
+
+const customer = (id: string, name: string): Customer => ({ ...emptyCustomerProfile, id, user_id: 'user', name, created_at: '2025-01-01T00:00:00Z' });
+const asha = customer('asha', 'Asha');
+const ravi = customer('ravi', 'Ravi');
+
+const item = (product: Product, quantity: number): OrderItem => ({
+  product_id: product.id, product_name: product.name, quantity, unit: product.unit, price: product.price, total: quantity * product.price,
+});
+
+const order = (id: string, owner: Customer, items: OrderItem[], changes: Partial<DailyOrder> = {}): DailyOrder => ({
+  id,
+  user_id: 'user',
+  customer_id: owner.id,
+  customer_name: owner.name,
+  date: '2025-01-06',
+  items,
+  total_amount: items.reduce((sum, line) => sum + line.total, 0),
+  amount_paid: 0,
+  status: 'pending',
+  created_at: '2025-01-06T06:00:00Z',
+  ...changes,
+});
+
+const subscription = (id: string, customerId: string, changes: Partial<Subscription> = {}): Subscription => ({
+  id,
+  user_id: 'user',
+  customer_id: customerId,
+  items: [{ product_id: milk.id, quantity: 2 }],
+  weekdays: [1, 3, 5],
+  start_date: '2025-01-01',
+  end_date: null,
+  pause_ranges: [],
+  created_at: '2025-01-01T00:00:00Z',
+  ...changes,
+});
+
+const allocation = (id: string, orderId: string, amount: number, createdAt: string): PaymentAllocation => ({
+  id, user_id: 'user', payment_id: 'payment', order_id: orderId, amount, created_at: createdAt,
+});
+
+const stop = (customerId: string, routeId: string, position: number): RouteStop => ({
+  id: `${routeId}-${customerId}`, user_id: 'user', route_id: routeId, customer_id: customerId, position, created_at: '2025-01-01T00:00:00Z',
+});
+
+describe('getDueSubscriptions', () => {
+  it('leaves out customers with an order, paused subscriptions and customers no longer listed', async () => {
+    const meena = customer('meena', 'Meena');
+    const repository = createMemoryRepository({
+      products: [milk],
+      customers: [asha, ravi, meena],
+      orders: [order('asha-order', asha, [item(milk, 1)])],
+      subscriptions: [
+        subscription('asha-milk', asha.id),
+        subscription('ravi-milk', ravi.id),
+        subscription('meena-milk', meena.id, { pause_ranges: [{ start: '2025-01-05', end: '2025-01-07' }] }),
+        subscription('gone-milk', 'gone'),
+      ],
+    });
+
+    const { orders, customers, subscriptions } = await repository.load('memory', '2025-01-01');
+    const dayOrders = orders.filter(row => row.date === '2025-01-06');
+
+    expect(getDueSubscriptions(subscriptions, customers, dayOrders, '2025-01-06').map(row => row.id)).toEqual(['ravi-milk']);
+    expect(getDueSubscriptions(subscriptions, customers, dayOrders, '2025-01-07')).toEqual([]);
+  });
+});
+
+describe('sortByRoute', () => {
+  it('lists customers by route and stop, with customers off every route last', async () => {
+    const meena = customer('meena', 'Meena');
+    const repository = createMemoryRepository({
+      products: [milk],
+      customers: [asha, ravi, meena],
+      orders: [order('asha-order', asha, [item(milk, 1)]), order('ravi-order', ravi, [item(milk, 1)]), order('meena-order', meena, [item(milk, 1)])],
+      routeStops: [stop(asha.id, 'north', 2), stop(ravi.id, 'north', 1)],
+    });
+
+    const { orders, routeStops } = await repository.load('memory', '2025-01-01');
+    const sorted = sortByRoute(summarizeByCustomer(orders, {}), routeStops);
+
+    expect(sorted.map(summary => summary.customerId)).toEqual([ravi.id, asha.id, meena.id]);
+  });
+});
+
+describe('consolidating an edited order', () => {
+  it('keeps the delivery and moves payments across up to the new total', async () => {
+    const repository = createMemoryRepository({
+      products: [milk, curd],
+      customers: [asha],
+      orders: [
+        order('morning', asha, [item(milk, 2), item(curd, 1)], {
+          status: 'partial', delivered_at: '2025-01-06T07:00:00Z', shortfall: [{ product_id: curd.id, quantity: 1 }],
+        }),
+        order('evening', asha, [item(milk, 1)], { status: 'delivered', delivered_at: '2025-01-06T18:00:00Z' }),
+      ],
+      payments: [{ id: 'payment', user_id: 'user', customer_id: asha.id, date: '2025-01-06', amount: 135, method: 'cash', created_at: '2025-01-06T19:00:00Z' }],
+      paymentAllocations: [
+        allocation('to-evening', 'evening', 30, '2025-01-06T19:00:02Z'),
+        allocation('to-morning', 'morning', 105, '2025-01-06T19:00:01Z'),
+      ],
+    });
+    const loaded = await repository.load('memory', '2025-01-01');
+    const replacedOrderIds = summarizeByCustomer(loaded.orders, {})[0].orderIds;
+
+    // Curd is taken off the order, so its shortfall goes with it.
+    const items = [item(milk, 3)];
+    const newOrder = order('consolidated', asha, items, getConsolidatedDelivery(loaded.orders, items));
+    await repository.send({ table: 'daily_orders', action: 'insert', recordId: newOrder.id, matchColumn: 'id', payload: newOrder });
+    for (const id of replacedOrderIds) {
+      await repository.send({ table: 'daily_orders', action: 'delete', recordId: id, matchColumn: 'id' });
+    }
+    const moved = moveAllocations(loaded.paymentAllocations, replacedOrderIds, newOrder);
+    for (const [index, draft] of moved.entries()) {
+      const saved = { ...draft, id: `moved-${index}`, user_id: 'user', created_at: '2025-01-06T20:00:00Z' };
+      await repository.send({ table: 'payment_allocations', action: 'insert', recordId: saved.id, matchColumn: 'id', payload: saved });
+    }
+
+    expect(moved).toEqual([{ payment_id: 'payment', order_id: 'consolidated', amount: 90 }]);
+    const { orders, payments, paymentAllocations } = await repository.load('memory', '2025-01-01');
+    expect(orders).toHaveLength(1);
+    expect(orders[0]).toMatchObject({ status: 'partial', delivered_at: '2025-01-06T18:00:00Z', shortfall: [], items });
+    expect(await repository.statementTotals('2025-01-06', '2025-01-06')).toEqual([
+      { customer_id: asha.id, order_count: 1, total_amount: 90, total_paid: 90 },
+    ]);
+    // What no longer fits on the order stays with the customer as advance.
+    expect(getCustomerLedgerSummary(orders, payments, paymentAllocations)).toMatchObject({ pending: 0, credit: 45 });
+  });
+});
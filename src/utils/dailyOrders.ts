@@ -0,0 +1,71 @@
+import { Customer, DailyOrder, OrderItem, PaymentAllocation, RouteStop, Subscription } from '../types';
+import { getCombinedDeliveryStatus } from './delivery';
+import { AllocationDraft, roundMoney } from './ledger';
+import { CustomerOrderSummary } from './orderSummaries';
+import { isSubscriptionActiveOn } from './subscriptions';
+
+/** Subscriptions due on the date for customers who don't have an order that day yet. */
+export const getDueSubscriptions = (
+  subscriptions: Subscription[],
+  customers: Pick<Customer, 'id'>[],
+  dayOrders: Pick<DailyOrder, 'customer_id'>[],
+  date: string,
+): Subscription[] => {
+  const customersWithOrders = new Set(dayOrders.map(order => order.customer_id));
+  return subscriptions.filter(subscription =>
+    !customersWithOrders.has(subscription.customer_id) &&
+    customers.some(c => c.id === subscription.customer_id) &&
+    isSubscriptionActiveOn(subscription, date)
+  );
+};
+
+/** Puts customers in route order, grouped by route; customers without a route come last. */
+export const sortByRoute = (summaries: CustomerOrderSummary[], routeStops: RouteStop[]): CustomerOrderSummary[] => {
+  const stopByCustomer = new Map(routeStops.map(stop => [stop.customer_id, stop]));
+  return [...summaries].sort((a, b) => {
+    const stopA = stopByCustomer.get(a.customerId);
+    const stopB = stopByCustomer.get(b.customerId);
+    if (!stopA || !stopB) return (stopA ? 0 : 1) - (stopB ? 0 : 1);
+    return stopA.route_id.localeCompare(stopB.route_id) || stopA.position - stopB.position;
+  });
+};
+
+/**
+ * The delivery confirmation of orders consolidated into one, with the shortfall
+ * limited to products still on the new order.
+ */
+export const getConsolidatedDelivery = (
+  previousOrders: DailyOrder[],
+  items: OrderItem[],
+): Pick<DailyOrder, 'status' | 'delivered_at' | 'shortfall' | 'skip_reason'> => {
+  const remainingProductIds = new Set(items.map(item => item.product_id));
+  return {
+    status: getCombinedDeliveryStatus(previousOrders),
+    delivered_at: previousOrders.map(order => order.delivered_at).filter(Boolean).sort().pop() || null,
+    shortfall: previousOrders.flatMap(order => order.shortfall || []).filter(item => remainingProductIds.has(item.product_id)),
+    skip_reason: previousOrders.find(order => order.skip_reason)?.skip_reason || null,
+  };
+};
+
+/**
+ * Moves payments allocated to replaced orders onto the order replacing them, oldest
+ * first and up to its total; any excess stays with the customer as advance.
+ */
+export const moveAllocations = (
+  allocations: PaymentAllocation[],
+  replacedOrderIds: string[],
+  newOrder: Pick<DailyOrder, 'id' | 'total_amount'>,
+): AllocationDraft[] => {
+  const previousAllocations = allocations
+    .filter(allocation => replacedOrderIds.includes(allocation.order_id))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  let remaining = newOrder.total_amount;
+  const moved: AllocationDraft[] = [];
+  for (const allocation of previousAllocations) {
+    if (remaining <= 0) break;
+    const amount = Math.min(allocation.amount, remaining);
+    moved.push({ payment_id: allocation.payment_id, order_id: newOrder.id, amount });
+    remaining = roundMoney(remaining - amount);
+  }
+  return moved;
+};
@@ -0,0 +1,65 @@
+import { DailyOrder, DeliveryStatus, ShortfallItem } from '../types';
+
+export const deliveryStatusLabels: Record<DeliveryStatus, string> = {
+  pending: 'Outstanding',
+  delivered: 'Delivered',
+  partial: 'Partial',
+  skipped: 'Skipped',
+};
+
+export interface DeliveryCounts {
+  total: number;
+  delivered: number;
+  partial: number;
+  skipped: number;
+  outstanding: number;
+}
+
+/** Reduces the statuses of a customer's orders for a day to one status. */
+export const getCombinedDeliveryStatus = (orders: DailyOrder[]): DeliveryStatus => {
+  const statuses = new Set(orders.map(order => order.status));
+  if (statuses.size === 0) return 'pending';
+  if (statuses.size === 1) return orders[0].status;
+  if (statuses.has('pending')) return 'pending';
+  return 'partial';
+};
+
+/** Counts deliveries per customer (one stop per customer per day), not per order row. */
+export const getDeliveryCounts = (orders: DailyOrder[]): DeliveryCounts => {
+  const ordersByStop = orders.reduce((acc, order) => {
+    const key = `${order.date}-${order.customer_id}`;
+    (acc[key] = acc[key] || []).push(order);
+    return acc;
+  }, {} as Record<string, DailyOrder[]>);
+
+  const counts: DeliveryCounts = { total: 0, delivered: 0, partial: 0, skipped: 0, outstanding: 0 };
+  Object.values(ordersByStop).forEach(stopOrders => {
+    const status = getCombinedDeliveryStatus(stopOrders);
+    counts.total++;
+    if (status === 'pending') counts.outstanding++;
+    else counts[status]++;
+  });
+  return counts;
+};
+
+/**
+ * Spreads a customer's shortfall for the day across their orders, so each order
+ * only records shortfall for items it actually contains.
+ */
+export const splitShortfall = (orders: DailyOrder[], shortfall: ShortfallItem[]): Record<string, ShortfallItem[]> => {
+  const remaining = new Map(shortfall.filter(s => s.quantity > 0).map(s => [s.product_id, s.quantity]));
+  const result: Record<string, ShortfallItem[]> = {};
+
+  orders.forEach(order => {
+    result[order.id] = [];
+    order.items.forEach(item => {
+      const left = remaining.get(item.product_id) || 0;
+      if (left <= 0) return;
+      const quantity = Math.min(left, item.quantity);
+      result[order.id].push({ product_id: item.product_id, quantity });
+      remaining.set(item.product_id, left - quantity);
+    });
+  });
+
+  return result;
+};
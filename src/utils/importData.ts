@@ -0,0 +1,203 @@
+import * as XLSX from 'xlsx';
+import { Customer, OrderItem, Product, Unit } from '../types';
+import { emptyCustomerProfile, isValidPhone, normalizePhone } from './customerProfile';
+
+export type ImportKind = 'customers' | 'products';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  // Lower-case header names recognised when guessing the column mapping.
+  aliases: string[];
+}
+
+export const importFields: Record<ImportKind, ImportField[]> = {
+  customers: [
+    { key: 'name', label: 'Name', required: true, aliases: ['name', 'customer', 'customer name'] },
+    { key: 'phone', label: 'Phone', required: false, aliases: ['phone', 'mobile', 'contact', 'contact number', 'number'] },
+    { key: 'alternate_phone', label: 'Alternate Phone', required: false, aliases: ['alternate phone', 'alternate number', 'phone 2', 'mobile 2'] },
+    { key: 'address_line1', label: 'Address', required: false, aliases: ['address', 'address line 1', 'house'] },
+    { key: 'address_line2', label: 'Address Line 2', required: false, aliases: ['address line 2', 'street'] },
+    { key: 'area', label: 'Area', required: false, aliases: ['area', 'locality', 'society', 'location'] },
+    { key: 'landmark', label: 'Landmark', required: false, aliases: ['landmark'] },
+    { key: 'notes', label: 'Notes', required: false, aliases: ['notes', 'note', 'remarks'] },
+    { key: 'opening_balance', label: 'Opening Balance', required: false, aliases: ['opening balance', 'balance', 'due', 'pending'] },
+  ],
+  products: [
+    { key: 'name', label: 'Name', required: true, aliases: ['name', 'product', 'product name', 'item'] },
+    { key: 'price', label: 'Price', required: true, aliases: ['price', 'rate', 'mrp'] },
+    { key: 'quantity', label: 'Pack Size', required: true, aliases: ['quantity', 'qty', 'size', 'pack size'] },
+    { key: 'unit', label: 'Unit', required: true, aliases: ['unit', 'uom'] },
+    { key: 'hsn_code', label: 'HSN Code', required: false, aliases: ['hsn', 'hsn code'] },
+    { key: 'gst_rate', label: 'GST %', required: false, aliases: ['gst', 'gst rate', 'gst %', 'tax'] },
+  ],
+};
+
+// Field key -> column index in the sheet, or null when the field is not imported.
+export type ColumnMapping = Record<string, number | null>;
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: unknown[][];
+}
+
+export interface ImportRowResult<T> {
+  rowNumber: number; // As shown in the spreadsheet, counting the header row
+  draft: T | null;
+  errors: string[];
+}
+
+export type CustomerImportDraft = Omit<Customer, 'id' | 'user_id' | 'created_at'> & { opening_balance: number };
+export type ProductImportDraft = Omit<Product, 'id' | 'user_id' | 'created_at'>;
+
+// Opening balances are billed as a one-line order with no product (stored as a NULL
+// product_id), so stock and profit reports leave it out.
+export const OPENING_BALANCE_ITEM_ID = '';
+
+const unitAliases: Record<string, Unit> = {
+  ml: 'ml', l: 'L', ltr: 'L', litre: 'L', liter: 'L',
+  g: 'gm', gm: 'gm', gram: 'gm', kg: 'kg',
+  piece: 'piece', pieces: 'piece', pc: 'piece', pcs: 'piece',
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const cellText = (row: unknown[], index: number | null): string => {
+  if (index === null || index === undefined) return '';
+  const value = row[index];
+  return value === null || value === undefined ? '' : String(value).trim();
+};
+
+// Accepts plain numbers and text such as "₹1,250.50"; returns null for anything else.
+const parseNumber = (text: string): number | null => {
+  if (!text) return null;
+  const value = Number(text.replace(/[₹,\s]/g, ''));
+  return Number.isFinite(value) ? value : null;
+};
+
+/** Reads the first sheet of an XLSX or CSV file. The first row holds the column headers. */
+export const readSheet = (data: ArrayBuffer): ParsedSheet => {
+  const workbook = XLSX.read(data, { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { headers: [], rows: [] };
+  const [headerRow = [], ...rows] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '' });
+  return {
+    headers: headerRow.map(header => String(header).trim()),
+    rows: rows.filter(row => row.some(cell => String(cell).trim() !== '')),
+  };
+};
+
+/** Matches each field to the first column whose header is one of its aliases. */
+export const guessMapping = (kind: ImportKind, headers: string[]): ColumnMapping => {
+  const normalizedHeaders = headers.map(normalizeName);
+  return importFields[kind].reduce((mapping, field) => {
+    const index = normalizedHeaders.findIndex(header => field.aliases.includes(header));
+    mapping[field.key] = index === -1 ? null : index;
+    return mapping;
+  }, {} as ColumnMapping);
+};
+
+/** Lists required fields that have no column yet. */
+export const getMissingFields = (kind: ImportKind, mapping: ColumnMapping): ImportField[] =>
+  importFields[kind].filter(field => field.required && (mapping[field.key] === null || mapping[field.key] === undefined));
+
+// Rows are checked against existing records and each other, so an import can't create duplicates.
+const checkDuplicate = (name: string, existingNames: Set<string>, seenNames: Set<string>, errors: string[]) => {
+  const key = normalizeName(name);
+  if (existingNames.has(key)) errors.push(`"${name}" already exists`);
+  else if (seenNames.has(key)) errors.push(`"${name}" appears more than once in the file`);
+  seenNames.add(key);
+};
+
+export const validateCustomerRows = (
+  sheet: ParsedSheet,
+  mapping: ColumnMapping,
+  existingCustomers: Pick<Customer, 'name'>[],
+): ImportRowResult<CustomerImportDraft>[] => {
+  const existingNames = new Set(existingCustomers.map(customer => normalizeName(customer.name)));
+  const seenNames = new Set<string>();
+
+  return sheet.rows.map((row, index) => {
+    const errors: string[] = [];
+    const name = cellText(row, mapping.name);
+    if (!name) errors.push('Name is missing');
+    else checkDuplicate(name, existingNames, seenNames, errors);
+
+    const balanceText = cellText(row, mapping.opening_balance);
+    const openingBalance = balanceText ? parseNumber(balanceText) : 0;
+    if (openingBalance === null) errors.push(`Opening balance "${balanceText}" is not a number`);
+
+    // Phone numbers are optional in a file, but must be valid when given.
+    const phone = normalizePhone(cellText(row, mapping.phone));
+    if (phone && !isValidPhone(phone)) errors.push(`Phone "${cellText(row, mapping.phone)}" needs 10 to 15 digits`);
+    const alternatePhone = normalizePhone(cellText(row, mapping.alternate_phone));
+    if (alternatePhone && !isValidPhone(alternatePhone)) errors.push(`Alternate phone "${cellText(row, mapping.alternate_phone)}" needs 10 to 15 digits`);
+
+    const draft = errors.length === 0 ? {
+      name,
+      ...emptyCustomerProfile,
+      phone,
+      alternate_phone: alternatePhone,
+      address_line1: cellText(row, mapping.address_line1),
+      address_line2: cellText(row, mapping.address_line2),
+      area: cellText(row, mapping.area),
+      landmark: cellText(row, mapping.landmark),
+      notes: cellText(row, mapping.notes),
+      opening_balance: openingBalance ?? 0,
+    } : null;
+    return { rowNumber: index + 2, draft, errors };
+  });
+};
+
+export const validateProductRows = (
+  sheet: ParsedSheet,
+  mapping: ColumnMapping,
+  existingProducts: Pick<Product, 'name'>[],
+): ImportRowResult<ProductImportDraft>[] => {
+  const existingNames = new Set(existingProducts.map(product => normalizeName(product.name)));
+  const seenNames = new Set<string>();
+
+  return sheet.rows.map((row, index) => {
+    const errors: string[] = [];
+    const name = cellText(row, mapping.name);
+    if (!name) errors.push('Name is missing');
+    else checkDuplicate(name, existingNames, seenNames, errors);
+
+    const priceText = cellText(row, mapping.price);
+    const price = parseNumber(priceText);
+    if (price === null || price <= 0) errors.push(`Price "${priceText}" must be a number above 0`);
+
+    const quantityText = cellText(row, mapping.quantity);
+    const quantity = parseNumber(quantityText);
+    if (quantity === null || quantity <= 0) errors.push(`Pack size "${quantityText}" must be a number above 0`);
+
+    const unitText = cellText(row, mapping.unit);
+    const unit = unitAliases[unitText.toLowerCase()];
+    if (!unit) errors.push(`Unit "${unitText}" must be one of ml, L, gm, kg or piece`);
+
+    const gstText = cellText(row, mapping.gst_rate).replace('%', '');
+    const gstRate = gstText ? parseNumber(gstText) : 0;
+    if (gstRate === null || gstRate < 0 || gstRate > 28) errors.push(`GST "${gstText}" must be between 0 and 28`);
+
+    const draft = errors.length === 0 && price !== null && quantity !== null && gstRate !== null ? {
+      name,
+      price,
+      quantity,
+      unit,
+      hsn_code: cellText(row, mapping.hsn_code) || null,
+      gst_rate: gstRate,
+    } : null;
+    return { rowNumber: index + 2, draft, errors };
+  });
+};
+
+/** The single item of an order that bills a customer's opening balance. */
+export const buildOpeningBalanceItem = (amount: number): OrderItem => ({
+  product_id: OPENING_BALANCE_ITEM_ID,
+  product_name: 'Opening Balance',
+  quantity: 1,
+  unit: 'piece',
+  price: amount,
+  total: amount,
+});
@@ -0,0 +1,129 @@
+import { DailyOrder, Product, Purchase, StockMovement, Unit } from '../types';
+import { convert } from './unitConverter';
+
+export interface StockReportRow {
+  productId: string;
+  productName: string;
+  unit: Unit;
+  opening: number;
+  stockIn: number;
+  sold: number;
+  returned: number;
+  wasted: number;
+  closing: number;
+}
+
+type DailyTotals = Omit<StockReportRow, 'productId' | 'productName' | 'unit' | 'opening' | 'closing'>;
+
+/** Stock is counted in litres, kilograms or pieces, whatever the pack size. */
+export const getStockUnit = (product: Product): Unit => {
+  if (product.unit === 'ml' || product.unit === 'L') return 'L';
+  if (product.unit === 'gm' || product.unit === 'kg') return 'kg';
+  return 'piece';
+};
+
+// Keeps float noise out of quantities such as 0.1 + 0.2 litres.
+export const roundQuantity = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Quantities taken out of stock by an order, per product in its stock unit.
+ * Order quantities count packs of `product.quantity` each. Skipped orders take nothing
+ * and partial deliveries leave the shortfall in stock.
+ */
+export const getSoldByProduct = (order: DailyOrder, products: Product[]): Record<string, number> => {
+  if (order.status === 'skipped') return {};
+  const sold: Record<string, number> = {};
+
+  order.items.forEach(item => {
+    sold[item.product_id] = (sold[item.product_id] || 0) + item.quantity;
+  });
+  (order.shortfall || []).forEach(item => {
+    sold[item.product_id] = (sold[item.product_id] || 0) - item.quantity;
+  });
+
+  Object.keys(sold).forEach(productId => {
+    const product = products.find(p => p.id === productId);
+    sold[productId] = product ? convert(sold[productId] * product.quantity, product.unit, getStockUnit(product)) : 0;
+  });
+  return sold;
+};
+
+const netChange = (totals: DailyTotals): number => totals.stockIn - totals.sold + totals.returned - totals.wasted;
+
+/**
+ * Reconciles stock per product for one day: opening stock is everything recorded
+ * before the day, closing is opening + in - sold + returned - wasted.
+ * Purchases from suppliers count as stock in alongside manual entries.
+ *
+ * `soldBefore` is the packs per product sold before the day, as totalled by the
+ * database. When given, it replaces the orders dated before the day, which may not
+ * all be loaded.
+ */
+export const buildStockReport = (
+  date: string,
+  products: Product[],
+  movements: StockMovement[],
+  orders: DailyOrder[],
+  purchases: Purchase[] = [],
+  soldBefore?: Record<string, number>,
+): StockReportRow[] => {
+  const empty = (): DailyTotals => ({ stockIn: 0, sold: 0, returned: 0, wasted: 0 });
+  const before: Record<string, DailyTotals> = {};
+  const onDay: Record<string, DailyTotals> = {};
+
+  const bucketFor = (entryDate: string, productId: string) => {
+    if (entryDate > date) return null;
+    const buckets = entryDate === date ? onDay : before;
+    return (buckets[productId] = buckets[productId] || empty());
+  };
+
+  movements.forEach(movement => {
+    const product = products.find(p => p.id === movement.product_id);
+    const bucket = product && bucketFor(movement.date, product.id);
+    if (!product || !bucket) return;
+    const quantity = convert(movement.quantity, movement.unit, getStockUnit(product));
+    if (movement.type === 'in') bucket.stockIn += quantity;
+    else if (movement.type === 'return') bucket.returned += quantity;
+    else bucket.wasted += quantity;
+  });
+
+  purchases.forEach(purchase => {
+    const product = products.find(p => p.id === purchase.product_id);
+    const bucket = product && bucketFor(purchase.date, product.id);
+    if (!product || !bucket) return;
+    bucket.stockIn += convert(purchase.quantity, purchase.unit, getStockUnit(product));
+  });
+
+  if (soldBefore) {
+    Object.entries(soldBefore).forEach(([productId, packs]) => {
+      const product = products.find(p => p.id === productId);
+      if (!product) return;
+      const bucket = (before[productId] = before[productId] || empty());
+      bucket.sold += convert(packs * product.quantity, product.unit, getStockUnit(product));
+    });
+  }
+
+  orders.forEach(order => {
+    if (order.date > date || (soldBefore && order.date < date)) return;
+    Object.entries(getSoldByProduct(order, products)).forEach(([productId, quantity]) => {
+      const bucket = bucketFor(order.date, productId);
+      if (bucket) bucket.sold += quantity;
+    });
+  });
+
+  return products.map(product => {
+    const opening = roundQuantity(netChange(before[product.id] || empty()));
+    const day = onDay[product.id] || empty();
+    return {
+      productId: product.id,
+      productName: product.name,
+      unit: getStockUnit(product),
+      opening,
+      stockIn: roundQuantity(day.stockIn),
+      sold: roundQuantity(day.sold),
+      returned: roundQuantity(day.returned),
+      wasted: roundQuantity(day.wasted),
+      closing: roundQuantity(opening + netChange(day)),
+    };
+  });
+};
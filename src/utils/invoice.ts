@@ -0,0 +1,70 @@
+import { DailyOrder, InvoiceLine, Product } from '../types';
+import { roundMoney } from './ledger';
+import { mergeOrderItems } from './orderSummaries';
+
+export interface InvoiceTotals {
+  taxable_value: number;
+  cgst: number;
+  sgst: number;
+  round_off: number;
+  total: number;
+}
+
+/** Indian financial years run April to March, e.g. 2025-10-05 falls in "2025-26". */
+export const getFinancialYear = (date: string): string => {
+  const [year, month] = date.split('-').map(Number);
+  const startYear = month >= 4 ? year : year - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+export const formatInvoiceNumber = (financialYear: string, sequence: number): string =>
+  `INV/${financialYear}/${String(sequence).padStart(4, '0')}`;
+
+/**
+ * Builds invoice lines from a customer's orders, one line per product and price.
+ * Order prices are what the customer pays, so GST is treated as included in them:
+ * taxable value = total / (1 + rate). The tax is split equally into CGST and SGST
+ * because deliveries are always within the seller's state.
+ */
+export const buildInvoiceLines = (orders: DailyOrder[], products: Product[]): InvoiceLine[] => {
+  return mergeOrderItems(orders.flatMap(order => order.items))
+    .map(line => {
+      const product = products.find(p => p.id === line.product_id);
+      const gstRate = product?.gst_rate || 0;
+      const total = roundMoney(line.total);
+      const taxableValue = roundMoney(total / (1 + gstRate / 100));
+      const cgst = roundMoney((total - taxableValue) / 2);
+      const sgst = roundMoney(total - taxableValue - cgst);
+
+      return {
+        product_id: line.product_id,
+        product_name: line.product_name,
+        hsn_code: product?.hsn_code || '',
+        quantity: line.quantity,
+        unit: line.unit,
+        rate: line.quantity > 0 ? roundMoney(taxableValue / line.quantity) : 0,
+        gst_rate: gstRate,
+        taxable_value: taxableValue,
+        cgst,
+        sgst,
+        total,
+      };
+    });
+};
+
+/** Sums the lines and rounds the grand total to the nearest rupee. */
+export const getInvoiceTotals = (lines: InvoiceLine[]): InvoiceTotals => {
+  const taxableValue = roundMoney(lines.reduce((sum, line) => sum + line.taxable_value, 0));
+  const cgst = roundMoney(lines.reduce((sum, line) => sum + line.cgst, 0));
+  const sgst = roundMoney(lines.reduce((sum, line) => sum + line.sgst, 0));
+  const exactTotal = roundMoney(taxableValue + cgst + sgst);
+  const total = Math.round(exactTotal);
+
+  return {
+    taxable_value: taxableValue,
+    cgst,
+    sgst,
+    round_off: roundMoney(total - exactTotal),
+    total,
+  };
+};
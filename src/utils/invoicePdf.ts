@@ -0,0 +1,91 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Invoice } from '../types';
+import { createPdfDocument, PDF_FONT } from './pdf';
+
+type AutoTableDocument = jsPDF & { lastAutoTable: { finalY: number } };
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-IN', { timeZone: 'UTC' });
+
+/** Renders a stored invoice. Only the snapshot on the invoice is used, so re-downloads match the original. */
+export const createInvoicePdf = (invoice: Invoice): jsPDF => {
+  const doc = createPdfDocument();
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setFontSize(18);
+  doc.text('Tax Invoice', pageWidth / 2, 18, { align: 'center' });
+
+  doc.setFontSize(12);
+  doc.text(invoice.seller.name, 14, 30);
+  doc.setFontSize(9);
+  const sellerLines = [
+    invoice.seller.address,
+    invoice.seller.phone && `Phone: ${invoice.seller.phone}`,
+    invoice.seller.gstin && `GSTIN: ${invoice.seller.gstin}`,
+    invoice.seller.state && `State: ${invoice.seller.state}`,
+  ].filter(Boolean) as string[];
+  doc.text(sellerLines, 14, 36);
+
+  doc.text([
+    `Invoice No: ${invoice.invoice_number}`,
+    `Invoice Date: ${formatDate(invoice.invoice_date)}`,
+    `Period: ${formatDate(invoice.period_start)} to ${formatDate(invoice.period_end)}`,
+  ], pageWidth - 14, 30, { align: 'right' });
+
+  let yPos = 36 + sellerLines.length * 5 + 6;
+  doc.setFontSize(11);
+  doc.text('Bill To', 14, yPos);
+  doc.setFontSize(9);
+  const buyerLines = [
+    invoice.buyer.name,
+    invoice.buyer.address,
+    invoice.buyer.gstin && `GSTIN: ${invoice.buyer.gstin}`,
+  ].filter(Boolean) as string[];
+  doc.text(buyerLines, 14, yPos + 6);
+  yPos += 6 + buyerLines.length * 5 + 4;
+
+  autoTable(doc, {
+    head: [['#', 'Product', 'HSN', 'Qty', 'Rate', 'Taxable', 'GST %', 'CGST', 'SGST', 'Total']],
+    body: invoice.lines.map((line, index) => [
+      index + 1,
+      line.product_name,
+      line.hsn_code,
+      `${line.quantity} ${line.unit}`,
+      line.rate.toFixed(2),
+      line.taxable_value.toFixed(2),
+      line.gst_rate.toString(),
+      line.cgst.toFixed(2),
+      line.sgst.toFixed(2),
+      line.total.toFixed(2),
+    ]),
+    startY: yPos,
+    theme: 'grid',
+    headStyles: { fillColor: [2, 132, 199] }, // dairy-600
+    styles: { font: PDF_FONT, fontStyle: 'normal', fontSize: 8 },
+  });
+
+  yPos = (doc as AutoTableDocument).lastAutoTable.finalY + 4;
+
+  autoTable(doc, {
+    body: [
+      ['Taxable Value', `₹${invoice.taxable_value.toFixed(2)}`],
+      ['CGST', `₹${invoice.cgst.toFixed(2)}`],
+      ['SGST', `₹${invoice.sgst.toFixed(2)}`],
+      ['Round Off', `₹${invoice.round_off.toFixed(2)}`],
+      ['Invoice Total', `₹${invoice.total.toFixed(2)}`],
+    ],
+    startY: yPos,
+    theme: 'plain',
+    tableWidth: 70,
+    margin: { left: pageWidth - 84 },
+    columnStyles: { 1: { halign: 'right' } },
+    styles: { font: PDF_FONT, fontStyle: 'normal', fontSize: 9 },
+  });
+
+  yPos = (doc as AutoTableDocument).lastAutoTable.finalY + 20;
+  doc.setFontSize(9);
+  doc.text(`For ${invoice.seller.name}`, pageWidth - 14, yPos, { align: 'right' });
+  doc.text('Authorised Signatory', pageWidth - 14, yPos + 12, { align: 'right' });
+
+  return doc;
+};
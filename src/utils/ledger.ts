@@ -0,0 +1,121 @@
+import { DailyOrder, Payment, PaymentAllocation } from '../types';
+
+export interface AllocationDraft {
+  payment_id: string;
+  order_id: string;
+  amount: number;
+}
+
+export interface CustomerLedgerSummary {
+  totalBilled: number;
+  totalReceived: number;
+  totalAllocated: number;
+  pending: number;
+  credit: number;
+}
+
+// Money is kept to two decimals, matching the NUMERIC(10, 2) columns.
+export const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+export const getPaidByOrder = (allocations: Pick<PaymentAllocation, 'order_id' | 'amount'>[]): Record<string, number> => {
+  return allocations.reduce((acc, allocation) => {
+    acc[allocation.order_id] = roundMoney((acc[allocation.order_id] || 0) + allocation.amount);
+    return acc;
+  }, {} as Record<string, number>);
+};
+
+export const getOrderBalance = (order: DailyOrder, paidByOrder: Record<string, number>): number => {
+  return roundMoney(order.total_amount - (paidByOrder[order.id] || 0));
+};
+
+export const getUnallocatedByPayment = (payments: Payment[], allocations: PaymentAllocation[]): Record<string, number> => {
+  const allocatedByPayment = allocations.reduce((acc, allocation) => {
+    acc[allocation.payment_id] = (acc[allocation.payment_id] || 0) + allocation.amount;
+    return acc;
+  }, {} as Record<string, number>);
+
+  return payments.reduce((acc, payment) => {
+    acc[payment.id] = roundMoney(payment.amount - (allocatedByPayment[payment.id] || 0));
+    return acc;
+  }, {} as Record<string, number>);
+};
+
+const byOldest = <T extends { date: string; created_at: string }>(a: T, b: T) =>
+  a.date.localeCompare(b.date) || a.created_at.localeCompare(b.created_at);
+
+/**
+ * Splits an amount across orders that still have a balance, oldest first.
+ * Whatever cannot be allocated is left over as the customer's credit.
+ */
+export const allocateAmount = (
+  amount: number,
+  orders: DailyOrder[],
+  paidByOrder: Record<string, number>,
+): { order_id: string; amount: number }[] => {
+  const result: { order_id: string; amount: number }[] = [];
+  let remaining = roundMoney(amount);
+
+  for (const order of [...orders].sort(byOldest)) {
+    if (remaining <= 0) break;
+    const balance = getOrderBalance(order, paidByOrder);
+    if (balance <= 0) continue;
+    const allocated = Math.min(remaining, balance);
+    result.push({ order_id: order.id, amount: allocated });
+    remaining = roundMoney(remaining - allocated);
+  }
+
+  return result;
+};
+
+/**
+ * Applies a customer's unallocated payments (credit) to their unpaid orders, oldest payment first.
+ */
+export const allocateCredit = (
+  payments: Payment[],
+  allocations: PaymentAllocation[],
+  orders: DailyOrder[],
+): AllocationDraft[] => {
+  const unallocated = getUnallocatedByPayment(payments, allocations);
+  const paidByOrder = getPaidByOrder(allocations);
+  const drafts: AllocationDraft[] = [];
+
+  for (const payment of [...payments].sort(byOldest)) {
+    if (unallocated[payment.id] <= 0) continue;
+    for (const allocation of allocateAmount(unallocated[payment.id], orders, paidByOrder)) {
+      drafts.push({ payment_id: payment.id, ...allocation });
+      paidByOrder[allocation.order_id] = roundMoney((paidByOrder[allocation.order_id] || 0) + allocation.amount);
+    }
+  }
+
+  return drafts;
+};
+
+/**
+ * Totals a customer's ledger. Pending and credit are summed per order and per payment
+ * rather than as billed minus allocated, so they stay exact when only part of the
+ * history is loaded: every order with a balance and every payment with credit left
+ * is always loaded, and fully settled ones add nothing.
+ */
+export const getCustomerLedgerSummary = (
+  orders: Pick<DailyOrder, 'id' | 'total_amount'>[],
+  payments: Pick<Payment, 'id' | 'amount'>[],
+  allocations: Pick<PaymentAllocation, 'payment_id' | 'order_id' | 'amount'>[],
+): CustomerLedgerSummary => {
+  const totalBilled = roundMoney(orders.reduce((sum, o) => sum + o.total_amount, 0));
+  const totalReceived = roundMoney(payments.reduce((sum, p) => sum + p.amount, 0));
+  const paymentIds = new Set(payments.map(p => p.id));
+  const totalAllocated = roundMoney(allocations.filter(a => paymentIds.has(a.payment_id)).reduce((sum, a) => sum + a.amount, 0));
+  const paidByOrder = getPaidByOrder(allocations);
+  const allocatedByPayment = allocations.reduce((acc, allocation) => {
+    acc[allocation.payment_id] = (acc[allocation.payment_id] || 0) + allocation.amount;
+    return acc;
+  }, {} as Record<string, number>);
+
+  return {
+    totalBilled,
+    totalReceived,
+    totalAllocated,
+    pending: roundMoney(orders.reduce((sum, o) => sum + o.total_amount - (paidByOrder[o.id] || 0), 0)),
+    credit: roundMoney(payments.reduce((sum, p) => sum + p.amount - (allocatedByPayment[p.id] || 0), 0)),
+  };
+};
@@ -0,0 +1,84 @@
+import { BusinessSettings, MessageChannel, MessageTemplate } from '../types';
+import { formatMoney } from './settings';
+import { CustomerStatement } from './statement';
+import { mergeOrderItems } from './orderSummaries';
+
+export const messagePlaceholders = [
+  { key: 'customer_name', label: 'Customer name' },
+  { key: 'period', label: 'Period' },
+  { key: 'total', label: 'Total' },
+  { key: 'paid', label: 'Paid' },
+  { key: 'balance', label: 'Balance' },
+  { key: 'items', label: 'Item breakdown' },
+  { key: 'business_name', label: 'Business name' },
+] as const;
+
+export type MessagePlaceholder = typeof messagePlaceholders[number]['key'];
+export type MessageValues = Record<MessagePlaceholder, string>;
+
+export const messageChannelLabels: Record<MessageChannel, string> = {
+  whatsapp: 'WhatsApp',
+  sms: 'SMS',
+  copy: 'Copied',
+};
+
+export const defaultMessageTemplates: MessageTemplate[] = [
+  {
+    id: 'monthly-bill',
+    name: 'Monthly bill',
+    body: 'Namaste {customer_name},\nYour milk bill for {period}:\n{items}\nTotal: {total}\nPaid: {paid}\nBalance due: {balance}\n\nThank you, {business_name}',
+  },
+  {
+    id: 'balance-reminder',
+    name: 'Balance reminder',
+    body: 'Namaste {customer_name}, a gentle reminder that {balance} is pending for {period}. Please pay at your convenience. - {business_name}',
+  },
+];
+
+/** The account's templates, or the built-in ones until it has saved its own. */
+export const getMessageTemplates = (settings: BusinessSettings): MessageTemplate[] =>
+  settings.message_templates.length > 0 ? settings.message_templates : defaultMessageTemplates;
+
+const formatPeriodDate = (date: string) => new Date(date).toLocaleDateString('en-IN', { timeZone: 'UTC', day: 'numeric', month: 'short', year: 'numeric' });
+
+/** One line per product and price, e.g. "Cow Milk 30 L x ₹60.00 = ₹1,800.00". */
+export const formatItemBreakdown = (statement: CustomerStatement, settings: BusinessSettings): string => {
+  const formatAmount = (amount: number) => formatMoney(amount, settings);
+  return mergeOrderItems(statement.orders.flatMap(order => order.items))
+    .map(line => `${line.product_name} ${line.quantity} ${line.unit} x ${formatAmount(line.price)} = ${formatAmount(line.total)}`)
+    .join('\n');
+};
+
+export const getMessageValues = (statement: CustomerStatement, periodStart: string, periodEnd: string, settings: BusinessSettings): MessageValues => ({
+  customer_name: statement.customerName,
+  period: periodStart === periodEnd ? formatPeriodDate(periodStart) : `${formatPeriodDate(periodStart)} to ${formatPeriodDate(periodEnd)}`,
+  total: formatMoney(statement.totalAmount, settings),
+  paid: formatMoney(statement.totalPaid, settings),
+  balance: formatMoney(statement.pendingAmount, settings),
+  items: formatItemBreakdown(statement, settings),
+  business_name: settings.business_name,
+});
+
+/** Fills in {placeholders}; unknown ones are left as typed so mistakes are visible. */
+export const renderMessage = (body: string, values: MessageValues): string =>
+  body.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? values[key as MessagePlaceholder] : match));
+
+/**
+ * Phone numbers are stored as typed. WhatsApp needs the country code, so a plain
+ * 10-digit Indian number gets +91. Returns null when there is no usable number.
+ */
+export const normalizePhoneNumber = (phone: string): string | null => {
+  const digits = phone.replace(/\D/g, '').replace(/^0+/, '');
+  if (digits.length === 10) return `91${digits}`;
+  return digits.length > 10 ? digits : null;
+};
+
+export const getWhatsAppLink = (phone: string, text: string): string | null => {
+  const number = normalizePhoneNumber(phone);
+  return number ? `https://wa.me/${number}?text=${encodeURIComponent(text)}` : null;
+};
+
+export const getSmsLink = (phone: string, text: string): string | null => {
+  const number = normalizePhoneNumber(phone);
+  return number ? `sms:+${number}?body=${encodeURIComponent(text)}` : null;
+};
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { DailyOrder, OrderItem, Product, Unit } from '../types';
+import { getCustomerLedgerSummary, roundMoney } from './ledger';
+import { getOrderTotals, getProductTotals, mergeOrderItems, summarizeByCustomer } from './orderSummaries';
+
+const product = (id: string, name: string, quantity: number, unit: Unit): Product => ({
+  id, name, quantity, unit, user_id: 'user', price: 0, created_at: '2025-01-01T00:00:00Z',
+});
+
+const item = (productId: string, quantity: number, price: number, name = productId): OrderItem => ({
+  product_id: productId, product_name: name, quantity, unit: 'piece', price, total: roundMoney(quantity * price),
+});
+
+const order = (id: string, customerId: string, date: string, items: OrderItem[]): DailyOrder => ({
+  id,
+  user_id: 'user',
+  customer_id: customerId,
+  customer_name: customerId === 'asha' ? 'Asha' : 'Ravi',
+  date,
+  items,
+  total_amount: roundMoney(items.reduce((sum, line) => sum + line.total, 0)),
+  amount_paid: 0,
+  status: 'delivered',
+  created_at: `${date}T06:00:00Z`,
+});
+
+describe('roundMoney', () => {
+  it('keeps float noise out of sums', () => {
+    expect(0.1 + 0.2).not.toBe(0.3);
+    expect(roundMoney(0.1 + 0.2)).toBe(0.3);
+  });
+});
+
+describe('getOrderTotals', () => {
+  it('rounds totals to the paisa', () => {
+    const orders = [{ id: 'a', total_amount: 0.1 }, { id: 'b', total_amount: 0.2 }];
+    expect(getOrderTotals(orders, { a: 0.1, b: 0.05 })).toEqual({ totalAmount: 0.3, totalPaid: 0.15, balance: 0.15 });
+  });
+
+  it('gives a negative balance when more was paid than billed', () => {
+    const orders = [{ id: 'a', total_amount: 50 }];
+    expect(getOrderTotals(orders, { a: 80 }).balance).toBe(-30);
+  });
+
+  it('counts an overpayment as credit in the customer ledger', () => {
+    const orders = [{ id: 'a', total_amount: 50 }];
+    const payments = [{ id: 'p', amount: 80 }];
+    const allocations = [{ payment_id: 'p', order_id: 'a', amount: 50 }];
+    expect(getCustomerLedgerSummary(orders, payments, allocations)).toEqual({
+      totalBilled: 50,
+      totalReceived: 80,
+      totalAllocated: 50,
+      pending: 0,
+      credit: 30,
+    });
+  });
+});
+
+describe('mergeOrderItems', () => {
+  it('merges lines of the same product at the same price', () => {
+    const merged = mergeOrderItems([item('milk', 2, 30), item('milk', 1, 30), item('curd', 1, 45)]);
+    expect(merged).toEqual([item('curd', 1, 45), item('milk', 3, 30)]);
+  });
+
+  it('keeps the same product at different prices apart', () => {
+    const merged = mergeOrderItems([item('milk', 2, 32), item('milk', 1, 30)]);
+    expect(merged).toEqual([item('milk', 1, 30), item('milk', 2, 32)]);
+  });
+
+  it('adds quantities and totals without float noise', () => {
+    const [merged] = mergeOrderItems([item('milk', 0.1, 1), item('milk', 0.2, 1)]);
+    expect(merged.quantity).toBe(0.3);
+    expect(merged.total).toBe(0.3);
+  });
+});
+
+describe('summarizeByCustomer', () => {
+  it('totals each customer, sorted by name, with their orders oldest first', () => {
+    const orders = [
+      order('r1', 'ravi', '2025-01-02', [item('milk', 1, 30)]),
+      order('a2', 'asha', '2025-01-03', [item('milk', 1, 0.1)]),
+      order('a1', 'asha', '2025-01-01', [item('milk', 2, 30), item('curd', 1, 0.2)]),
+    ];
+    const summaries = summarizeByCustomer(orders, { a1: 60.1, r1: 50 });
+
+    expect(summaries.map(({ customerName, orderIds, totalAmount, totalPaid, balance }) => ({ customerName, orderIds, totalAmount, totalPaid, balance }))).toEqual([
+      { customerName: 'Asha', orderIds: ['a2', 'a1'], totalAmount: 60.3, totalPaid: 60.1, balance: 0.2 },
+      { customerName: 'Ravi', orderIds: ['r1'], totalAmount: 30, totalPaid: 50, balance: -20 },
+    ]);
+    expect(summaries[0].orders.map(o => o.id)).toEqual(['a1', 'a2']);
+    expect(summaries[0].allItems).toEqual([item('curd', 1, 0.2), item('milk', 1, 0.1), item('milk', 2, 30)]);
+  });
+});
+
+describe('getProductTotals', () => {
+  const products = [
+    product('milk-500', 'Milk 500 ml', 500, 'ml'),
+    product('milk-1l', 'Milk 1 L', 1, 'L'),
+    product('curd-400', 'Curd 400 gm', 400, 'gm'),
+    product('paneer-1kg', 'Paneer 1 kg', 1, 'kg'),
+  ];
+  const line = (productId: string | null, productName: string, quantity: number, total: number) => ({
+    product_id: productId, product_name: productName, quantity, total,
+  });
+
+  it('converts packs to litres and kilograms', () => {
+    const totals = getProductTotals([
+      line('milk-500', 'Milk 500 ml', 4, 120),
+      line('milk-1l', 'Milk 1 L', 3, 168),
+      line('curd-400', 'Curd 400 gm', 5, 200),
+      line('paneer-1kg', 'Paneer 1 kg', 1.5, 540),
+    ], products);
+
+    expect(totals.map(({ productName, packs, quantity, unit }) => ({ productName, packs, quantity, unit }))).toEqual([
+      { productName: 'Curd 400 gm', packs: 5, quantity: 2, unit: 'kg' },
+      { productName: 'Milk 1 L', packs: 3, quantity: 3, unit: 'L' },
+      { productName: 'Milk 500 ml', packs: 4, quantity: 2, unit: 'L' },
+      { productName: 'Paneer 1 kg', packs: 1.5, quantity: 1.5, unit: 'kg' },
+    ]);
+  });
+
+  it('adds up a product sold at different prices', () => {
+    const [total] = getProductTotals([line('milk-500', 'Milk 500 ml', 2, 60), line('milk-500', 'Milk 500 ml', 1, 32)], products);
+    expect(total).toMatchObject({ packs: 3, amount: 92, quantity: 1.5, unit: 'L' });
+  });
+
+  it('groups lines without a product by name and counts pieces', () => {
+    const totals = getProductTotals([line(null, 'Opening balance', 1, 250), line('', 'Opening balance', 1, 100)], products);
+    expect(totals).toEqual([{ productId: '', productName: 'Opening balance', packs: 2, amount: 350, quantity: 2, unit: 'piece' }]);
+  });
+});
@@ -0,0 +1,137 @@
+import { DailyOrder, OrderItem, Product, Unit } from '../types';
+import { getStockUnit, roundQuantity } from './inventory';
+import { roundMoney } from './ledger';
+import { convert } from './unitConverter';
+
+// The order fields a summary needs, so the customer portal can summarize its trimmed rows.
+export type SummaryOrder = Pick<DailyOrder, 'id' | 'date' | 'total_amount' | 'items'>;
+
+export interface OrderTotals {
+  totalAmount: number;
+  totalPaid: number;
+  /** What is still owed; negative when more was paid than billed. */
+  balance: number;
+}
+
+export interface DateSummary<T extends SummaryOrder = DailyOrder> extends OrderTotals {
+  date: string;
+  orders: T[];
+  allItems: OrderItem[];
+}
+
+export interface CustomerOrderSummary extends OrderTotals {
+  customerId: string;
+  customerName: string;
+  /** Oldest first. */
+  orders: DailyOrder[];
+  orderIds: string[];
+  allItems: OrderItem[];
+}
+
+export interface ProductTotal {
+  /** Empty for lines that aren't a known product; those are grouped by name. */
+  productId: string;
+  productName: string;
+  /** The sum of order quantities, which count packs. */
+  packs: number;
+  amount: number;
+  /** Packs times the pack size, in `unit`. Lines without a product count pieces. */
+  quantity: number;
+  unit: Unit;
+}
+
+// One line of a product total, from an order item or from a database aggregate.
+export interface ProductLine {
+  product_id: string | null;
+  product_name: string;
+  quantity: number;
+  total: number;
+}
+
+/** Billed, paid and outstanding amounts for a set of orders, rounded to the paisa. */
+export const getOrderTotals = (orders: Pick<DailyOrder, 'id' | 'total_amount'>[], paidByOrder: Record<string, number>): OrderTotals => {
+  const totalAmount = roundMoney(orders.reduce((sum, order) => sum + order.total_amount, 0));
+  const totalPaid = roundMoney(orders.reduce((sum, order) => sum + (paidByOrder[order.id] || 0), 0));
+  return { totalAmount, totalPaid, balance: roundMoney(totalAmount - totalPaid) };
+};
+
+/** Adds up items of the same product at the same price into one line, sorted by name. */
+export const mergeOrderItems = (items: OrderItem[]): OrderItem[] => {
+  const merged = items.reduce((acc, item) => {
+    const key = `${item.product_id}-${item.price}`;
+    const line = acc[key];
+    acc[key] = line
+      ? { ...line, quantity: roundQuantity(line.quantity + item.quantity), total: roundMoney(line.total + item.total) }
+      : { ...item };
+    return acc;
+  }, {} as Record<string, OrderItem>);
+  return Object.values(merged).sort((a, b) => a.product_name.localeCompare(b.product_name) || a.price - b.price);
+};
+
+/** Groups orders by date with their totals and merged items, newest first. */
+export const summarizeByDate = <T extends SummaryOrder>(orders: T[], paidByOrder: Record<string, number>): DateSummary<T>[] => {
+  const ordersByDate = orders.reduce((acc, order) => {
+    (acc[order.date] = acc[order.date] || []).push(order);
+    return acc;
+  }, {} as Record<string, T[]>);
+
+  return Object.entries(ordersByDate)
+    .map(([date, dateOrders]) => ({
+      date,
+      orders: dateOrders,
+      ...getOrderTotals(dateOrders, paidByOrder),
+      allItems: mergeOrderItems(dateOrders.flatMap(order => order.items)),
+    }))
+    .sort((a, b) => b.date.localeCompare(a.date));
+};
+
+/** Groups orders by customer with their totals and merged items, by customer name. */
+export const summarizeByCustomer = (orders: DailyOrder[], paidByOrder: Record<string, number>): CustomerOrderSummary[] => {
+  const ordersByCustomer = orders.reduce((acc, order) => {
+    (acc[order.customer_id] = acc[order.customer_id] || []).push(order);
+    return acc;
+  }, {} as Record<string, DailyOrder[]>);
+
+  return Object.entries(ordersByCustomer)
+    .map(([customerId, customerOrders]) => ({
+      customerId,
+      customerName: customerOrders[0].customer_name,
+      orders: [...customerOrders].sort((a, b) => a.date.localeCompare(b.date)),
+      orderIds: customerOrders.map(order => order.id),
+      allItems: mergeOrderItems(customerOrders.flatMap(order => order.items)),
+      ...getOrderTotals(customerOrders, paidByOrder),
+    }))
+    .sort((a, b) => a.customerName.localeCompare(b.customerName));
+};
+
+/**
+ * Totals per product, whatever the price. Quantities are converted from packs to
+ * the product's stock unit, so 4 packs of 500 ml make 2 L. Sorted by name.
+ */
+export const getProductTotals = (lines: ProductLine[], products: Product[]): ProductTotal[] => {
+  const totals = lines.reduce((acc, line) => {
+    const product = products.find(p => p.id === line.product_id);
+    const key = product ? product.id : `name:${line.product_name}`;
+    const total = (acc[key] = acc[key] || {
+      productId: product?.id || '',
+      productName: product?.name || line.product_name,
+      packs: 0,
+      amount: 0,
+      quantity: 0,
+      unit: product ? getStockUnit(product) : 'piece',
+    });
+    total.packs = roundQuantity(total.packs + line.quantity);
+    total.amount = roundMoney(total.amount + line.total);
+    total.quantity = roundQuantity(total.quantity + (product ? convert(line.quantity * product.quantity, product.unit, total.unit) : line.quantity));
+    return acc;
+  }, {} as Record<string, ProductTotal>);
+  return Object.values(totals).sort((a, b) => a.productName.localeCompare(b.productName));
+};
+
+/** Product totals for the items of some orders. */
+export const getOrderProductTotals = (orders: Pick<DailyOrder, 'items'>[], products: Product[]): ProductTotal[] =>
+  getProductTotals(orders.flatMap(order => order.items), products);
+
+/** A product total's quantity with its unit, e.g. "12.5 L" or "30 pcs". */
+export const formatProductQuantity = (total: Pick<ProductTotal, 'quantity' | 'unit'>): string =>
+  `${total.quantity} ${total.unit === 'piece' ? 'pcs' : total.unit}`;
@@ -0,0 +1,36 @@
+import jsPDF from 'jspdf';
+import hindVadodaraRegularBase64 from '../assets/HindVadodaraRegularBase64.txt?raw';
+
+export const PDF_FONT = 'HindVadodara';
+
+/**
+ * Creates a jsPDF document with the Gujarati-capable Hind Vadodara font registered,
+ * so product and customer names render correctly. Falls back to Helvetica.
+ */
+export const createPdfDocument = (): jsPDF => {
+  const doc = new jsPDF();
+  
+  if (hindVadodaraRegularBase64 && hindVadodaraRegularBase64.trim().length > 0) {
+    try {
+      let pureBase64 = hindVadodaraRegularBase64;
+      const commaIndex = pureBase64.indexOf(',');
+      if (commaIndex !== -1) {
+        pureBase64 = pureBase64.substring(commaIndex + 1);
+      }
+      // Remove all non-base64 characters to prevent encoding errors
+      pureBase64 = pureBase64.replace(/[^A-Za-z0-9+/=]/g, '');
+
+      doc.addFileToVFS('HindVadodara-Regular.ttf', pureBase64);
+      doc.addFont('HindVadodara-Regular.ttf', PDF_FONT, 'normal');
+      doc.setFont(PDF_FONT);
+    } catch (e) {
+      console.error("Failed to load custom font for PDF. Falling back to default.", e);
+      doc.setFont('helvetica');
+    }
+  } else {
+    console.warn("Gujarati font data not found. PDF will not render Gujarati characters correctly.");
+    doc.setFont('helvetica');
+  }
+
+  return doc;
+};
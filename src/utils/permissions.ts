@@ -0,0 +1,37 @@
+import { OrganizationRole } from '../types';
+
+// What each role may do in the UI. Mirrors the RLS policies in the organizations
+// migration, which are what actually enforce access. Moving products and customers
+// to the Trash and back counts as deleting them ('manageProducts' and 'deleteCustomers'),
+// as the guard triggers in the soft delete migration enforce.
+export type Permission =
+  | 'manageProducts'
+  | 'manageRoutes'
+  | 'manageCustomers'
+  | 'deleteCustomers'
+  | 'correctPayments'
+  | 'issueInvoices'
+  | 'closeBills'
+  | 'manageSuppliers'
+  | 'shareLinks'
+  | 'deleteStock'
+  | 'viewHistory'
+  | 'manageSettings'
+  | 'manageBackups'
+  | 'manageTeam';
+
+const rolePermissions: Record<OrganizationRole, Permission[]> = {
+  owner: ['manageProducts', 'manageRoutes', 'manageCustomers', 'deleteCustomers', 'correctPayments', 'issueInvoices', 'closeBills', 'manageSuppliers', 'shareLinks', 'deleteStock', 'viewHistory', 'manageSettings', 'manageBackups', 'manageTeam'],
+  accountant: ['manageCustomers', 'correctPayments', 'issueInvoices', 'closeBills', 'manageSuppliers', 'shareLinks', 'viewHistory', 'manageSettings'],
+  staff: [],
+};
+
+export const roleLabels: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  accountant: 'Accountant',
+  staff: 'Delivery Staff',
+};
+
+export const hasPermission = (role: OrganizationRole | undefined, permission: Permission): boolean => {
+  return !!role && rolePermissions[role].includes(permission);
+};
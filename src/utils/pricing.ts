@@ -0,0 +1,36 @@
+import { Product, ProductPrice } from '../types';
+
+const latestOnOrBefore = (entries: ProductPrice[], date: string): ProductPrice | undefined => {
+  return entries
+    .filter(entry => entry.effective_from <= date)
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0];
+};
+
+/**
+ * Resolves the price of a product on a date ('YYYY-MM-DD').
+ * A customer's special rate wins over the general price list; before the first
+ * general entry the product's own price applies.
+ */
+export const resolvePrice = (
+  product: Product,
+  productPrices: ProductPrice[],
+  date: string,
+  customerId?: string | null,
+): number => {
+  const entries = productPrices.filter(entry => entry.product_id === product.id);
+
+  if (customerId) {
+    const special = latestOnOrBefore(entries.filter(entry => entry.customer_id === customerId), date);
+    if (special) return special.price;
+  }
+
+  const general = latestOnOrBefore(entries.filter(entry => !entry.customer_id), date);
+  return general ? general.price : product.price;
+};
+
+/** The next general price change scheduled after the given date, if any. */
+export const getUpcomingPrice = (product: Product, productPrices: ProductPrice[], date: string): ProductPrice | undefined => {
+  return productPrices
+    .filter(entry => entry.product_id === product.id && !entry.customer_id && entry.effective_from > date)
+    .sort((a, b) => a.effective_from.localeCompare(b.effective_from))[0];
+};
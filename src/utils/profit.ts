@@ -0,0 +1,125 @@
+import { DailyOrder, Product, Purchase, Unit } from '../types';
+import { getSoldByProduct, getStockUnit, roundQuantity } from './inventory';
+import { roundMoney } from './ledger';
+import { convert } from './unitConverter';
+
+export interface ProfitReportRow {
+  productId: string;
+  productName: string;
+  unit: Unit;
+  soldQuantity: number;
+  revenue: number;
+  /** Weighted average purchase cost per stock unit, or null when nothing was bought yet. */
+  costRate: number | null;
+  cost: number;
+  profit: number;
+  /** Profit as a percentage of revenue, or null without revenue. */
+  margin: number | null;
+}
+
+export interface ProfitTotals {
+  revenue: number;
+  cost: number;
+  profit: number;
+  margin: number | null;
+}
+
+/**
+ * Weighted average cost per stock unit of each product, over purchases made
+ * on or before `upToDate`.
+ */
+export const getAverageCostRates = (purchases: Purchase[], products: Product[], upToDate: string): Record<string, number> => {
+  const totals: Record<string, { quantity: number; cost: number }> = {};
+  purchases.forEach(purchase => {
+    if (purchase.date > upToDate) return;
+    const product = products.find(p => p.id === purchase.product_id);
+    if (!product) return;
+    const entry = (totals[product.id] = totals[product.id] || { quantity: 0, cost: 0 });
+    entry.quantity += convert(purchase.quantity, purchase.unit, getStockUnit(product));
+    entry.cost += purchase.total;
+  });
+
+  const rates: Record<string, number> = {};
+  Object.entries(totals).forEach(([productId, { quantity, cost }]) => {
+    if (quantity > 0) rates[productId] = roundMoney(cost / quantity);
+  });
+  return rates;
+};
+
+const getMargin = (profit: number, revenue: number): number | null => {
+  return revenue > 0 ? Math.round((profit / revenue) * 1000) / 10 : null;
+};
+
+/**
+ * Compares revenue with cost per product for the given orders. Revenue is what
+ * the order items billed; cost is the quantity actually delivered (skips and
+ * shortfall excluded) at the average purchase rate up to `periodEnd`.
+ */
+export const buildProfitReport = (
+  orders: DailyOrder[],
+  purchases: Purchase[],
+  products: Product[],
+  periodEnd: string,
+): ProfitReportRow[] => {
+  const costRates = getAverageCostRates(purchases, products, periodEnd);
+  const revenue: Record<string, number> = {};
+  const sold: Record<string, number> = {};
+
+  orders.forEach(order => {
+    order.items.forEach(item => {
+      revenue[item.product_id] = (revenue[item.product_id] || 0) + item.total;
+    });
+    Object.entries(getSoldByProduct(order, products)).forEach(([productId, quantity]) => {
+      sold[productId] = (sold[productId] || 0) + quantity;
+    });
+  });
+
+  return products
+    .filter(product => revenue[product.id] !== undefined)
+    .map(product => {
+      const productRevenue = roundMoney(revenue[product.id]);
+      const soldQuantity = roundQuantity(sold[product.id] || 0);
+      const costRate = costRates[product.id] ?? null;
+      const cost = roundMoney(soldQuantity * (costRate ?? 0));
+      const profit = roundMoney(productRevenue - cost);
+      return {
+        productId: product.id,
+        productName: product.name,
+        unit: getStockUnit(product),
+        soldQuantity,
+        revenue: productRevenue,
+        costRate,
+        cost,
+        profit,
+        margin: getMargin(profit, productRevenue),
+      };
+    })
+    .sort((a, b) => b.profit - a.profit);
+};
+
+export const getProfitTotals = (rows: ProfitReportRow[]): ProfitTotals => {
+  const revenue = roundMoney(rows.reduce((sum, row) => sum + row.revenue, 0));
+  const cost = roundMoney(rows.reduce((sum, row) => sum + row.cost, 0));
+  const profit = roundMoney(revenue - cost);
+  return { revenue, cost, profit, margin: getMargin(profit, revenue) };
+};
+
+/** Rows for an XLSX "Profit" sheet, shared by the Statement exports. */
+export const getProfitSheetData = (rows: ProfitReportRow[]): (string | number)[][] => {
+  const totals = getProfitTotals(rows);
+  return [
+    ["Product", "Quantity Sold", "Unit", "Revenue", "Avg Cost Rate", "Cost", "Profit", "Margin %"],
+    ...rows.map(row => [
+      row.productName,
+      row.soldQuantity,
+      row.unit,
+      row.revenue,
+      row.costRate ?? '-',
+      row.cost,
+      row.profit,
+      row.margin ?? '-',
+    ]),
+    [],
+    ["Total", "", "", totals.revenue, "", totals.cost, totals.profit, totals.margin ?? '-'],
+  ];
+};
@@ -0,0 +1,51 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Customer, DailyOrder, DeliveryRoute } from '../types';
+import { formatCustomerAddress } from './customerProfile';
+import { createPdfDocument, PDF_FONT } from './pdf';
+
+export interface RunSheetStop {
+  customer: Customer;
+  orders: DailyOrder[];
+  // Outstanding for the customer across all dates; negative when they have an advance.
+  balance: number;
+}
+
+/** A printable sheet for the delivery person: stops in route order with a tick and signature column. */
+export const createRunSheetPdf = (route: DeliveryRoute, date: string, stops: RunSheetStop[]): jsPDF => {
+  const doc = createPdfDocument();
+
+  doc.setFontSize(18);
+  doc.text(`Run Sheet - ${route.name}`, 14, 22);
+  doc.setFontSize(11);
+  doc.text(`Date: ${new Date(date).toLocaleDateString('en-IN', { timeZone: 'UTC' })}`, 14, 30);
+  if (route.delivery_person) {
+    doc.text(`Delivery Person: ${route.delivery_person}`, 14, 36);
+  }
+
+  const body = stops.map((stop, index) => {
+    const items = stop.orders.flatMap(order => order.items);
+    const total = stop.orders.reduce((sum, order) => sum + order.total_amount, 0);
+    return [
+      index + 1,
+      [stop.customer.name, formatCustomerAddress(stop.customer), stop.customer.phone, stop.customer.notes].filter(Boolean).join('\n'),
+      items.length > 0 ? items.map(item => `${item.product_name} x${item.quantity}`).join('\n') : 'No order',
+      total > 0 ? `₹${total.toFixed(2)}` : '-',
+      stop.balance < 0 ? `Adv ₹${(-stop.balance).toFixed(2)}` : `₹${stop.balance.toFixed(2)}`,
+      '',
+      '',
+    ];
+  });
+
+  autoTable(doc, {
+    head: [['#', 'Customer', 'Items', 'Today', 'Balance', 'Done', 'Signature']],
+    body,
+    startY: 42,
+    theme: 'grid',
+    headStyles: { fillColor: [2, 132, 199] }, // dairy-600
+    styles: { font: PDF_FONT, fontStyle: 'normal', fontSize: 9, minCellHeight: 12 },
+    columnStyles: { 0: { cellWidth: 8 }, 5: { cellWidth: 14 }, 6: { cellWidth: 30 } },
+  });
+
+  return doc;
+};
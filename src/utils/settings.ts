@@ -0,0 +1,109 @@
+import { BusinessDetails, BusinessSettings, MessageTemplate, UpiSettings } from '../types';
+
+export const defaultBusinessSettings: BusinessSettings = {
+  business_name: 'Jay Goga Milk',
+  address: '',
+  phone: '',
+  gstin: '',
+  state: '',
+  logo: null,
+  currency_symbol: '₹',
+  number_locale: 'en-IN',
+  currency_decimals: 2,
+  default_unit: 'ml',
+  box_configs: {},
+  upi_vpa: '',
+  upi_payee_name: '',
+  message_templates: [],
+};
+
+export const numberLocaleOptions = [
+  { value: 'en-IN', label: 'Indian (1,00,000)' },
+  { value: 'en-US', label: 'International (100,000)' },
+];
+
+export type CurrencyFormat = Pick<BusinessSettings, 'currency_symbol' | 'number_locale' | 'currency_decimals'>;
+
+/** Formats a money amount the way the account prefers, e.g. "₹1,00,000.00". */
+export const formatMoney = (amount: number, format: CurrencyFormat): string => {
+  const digits = amount.toLocaleString(format.number_locale, {
+    minimumFractionDigits: format.currency_decimals,
+    maximumFractionDigits: format.currency_decimals,
+  });
+  return `${format.currency_symbol}${digits}`;
+};
+
+/** The matching Excel number format. Excel can't group digits the Indian way, so it always groups by thousands. */
+export const getExcelMoneyFormat = (format: CurrencyFormat): string =>
+  `"${format.currency_symbol}"#,##0${format.currency_decimals > 0 ? `.${'0'.repeat(format.currency_decimals)}` : ''}`;
+
+export const getSellerDetails = (settings: BusinessSettings): BusinessDetails => ({
+  name: settings.business_name,
+  address: settings.address,
+  phone: settings.phone,
+  gstin: settings.gstin,
+  state: settings.state,
+});
+
+export const getUpiSettings = (settings: BusinessSettings): UpiSettings => ({
+  vpa: settings.upi_vpa,
+  payee_name: settings.upi_payee_name || settings.business_name,
+});
+
+/** Fills in anything a stored settings row or backup leaves out. */
+export const withSettingDefaults = (settings: Partial<BusinessSettings> | null | undefined): BusinessSettings => {
+  const merged = { ...defaultBusinessSettings };
+  Object.entries(settings || {}).forEach(([key, value]) => {
+    if (key in defaultBusinessSettings && value !== null && value !== undefined) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  });
+  merged.logo = settings?.logo || null;
+  return merged;
+};
+
+// Before settings were kept with the account, each device stored them in localStorage
+// under these keys. Backups made then carry them in the same shape.
+export const legacySettingKeys = ['businessDetails', 'boxConfigs', 'messageTemplates', 'upiSettings'] as const;
+export type LegacySettings = Partial<Record<typeof legacySettingKeys[number], unknown>>;
+
+/** Converts the old per-device settings into account settings. */
+export const settingsFromLegacy = (legacy: LegacySettings): Partial<BusinessSettings> => {
+  const settings: Partial<BusinessSettings> = {};
+  const business = legacy.businessDetails as Partial<BusinessDetails> | undefined;
+  if (business && typeof business === 'object') {
+    if (business.name) settings.business_name = business.name;
+    settings.address = business.address || '';
+    settings.phone = business.phone || '';
+    settings.gstin = business.gstin || '';
+    settings.state = business.state || '';
+  }
+  if (legacy.boxConfigs && typeof legacy.boxConfigs === 'object') {
+    settings.box_configs = legacy.boxConfigs as Record<string, number>;
+  }
+  if (Array.isArray(legacy.messageTemplates)) {
+    settings.message_templates = legacy.messageTemplates as MessageTemplate[];
+  }
+  const upi = legacy.upiSettings as Partial<UpiSettings> | undefined;
+  if (upi && typeof upi === 'object') {
+    settings.upi_vpa = upi.vpa || '';
+    settings.upi_payee_name = upi.payee_name || '';
+  }
+  return settings;
+};
+
+/** Reads the settings this device kept in localStorage, if any. */
+export const readLegacySettings = (): Partial<BusinessSettings> => {
+  const legacy = legacySettingKeys.reduce((values, key) => {
+    try {
+      const stored = localStorage.getItem(key);
+      if (stored) values[key] = JSON.parse(stored);
+    } catch {
+      // A damaged value is skipped; the account defaults apply instead.
+    }
+    return values;
+  }, {} as LegacySettings);
+  return settingsFromLegacy(legacy);
+};
+
+export const clearLegacySettings = () => legacySettingKeys.forEach(key => localStorage.removeItem(key));
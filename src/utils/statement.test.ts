@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Customer, DailyOrder, OrderItem, PaymentAllocation, Product } from '../types';
+import { createMemoryRepository } from '../lib/memoryRepository';
+import { emptyCustomerProfile } from './customerProfile';
+import { getPaidByOrder } from './ledger';
+import { buildStatement } from './statement';
+
+const milk: Product = { id: 'milk', user_id: 'user', name: 'Milk 500 ml', price: 30.1, quantity: 500, unit: 'ml', created_at: '2025-01-01T00:00:00Z' };
+
+const customer = (id: string, name: string): Customer => ({ ...emptyCustomerProfile, id, user_id: 'user', name, created_at: '2025-01-01T00:00:00Z' });
+const asha = customer('asha', 'Asha');
+const ravi = customer('ravi', 'Ravi');
+
+const item = (quantity: number): OrderItem => ({
+  product_id: milk.id, product_name: milk.name, quantity, unit: milk.unit, price: milk.price, total: quantity * milk.price,
+});
+
+const order = (id: string, owner: Customer, date: string, quantity: number, customerName = owner.name): DailyOrder => ({
+  id,
+  user_id: 'user',
+  customer_id: owner.id,
+  customer_name: customerName,
+  date,
+  items: [item(quantity)],
+  total_amount: quantity * milk.price,
+  amount_paid: 0,
+  status: 'delivered',
+  created_at: `${date}T06:00:00Z`,
+});
+
+const allocation = (orderId: string, amount: number): PaymentAllocation => ({
+  id: `to-${orderId}`, user_id: 'user', payment_id: 'payment', order_id: orderId, amount, created_at: '2025-01-10T00:00:00Z',
+});
+
+const seeded = () => createMemoryRepository({
+  products: [milk],
+  customers: [{ ...asha, name: 'Asha Rao' }, ravi],
+  orders: [
+    order('asha-1', asha, '2025-01-01', 1),
+    order('asha-2', asha, '2025-01-02', 2),
+    order('ravi-1', ravi, '2025-01-02', 3),
+    order('asha-later', asha, '2025-02-01', 5),
+  ],
+  paymentAllocations: [allocation('asha-1', 30.1), allocation('ravi-1', 50)],
+});
+
+describe('buildStatement', () => {
+  it('totals each customer in the period from the loaded orders', async () => {
+    const { orders, customers, paymentAllocations } = await seeded().load('memory', '2025-01-01');
+
+    const statement = buildStatement(orders, getPaidByOrder(paymentAllocations), null, customers, '2025-01-01', '2025-01-31', 'all');
+
+    expect(statement.customerStatements.map(({ orders: customerOrders, ...totals }) => ({ ...totals, orderIds: customerOrders.map(row => row.id) }))).toEqual([
+      { customerId: 'asha', customerName: 'Asha', totalAmount: 90.3, totalPaid: 30.1, pendingAmount: 60.2, orderIds: ['asha-1', 'asha-2'] },
+      { customerId: 'ravi', customerName: 'Ravi', totalAmount: 90.3, totalPaid: 50, pendingAmount: 40.3, orderIds: ['ravi-1'] },
+    ]);
+    expect(statement).toMatchObject({ totalOrders: 3, grandTotalAmount: 180.6, grandTotalPaid: 80.1, grandTotalPending: 100.5 });
+  });
+
+  it('takes the totals from the database when only part of the period is loaded', async () => {
+    const repository = seeded();
+    const loaded = await repository.loadLedgerRange('2025-01-02', '2025-01-31');
+    const serverTotals = await repository.statementTotals('2025-01-01', '2025-01-31');
+
+    const statement = buildStatement(loaded.orders, getPaidByOrder(loaded.allocations), serverTotals, [asha, ravi], '2025-01-01', '2025-01-31', 'all');
+
+    expect(statement.customerStatements.find(cs => cs.customerId === 'asha')).toMatchObject({ totalAmount: 90.3, totalPaid: 30.1, pendingAmount: 60.2 });
+    expect(statement).toMatchObject({ totalOrders: 2, grandTotalAmount: 180.6, grandTotalPaid: 80.1, grandTotalPending: 100.5 });
+  });
+
+  it('shows a single customer under their current name', async () => {
+    const { orders, customers, paymentAllocations } = await seeded().load('memory', '2025-01-01');
+
+    const statement = buildStatement(orders, getPaidByOrder(paymentAllocations), null, customers, '2025-01-02', '2025-02-28', 'asha');
+
+    expect(statement.customerStatements).toHaveLength(1);
+    expect(statement.customerStatements[0]).toMatchObject({ customerName: 'Asha Rao', totalAmount: 210.7, totalPaid: 0, pendingAmount: 210.7 });
+    expect(statement.totalOrders).toBe(2);
+  });
+});
@@ -0,0 +1,90 @@
+import { Customer, DailyOrder } from '../types';
+import { StatementTotals } from '../lib/ledgerQueries';
+import { roundMoney } from './ledger';
+import { CustomerOrderSummary, OrderTotals, SummaryOrder, summarizeByCustomer } from './orderSummaries';
+
+// The order fields a statement needs, so the customer portal can build one from its trimmed rows.
+export type StatementOrder = SummaryOrder;
+
+// One customer's part of a generated statement.
+export interface CustomerStatement {
+  customerId: string;
+  customerName: string;
+  orders: DailyOrder[];
+  totalAmount: number;
+  totalPaid: number;
+  pendingAmount: number;
+}
+
+export interface StatementResult {
+  periodStart: string;
+  periodEnd: string;
+  customerStatements: CustomerStatement[];
+  grandTotalAmount: number;
+  grandTotalPaid: number;
+  grandTotalPending: number;
+  totalOrders: number;
+}
+
+/**
+ * Builds the statement for a period and one customer, or 'all'. Totals come from
+ * `serverTotals` when given, since the database's cover every order of the period,
+ * loaded here or not; otherwise they are added up from `orders`.
+ */
+export const buildStatement = (
+  orders: DailyOrder[],
+  paidByOrder: Record<string, number>,
+  serverTotals: StatementTotals[] | null,
+  customers: Pick<Customer, 'id' | 'name'>[],
+  periodStart: string,
+  periodEnd: string,
+  customerId: string,
+): StatementResult => {
+  const getTotals = (summary: CustomerOrderSummary): OrderTotals => {
+    const totals = serverTotals?.find(row => row.customer_id === summary.customerId);
+    return totals
+      ? { totalAmount: totals.total_amount, totalPaid: totals.total_paid, balance: roundMoney(totals.total_amount - totals.total_paid) }
+      : summary;
+  };
+
+  const filteredOrders = orders.filter(order => {
+    const orderDate = new Date(order.date);
+    const start = new Date(periodStart);
+    const end = new Date(periodEnd);
+
+    orderDate.setUTCHours(0, 0, 0, 0);
+    start.setUTCHours(0, 0, 0, 0);
+    end.setUTCHours(0, 0, 0, 0);
+
+    const isDateInRange = orderDate >= start && orderDate <= end;
+    const isCustomerMatch = customerId === 'all' || order.customer_id === customerId;
+
+    return isDateInRange && isCustomerMatch;
+  });
+
+  // A single customer is shown under their current name, all customers under the names they ordered as.
+  const customerStatements: CustomerStatement[] = summarizeByCustomer(filteredOrders, paidByOrder).map(summary => {
+    const { totalAmount, totalPaid, balance } = getTotals(summary);
+    return {
+      customerId: summary.customerId,
+      customerName: (customerId === 'all' ? summary.customerName : customers.find(c => c.id === customerId)?.name) || 'Unknown',
+      orders: summary.orders,
+      totalAmount,
+      totalPaid,
+      pendingAmount: balance,
+    };
+  });
+
+  const grandTotalAmount = roundMoney(customerStatements.reduce((sum, cs) => sum + cs.totalAmount, 0));
+  const grandTotalPaid = roundMoney(customerStatements.reduce((sum, cs) => sum + cs.totalPaid, 0));
+
+  return {
+    periodStart,
+    periodEnd,
+    customerStatements,
+    grandTotalAmount,
+    grandTotalPaid,
+    grandTotalPending: roundMoney(grandTotalAmount - grandTotalPaid),
+    totalOrders: filteredOrders.length,
+  };
+};
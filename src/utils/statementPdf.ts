@@ -0,0 +1,113 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { BusinessSettings } from '../types';
+import { createPdfDocument, PDF_FONT } from './pdf';
+import { defaultBusinessSettings, formatMoney } from './settings';
+import { StatementOrder } from './statement';
+import { summarizeByDate } from './orderSummaries';
+
+export interface StatementPdfSection {
+  customerName: string;
+  orders: StatementOrder[];
+  totalAmount: number;
+  totalPaid: number;
+  pendingAmount: number;
+  paymentQr?: { dataUrl: string; vpa: string } | null; // UPI QR code for the pending amount
+}
+
+export interface StatementPdfData {
+  periodStart: string;
+  periodEnd: string;
+  totalAmount: number;
+  totalPaid: number;
+  pendingAmount: number;
+  sections: StatementPdfSection[];
+}
+
+/**
+ * The period statement: an overall summary, then a day-by-day table per customer.
+ * The header and amounts follow the account's settings.
+ */
+export const createStatementPdf = (statement: StatementPdfData, paidByOrder: Record<string, number>, settings: BusinessSettings = defaultBusinessSettings): jsPDF => {
+  const doc = createPdfDocument();
+  const money = (amount: number) => formatMoney(amount, settings);
+
+  let textX = 14;
+  if (settings.logo) {
+    try {
+      doc.addImage(settings.logo, 'PNG', 14, 10, 18, 18);
+      textX = 36;
+    } catch (error) {
+      console.error("Failed to add logo to PDF", error);
+    }
+  }
+  doc.setFontSize(18);
+  doc.text(`${settings.business_name} - Statement`, textX, 22);
+  doc.setFontSize(11);
+  doc.text(`Period: ${statement.periodStart} to ${statement.periodEnd}`, textX, 30);
+  const contact = [settings.address.replace(/\s*\n\s*/g, ', '), settings.phone].filter(Boolean).join(' | ');
+  if (contact) {
+    doc.setFontSize(9);
+    doc.text(contact, textX, 36);
+  }
+
+  doc.setFontSize(14);
+  doc.text('Overall Summary', 14, 45);
+  doc.setFontSize(10);
+  doc.text(`Total Order Value: ${money(statement.totalAmount)}`, 14, 52);
+  doc.text(`Total Paid: ${money(statement.totalPaid)}`, 14, 58);
+  doc.text(`Pending Amount: ${money(statement.pendingAmount)}`, 14, 64);
+
+  let yPos = 75;
+
+  statement.sections.forEach(section => {
+    if (yPos > 250) {
+      doc.addPage();
+      yPos = 20;
+    }
+
+    const fontName = doc.getFont().fontName;
+    doc.setFontSize(12);
+    doc.setFont(fontName, 'bold');
+    doc.text(`Customer: ${section.customerName}`, 14, yPos);
+    yPos += 7;
+
+    doc.setFontSize(10);
+    doc.setFont(fontName, 'normal');
+    doc.text(`Total: ${money(section.totalAmount)} | Paid: ${money(section.totalPaid)} | Pending: ${money(section.pendingAmount)}`, 14, yPos);
+    yPos += 5;
+
+    const dailySummaries = summarizeByDate(section.orders, paidByOrder);
+    autoTable(doc, {
+      head: [["Date", "Items", "Total", "Paid", "Balance"]],
+      body: dailySummaries.map(summary => [
+        new Date(summary.date).toLocaleDateString('en-IN', { timeZone: 'UTC' }),
+        summary.allItems.map(i => `${i.product_name} (x${i.quantity} @ ${money(i.price)})`).join('\n'),
+        money(summary.totalAmount),
+        money(summary.totalPaid),
+        money(summary.balance),
+      ]),
+      startY: yPos,
+      theme: 'grid',
+      headStyles: { fillColor: [2, 132, 199] }, // dairy-600
+      styles: { font: PDF_FONT, fontStyle: 'normal' },
+    });
+
+    yPos = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 15;
+
+    if (section.paymentQr) {
+      if (yPos > 240) {
+        doc.addPage();
+        yPos = 20;
+      }
+      doc.addImage(section.paymentQr.dataUrl, 'PNG', 14, yPos - 5, 35, 35);
+      doc.setFontSize(11);
+      doc.text(`Scan to pay ${money(section.pendingAmount)} by UPI`, 54, yPos + 8);
+      doc.setFontSize(9);
+      doc.text(`to ${section.paymentQr.vpa}`, 54, yPos + 14);
+      yPos += 45;
+    }
+  });
+
+  return doc;
+};
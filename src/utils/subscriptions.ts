@@ -0,0 +1,44 @@
+import { OrderItem, Product, ProductPrice, Subscription } from '../types';
+import { resolvePrice } from './pricing';
+
+export const weekdayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Checks whether a subscription should deliver on the given date.
+ * Dates are 'YYYY-MM-DD' strings, so they compare correctly as plain strings.
+ */
+export const isSubscriptionActiveOn = (subscription: Subscription, date: string): boolean => {
+  if (date < subscription.start_date) return false;
+  if (subscription.end_date && date > subscription.end_date) return false;
+
+  const weekday = new Date(date).getUTCDay();
+  if (!subscription.weekdays.includes(weekday)) return false;
+
+  return !subscription.pause_ranges.some(range => date >= range.start && date <= range.end);
+};
+
+/**
+ * Builds order items for a subscription, priced as of the delivery date.
+ * Items whose product no longer exists or with no quantity are skipped.
+ */
+export const buildSubscriptionOrderItems = (
+  subscription: Subscription,
+  products: Product[],
+  productPrices: ProductPrice[],
+  date: string,
+): OrderItem[] => {
+  return subscription.items.reduce((acc, item) => {
+    const product = products.find(p => p.id === item.product_id);
+    if (!product || item.quantity <= 0) return acc;
+    const price = resolvePrice(product, productPrices, date, subscription.customer_id);
+    acc.push({
+      product_id: product.id,
+      product_name: product.name,
+      quantity: item.quantity,
+      unit: product.unit,
+      price,
+      total: item.quantity * price,
+    });
+    return acc;
+  }, [] as OrderItem[]);
+};
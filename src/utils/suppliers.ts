@@ -0,0 +1,31 @@
+import { Purchase } from '../types';
+import { roundMoney } from './ledger';
+
+export interface SupplierLedgerSummary {
+  totalPurchased: number;
+  paid: number;
+  unpaid: number;
+}
+
+export const getSupplierPurchases = (supplierId: string, purchases: Purchase[]): Purchase[] => {
+  return purchases
+    .filter(purchase => purchase.supplier_id === supplierId)
+    .sort((a, b) => b.date.localeCompare(a.date) || b.created_at.localeCompare(a.created_at));
+};
+
+/** What has been bought from a supplier and how much of it is still owed. */
+export const getSupplierLedgerSummary = (supplierId: string, purchases: Purchase[]): SupplierLedgerSummary => {
+  const summary = purchases
+    .filter(purchase => purchase.supplier_id === supplierId)
+    .reduce((acc, purchase) => {
+      acc.totalPurchased += purchase.total;
+      if (purchase.is_paid) acc.paid += purchase.total;
+      return acc;
+    }, { totalPurchased: 0, paid: 0 });
+
+  return {
+    totalPurchased: roundMoney(summary.totalPurchased),
+    paid: roundMoney(summary.paid),
+    unpaid: roundMoney(summary.totalPurchased - summary.paid),
+  };
+};
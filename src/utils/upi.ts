@@ -0,0 +1,27 @@
+import QRCode from 'qrcode';
+import { UpiSettings } from '../types';
+
+// name@handle, as issued by UPI apps and banks.
+const VPA_PATTERN = /^[a-zA-Z0-9.\-_]{2,256}@[a-zA-Z][a-zA-Z0-9.-]{1,64}$/;
+
+export const isValidVpa = (vpa: string): boolean => VPA_PATTERN.test(vpa.trim());
+
+/**
+ * Builds a UPI intent link (the format inside UPI QR codes). Any UPI app that scans
+ * it opens a payment to `vpa` with the amount and note filled in.
+ */
+export const buildUpiUri = (settings: UpiSettings, amount: number, note: string): string => {
+  const params = [
+    // The VPA is left unescaped: some UPI apps do not decode '%40' back to '@'.
+    `pa=${settings.vpa.trim()}`,
+    `pn=${encodeURIComponent(settings.payee_name.trim())}`,
+    `am=${amount.toFixed(2)}`,
+    `tn=${encodeURIComponent(note.slice(0, 80))}`,
+    'cu=INR',
+  ];
+  return `upi://pay?${params.join('&')}`;
+};
+
+/** Renders a UPI payment QR code as a PNG data URL, entirely in the browser. */
+export const createUpiQrDataUrl = (settings: UpiSettings, amount: number, note: string): Promise<string> =>
+  QRCode.toDataURL(buildUpiUri(settings, amount, note), { errorCorrectionLevel: 'M', margin: 1, width: 320 });
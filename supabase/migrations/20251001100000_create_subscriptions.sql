@@ -0,0 +1,51 @@
+/*
+# [Operation Name]
+Create Subscriptions Table
+
+[Description of what this operation does]
+This migration adds a `subscriptions` table that stores the recurring order of a customer: the items and quantities they take, the weekdays they take them on, the period the subscription is valid for and any pause ranges (holidays, travel). The Orders page uses these rows to generate the day's pending orders in one action.
+
+## Query Description:
+This operation only creates a new table and its security policies. No existing data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Table: `public.subscriptions`
+- Columns: `id`, `user_id`, `customer_id`, `items` (JSONB), `weekdays` (SMALLINT[]), `start_date`, `end_date`, `pause_ranges` (JSONB), `created_at`
+- Foreign Keys: `user_id` references `auth.users.id`, `customer_id` references `public.customers.id`
+- Constraints: one subscription per customer.
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes, adds user-specific policies for the new table.
+- Auth Requirements: Policies are based on 'auth.uid()'.
+
+## Performance Impact:
+- Indexes: Primary key on `id`, unique index on `customer_id`.
+- Triggers: None
+- Estimated Impact: Low.
+*/
+
+CREATE TABLE public.subscriptions (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+    customer_id UUID NOT NULL UNIQUE REFERENCES public.customers ON DELETE CASCADE,
+    items JSONB NOT NULL DEFAULT '[]'::jsonb,
+    weekdays SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+    start_date DATE NOT NULL,
+    end_date DATE,
+    pause_ranges JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT subscriptions_date_range_check CHECK (end_date IS NULL OR end_date >= start_date)
+);
+ALTER TABLE public.subscriptions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own subscriptions." ON public.subscriptions FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can add their own subscriptions." ON public.subscriptions FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own subscriptions." ON public.subscriptions FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own subscriptions." ON public.subscriptions FOR DELETE USING (auth.uid() = user_id);
+COMMENT ON TABLE public.subscriptions IS 'Stores the recurring daily order of each customer.';
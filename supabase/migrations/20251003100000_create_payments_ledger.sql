@@ -0,0 +1,87 @@
+/*
+# [Operation Name]
+Create Payments Ledger
+
+[Description of what this operation does]
+This migration introduces a first-class record of money received. Each row in `payments` is one collection from a customer (date, amount, method and an optional note). Rows in `payment_allocations` record how much of a payment settles which daily order. Any part of a payment that is not allocated is the customer's advance (credit) balance.
+
+Existing `daily_orders.amount_paid` values are copied into the ledger as one payment per order, so historical balances are preserved. Overpayments on an order become unallocated credit instead of being counted against that order. The `amount_paid` column is kept for reference but is no longer read by the application.
+
+## Query Description:
+This operation creates two new tables and backfills them from existing orders. No existing data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Data"
+- Impact-Level: "Medium"
+- Requires-Backup: true
+- Reversible: true
+
+## Structure Details:
+- Tables: `public.payments`, `public.payment_allocations`
+- Foreign Keys: `payments.customer_id` references `public.customers.id`, `payment_allocations.payment_id` references `public.payments.id`, `payment_allocations.order_id` references `public.daily_orders.id`
+- Constraints: amounts must be positive, method must be one of 'cash', 'upi', 'bank'.
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes, adds user-specific policies for the new tables.
+- Auth Requirements: Policies are based on 'auth.uid()'.
+
+## Performance Impact:
+- Indexes: Adds indexes on `payments.customer_id`, `payment_allocations.payment_id` and `payment_allocations.order_id`.
+- Triggers: None
+- Estimated Impact: Low. The backfill reads every order once.
+*/
+
+-- 1. PAYMENTS TABLE
+CREATE TABLE public.payments (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES public.customers ON DELETE CASCADE,
+    date DATE NOT NULL,
+    amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+    method TEXT NOT NULL DEFAULT 'cash' CHECK (method IN ('cash', 'upi', 'bank')),
+    note TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX payments_customer_id_idx ON public.payments (customer_id);
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own payments." ON public.payments FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can add their own payments." ON public.payments FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own payments." ON public.payments FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own payments." ON public.payments FOR DELETE USING (auth.uid() = user_id);
+COMMENT ON TABLE public.payments IS 'Stores every payment received from a customer.';
+
+-- 2. PAYMENT ALLOCATIONS TABLE
+CREATE TABLE public.payment_allocations (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+    payment_id UUID NOT NULL REFERENCES public.payments ON DELETE CASCADE,
+    order_id UUID NOT NULL REFERENCES public.daily_orders ON DELETE CASCADE,
+    amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX payment_allocations_payment_id_idx ON public.payment_allocations (payment_id);
+CREATE INDEX payment_allocations_order_id_idx ON public.payment_allocations (order_id);
+ALTER TABLE public.payment_allocations ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own payment allocations." ON public.payment_allocations FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can add their own payment allocations." ON public.payment_allocations FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own payment allocations." ON public.payment_allocations FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own payment allocations." ON public.payment_allocations FOR DELETE USING (auth.uid() = user_id);
+COMMENT ON TABLE public.payment_allocations IS 'Links part of a payment to the daily order it settles.';
+
+-- 3. BACKFILL FROM daily_orders.amount_paid
+-- One payment per paid order; the allocation is capped at the order total so overpayments become credit.
+WITH migrated AS (
+    INSERT INTO public.payments (user_id, customer_id, date, amount, method, note, created_at)
+    SELECT user_id, customer_id, date, amount_paid, 'cash', 'migrated:' || id::text, created_at
+    FROM public.daily_orders
+    WHERE amount_paid > 0
+    RETURNING id, user_id, note, amount
+)
+INSERT INTO public.payment_allocations (user_id, payment_id, order_id, amount)
+SELECT m.user_id, m.id, o.id, LEAST(m.amount, o.total_amount)
+FROM migrated m
+JOIN public.daily_orders o ON o.id::text = substring(m.note FROM 10)
+WHERE o.total_amount > 0;
+
+UPDATE public.payments SET note = 'Migrated from order' WHERE note LIKE 'migrated:%';
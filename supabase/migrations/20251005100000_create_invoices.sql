@@ -0,0 +1,93 @@
+/*
+# [Operation Name]
+Create GST Invoices
+
+[Description of what this operation does]
+This migration adds what is needed to issue numbered tax invoices. Products gain an HSN code and a GST rate. Issued invoices are stored in `invoices` together with a snapshot of the seller, the buyer and every line, so an invoice can be downloaded again exactly as it was issued. Invoice numbers run sequentially per financial year (April to March) and are handed out by `next_invoice_sequence`, which increments a per-user counter atomically. A unique constraint guarantees that a number is never issued twice.
+
+## Query Description:
+This operation adds two nullable/defaulted columns to `products` and creates new tables and a function. No existing data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Columns added: `products.hsn_code`, `products.gst_rate`
+- Tables: `public.invoice_counters`, `public.invoices`
+- Functions: `public.next_invoice_sequence(text)`
+- Constraints: unique (`user_id`, `financial_year`, `sequence`) on `invoices`.
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes, adds user-specific policies for the new tables.
+- Auth Requirements: Policies are based on 'auth.uid()'. The function only touches the caller's own counter.
+
+## Performance Impact:
+- Indexes: Primary keys, the unique constraint above and an index on `invoices.customer_id`.
+- Triggers: None
+- Estimated Impact: Low.
+*/
+
+-- 1. PRODUCT TAX DETAILS
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS hsn_code TEXT,
+ADD COLUMN IF NOT EXISTS gst_rate NUMERIC(5, 2) NOT NULL DEFAULT 0;
+
+-- 2. INVOICE COUNTERS
+CREATE TABLE public.invoice_counters (
+    user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+    financial_year TEXT NOT NULL,
+    last_sequence INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (user_id, financial_year)
+);
+ALTER TABLE public.invoice_counters ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own invoice counters." ON public.invoice_counters FOR SELECT USING (auth.uid() = user_id);
+COMMENT ON TABLE public.invoice_counters IS 'Last invoice sequence issued per user and financial year.';
+
+-- 3. NEXT INVOICE SEQUENCE FUNCTION
+-- Numbers are consumed even if the invoice insert later fails, leaving a gap rather than a duplicate.
+CREATE OR REPLACE FUNCTION public.next_invoice_sequence(p_financial_year TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_sequence INTEGER;
+BEGIN
+  INSERT INTO public.invoice_counters (user_id, financial_year, last_sequence)
+  VALUES (auth.uid(), p_financial_year, 1)
+  ON CONFLICT (user_id, financial_year)
+  DO UPDATE SET last_sequence = public.invoice_counters.last_sequence + 1
+  RETURNING last_sequence INTO v_sequence;
+  RETURN v_sequence;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+COMMENT ON FUNCTION public.next_invoice_sequence(TEXT) IS 'Atomically reserves the next invoice sequence for the calling user.';
+
+-- 4. INVOICES TABLE
+CREATE TABLE public.invoices (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+    customer_id UUID REFERENCES public.customers ON DELETE SET NULL,
+    invoice_number TEXT NOT NULL,
+    financial_year TEXT NOT NULL,
+    sequence INTEGER NOT NULL,
+    invoice_date DATE NOT NULL,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    seller JSONB NOT NULL,
+    buyer JSONB NOT NULL,
+    lines JSONB NOT NULL,
+    taxable_value NUMERIC(12, 2) NOT NULL,
+    cgst NUMERIC(12, 2) NOT NULL,
+    sgst NUMERIC(12, 2) NOT NULL,
+    round_off NUMERIC(12, 2) NOT NULL,
+    total NUMERIC(12, 2) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT invoices_number_unique UNIQUE (user_id, financial_year, sequence)
+);
+CREATE INDEX invoices_customer_id_idx ON public.invoices (customer_id);
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own invoices." ON public.invoices FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can add their own invoices." ON public.invoices FOR INSERT WITH CHECK (auth.uid() = user_id);
+COMMENT ON TABLE public.invoices IS 'Issued tax invoices. Rows are never updated or deleted so numbers are not reused.';
@@ -0,0 +1,49 @@
+/*
+# [Operation Name]
+Create Product Price History
+
+[Description of what this operation does]
+This migration adds effective-dated prices for products. A row in `product_prices` sets the price of a product from `effective_from` onwards, until a later row for the same product takes over. Rows with a `customer_id` are special rates for that customer and take precedence over the general price list. Before the first general row, the product's own `price` column applies, so existing products keep their current price for all past dates.
+
+## Query Description:
+This operation creates a new table. No existing data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Tables: `public.product_prices`
+- Foreign Keys: `product_id` references `public.products.id`, `customer_id` references `public.customers.id`
+- Constraints: price must not be negative; one price per product, customer and effective date.
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes, adds user-specific policies for the new table.
+- Auth Requirements: Policies are based on 'auth.uid()'.
+
+## Performance Impact:
+- Indexes: Adds a unique index on (`product_id`, `customer_id`, `effective_from`).
+- Triggers: None
+- Estimated Impact: Low.
+*/
+
+CREATE TABLE public.product_prices (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES public.products ON DELETE CASCADE,
+    customer_id UUID REFERENCES public.customers ON DELETE CASCADE,
+    price NUMERIC(10, 2) NOT NULL CHECK (price >= 0),
+    effective_from DATE NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+-- General prices have no customer, so NULL is folded into a fixed value to keep them unique too.
+CREATE UNIQUE INDEX product_prices_unique_idx ON public.product_prices (product_id, COALESCE(customer_id, '00000000-0000-0000-0000-000000000000'::uuid), effective_from);
+ALTER TABLE public.product_prices ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own product prices." ON public.product_prices FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can add their own product prices." ON public.product_prices FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own product prices." ON public.product_prices FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own product prices." ON public.product_prices FOR DELETE USING (auth.uid() = user_id);
+COMMENT ON TABLE public.product_prices IS 'Effective-dated product prices, optionally specific to one customer.';
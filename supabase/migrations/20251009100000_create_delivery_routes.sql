@@ -0,0 +1,63 @@
+/*
+# [Operation Name]
+Create Delivery Routes
+
+[Description of what this operation does]
+This migration adds delivery routes. A route has a name and the person who delivers it. `route_stops` holds the customers on a route and the order in which they are visited. A customer can be on at most one route.
+
+## Query Description:
+This operation creates two new tables. No existing data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Tables: `public.routes`, `public.route_stops`
+- Foreign Keys: `route_stops.route_id` references `public.routes.id`, `route_stops.customer_id` references `public.customers.id`
+- Constraints: `route_stops.customer_id` is unique.
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes, adds user-specific policies for the new tables.
+- Auth Requirements: Policies are based on 'auth.uid()'.
+
+## Performance Impact:
+- Indexes: Adds an index on `route_stops.route_id`.
+- Triggers: None
+- Estimated Impact: Low.
+*/
+
+-- 1. ROUTES TABLE
+CREATE TABLE public.routes (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    delivery_person TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+ALTER TABLE public.routes ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own routes." ON public.routes FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can add their own routes." ON public.routes FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own routes." ON public.routes FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own routes." ON public.routes FOR DELETE USING (auth.uid() = user_id);
+COMMENT ON TABLE public.routes IS 'Named delivery routes and who delivers them.';
+
+-- 2. ROUTE STOPS TABLE
+CREATE TABLE public.route_stops (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+    route_id UUID NOT NULL REFERENCES public.routes ON DELETE CASCADE,
+    customer_id UUID NOT NULL UNIQUE REFERENCES public.customers ON DELETE CASCADE,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX route_stops_route_id_idx ON public.route_stops (route_id);
+ALTER TABLE public.route_stops ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own route stops." ON public.route_stops FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can add their own route stops." ON public.route_stops FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own route stops." ON public.route_stops FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own route stops." ON public.route_stops FOR DELETE USING (auth.uid() = user_id);
+COMMENT ON TABLE public.route_stops IS 'Customers on a delivery route, in visiting order.';
@@ -0,0 +1,39 @@
+/*
+# [Operation Name]
+Add Delivery Confirmation to Daily Orders
+
+[Description of what this operation does]
+This migration lets staff record how each order was delivered. `status` can now be 'pending', 'delivered', 'partial' or 'skipped'. `delivered_at` is the time the delivery was confirmed, `shortfall` lists the quantities that could not be delivered on a partial delivery, and `skip_reason` explains a skipped delivery.
+
+## Query Description:
+This operation adds columns and a check constraint to `daily_orders`. Any existing status outside the allowed values is reset to 'pending' first. No other data is changed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Table: `public.daily_orders`
+- Columns added: `delivered_at`, `shortfall`, `skip_reason`
+- Constraints: `daily_orders_status_check`
+
+## Security Implications:
+- RLS Status: Unchanged
+- Policy Changes: No
+- Auth Requirements: None
+
+## Performance Impact:
+- Indexes: None
+- Triggers: None
+- Estimated Impact: Low.
+*/
+
+UPDATE public.daily_orders SET status = 'pending' WHERE status NOT IN ('pending', 'delivered', 'partial', 'skipped');
+
+ALTER TABLE public.daily_orders
+ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS shortfall JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN IF NOT EXISTS skip_reason TEXT,
+ADD CONSTRAINT daily_orders_status_check CHECK (status IN ('pending', 'delivered', 'partial', 'skipped'));
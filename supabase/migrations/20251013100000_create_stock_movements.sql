@@ -0,0 +1,50 @@
+/*
+# [Operation Name]
+Create Stock Movements
+
+[Description of what this operation does]
+This migration adds stock tracking. Each row in `stock_movements` is a manual stock entry for a product on a date: stock received from the dairy or a supplier ('in'), stock thrown away ('wastage') or stock returned by customers ('return'). Quantities are stored in the unit they were entered in. Stock sold is not stored here; it is derived from the items of daily orders.
+
+## Query Description:
+This operation creates a new table. No existing data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Tables: `public.stock_movements`
+- Foreign Keys: `product_id` references `public.products.id`
+- Constraints: quantity must be positive, type must be one of 'in', 'wastage', 'return'.
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes, adds user-specific policies for the new table.
+- Auth Requirements: Policies are based on 'auth.uid()'.
+
+## Performance Impact:
+- Indexes: Adds an index on (`product_id`, `date`).
+- Triggers: None
+- Estimated Impact: Low.
+*/
+
+CREATE TABLE public.stock_movements (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES public.products ON DELETE CASCADE,
+    date DATE NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('in', 'wastage', 'return')),
+    quantity NUMERIC(12, 3) NOT NULL CHECK (quantity > 0),
+    unit TEXT NOT NULL,
+    note TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX stock_movements_product_date_idx ON public.stock_movements (product_id, date);
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own stock movements." ON public.stock_movements FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can add their own stock movements." ON public.stock_movements FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own stock movements." ON public.stock_movements FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own stock movements." ON public.stock_movements FOR DELETE USING (auth.uid() = user_id);
+COMMENT ON TABLE public.stock_movements IS 'Manual stock entries: stock in, wastage and customer returns.';
@@ -0,0 +1,71 @@
+/*
+# [Operation Name]
+Create Suppliers and Purchases
+
+[Description of what this operation does]
+This migration records what the business buys. `suppliers` holds the collection centres and dairies products are bought from. Each row in `purchases` is one purchase of a product from a supplier: quantity and unit, cost rate per unit, total cost and whether it has been paid. Purchases also count as stock received in the inventory reconciliation, and their cost is used for profit reporting.
+
+## Query Description:
+This operation creates two new tables. No existing data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Tables: `public.suppliers`, `public.purchases`
+- Foreign Keys: `purchases.supplier_id` references `public.suppliers.id`, `purchases.product_id` references `public.products.id`
+- Constraints: quantity must be positive; rate and total must not be negative.
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes, adds user-specific policies for the new tables.
+- Auth Requirements: Policies are based on 'auth.uid()'.
+
+## Performance Impact:
+- Indexes: Adds indexes on `purchases.supplier_id` and (`purchases.product_id`, `purchases.date`).
+- Triggers: None
+- Estimated Impact: Low.
+*/
+
+-- 1. SUPPLIERS TABLE
+CREATE TABLE public.suppliers (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    contact_number TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own suppliers." ON public.suppliers FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can add their own suppliers." ON public.suppliers FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own suppliers." ON public.suppliers FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own suppliers." ON public.suppliers FOR DELETE USING (auth.uid() = user_id);
+COMMENT ON TABLE public.suppliers IS 'Collection centres and dairies products are bought from.';
+
+-- 2. PURCHASES TABLE
+CREATE TABLE public.purchases (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+    supplier_id UUID NOT NULL REFERENCES public.suppliers ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES public.products ON DELETE CASCADE,
+    date DATE NOT NULL,
+    quantity NUMERIC(12, 3) NOT NULL CHECK (quantity > 0),
+    unit TEXT NOT NULL,
+    rate NUMERIC(10, 2) NOT NULL CHECK (rate >= 0),
+    total NUMERIC(12, 2) NOT NULL CHECK (total >= 0),
+    is_paid BOOLEAN NOT NULL DEFAULT FALSE,
+    paid_on DATE,
+    note TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX purchases_supplier_id_idx ON public.purchases (supplier_id);
+CREATE INDEX purchases_product_date_idx ON public.purchases (product_id, date);
+ALTER TABLE public.purchases ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own purchases." ON public.purchases FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can add their own purchases." ON public.purchases FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own purchases." ON public.purchases FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own purchases." ON public.purchases FOR DELETE USING (auth.uid() = user_id);
+COMMENT ON TABLE public.purchases IS 'Products bought from suppliers, with cost and payment state.';
@@ -0,0 +1,101 @@
+/*
+# [Operation Name]
+Create Customer Share Links and Portal Function
+
+[Description of what this operation does]
+This migration lets the owner share a read-only statement with one customer. Each row in `customer_share_links` holds an unguessable random token for a single customer, with an expiry time and an optional revocation time.
+
+The link is opened without signing in, so the anonymous role is given no access to any table. Instead, `get_customer_portal(token)` runs as the table owner and checks that the token exists, has not expired and has not been revoked. It then returns only that customer's name, daily orders, payments and payment allocations. Owner ids, other customers and every other table stay out of reach.
+
+## Query Description:
+This operation creates one new table and one function. No existing data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Medium"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Tables: `public.customer_share_links`
+- Functions: `public.get_customer_portal(TEXT)`
+- Foreign Keys: `customer_share_links.customer_id` references `public.customers.id`
+- Constraints: tokens are unique.
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes, adds user-specific policies for the new table. Links can be created, viewed and revoked (updated) by their owner, never deleted, so that revoked links keep a record.
+- Auth Requirements: Policies are based on 'auth.uid()'. The portal function is executable by the `anon` role and is the only thing a share link grants access to.
+
+## Performance Impact:
+- Indexes: The unique constraint indexes `token`; adds an index on `customer_share_links.customer_id`.
+- Triggers: None
+- Estimated Impact: Low.
+*/
+
+-- 1. CUSTOMER SHARE LINKS TABLE
+CREATE TABLE public.customer_share_links (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES public.customers ON DELETE CASCADE,
+    token TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT customer_share_links_token_unique UNIQUE (token)
+);
+CREATE INDEX customer_share_links_customer_id_idx ON public.customer_share_links (customer_id);
+ALTER TABLE public.customer_share_links ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own customer share links." ON public.customer_share_links FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can add their own customer share links." ON public.customer_share_links FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own customer share links." ON public.customer_share_links FOR UPDATE USING (auth.uid() = user_id);
+COMMENT ON TABLE public.customer_share_links IS 'Expiring read-only links that show one customer their own statement.';
+
+-- 2. PORTAL FUNCTION
+CREATE OR REPLACE FUNCTION public.get_customer_portal(p_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_link public.customer_share_links%ROWTYPE;
+BEGIN
+  SELECT * INTO v_link
+  FROM public.customer_share_links
+  WHERE token = p_token AND revoked_at IS NULL AND expires_at > NOW();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This link is invalid or has expired.' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'customer_name', (
+      SELECT c.name FROM public.customers c
+      WHERE c.id = v_link.customer_id AND c.user_id = v_link.user_id
+    ),
+    'expires_at', v_link.expires_at,
+    'orders', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', o.id, 'date', o.date, 'items', o.items, 'total_amount', o.total_amount, 'status', o.status
+      ) ORDER BY o.date)
+      FROM public.daily_orders o
+      WHERE o.customer_id = v_link.customer_id AND o.user_id = v_link.user_id
+    ), '[]'::jsonb),
+    'payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', p.id, 'date', p.date, 'amount', p.amount, 'method', p.method
+      ) ORDER BY p.date)
+      FROM public.payments p
+      WHERE p.customer_id = v_link.customer_id AND p.user_id = v_link.user_id
+    ), '[]'::jsonb),
+    'allocations', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payment_id', a.payment_id, 'order_id', a.order_id, 'amount', a.amount
+      ))
+      FROM public.payment_allocations a
+      JOIN public.daily_orders o ON o.id = a.order_id
+      WHERE o.customer_id = v_link.customer_id AND a.user_id = v_link.user_id
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = 'public';
+REVOKE ALL ON FUNCTION public.get_customer_portal(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_customer_portal(TEXT) TO anon, authenticated;
+COMMENT ON FUNCTION public.get_customer_portal(TEXT) IS 'Returns one customer''s statement data for a valid, unexpired share link.';
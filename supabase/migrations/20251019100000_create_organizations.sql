@@ -0,0 +1,330 @@
+/*
+# [Operation Name]
+Create Organizations, Memberships and Role-Based Access
+
+[Description of what this operation does]
+This migration lets several people work on one dairy's data. An `organization` owns all business data. `organization_members` links each user to exactly one organization with a role:
+- `owner`: full access, including products, prices, routes and the team.
+- `accountant`: customers, subscriptions, payments, invoices, suppliers and purchases.
+- `staff`: records orders, deliveries, stock entries and collections.
+
+Every data table gets an `organization_id`, and its RLS policies now check membership and role instead of `auth.uid() = user_id`. The column defaults to the caller's organization, so clients do not send it. `user_id` keeps recording who created the row.
+
+Owners invite people by email in `organization_invites`. `ensure_membership()` runs after each login. It returns the caller's membership. If the caller has none, it accepts a pending invite for their email, or failing that creates a new organization with the caller as owner. Existing accounts are backfilled as the owner of their own organization.
+
+## Query Description:
+This operation rewrites the security policies of every data table and backfills a new column. Existing data is preserved and stays visible to its current owner. Back up the database before applying.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "High"
+- Requires-Backup: true
+- Reversible: false
+
+## Structure Details:
+- Tables: `public.organizations`, `public.organization_members`, `public.organization_invites`
+- Columns: `organization_id` on products, product_prices, customers, daily_orders, subscriptions, payments, payment_allocations, invoice_counters, invoices, routes, route_stops, stock_movements, suppliers, purchases, customer_share_links
+- Functions: `public.current_organization_id()`, `public.has_org_role(UUID, TEXT[])`, `public.ensure_membership()`. `public.next_invoice_sequence(TEXT)` and `public.get_customer_portal(TEXT)` are redefined per organization.
+- Constraints: a user belongs to one organization; invoice numbers are unique per organization.
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes, all data table policies are replaced with membership and role checks.
+- Auth Requirements: Policies are based on 'auth.uid()' through `has_org_role`.
+
+## Performance Impact:
+- Indexes: Adds an index on `organization_id` for each data table.
+- Triggers: None
+- Estimated Impact: Medium while backfilling; policy checks are a primary key lookup.
+*/
+
+-- 1. ORGANIZATIONS AND MEMBERS
+CREATE TABLE public.organizations (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_by UUID REFERENCES auth.users ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+COMMENT ON TABLE public.organizations IS 'A dairy business whose data is shared by its members.';
+
+CREATE TABLE public.organization_members (
+    organization_id UUID NOT NULL REFERENCES public.organizations ON DELETE CASCADE,
+    user_id UUID NOT NULL UNIQUE REFERENCES auth.users ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('owner', 'accountant', 'staff')),
+    email TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (organization_id, user_id)
+);
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+COMMENT ON TABLE public.organization_members IS 'Which organization each user works in, and their role there.';
+
+CREATE TABLE public.organization_invites (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    organization_id UUID NOT NULL REFERENCES public.organizations ON DELETE CASCADE,
+    email TEXT NOT NULL CHECK (email = lower(email)),
+    role TEXT NOT NULL CHECK (role IN ('owner', 'accountant', 'staff')),
+    invited_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users ON DELETE CASCADE,
+    accepted_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT organization_invites_email_unique UNIQUE (organization_id, email)
+);
+CREATE INDEX organization_invites_email_idx ON public.organization_invites (email);
+ALTER TABLE public.organization_invites ENABLE ROW LEVEL SECURITY;
+COMMENT ON TABLE public.organization_invites IS 'Emails invited to join an organization, accepted on their first login.';
+
+-- 2. MEMBERSHIP HELPERS
+-- SECURITY DEFINER so policies can read memberships without recursing into their own RLS.
+CREATE OR REPLACE FUNCTION public.current_organization_id()
+RETURNS UUID AS $$
+  SELECT organization_id FROM public.organization_members WHERE user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = 'public';
+COMMENT ON FUNCTION public.current_organization_id() IS 'The organization of the calling user, used as the default for organization_id columns.';
+
+CREATE OR REPLACE FUNCTION public.has_org_role(p_organization_id UUID, p_roles TEXT[] DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND (p_roles IS NULL OR role = ANY (p_roles))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = 'public';
+COMMENT ON FUNCTION public.has_org_role(UUID, TEXT[]) IS 'True when the caller is a member of the organization, optionally with one of the given roles.';
+
+CREATE POLICY "Members can view their organization." ON public.organizations FOR SELECT USING (public.has_org_role(id));
+CREATE POLICY "Owners can update their organization." ON public.organizations FOR UPDATE USING (public.has_org_role(id, ARRAY['owner']));
+
+-- Owners cannot change or remove their own membership, so an organization always keeps an owner.
+CREATE POLICY "Members can view their organization's members." ON public.organization_members FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Owners can update other members." ON public.organization_members FOR UPDATE USING (public.has_org_role(organization_id, ARRAY['owner']) AND user_id <> auth.uid());
+CREATE POLICY "Owners can remove other members." ON public.organization_members FOR DELETE USING (public.has_org_role(organization_id, ARRAY['owner']) AND user_id <> auth.uid());
+
+CREATE POLICY "Owners can view their organization's invites." ON public.organization_invites FOR SELECT USING (public.has_org_role(organization_id, ARRAY['owner']));
+CREATE POLICY "Owners can add invites." ON public.organization_invites FOR INSERT WITH CHECK (public.has_org_role(organization_id, ARRAY['owner']));
+CREATE POLICY "Owners can delete invites." ON public.organization_invites FOR DELETE USING (public.has_org_role(organization_id, ARRAY['owner']));
+
+-- 3. BACKFILL: EVERY EXISTING ACCOUNT OWNS ITS OWN ORGANIZATION
+INSERT INTO public.organizations (name, created_by)
+SELECT COALESCE(NULLIF(p.username, ''), u.email, 'My Dairy'), u.id
+FROM auth.users u
+LEFT JOIN public.profiles p ON p.id = u.id;
+
+INSERT INTO public.organization_members (organization_id, user_id, role, email)
+SELECT o.id, o.created_by, 'owner', lower(COALESCE(u.email, ''))
+FROM public.organizations o
+JOIN auth.users u ON u.id = o.created_by;
+
+-- 4. ORGANIZATION COLUMN ON EVERY DATA TABLE
+DO $$
+DECLARE
+  v_table TEXT;
+  v_policy RECORD;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'products', 'product_prices', 'customers', 'daily_orders', 'subscriptions', 'payments',
+    'payment_allocations', 'invoice_counters', 'invoices', 'routes', 'route_stops',
+    'stock_movements', 'suppliers', 'purchases', 'customer_share_links'
+  ] LOOP
+    EXECUTE format('ALTER TABLE public.%I ADD COLUMN organization_id UUID REFERENCES public.organizations ON DELETE CASCADE', v_table);
+    EXECUTE format('UPDATE public.%I t SET organization_id = m.organization_id FROM public.organization_members m WHERE m.user_id = t.user_id', v_table);
+    EXECUTE format('ALTER TABLE public.%I ALTER COLUMN organization_id SET NOT NULL', v_table);
+    EXECUTE format('ALTER TABLE public.%I ALTER COLUMN organization_id SET DEFAULT public.current_organization_id()', v_table);
+    EXECUTE format('CREATE INDEX %I ON public.%I (organization_id)', v_table || '_organization_id_idx', v_table);
+
+    -- The old per-user policies are replaced below.
+    FOR v_policy IN SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = v_table LOOP
+      EXECUTE format('DROP POLICY %I ON public.%I', v_policy.policyname, v_table);
+    END LOOP;
+  END LOOP;
+END $$;
+
+-- 5. ROLE-BASED POLICIES
+-- Products, prices and routes: owner only.
+CREATE POLICY "Members can view products." ON public.products FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Owners can add products." ON public.products FOR INSERT WITH CHECK (public.has_org_role(organization_id, ARRAY['owner']));
+CREATE POLICY "Owners can update products." ON public.products FOR UPDATE USING (public.has_org_role(organization_id, ARRAY['owner']));
+CREATE POLICY "Owners can delete products." ON public.products FOR DELETE USING (public.has_org_role(organization_id, ARRAY['owner']));
+
+CREATE POLICY "Members can view product prices." ON public.product_prices FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Owners can add product prices." ON public.product_prices FOR INSERT WITH CHECK (public.has_org_role(organization_id, ARRAY['owner']));
+CREATE POLICY "Owners can update product prices." ON public.product_prices FOR UPDATE USING (public.has_org_role(organization_id, ARRAY['owner']));
+CREATE POLICY "Owners can delete product prices." ON public.product_prices FOR DELETE USING (public.has_org_role(organization_id, ARRAY['owner']));
+
+CREATE POLICY "Members can view routes." ON public.routes FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Owners can add routes." ON public.routes FOR INSERT WITH CHECK (public.has_org_role(organization_id, ARRAY['owner']));
+CREATE POLICY "Owners can update routes." ON public.routes FOR UPDATE USING (public.has_org_role(organization_id, ARRAY['owner']));
+CREATE POLICY "Owners can delete routes." ON public.routes FOR DELETE USING (public.has_org_role(organization_id, ARRAY['owner']));
+
+CREATE POLICY "Members can view route stops." ON public.route_stops FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Owners can add route stops." ON public.route_stops FOR INSERT WITH CHECK (public.has_org_role(organization_id, ARRAY['owner']));
+CREATE POLICY "Owners can update route stops." ON public.route_stops FOR UPDATE USING (public.has_org_role(organization_id, ARRAY['owner']));
+CREATE POLICY "Owners can delete route stops." ON public.route_stops FOR DELETE USING (public.has_org_role(organization_id, ARRAY['owner']));
+
+-- Customers and subscriptions: owners and accountants; only owners delete customers.
+CREATE POLICY "Members can view customers." ON public.customers FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Owners and accountants can add customers." ON public.customers FOR INSERT WITH CHECK (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+CREATE POLICY "Owners and accountants can update customers." ON public.customers FOR UPDATE USING (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+CREATE POLICY "Owners can delete customers." ON public.customers FOR DELETE USING (public.has_org_role(organization_id, ARRAY['owner']));
+
+CREATE POLICY "Members can view subscriptions." ON public.subscriptions FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Owners and accountants can add subscriptions." ON public.subscriptions FOR INSERT WITH CHECK (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+CREATE POLICY "Owners and accountants can update subscriptions." ON public.subscriptions FOR UPDATE USING (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+CREATE POLICY "Owners and accountants can delete subscriptions." ON public.subscriptions FOR DELETE USING (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+
+-- Orders: every member. Editing an order replaces it, so staff need delete as well.
+CREATE POLICY "Members can view orders." ON public.daily_orders FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Members can add orders." ON public.daily_orders FOR INSERT WITH CHECK (public.has_org_role(organization_id));
+CREATE POLICY "Members can update orders." ON public.daily_orders FOR UPDATE USING (public.has_org_role(organization_id));
+CREATE POLICY "Members can delete orders." ON public.daily_orders FOR DELETE USING (public.has_org_role(organization_id));
+
+-- Payments: every member can record a collection; owners and accountants correct them.
+CREATE POLICY "Members can view payments." ON public.payments FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Members can add payments." ON public.payments FOR INSERT WITH CHECK (public.has_org_role(organization_id));
+CREATE POLICY "Owners and accountants can update payments." ON public.payments FOR UPDATE USING (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+CREATE POLICY "Owners and accountants can delete payments." ON public.payments FOR DELETE USING (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+
+CREATE POLICY "Members can view payment allocations." ON public.payment_allocations FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Members can add payment allocations." ON public.payment_allocations FOR INSERT WITH CHECK (public.has_org_role(organization_id));
+CREATE POLICY "Owners and accountants can update payment allocations." ON public.payment_allocations FOR UPDATE USING (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+CREATE POLICY "Owners and accountants can delete payment allocations." ON public.payment_allocations FOR DELETE USING (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+
+-- Invoices: issued by owners and accountants. Counters are only written by next_invoice_sequence.
+CREATE POLICY "Members can view invoice counters." ON public.invoice_counters FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Members can view invoices." ON public.invoices FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Owners and accountants can add invoices." ON public.invoices FOR INSERT WITH CHECK (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+
+-- Stock: every member records entries; owners remove them.
+CREATE POLICY "Members can view stock movements." ON public.stock_movements FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Members can add stock movements." ON public.stock_movements FOR INSERT WITH CHECK (public.has_org_role(organization_id));
+CREATE POLICY "Owners can update stock movements." ON public.stock_movements FOR UPDATE USING (public.has_org_role(organization_id, ARRAY['owner']));
+CREATE POLICY "Owners can delete stock movements." ON public.stock_movements FOR DELETE USING (public.has_org_role(organization_id, ARRAY['owner']));
+
+-- Suppliers, purchases and share links: owners and accountants.
+CREATE POLICY "Members can view suppliers." ON public.suppliers FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Owners and accountants can add suppliers." ON public.suppliers FOR INSERT WITH CHECK (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+CREATE POLICY "Owners and accountants can update suppliers." ON public.suppliers FOR UPDATE USING (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+CREATE POLICY "Owners and accountants can delete suppliers." ON public.suppliers FOR DELETE USING (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+
+CREATE POLICY "Members can view purchases." ON public.purchases FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Owners and accountants can add purchases." ON public.purchases FOR INSERT WITH CHECK (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+CREATE POLICY "Owners and accountants can update purchases." ON public.purchases FOR UPDATE USING (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+CREATE POLICY "Owners and accountants can delete purchases." ON public.purchases FOR DELETE USING (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+
+CREATE POLICY "Owners and accountants can view customer share links." ON public.customer_share_links FOR SELECT USING (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+CREATE POLICY "Owners and accountants can add customer share links." ON public.customer_share_links FOR INSERT WITH CHECK (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+CREATE POLICY "Owners and accountants can update customer share links." ON public.customer_share_links FOR UPDATE USING (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+
+-- 6. INVOICE NUMBERS PER ORGANIZATION
+ALTER TABLE public.invoice_counters DROP CONSTRAINT invoice_counters_pkey;
+ALTER TABLE public.invoice_counters ADD PRIMARY KEY (organization_id, financial_year);
+ALTER TABLE public.invoices DROP CONSTRAINT invoices_number_unique;
+ALTER TABLE public.invoices ADD CONSTRAINT invoices_number_unique UNIQUE (organization_id, financial_year, sequence);
+
+CREATE OR REPLACE FUNCTION public.next_invoice_sequence(p_financial_year TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_organization_id UUID := public.current_organization_id();
+  v_sequence INTEGER;
+BEGIN
+  IF NOT public.has_org_role(v_organization_id, ARRAY['owner', 'accountant']) THEN
+    RAISE EXCEPTION 'Not allowed to issue invoices' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.invoice_counters (user_id, organization_id, financial_year, last_sequence)
+  VALUES (auth.uid(), v_organization_id, p_financial_year, 1)
+  ON CONFLICT (organization_id, financial_year)
+  DO UPDATE SET last_sequence = public.invoice_counters.last_sequence + 1
+  RETURNING last_sequence INTO v_sequence;
+  RETURN v_sequence;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+COMMENT ON FUNCTION public.next_invoice_sequence(TEXT) IS 'Atomically reserves the next invoice sequence for the caller''s organization.';
+
+-- 7. CUSTOMER PORTAL PER ORGANIZATION
+CREATE OR REPLACE FUNCTION public.get_customer_portal(p_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_link public.customer_share_links%ROWTYPE;
+BEGIN
+  SELECT * INTO v_link
+  FROM public.customer_share_links
+  WHERE token = p_token AND revoked_at IS NULL AND expires_at > NOW();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This link is invalid or has expired.' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'customer_name', (
+      SELECT c.name FROM public.customers c
+      WHERE c.id = v_link.customer_id AND c.organization_id = v_link.organization_id
+    ),
+    'expires_at', v_link.expires_at,
+    'orders', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', o.id, 'date', o.date, 'items', o.items, 'total_amount', o.total_amount, 'status', o.status
+      ) ORDER BY o.date)
+      FROM public.daily_orders o
+      WHERE o.customer_id = v_link.customer_id AND o.organization_id = v_link.organization_id
+    ), '[]'::jsonb),
+    'payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', p.id, 'date', p.date, 'amount', p.amount, 'method', p.method
+      ) ORDER BY p.date)
+      FROM public.payments p
+      WHERE p.customer_id = v_link.customer_id AND p.organization_id = v_link.organization_id
+    ), '[]'::jsonb),
+    'allocations', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payment_id', a.payment_id, 'order_id', a.order_id, 'amount', a.amount
+      ))
+      FROM public.payment_allocations a
+      JOIN public.daily_orders o ON o.id = a.order_id
+      WHERE o.customer_id = v_link.customer_id AND a.organization_id = v_link.organization_id
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = 'public';
+
+-- 8. MEMBERSHIP ON LOGIN
+CREATE OR REPLACE FUNCTION public.ensure_membership()
+RETURNS JSONB AS $$
+DECLARE
+  v_email TEXT := lower(COALESCE(auth.jwt() ->> 'email', ''));
+  v_invite public.organization_invites%ROWTYPE;
+  v_organization_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.organization_members WHERE user_id = auth.uid()) THEN
+    SELECT * INTO v_invite
+    FROM public.organization_invites
+    WHERE email = v_email AND accepted_at IS NULL
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+      INSERT INTO public.organization_members (organization_id, user_id, role, email)
+      VALUES (v_invite.organization_id, auth.uid(), v_invite.role, v_email);
+      UPDATE public.organization_invites SET accepted_at = NOW() WHERE id = v_invite.id;
+    ELSE
+      INSERT INTO public.organizations (name, created_by)
+      VALUES (COALESCE((SELECT NULLIF(username, '') FROM public.profiles WHERE id = auth.uid()), v_email), auth.uid())
+      RETURNING id INTO v_organization_id;
+      INSERT INTO public.organization_members (organization_id, user_id, role, email)
+      VALUES (v_organization_id, auth.uid(), 'owner', v_email);
+    END IF;
+  END IF;
+
+  RETURN (
+    SELECT jsonb_build_object('organization_id', m.organization_id, 'organization_name', o.name, 'role', m.role)
+    FROM public.organization_members m
+    JOIN public.organizations o ON o.id = m.organization_id
+    WHERE m.user_id = auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+COMMENT ON FUNCTION public.ensure_membership() IS 'Returns the caller''s membership, accepting a pending invite or creating an organization on first login.';
@@ -0,0 +1,131 @@
+/*
+# [Operation Name]
+Create Audit Log with Triggers and Version Restore
+
+[Description of what this operation does]
+This migration keeps a permanent history of every change to products, customers, daily orders and payments. An AFTER trigger on each table writes one `audit_log` row per insert, update or delete. Each row holds who made the change, when it was made, and the full row before and after as JSON.
+
+Editing a day's orders replaces the old orders with a merged one. With this log, the replaced orders can still be seen and brought back. `restore_audit_version(entry_id)` writes the "before" snapshot of an entry back into its table. It re-inserts a deleted row, or overwrites a row that still exists. It runs with the caller's rights, so the normal role policies decide who may restore what. The restore is itself logged like any other change.
+
+## Query Description:
+This operation creates one new table, two functions and four triggers. No existing data is changed or removed. History starts from the moment the migration runs.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Medium"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Tables: `public.audit_log`
+- Functions: `public.record_audit_entry()`, `public.restore_audit_version(UUID)`
+- Triggers: `audit_products`, `audit_customers`, `audit_daily_orders`, `audit_payments`
+- Foreign Keys: None, so entries outlive the rows and organizations they describe.
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes. Owners and accountants can view their organization's entries. No role can insert, update or delete entries directly; only the trigger function writes them, so the log is append-only.
+- Auth Requirements: The actor is taken from 'auth.uid()' and the session's email.
+
+## Performance Impact:
+- Indexes: Adds indexes on `(organization_id, changed_at)`, `record_id` and `customer_id`.
+- Triggers: Adds one row-level trigger to each of the four audited tables.
+- Estimated Impact: Low. Each write to an audited table adds one insert.
+*/
+
+-- 1. AUDIT LOG TABLE
+CREATE TABLE public.audit_log (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    organization_id UUID NOT NULL,
+    table_name TEXT NOT NULL,
+    record_id UUID NOT NULL,
+    -- The customer the row belongs to, so a customer's history can be read in one query.
+    customer_id UUID,
+    action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+    actor_id UUID,
+    actor_email TEXT,
+    old_data JSONB,
+    new_data JSONB,
+    changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX audit_log_organization_id_changed_at_idx ON public.audit_log (organization_id, changed_at DESC);
+CREATE INDEX audit_log_record_id_idx ON public.audit_log (record_id);
+CREATE INDEX audit_log_customer_id_idx ON public.audit_log (customer_id);
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Owners and accountants can view the audit log." ON public.audit_log FOR SELECT USING (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+COMMENT ON TABLE public.audit_log IS 'Append-only history of changes to products, customers, daily orders and payments.';
+
+-- 2. TRIGGER FUNCTION
+-- SECURITY DEFINER because callers have no insert rights on audit_log.
+CREATE OR REPLACE FUNCTION public.record_audit_entry()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  v_row JSONB := COALESCE(v_new, v_old);
+BEGIN
+  -- Replayed offline writes often change nothing; they would only clutter the history.
+  IF TG_OP = 'UPDATE' AND v_old = v_new THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.audit_log (organization_id, table_name, record_id, customer_id, action, actor_id, actor_email, old_data, new_data)
+  VALUES (
+    (v_row ->> 'organization_id')::UUID,
+    TG_TABLE_NAME,
+    (v_row ->> 'id')::UUID,
+    CASE WHEN TG_TABLE_NAME = 'customers' THEN (v_row ->> 'id')::UUID ELSE (v_row ->> 'customer_id')::UUID END,
+    lower(TG_OP),
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    v_old,
+    v_new
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+CREATE TRIGGER audit_products AFTER INSERT OR UPDATE OR DELETE ON public.products FOR EACH ROW EXECUTE FUNCTION public.record_audit_entry();
+CREATE TRIGGER audit_customers AFTER INSERT OR UPDATE OR DELETE ON public.customers FOR EACH ROW EXECUTE FUNCTION public.record_audit_entry();
+CREATE TRIGGER audit_daily_orders AFTER INSERT OR UPDATE OR DELETE ON public.daily_orders FOR EACH ROW EXECUTE FUNCTION public.record_audit_entry();
+CREATE TRIGGER audit_payments AFTER INSERT OR UPDATE OR DELETE ON public.payments FOR EACH ROW EXECUTE FUNCTION public.record_audit_entry();
+
+-- 3. RESTORE FUNCTION
+-- Runs as the caller: the entry must be visible to them, and the write goes
+-- through the audited table's own policies.
+CREATE OR REPLACE FUNCTION public.restore_audit_version(p_entry_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_entry public.audit_log%ROWTYPE;
+  v_columns TEXT;
+  v_updates TEXT;
+  v_row JSONB;
+BEGIN
+  SELECT * INTO v_entry FROM public.audit_log WHERE id = p_entry_id;
+
+  IF NOT FOUND OR v_entry.old_data IS NULL THEN
+    RAISE EXCEPTION 'There is no earlier version to restore.' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Only columns the table still has are written, so older snapshots survive schema changes.
+  SELECT
+    string_agg(quote_ident(c.column_name), ', '),
+    string_agg(format('%1$I = EXCLUDED.%1$I', c.column_name), ', ') FILTER (WHERE c.column_name <> 'id')
+  INTO v_columns, v_updates
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+    AND c.table_name = v_entry.table_name
+    AND v_entry.old_data ? c.column_name;
+
+  EXECUTE format(
+    'INSERT INTO public.%1$I (%2$s) SELECT %2$s FROM jsonb_populate_record(NULL::public.%1$I, $1) '
+    'ON CONFLICT (id) DO UPDATE SET %3$s RETURNING to_jsonb(%1$I.*)',
+    v_entry.table_name, v_columns, v_updates
+  ) INTO v_row USING v_entry.old_data;
+
+  RETURN v_row;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = 'public';
+
+GRANT EXECUTE ON FUNCTION public.restore_audit_version(UUID) TO authenticated;
+COMMENT ON FUNCTION public.restore_audit_version(UUID) IS 'Writes the version of a row from before an audit entry back into its table.';
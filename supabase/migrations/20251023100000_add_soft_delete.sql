@@ -0,0 +1,115 @@
+/*
+# [Operation Name]
+Add Soft Delete to Products, Customers and Daily Orders
+
+[Description of what this operation does]
+This migration adds a `deleted_at` timestamp to `products`, `customers` and `daily_orders`. Deleting one of these rows in the app now sets `deleted_at`, which moves the row to the Trash. Nothing is removed, and it can be restored by clearing the timestamp.
+
+A deleted customer or product is hidden from lists and pickers. Its past orders keep counting in statements and balances, and its order items still hold the product name and price. A deleted order no longer counts at all, and neither do the payment allocations made to it; that money shows as customer credit until the order is restored.
+
+Rows are only removed for good when someone empties them from the Trash.
+
+Moving a row to the Trash is an update, but the update policies let more roles in than the delete policies: accountants may edit customers, yet only owners may delete them. A trigger on `products` and `customers` therefore lets only owners set or clear `deleted_at`, as the delete policies do. Orders need no trigger, since every member may both update and delete them.
+
+`get_customer_portal` is redefined so share links skip deleted orders and their allocations.
+
+## Query Description:
+This operation adds one nullable column to three tables, adds one trigger function with two triggers, and replaces one function. No existing data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Tables: `public.products`, `public.customers`, `public.daily_orders` (new column `deleted_at`)
+- Functions: `public.guard_trash_role()` (new), `public.get_customer_portal(TEXT)` (replaced)
+- Triggers: `guard_products_trash`, `guard_customers_trash`
+
+## Security Implications:
+- RLS Status: Unchanged
+- Policy Changes: Yes. Moving a product or customer to the Trash, or restoring it, is limited to owners, the roles the delete policies allow; the `guard_*_trash` triggers enforce it. Moving an order to the Trash follows the existing update policies. Removing any row for good follows the existing delete policies.
+- Auth Requirements: The triggers check the caller's role through `has_org_role`. Writes without a session, like the service role's, are not checked.
+
+## Performance Impact:
+- Indexes: Adds partial indexes on the deleted rows of each table, which keeps the Trash query small.
+- Triggers: One row-level trigger on `products` and one on `customers`. They only run when `deleted_at` changes.
+- Estimated Impact: Low.
+*/
+
+-- 1. DELETED_AT COLUMNS
+ALTER TABLE public.products ADD COLUMN deleted_at TIMESTAMPTZ;
+ALTER TABLE public.customers ADD COLUMN deleted_at TIMESTAMPTZ;
+ALTER TABLE public.daily_orders ADD COLUMN deleted_at TIMESTAMPTZ;
+
+CREATE INDEX products_deleted_at_idx ON public.products (organization_id) WHERE deleted_at IS NOT NULL;
+CREATE INDEX customers_deleted_at_idx ON public.customers (organization_id) WHERE deleted_at IS NOT NULL;
+CREATE INDEX daily_orders_deleted_at_idx ON public.daily_orders (organization_id) WHERE deleted_at IS NOT NULL;
+
+COMMENT ON COLUMN public.products.deleted_at IS 'When the product was moved to the Trash. NULL for active products.';
+COMMENT ON COLUMN public.customers.deleted_at IS 'When the customer was moved to the Trash. NULL for active customers.';
+COMMENT ON COLUMN public.daily_orders.deleted_at IS 'When the order was moved to the Trash. Deleted orders are not billed.';
+
+-- 2. ONLY ROLES THAT MAY DELETE MAY MOVE TO THE TRASH
+-- Mirrors the delete policies on products and customers, which allow owners only.
+CREATE OR REPLACE FUNCTION public.guard_trash_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.has_org_role(NEW.organization_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only owners can move % to the Trash or restore them.', TG_TABLE_NAME USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = 'public';
+
+CREATE TRIGGER guard_products_trash BEFORE UPDATE OF deleted_at ON public.products
+  FOR EACH ROW WHEN (OLD.deleted_at IS DISTINCT FROM NEW.deleted_at) EXECUTE FUNCTION public.guard_trash_role();
+CREATE TRIGGER guard_customers_trash BEFORE UPDATE OF deleted_at ON public.customers
+  FOR EACH ROW WHEN (OLD.deleted_at IS DISTINCT FROM NEW.deleted_at) EXECUTE FUNCTION public.guard_trash_role();
+
+-- 3. PORTAL FUNCTION
+CREATE OR REPLACE FUNCTION public.get_customer_portal(p_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_link public.customer_share_links%ROWTYPE;
+BEGIN
+  SELECT * INTO v_link
+  FROM public.customer_share_links
+  WHERE token = p_token AND revoked_at IS NULL AND expires_at > NOW();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This link is invalid or has expired.' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'customer_name', (
+      SELECT c.name FROM public.customers c
+      WHERE c.id = v_link.customer_id AND c.organization_id = v_link.organization_id
+    ),
+    'expires_at', v_link.expires_at,
+    'orders', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', o.id, 'date', o.date, 'items', o.items, 'total_amount', o.total_amount, 'status', o.status
+      ) ORDER BY o.date)
+      FROM public.daily_orders o
+      WHERE o.customer_id = v_link.customer_id AND o.organization_id = v_link.organization_id AND o.deleted_at IS NULL
+    ), '[]'::jsonb),
+    'payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', p.id, 'date', p.date, 'amount', p.amount, 'method', p.method
+      ) ORDER BY p.date)
+      FROM public.payments p
+      WHERE p.customer_id = v_link.customer_id AND p.organization_id = v_link.organization_id
+    ), '[]'::jsonb),
+    'allocations', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payment_id', a.payment_id, 'order_id', a.order_id, 'amount', a.amount
+      ))
+      FROM public.payment_allocations a
+      JOIN public.daily_orders o ON o.id = a.order_id
+      WHERE o.customer_id = v_link.customer_id AND a.organization_id = v_link.organization_id AND o.deleted_at IS NULL
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = 'public';
@@ -0,0 +1,62 @@
+/*
+# [Operation Name]
+Create Bulk Import Function
+
+[Description of what this operation does]
+This migration adds `import_records(customers, products, orders, payments)`, which the import wizard calls to save a spreadsheet in one go. Each argument is a JSON array of complete rows with ids generated by the app. Opening balances arrive as orders (amounts owed) and payments (advances).
+
+A function call runs in a single transaction. If any row fails, for example on a policy or constraint, nothing from the file is saved and the error is returned to the app. The function runs with the caller's rights, so each insert is checked by the normal role policies. `organization_id` is filled in by its column default.
+
+## Query Description:
+This operation creates one function. No existing data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Functions: `public.import_records(JSONB, JSONB, JSONB, JSONB)`
+
+## Security Implications:
+- RLS Status: Unchanged
+- Policy Changes: No
+- Auth Requirements: SECURITY INVOKER; executable by authenticated users, and subject to the existing insert policies.
+
+## Performance Impact:
+- Indexes: None
+- Triggers: The audit triggers record each imported row as usual.
+- Estimated Impact: Low. Imports are occasional and limited to one file.
+*/
+
+CREATE OR REPLACE FUNCTION public.import_records(
+  p_customers JSONB DEFAULT '[]'::jsonb,
+  p_products JSONB DEFAULT '[]'::jsonb,
+  p_orders JSONB DEFAULT '[]'::jsonb,
+  p_payments JSONB DEFAULT '[]'::jsonb
+)
+RETURNS VOID AS $$
+BEGIN
+  -- Customers first: the opening balance orders and payments reference them.
+  -- Only the columns customers have since 20250926100000; other keys in the JSON are ignored.
+  INSERT INTO public.customers (id, user_id, name, created_at)
+  SELECT id, user_id, name, created_at
+  FROM jsonb_populate_recordset(NULL::public.customers, p_customers);
+
+  INSERT INTO public.products (id, user_id, name, price, quantity, unit, hsn_code, gst_rate, created_at)
+  SELECT id, user_id, name, price, quantity, unit, hsn_code, gst_rate, created_at
+  FROM jsonb_populate_recordset(NULL::public.products, p_products);
+
+  INSERT INTO public.daily_orders (id, user_id, customer_id, customer_name, date, items, total_amount, amount_paid, status, delivered_at, created_at)
+  SELECT id, user_id, customer_id, customer_name, date, items, total_amount, amount_paid, status, delivered_at, created_at
+  FROM jsonb_populate_recordset(NULL::public.daily_orders, p_orders);
+
+  INSERT INTO public.payments (id, user_id, customer_id, date, amount, method, note, created_at)
+  SELECT id, user_id, customer_id, date, amount, method, note, created_at
+  FROM jsonb_populate_recordset(NULL::public.payments, p_payments);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = 'public';
+
+GRANT EXECUTE ON FUNCTION public.import_records(JSONB, JSONB, JSONB, JSONB) TO authenticated;
+COMMENT ON FUNCTION public.import_records(JSONB, JSONB, JSONB, JSONB) IS 'Inserts an imported file''s customers, products and opening balances in one transaction.';
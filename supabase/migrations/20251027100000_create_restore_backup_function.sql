@@ -0,0 +1,79 @@
+/*
+# [Operation Name]
+Create Backup Restore Function
+
+[Description of what this operation does]
+This migration adds `restore_backup(data, replace)`, which restores a backup file made in the app. The app gives every row a new id and rewrites the references before calling it. The backup can therefore be restored next to existing data without clashes.
+
+`data` is a JSON object with one array of rows per table. With `replace` set, the organization's existing rows in those tables are deleted first. Invoices are neither deleted nor restored. They keep their buyer snapshot, and a deleted customer's `customer_id` on an invoice becomes NULL.
+
+The whole restore runs in one transaction, so a failed restore leaves the data as it was. Only owners may restore. Each insert and delete also goes through the normal role policies, because the function runs with the caller's rights. Only columns that exist both in the file and in the table are written, so backups from older versions of the app still restore.
+
+## Query Description:
+This operation creates one function. No existing data is changed or removed until the function is called with `replace`.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Medium"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Functions: `public.restore_backup(JSONB, BOOLEAN)`
+
+## Security Implications:
+- RLS Status: Unchanged
+- Policy Changes: No
+- Auth Requirements: SECURITY INVOKER; the caller must be an owner of their organization.
+
+## Performance Impact:
+- Indexes: None
+- Triggers: The audit triggers record each restored or replaced row as usual.
+- Estimated Impact: Medium while a restore runs; restores are rare.
+*/
+
+CREATE OR REPLACE FUNCTION public.restore_backup(p_data JSONB, p_replace BOOLEAN DEFAULT FALSE)
+RETURNS VOID AS $$
+DECLARE
+  -- Parents before children; deletes run in reverse.
+  v_tables TEXT[] := ARRAY[
+    'products', 'customers', 'product_prices', 'daily_orders', 'subscriptions', 'payments',
+    'payment_allocations', 'routes', 'route_stops', 'stock_movements', 'suppliers', 'purchases'
+  ];
+  v_organization_id UUID := public.current_organization_id();
+  v_table TEXT;
+  v_rows JSONB;
+  v_columns TEXT;
+BEGIN
+  IF NOT public.has_org_role(v_organization_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only owners can restore a backup.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_replace THEN
+    FOR i IN REVERSE array_length(v_tables, 1)..1 LOOP
+      EXECUTE format('DELETE FROM public.%I WHERE organization_id = $1', v_tables[i]) USING v_organization_id;
+    END LOOP;
+  END IF;
+
+  FOREACH v_table IN ARRAY v_tables LOOP
+    v_rows := p_data -> v_table;
+    CONTINUE WHEN v_rows IS NULL OR jsonb_array_length(v_rows) = 0;
+
+    SELECT string_agg(quote_ident(c.column_name), ', ')
+    INTO v_columns
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public'
+      AND c.table_name = v_table
+      AND c.column_name <> 'organization_id'
+      AND (v_rows -> 0) ? c.column_name;
+
+    EXECUTE format(
+      'INSERT INTO public.%1$I (%2$s) SELECT %2$s FROM jsonb_populate_recordset(NULL::public.%1$I, $1)',
+      v_table, v_columns
+    ) USING v_rows;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = 'public';
+
+GRANT EXECUTE ON FUNCTION public.restore_backup(JSONB, BOOLEAN) TO authenticated;
+COMMENT ON FUNCTION public.restore_backup(JSONB, BOOLEAN) IS 'Restores a backup made in the app, optionally replacing the organization''s current data.';
@@ -0,0 +1,107 @@
+/*
+# [Operation Name]
+Create Monthly Bills
+
+[Description of what this operation does]
+This migration adds monthly billing cycles. Each customer gets a `billing_day`, the day of the month their cycle starts. The default of 1 bills calendar months, and days up to 28 are allowed so every month has one.
+
+When a cycle ends, the app closes it as a row in `bills`. The row snapshots the previous dues carried forward (`opening_balance`), the orders billed and the payments received in the cycle, and the resulting `closing_balance`. That closing balance becomes the next bill's opening balance. A closed bill is not updated when its orders are edited later. Entries added late with an earlier date are counted in the next bill instead. Only one bill can exist per customer and cycle start, so two devices closing the same cycle do not create duplicates.
+
+`restore_backup` is redefined to include bills.
+
+## Query Description:
+This operation adds a defaulted column to `customers`, creates a new table, and replaces one function. No existing data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Columns added: `customers.billing_day`
+- Tables: `public.bills`
+- Functions: `public.restore_backup(JSONB, BOOLEAN)` is redefined.
+- Constraints: unique (`customer_id`, `period_start`) on `bills`.
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes, adds organization policies for `bills`. Members can view bills; owners and accountants can close and remove them.
+- Auth Requirements: Policies are based on 'auth.uid()' through `has_org_role`.
+
+## Performance Impact:
+- Indexes: Primary key, the unique constraint above and an index on `organization_id`.
+- Triggers: None
+- Estimated Impact: Low.
+*/
+
+-- 1. CUSTOMER BILLING DAY
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS billing_day SMALLINT NOT NULL DEFAULT 1 CHECK (billing_day BETWEEN 1 AND 28);
+
+-- 2. BILLS TABLE
+CREATE TABLE public.bills (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+    organization_id UUID NOT NULL DEFAULT public.current_organization_id() REFERENCES public.organizations ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES public.customers ON DELETE CASCADE,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    opening_balance NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    billed_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    paid_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    closing_balance NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT bills_cycle_unique UNIQUE (customer_id, period_start),
+    CONSTRAINT bills_period_check CHECK (period_end >= period_start)
+);
+CREATE INDEX bills_organization_id_idx ON public.bills (organization_id);
+ALTER TABLE public.bills ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Members can view bills." ON public.bills FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Owners and accountants can add bills." ON public.bills FOR INSERT WITH CHECK (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+CREATE POLICY "Owners and accountants can delete bills." ON public.bills FOR DELETE USING (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+COMMENT ON TABLE public.bills IS 'Closed monthly billing cycles per customer. Amounts are snapshots taken at closing.';
+
+-- 3. BACKUP RESTORE, NOW WITH BILLS
+CREATE OR REPLACE FUNCTION public.restore_backup(p_data JSONB, p_replace BOOLEAN DEFAULT FALSE)
+RETURNS VOID AS $$
+DECLARE
+  -- Parents before children; deletes run in reverse.
+  v_tables TEXT[] := ARRAY[
+    'products', 'customers', 'product_prices', 'daily_orders', 'subscriptions', 'payments',
+    'payment_allocations', 'routes', 'route_stops', 'stock_movements', 'suppliers', 'purchases', 'bills'
+  ];
+  v_organization_id UUID := public.current_organization_id();
+  v_table TEXT;
+  v_rows JSONB;
+  v_columns TEXT;
+BEGIN
+  IF NOT public.has_org_role(v_organization_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only owners can restore a backup.' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_replace THEN
+    FOR i IN REVERSE array_length(v_tables, 1)..1 LOOP
+      EXECUTE format('DELETE FROM public.%I WHERE organization_id = $1', v_tables[i]) USING v_organization_id;
+    END LOOP;
+  END IF;
+
+  FOREACH v_table IN ARRAY v_tables LOOP
+    v_rows := p_data -> v_table;
+    CONTINUE WHEN v_rows IS NULL OR jsonb_array_length(v_rows) = 0;
+
+    SELECT string_agg(quote_ident(c.column_name), ', ')
+    INTO v_columns
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public'
+      AND c.table_name = v_table
+      AND c.column_name <> 'organization_id'
+      AND (v_rows -> 0) ? c.column_name;
+
+    EXECUTE format(
+      'INSERT INTO public.%1$I (%2$s) SELECT %2$s FROM jsonb_populate_recordset(NULL::public.%1$I, $1)',
+      v_table, v_columns
+    ) USING v_rows;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = 'public';
@@ -0,0 +1,48 @@
+/*
+# [Operation Name]
+Create Customer Message Log
+
+[Description of what this operation does]
+This migration adds `message_log`, a record of the bill and balance messages sent to customers from the Statement screen. Each row keeps the channel (WhatsApp, SMS or copied text), the template used, the exact text and the statement period it covered. The row's `created_at` is when it was sent. The log is append-only: rows are never updated, and they are removed only together with their customer.
+
+## Query Description:
+This operation creates a new table. No existing data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Tables: `public.message_log`
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes, adds organization policies for `message_log`. Members can view the log and add to it.
+- Auth Requirements: Policies are based on 'auth.uid()' through `has_org_role`.
+
+## Performance Impact:
+- Indexes: Primary key, an index on `organization_id` and one on (`customer_id`, `created_at`).
+- Triggers: None
+- Estimated Impact: Low.
+*/
+
+CREATE TABLE public.message_log (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+    organization_id UUID NOT NULL DEFAULT public.current_organization_id() REFERENCES public.organizations ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES public.customers ON DELETE CASCADE,
+    channel TEXT NOT NULL CHECK (channel IN ('whatsapp', 'sms', 'copy')),
+    template_name TEXT NOT NULL,
+    body TEXT NOT NULL,
+    period_start DATE,
+    period_end DATE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX message_log_organization_id_idx ON public.message_log (organization_id);
+CREATE INDEX message_log_customer_id_idx ON public.message_log (customer_id, created_at);
+ALTER TABLE public.message_log ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Members can view the message log." ON public.message_log FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Members can add to the message log." ON public.message_log FOR INSERT WITH CHECK (public.has_org_role(organization_id));
+COMMENT ON TABLE public.message_log IS 'Messages sent to customers, with the text and when it was sent.';
@@ -0,0 +1,54 @@
+/*
+# [Operation Name]
+Create Organization Settings
+
+[Description of what this operation does]
+This migration adds `organization_settings`, one row of account-wide settings per organization: the business name, address, phone, GSTIN and state printed on statements and invoices, a small logo, how money amounts are formatted, the default unit for new products, pieces per box for the Keret calculator, the UPI ID for payment QR codes and the customer message templates. These used to be kept in each device's localStorage, so every phone had its own copy. The row is created the first time an owner or accountant saves settings; until then the app uses its defaults.
+
+## Query Description:
+This operation creates a new table. No existing data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Tables: `public.organization_settings`
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes, adds organization policies for `organization_settings`. Members can view the settings; owners and accountants can create and change them.
+- Auth Requirements: Policies are based on 'auth.uid()' through `has_org_role`.
+
+## Performance Impact:
+- Indexes: Primary key on `organization_id`.
+- Triggers: None
+- Estimated Impact: Low.
+*/
+
+CREATE TABLE public.organization_settings (
+    organization_id UUID NOT NULL DEFAULT public.current_organization_id() PRIMARY KEY REFERENCES public.organizations ON DELETE CASCADE,
+    business_name TEXT NOT NULL DEFAULT 'Jay Goga Milk',
+    address TEXT NOT NULL DEFAULT '',
+    phone TEXT NOT NULL DEFAULT '',
+    gstin TEXT NOT NULL DEFAULT '',
+    state TEXT NOT NULL DEFAULT '',
+    logo TEXT, -- A small PNG as a data URL
+    currency_symbol TEXT NOT NULL DEFAULT '₹',
+    number_locale TEXT NOT NULL DEFAULT 'en-IN',
+    currency_decimals SMALLINT NOT NULL DEFAULT 2 CHECK (currency_decimals BETWEEN 0 AND 2),
+    default_unit TEXT NOT NULL DEFAULT 'ml' CHECK (default_unit IN ('ml', 'L', 'gm', 'kg', 'piece')),
+    box_configs JSONB NOT NULL DEFAULT '{}'::jsonb, -- Pieces per box, keyed by product id
+    upi_vpa TEXT NOT NULL DEFAULT '',
+    upi_payee_name TEXT NOT NULL DEFAULT '',
+    message_templates JSONB NOT NULL DEFAULT '[]'::jsonb, -- Empty means the app's built-in templates
+    updated_by UUID REFERENCES auth.users ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+ALTER TABLE public.organization_settings ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Members can view settings." ON public.organization_settings FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Owners and accountants can create settings." ON public.organization_settings FOR INSERT WITH CHECK (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+CREATE POLICY "Owners and accountants can change settings." ON public.organization_settings FOR UPDATE USING (public.has_org_role(organization_id, ARRAY['owner', 'accountant']));
+COMMENT ON TABLE public.organization_settings IS 'Account-wide business details, formatting and defaults, one row per organization.';
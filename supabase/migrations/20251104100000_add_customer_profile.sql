@@ -0,0 +1,75 @@
+/*
+# [Operation Name]
+Add Customer Contact and Address Profile
+
+[Description of what this operation does]
+Migration 20250926100000 removed `address` and `contact_number` from `customers`, but the app kept reading and writing them, so saving a customer's details failed. This migration gives customers a structured profile instead: a phone number and an alternate one, two address lines, the area or locality, a landmark, map coordinates and free-form notes. Phone numbers are stored as digits with an optional leading '+', 10 to 15 digits long, and coordinates are set together or not at all; CHECK constraints enforce both, matching the app's validation. `import_records` is redefined to insert the new columns.
+
+## Query Description:
+This operation adds defaulted columns to `customers` and replaces one function. Existing customers get empty profiles; no data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Table affected: `public.customers`
+- Columns added: `phone`, `alternate_phone`, `address_line1`, `address_line2`, `area`, `landmark`, `latitude`, `longitude`, `notes`
+- Functions replaced: `public.import_records`
+
+## Security Implications:
+- RLS Status: Unchanged
+- Policy Changes: No
+- Auth Requirements: None
+
+## Performance Impact:
+- Indexes: None
+- Triggers: None
+- Estimated Impact: Low. Adding defaulted columns is a quick catalog change.
+*/
+
+-- 1. CUSTOMER PROFILE COLUMNS
+ALTER TABLE public.customers
+ADD COLUMN phone TEXT NOT NULL DEFAULT '' CHECK (phone = '' OR phone ~ '^\+?[0-9]{10,15}$'),
+ADD COLUMN alternate_phone TEXT NOT NULL DEFAULT '' CHECK (alternate_phone = '' OR alternate_phone ~ '^\+?[0-9]{10,15}$'),
+ADD COLUMN address_line1 TEXT NOT NULL DEFAULT '',
+ADD COLUMN address_line2 TEXT NOT NULL DEFAULT '',
+ADD COLUMN area TEXT NOT NULL DEFAULT '',
+ADD COLUMN landmark TEXT NOT NULL DEFAULT '',
+ADD COLUMN latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+ADD COLUMN longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+ADD COLUMN notes TEXT NOT NULL DEFAULT '',
+ADD CONSTRAINT customers_coordinates_check CHECK ((latitude IS NULL) = (longitude IS NULL));
+
+COMMENT ON COLUMN public.customers.phone IS 'Digits with an optional leading + and country code. Empty only for customers added before profiles.';
+COMMENT ON COLUMN public.customers.area IS 'Locality or society.';
+
+-- 2. IMPORTS WITH THE NEW COLUMNS
+CREATE OR REPLACE FUNCTION public.import_records(
+  p_customers JSONB DEFAULT '[]'::jsonb,
+  p_products JSONB DEFAULT '[]'::jsonb,
+  p_orders JSONB DEFAULT '[]'::jsonb,
+  p_payments JSONB DEFAULT '[]'::jsonb
+)
+RETURNS VOID AS $$
+BEGIN
+  -- Customers first: the opening balance orders and payments reference them.
+  INSERT INTO public.customers (id, user_id, name, phone, alternate_phone, address_line1, address_line2, area, landmark, notes, created_at)
+  SELECT id, user_id, name, phone, alternate_phone, address_line1, address_line2, area, landmark, notes, created_at
+  FROM jsonb_populate_recordset(NULL::public.customers, p_customers);
+
+  INSERT INTO public.products (id, user_id, name, price, quantity, unit, hsn_code, gst_rate, created_at)
+  SELECT id, user_id, name, price, quantity, unit, hsn_code, gst_rate, created_at
+  FROM jsonb_populate_recordset(NULL::public.products, p_products);
+
+  INSERT INTO public.daily_orders (id, user_id, customer_id, customer_name, date, items, total_amount, amount_paid, status, delivered_at, created_at)
+  SELECT id, user_id, customer_id, customer_name, date, items, total_amount, amount_paid, status, delivered_at, created_at
+  FROM jsonb_populate_recordset(NULL::public.daily_orders, p_orders);
+
+  INSERT INTO public.payments (id, user_id, customer_id, date, amount, method, note, created_at)
+  SELECT id, user_id, customer_id, date, amount, method, note, created_at
+  FROM jsonb_populate_recordset(NULL::public.payments, p_payments);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = 'public';
@@ -0,0 +1,161 @@
+/*
+# [Operation Name]
+Add Windowed Ledger Loading and Aggregates
+
+[Description of what this operation does]
+The app used to download every order, payment and payment allocation when it started, so start-up grew slower with every day of deliveries. This migration adds the functions and views it now uses instead:
+- `get_ledger_window(p_since)` returns the recent part of the ledger: orders and payments dated or added on or after `p_since`, every order with an unpaid balance, every payment with an unallocated amount, everything in the Trash, and the allocations linking any of them. Because every open item is included, balances and advances worked out from it are exact.
+- `get_ledger_range(p_start, p_end, p_customer_ids)` returns the orders and payments dated in a range (either end may be open), optionally for some customers only, with their allocations. Pages call it for older history on demand.
+- `customer_ledger_totals` totals each customer's orders and payments over their whole history.
+- `get_statement_totals(p_start, p_end)` totals each customer's orders in a period and what has been paid against them.
+- `get_sold_before(p_date)` totals the packs taken out of stock before a day, per product, for the opening stock of the inventory report.
+All of them are SECURITY INVOKER and read through the existing RLS policies.
+
+## Query Description:
+This operation adds indexes, functions and a view. No existing data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Views: `public.customer_ledger_totals`
+- Functions: `public.get_ledger_window`, `public.get_ledger_range`, `public.get_statement_totals`, `public.get_sold_before`
+- Indexes: on `daily_orders` (`organization_id`, `date`) and (`organization_id`, `created_at`), on `payments` (`organization_id`, `date`) and (`organization_id`, `created_at`)
+
+## Security Implications:
+- RLS Status: Unchanged
+- Policy Changes: No
+- Auth Requirements: SECURITY INVOKER; executable by authenticated users. The view uses `security_invoker`, so members see only their organization's rows.
+
+## Performance Impact:
+- Indexes: Four added, for the date and created-at filters.
+- Triggers: None
+- Estimated Impact: Low. Start-up reads a fixed window plus open items instead of the whole history.
+*/
+
+-- 1. INDEXES FOR DATE WINDOWS
+CREATE INDEX daily_orders_organization_date_idx ON public.daily_orders (organization_id, date);
+CREATE INDEX daily_orders_organization_created_at_idx ON public.daily_orders (organization_id, created_at);
+CREATE INDEX payments_organization_date_idx ON public.payments (organization_id, date);
+CREATE INDEX payments_organization_created_at_idx ON public.payments (organization_id, created_at);
+
+-- 2. THE RECENT LEDGER, WITH EVERY OPEN ITEM
+CREATE OR REPLACE FUNCTION public.get_ledger_window(p_since DATE)
+RETURNS JSONB AS $$
+  WITH paid AS (
+    SELECT order_id, SUM(amount) AS amount FROM public.payment_allocations GROUP BY order_id
+  ), allocated AS (
+    SELECT payment_id, SUM(amount) AS amount FROM public.payment_allocations GROUP BY payment_id
+  ), window_orders AS (
+    SELECT o.* FROM public.daily_orders o
+    LEFT JOIN paid ON paid.order_id = o.id
+    WHERE o.organization_id = public.current_organization_id()
+      AND (o.date >= p_since OR o.created_at >= p_since OR o.deleted_at IS NOT NULL OR o.total_amount > COALESCE(paid.amount, 0))
+  ), window_payments AS (
+    SELECT p.* FROM public.payments p
+    LEFT JOIN allocated ON allocated.payment_id = p.id
+    WHERE p.organization_id = public.current_organization_id()
+      AND (p.date >= p_since OR p.created_at >= p_since OR p.amount > COALESCE(allocated.amount, 0))
+  )
+  SELECT jsonb_build_object(
+    'orders', COALESCE((SELECT jsonb_agg(to_jsonb(o)) FROM window_orders o), '[]'::jsonb),
+    'payments', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM window_payments p), '[]'::jsonb),
+    'allocations', COALESCE((
+      SELECT jsonb_agg(to_jsonb(a)) FROM public.payment_allocations a
+      WHERE a.order_id IN (SELECT id FROM window_orders) OR a.payment_id IN (SELECT id FROM window_payments)
+    ), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = 'public';
+
+GRANT EXECUTE ON FUNCTION public.get_ledger_window(DATE) TO authenticated;
+COMMENT ON FUNCTION public.get_ledger_window(DATE) IS 'Recent orders and payments plus every open item, with their allocations, as one JSON object.';
+
+-- 3. OLDER HISTORY ON DEMAND
+CREATE OR REPLACE FUNCTION public.get_ledger_range(p_start DATE DEFAULT NULL, p_end DATE DEFAULT NULL, p_customer_ids UUID[] DEFAULT NULL)
+RETURNS JSONB AS $$
+  WITH range_orders AS (
+    SELECT o.* FROM public.daily_orders o
+    WHERE o.organization_id = public.current_organization_id()
+      AND (p_start IS NULL OR o.date >= p_start)
+      AND (p_end IS NULL OR o.date <= p_end)
+      AND (p_customer_ids IS NULL OR o.customer_id = ANY(p_customer_ids))
+  ), range_payments AS (
+    SELECT p.* FROM public.payments p
+    WHERE p.organization_id = public.current_organization_id()
+      AND (p_start IS NULL OR p.date >= p_start)
+      AND (p_end IS NULL OR p.date <= p_end)
+      AND (p_customer_ids IS NULL OR p.customer_id = ANY(p_customer_ids))
+  )
+  SELECT jsonb_build_object(
+    'orders', COALESCE((SELECT jsonb_agg(to_jsonb(o)) FROM range_orders o), '[]'::jsonb),
+    'payments', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM range_payments p), '[]'::jsonb),
+    'allocations', COALESCE((
+      SELECT jsonb_agg(to_jsonb(a)) FROM public.payment_allocations a
+      WHERE a.order_id IN (SELECT id FROM range_orders) OR a.payment_id IN (SELECT id FROM range_payments)
+    ), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = 'public';
+
+GRANT EXECUTE ON FUNCTION public.get_ledger_range(DATE, DATE, UUID[]) TO authenticated;
+COMMENT ON FUNCTION public.get_ledger_range(DATE, DATE, UUID[]) IS 'Orders and payments dated in a range, optionally for some customers, with their allocations.';
+
+-- 4. LIFETIME TOTALS PER CUSTOMER
+CREATE VIEW public.customer_ledger_totals WITH (security_invoker = true) AS
+SELECT
+  c.id AS customer_id,
+  c.organization_id,
+  COALESCE(o.order_count, 0) AS order_count,
+  COALESCE(o.total_billed, 0) AS total_billed,
+  COALESCE(p.total_received, 0) AS total_received
+FROM public.customers c
+LEFT JOIN (
+  SELECT customer_id, COUNT(*) AS order_count, SUM(total_amount) AS total_billed
+  FROM public.daily_orders WHERE deleted_at IS NULL GROUP BY customer_id
+) o ON o.customer_id = c.id
+LEFT JOIN (
+  SELECT customer_id, SUM(amount) AS total_received FROM public.payments GROUP BY customer_id
+) p ON p.customer_id = c.id;
+
+GRANT SELECT ON public.customer_ledger_totals TO authenticated;
+COMMENT ON VIEW public.customer_ledger_totals IS 'Each customer''s order count, billed total and payments received over their whole history.';
+
+-- 5. STATEMENT TOTALS FOR A PERIOD
+CREATE OR REPLACE FUNCTION public.get_statement_totals(p_start DATE, p_end DATE)
+RETURNS TABLE (customer_id UUID, order_count BIGINT, total_amount NUMERIC, total_paid NUMERIC) AS $$
+  SELECT o.customer_id, COUNT(*), SUM(o.total_amount), COALESCE(SUM(paid.amount), 0)
+  FROM public.daily_orders o
+  LEFT JOIN (
+    SELECT order_id, SUM(amount) AS amount FROM public.payment_allocations GROUP BY order_id
+  ) paid ON paid.order_id = o.id
+  WHERE o.organization_id = public.current_organization_id()
+    AND o.deleted_at IS NULL
+    AND o.date BETWEEN p_start AND p_end
+  GROUP BY o.customer_id;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = 'public';
+
+GRANT EXECUTE ON FUNCTION public.get_statement_totals(DATE, DATE) TO authenticated;
+COMMENT ON FUNCTION public.get_statement_totals(DATE, DATE) IS 'Per customer: orders in a period, their total and what has been paid against them.';
+
+-- 6. STOCK SOLD BEFORE A DAY
+-- Packs delivered per product: ordered quantities less any shortfall; skipped orders take nothing.
+CREATE OR REPLACE FUNCTION public.get_sold_before(p_date DATE)
+RETURNS TABLE (product_id TEXT, packs NUMERIC) AS $$
+  SELECT entry.product_id, SUM(entry.quantity)
+  FROM public.daily_orders o
+  CROSS JOIN LATERAL (
+    SELECT item ->> 'product_id' AS product_id, (item ->> 'quantity')::NUMERIC AS quantity FROM jsonb_array_elements(o.items) item
+    UNION ALL
+    SELECT item ->> 'product_id', -(item ->> 'quantity')::NUMERIC FROM jsonb_array_elements(o.shortfall) item
+  ) entry
+  WHERE o.organization_id = public.current_organization_id()
+    AND o.deleted_at IS NULL
+    AND o.status <> 'skipped'
+    AND o.date < p_date
+  GROUP BY entry.product_id;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = 'public';
+
+GRANT EXECUTE ON FUNCTION public.get_sold_before(DATE) TO authenticated;
+COMMENT ON FUNCTION public.get_sold_before(DATE) IS 'Packs taken out of stock per product by orders dated before a day.';
@@ -0,0 +1,31 @@
+/*
+# [Operation Name]
+Enable Realtime Sync for Products, Customers, Orders and Payments
+
+[Description of what this operation does]
+This migration publishes changes to `products`, `customers`, `daily_orders`, `payments` and `payment_allocations` through Supabase Realtime, so every device with the app open receives each insert, update and delete as it happens and merges it into what it shows. Before this, a device only saw another device's new orders and payments after a full reload. Allocations are included so a payment recorded elsewhere also settles the orders it paid.
+
+## Query Description:
+This operation changes publication settings only. No data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Publication: `supabase_realtime` gains `public.products`, `public.customers`, `public.daily_orders`, `public.payments`, `public.payment_allocations`
+
+## Security Implications:
+- RLS Status: Unchanged
+- Policy Changes: No
+- Auth Requirements: Realtime checks each insert and update event against the table's SELECT policy, so members only receive their organization's rows. Delete events carry only the deleted row's id.
+
+## Performance Impact:
+- Indexes: None
+- Triggers: None
+- Estimated Impact: Low. These tables change a few hundred times a day.
+*/
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.products, public.customers, public.daily_orders, public.payments, public.payment_allocations;
@@ -0,0 +1,441 @@
+/*
+# [Operation Name]
+Move Order Items into an order_items Table
+
+[Description of what this operation does]
+An order's items used to be stored as a JSONB array in `daily_orders.items`. Any per-product total, such as Keret, the Dashboard product summary or the Daily Full Report, had to download every order and add up the arrays in the browser. This migration moves each item into its own row in a new `order_items` table. Each row references its order and its product, keeps the product name, unit and price as they were when ordered, and has a `position` that keeps the order's item order. `product_id` is NULL for lines that are not a product, such as an imported opening balance, and becomes NULL if the product is deleted for good.
+
+Existing items are copied from the JSONB arrays. Product ids that don't match a product of the organization are stored as NULL. After the copy, `daily_orders.items` is dropped.
+
+The app still reads an order with its items in one piece. `get_ledger_window`, `get_ledger_range` and the customer portal add an `items` array, in the old shape, to each order they return. `import_records`, `restore_backup` and `restore_audit_version` accept orders with an embedded `items` array and write those items to `order_items`. The audit trigger also records an order's items in its snapshots. Deletes are logged before the row is removed, while the items are still there, so a purged order can be restored with its items.
+
+Two views give per-product totals for each day:
+- `daily_product_totals`: the quantity and amount ordered per product, for orders not in the Trash.
+- `daily_product_deliveries`: the packs delivered per product. Skipped orders and recorded shortfalls are left out. `get_sold_before` now reads this view.
+
+## Query Description:
+This operation creates a table, copies every order's items into it, and then drops `daily_orders.items`. Order data is moved, not lost. Back up before running; the copy can't be undone once the column is dropped.
+
+## Metadata:
+- Schema-Category: "Dangerous"
+- Impact-Level: "High"
+- Requires-Backup: true
+- Reversible: false
+
+## Structure Details:
+- Tables: `public.order_items`
+- Columns removed: `daily_orders.items`
+- Views: `public.daily_product_totals`, `public.daily_product_deliveries`
+- Functions added: `public.get_order_items_json(UUID)`, `public.insert_order_items(UUID, JSONB)`
+- Functions replaced: `public.record_audit_entry`, `public.restore_audit_version`, `public.get_customer_portal`, `public.import_records`, `public.restore_backup`, `public.get_ledger_window`, `public.get_ledger_range`, `public.get_sold_before`
+- Triggers: `audit_daily_orders` now fires on insert and update only; the new `audit_daily_orders_delete` logs deletes before the row goes.
+- Publication: `supabase_realtime` gains `public.order_items`
+- Foreign Keys: `order_items.order_id` to `daily_orders` (cascade), `order_items.product_id` to `products` (set null)
+
+## Security Implications:
+- RLS Status: Enabled
+- Policy Changes: Yes. `order_items` gets the same policies as `daily_orders`: every member can view, add, update and delete them.
+- Auth Requirements: Policies are based on 'auth.uid()' through `has_org_role`. The views use `security_invoker`.
+
+## Performance Impact:
+- Indexes: On `order_items` (`order_id`), (`product_id`) and (`organization_id`).
+- Triggers: One more row-level trigger on `daily_orders`. It replaces the delete half of the old one.
+- Estimated Impact: Medium while the backfill runs, which is one pass over `daily_orders`. Afterwards, per-product totals are computed in the database.
+*/
+
+-- 1. ORDER ITEMS TABLE
+CREATE TABLE public.order_items (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+    organization_id UUID NOT NULL DEFAULT public.current_organization_id() REFERENCES public.organizations ON DELETE CASCADE,
+    order_id UUID NOT NULL REFERENCES public.daily_orders ON DELETE CASCADE,
+    -- NULL for lines that aren't a product, like an opening balance, or whose product was purged.
+    product_id UUID REFERENCES public.products ON DELETE SET NULL,
+    product_name TEXT NOT NULL,
+    quantity NUMERIC NOT NULL,
+    unit TEXT NOT NULL,
+    price NUMERIC NOT NULL,
+    total NUMERIC(10, 2) NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX order_items_order_id_idx ON public.order_items (order_id, position);
+CREATE INDEX order_items_product_id_idx ON public.order_items (product_id);
+CREATE INDEX order_items_organization_id_idx ON public.order_items (organization_id);
+ALTER TABLE public.order_items ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Members can view order items." ON public.order_items FOR SELECT USING (public.has_org_role(organization_id));
+CREATE POLICY "Members can add order items." ON public.order_items FOR INSERT WITH CHECK (public.has_org_role(organization_id));
+CREATE POLICY "Members can update order items." ON public.order_items FOR UPDATE USING (public.has_org_role(organization_id));
+CREATE POLICY "Members can delete order items." ON public.order_items FOR DELETE USING (public.has_org_role(organization_id));
+COMMENT ON TABLE public.order_items IS 'One row per product line of a daily order. Name, unit and price are as ordered.';
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.order_items;
+
+-- 2. ITEMS AS JSON, BOTH WAYS
+-- The app and older JSON (backups, imports, audit snapshots) use the old array shape,
+-- with an empty product_id for lines that aren't a product.
+CREATE OR REPLACE FUNCTION public.get_order_items_json(p_order_id UUID)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'product_id', COALESCE(i.product_id::TEXT, ''),
+    'product_name', i.product_name,
+    'quantity', i.quantity,
+    'unit', i.unit,
+    'price', i.price,
+    'total', i.total
+  ) ORDER BY i.position), '[]'::jsonb)
+  FROM public.order_items i
+  WHERE i.order_id = p_order_id;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = 'public';
+
+COMMENT ON FUNCTION public.get_order_items_json(UUID) IS 'An order''s items as the JSON array the app uses.';
+
+-- Organization and user come from the order, so this also works where there is no session.
+CREATE OR REPLACE FUNCTION public.insert_order_items(p_order_id UUID, p_items JSONB)
+RETURNS VOID AS $$
+  INSERT INTO public.order_items (organization_id, user_id, order_id, product_id, product_name, quantity, unit, price, total, position)
+  SELECT
+    o.organization_id,
+    o.user_id,
+    o.id,
+    p.id,
+    COALESCE(item.value ->> 'product_name', ''),
+    COALESCE((item.value ->> 'quantity')::NUMERIC, 0),
+    COALESCE(item.value ->> 'unit', 'piece'),
+    COALESCE((item.value ->> 'price')::NUMERIC, 0),
+    COALESCE((item.value ->> 'total')::NUMERIC, 0),
+    item.ordinality - 1
+  FROM public.daily_orders o
+  CROSS JOIN LATERAL jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) WITH ORDINALITY AS item(value, ordinality)
+  LEFT JOIN public.products p ON p.id::TEXT = item.value ->> 'product_id' AND p.organization_id = o.organization_id
+  WHERE o.id = p_order_id;
+$$ LANGUAGE sql VOLATILE SECURITY INVOKER SET search_path = 'public';
+
+COMMENT ON FUNCTION public.insert_order_items(UUID, JSONB) IS 'Adds order_items rows for an order from an items array in the app''s JSON shape.';
+
+-- 3. BACKFILL
+SELECT public.insert_order_items(o.id, o.items) FROM public.daily_orders o;
+
+-- 4. AUDIT SNAPSHOTS WITH ITEMS
+CREATE OR REPLACE FUNCTION public.record_audit_entry()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  v_row JSONB := COALESCE(v_new, v_old);
+  v_items JSONB;
+BEGIN
+  -- Replayed offline writes often change nothing; they would only clutter the history.
+  IF TG_OP = 'UPDATE' AND v_old = v_new THEN
+    RETURN NULL;
+  END IF;
+
+  -- Orders are snapshotted with their items, so restoring one brings them back too.
+  -- Items are written after their order, so an insert's snapshot has none yet.
+  IF TG_TABLE_NAME = 'daily_orders' THEN
+    v_items := public.get_order_items_json((v_row ->> 'id')::UUID);
+    v_old := v_old || jsonb_build_object('items', v_items);
+    v_new := v_new || jsonb_build_object('items', v_items);
+  END IF;
+
+  INSERT INTO public.audit_log (organization_id, table_name, record_id, customer_id, action, actor_id, actor_email, old_data, new_data)
+  VALUES (
+    (v_row ->> 'organization_id')::UUID,
+    TG_TABLE_NAME,
+    (v_row ->> 'id')::UUID,
+    CASE WHEN TG_TABLE_NAME = 'customers' THEN (v_row ->> 'id')::UUID ELSE (v_row ->> 'customer_id')::UUID END,
+    lower(TG_OP),
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    v_old,
+    v_new
+  );
+
+  IF TG_WHEN = 'BEFORE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+-- An order's items are removed by ON DELETE CASCADE, which runs before AFTER triggers
+-- on the order, so deletes are logged while the items still exist.
+DROP TRIGGER audit_daily_orders ON public.daily_orders;
+CREATE TRIGGER audit_daily_orders AFTER INSERT OR UPDATE ON public.daily_orders FOR EACH ROW EXECUTE FUNCTION public.record_audit_entry();
+CREATE TRIGGER audit_daily_orders_delete BEFORE DELETE ON public.daily_orders FOR EACH ROW EXECUTE FUNCTION public.record_audit_entry();
+
+CREATE OR REPLACE FUNCTION public.restore_audit_version(p_entry_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_entry public.audit_log%ROWTYPE;
+  v_columns TEXT;
+  v_updates TEXT;
+  v_row JSONB;
+BEGIN
+  SELECT * INTO v_entry FROM public.audit_log WHERE id = p_entry_id;
+
+  IF NOT FOUND OR v_entry.old_data IS NULL THEN
+    RAISE EXCEPTION 'There is no earlier version to restore.' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Only columns the table still has are written, so older snapshots survive schema changes.
+  SELECT
+    string_agg(quote_ident(c.column_name), ', '),
+    string_agg(format('%1$I = EXCLUDED.%1$I', c.column_name), ', ') FILTER (WHERE c.column_name <> 'id')
+  INTO v_columns, v_updates
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+    AND c.table_name = v_entry.table_name
+    AND v_entry.old_data ? c.column_name;
+
+  EXECUTE format(
+    'INSERT INTO public.%1$I (%2$s) SELECT %2$s FROM jsonb_populate_record(NULL::public.%1$I, $1) '
+    'ON CONFLICT (id) DO UPDATE SET %3$s RETURNING to_jsonb(%1$I.*)',
+    v_entry.table_name, v_columns, v_updates
+  ) INTO v_row USING v_entry.old_data;
+
+  -- Order snapshots carry their items, whether from the old column or from order_items.
+  IF v_entry.table_name = 'daily_orders' THEN
+    IF v_entry.old_data ? 'items' THEN
+      DELETE FROM public.order_items WHERE order_id = v_entry.record_id;
+      PERFORM public.insert_order_items(v_entry.record_id, v_entry.old_data -> 'items');
+    END IF;
+    v_row := v_row || jsonb_build_object('items', public.get_order_items_json(v_entry.record_id));
+  END IF;
+
+  RETURN v_row;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = 'public';
+
+-- 5. CUSTOMER PORTAL
+CREATE OR REPLACE FUNCTION public.get_customer_portal(p_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_link public.customer_share_links%ROWTYPE;
+BEGIN
+  SELECT * INTO v_link
+  FROM public.customer_share_links
+  WHERE token = p_token AND revoked_at IS NULL AND expires_at > NOW();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This link is invalid or has expired.' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'customer_name', (
+      SELECT c.name FROM public.customers c
+      WHERE c.id = v_link.customer_id AND c.organization_id = v_link.organization_id
+    ),
+    'expires_at', v_link.expires_at,
+    'orders', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', o.id, 'date', o.date, 'items', public.get_order_items_json(o.id), 'total_amount', o.total_amount, 'status', o.status
+      ) ORDER BY o.date)
+      FROM public.daily_orders o
+      WHERE o.customer_id = v_link.customer_id AND o.organization_id = v_link.organization_id AND o.deleted_at IS NULL
+    ), '[]'::jsonb),
+    'payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', p.id, 'date', p.date, 'amount', p.amount, 'method', p.method
+      ) ORDER BY p.date)
+      FROM public.payments p
+      WHERE p.customer_id = v_link.customer_id AND p.organization_id = v_link.organization_id
+    ), '[]'::jsonb),
+    'allocations', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payment_id', a.payment_id, 'order_id', a.order_id, 'amount', a.amount
+      ))
+      FROM public.payment_allocations a
+      JOIN public.daily_orders o ON o.id = a.order_id
+      WHERE o.customer_id = v_link.customer_id AND a.organization_id = v_link.organization_id AND o.deleted_at IS NULL
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = 'public';
+
+-- 6. IMPORTS AND BACKUPS WITH EMBEDDED ITEMS
+CREATE OR REPLACE FUNCTION public.import_records(
+  p_customers JSONB DEFAULT '[]'::jsonb,
+  p_products JSONB DEFAULT '[]'::jsonb,
+  p_orders JSONB DEFAULT '[]'::jsonb,
+  p_payments JSONB DEFAULT '[]'::jsonb
+)
+RETURNS VOID AS $$
+BEGIN
+  -- Customers first: the opening balance orders and payments reference them.
+  INSERT INTO public.customers (id, user_id, name, phone, alternate_phone, address_line1, address_line2, area, landmark, notes, created_at)
+  SELECT id, user_id, name, phone, alternate_phone, address_line1, address_line2, area, landmark, notes, created_at
+  FROM jsonb_populate_recordset(NULL::public.customers, p_customers);
+
+  INSERT INTO public.products (id, user_id, name, price, quantity, unit, hsn_code, gst_rate, created_at)
+  SELECT id, user_id, name, price, quantity, unit, hsn_code, gst_rate, created_at
+  FROM jsonb_populate_recordset(NULL::public.products, p_products);
+
+  INSERT INTO public.daily_orders (id, user_id, customer_id, customer_name, date, total_amount, amount_paid, status, delivered_at, created_at)
+  SELECT id, user_id, customer_id, customer_name, date, total_amount, amount_paid, status, delivered_at, created_at
+  FROM jsonb_populate_recordset(NULL::public.daily_orders, p_orders);
+
+  PERFORM public.insert_order_items((o ->> 'id')::UUID, o -> 'items')
+  FROM jsonb_array_elements(p_orders) o;
+
+  INSERT INTO public.payments (id, user_id, customer_id, date, amount, method, note, created_at)
+  SELECT id, user_id, customer_id, date, amount, method, note, created_at
+  FROM jsonb_populate_recordset(NULL::public.payments, p_payments);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = 'public';
+
+CREATE OR REPLACE FUNCTION public.restore_backup(p_data JSONB, p_replace BOOLEAN DEFAULT FALSE)
+RETURNS VOID AS $$
+DECLARE
+  -- Parents before children; deletes run in reverse.
+  v_tables TEXT[] := ARRAY[
+    'products', 'customers', 'product_prices', 'daily_orders', 'subscriptions', 'payments',
+    'payment_allocations', 'routes', 'route_stops', 'stock_movements', 'suppliers', 'purchases', 'bills'
+  ];
+  v_organization_id UUID := public.current_organization_id();
+  v_table TEXT;
+  v_rows JSONB;
+  v_columns TEXT;
+BEGIN
+  IF NOT public.has_org_role(v_organization_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only owners can restore a backup.' USING ERRCODE = '42501';
+  END IF;
+
+  -- Order items go with their orders through ON DELETE CASCADE.
+  IF p_replace THEN
+    FOR i IN REVERSE array_length(v_tables, 1)..1 LOOP
+      EXECUTE format('DELETE FROM public.%I WHERE organization_id = $1', v_tables[i]) USING v_organization_id;
+    END LOOP;
+  END IF;
+
+  FOREACH v_table IN ARRAY v_tables LOOP
+    v_rows := p_data -> v_table;
+    CONTINUE WHEN v_rows IS NULL OR jsonb_array_length(v_rows) = 0;
+
+    SELECT string_agg(quote_ident(c.column_name), ', ')
+    INTO v_columns
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public'
+      AND c.table_name = v_table
+      AND c.column_name <> 'organization_id'
+      AND (v_rows -> 0) ? c.column_name;
+
+    EXECUTE format(
+      'INSERT INTO public.%1$I (%2$s) SELECT %2$s FROM jsonb_populate_recordset(NULL::public.%1$I, $1)',
+      v_table, v_columns
+    ) USING v_rows;
+
+    -- Backups keep each order's items inside the order, as the app does.
+    IF v_table = 'daily_orders' THEN
+      PERFORM public.insert_order_items((o ->> 'id')::UUID, o -> 'items')
+      FROM jsonb_array_elements(v_rows) o;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = 'public';
+
+-- 7. LEDGER FUNCTIONS RETURN ORDERS WITH THEIR ITEMS
+CREATE OR REPLACE FUNCTION public.get_ledger_window(p_since DATE)
+RETURNS JSONB AS $$
+  WITH paid AS (
+    SELECT order_id, SUM(amount) AS amount FROM public.payment_allocations GROUP BY order_id
+  ), allocated AS (
+    SELECT payment_id, SUM(amount) AS amount FROM public.payment_allocations GROUP BY payment_id
+  ), window_orders AS (
+    SELECT o.* FROM public.daily_orders o
+    LEFT JOIN paid ON paid.order_id = o.id
+    WHERE o.organization_id = public.current_organization_id()
+      AND (o.date >= p_since OR o.created_at >= p_since OR o.deleted_at IS NOT NULL OR o.total_amount > COALESCE(paid.amount, 0))
+  ), window_payments AS (
+    SELECT p.* FROM public.payments p
+    LEFT JOIN allocated ON allocated.payment_id = p.id
+    WHERE p.organization_id = public.current_organization_id()
+      AND (p.date >= p_since OR p.created_at >= p_since OR p.amount > COALESCE(allocated.amount, 0))
+  )
+  SELECT jsonb_build_object(
+    'orders', COALESCE((
+      SELECT jsonb_agg(to_jsonb(o) || jsonb_build_object('items', public.get_order_items_json(o.id))) FROM window_orders o
+    ), '[]'::jsonb),
+    'payments', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM window_payments p), '[]'::jsonb),
+    'allocations', COALESCE((
+      SELECT jsonb_agg(to_jsonb(a)) FROM public.payment_allocations a
+      WHERE a.order_id IN (SELECT id FROM window_orders) OR a.payment_id IN (SELECT id FROM window_payments)
+    ), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = 'public';
+
+CREATE OR REPLACE FUNCTION public.get_ledger_range(p_start DATE DEFAULT NULL, p_end DATE DEFAULT NULL, p_customer_ids UUID[] DEFAULT NULL)
+RETURNS JSONB AS $$
+  WITH range_orders AS (
+    SELECT o.* FROM public.daily_orders o
+    WHERE o.organization_id = public.current_organization_id()
+      AND (p_start IS NULL OR o.date >= p_start)
+      AND (p_end IS NULL OR o.date <= p_end)
+      AND (p_customer_ids IS NULL OR o.customer_id = ANY(p_customer_ids))
+  ), range_payments AS (
+    SELECT p.* FROM public.payments p
+    WHERE p.organization_id = public.current_organization_id()
+      AND (p_start IS NULL OR p.date >= p_start)
+      AND (p_end IS NULL OR p.date <= p_end)
+      AND (p_customer_ids IS NULL OR p.customer_id = ANY(p_customer_ids))
+  )
+  SELECT jsonb_build_object(
+    'orders', COALESCE((
+      SELECT jsonb_agg(to_jsonb(o) || jsonb_build_object('items', public.get_order_items_json(o.id))) FROM range_orders o
+    ), '[]'::jsonb),
+    'payments', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM range_payments p), '[]'::jsonb),
+    'allocations', COALESCE((
+      SELECT jsonb_agg(to_jsonb(a)) FROM public.payment_allocations a
+      WHERE a.order_id IN (SELECT id FROM range_orders) OR a.payment_id IN (SELECT id FROM range_payments)
+    ), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = 'public';
+
+-- 8. PER-PRODUCT TOTALS PER DAY
+-- Lines without a product are grouped by the name they were ordered under.
+CREATE VIEW public.daily_product_totals WITH (security_invoker = true) AS
+SELECT
+  o.organization_id,
+  o.date,
+  i.product_id,
+  COALESCE(p.name, i.product_name) AS product_name,
+  i.unit,
+  SUM(i.quantity) AS quantity,
+  SUM(i.total) AS amount,
+  COUNT(DISTINCT o.id) AS order_count
+FROM public.order_items i
+JOIN public.daily_orders o ON o.id = i.order_id
+LEFT JOIN public.products p ON p.id = i.product_id
+WHERE o.deleted_at IS NULL
+GROUP BY o.organization_id, o.date, i.product_id, COALESCE(p.name, i.product_name), i.unit;
+
+GRANT SELECT ON public.daily_product_totals TO authenticated;
+COMMENT ON VIEW public.daily_product_totals IS 'Quantity and amount ordered per product per day, for orders not in the Trash.';
+
+-- Packs delivered: ordered quantities less any shortfall; skipped orders take nothing.
+CREATE VIEW public.daily_product_deliveries WITH (security_invoker = true) AS
+SELECT o.organization_id, o.date, entry.product_id, SUM(entry.quantity) AS packs
+FROM public.daily_orders o
+CROSS JOIN LATERAL (
+  SELECT i.product_id, i.quantity FROM public.order_items i WHERE i.order_id = o.id AND i.product_id IS NOT NULL
+  UNION ALL
+  SELECT (item ->> 'product_id')::UUID, -(item ->> 'quantity')::NUMERIC FROM jsonb_array_elements(o.shortfall) item
+) entry
+WHERE o.deleted_at IS NULL
+  AND o.status <> 'skipped'
+GROUP BY o.organization_id, o.date, entry.product_id;
+
+GRANT SELECT ON public.daily_product_deliveries TO authenticated;
+COMMENT ON VIEW public.daily_product_deliveries IS 'Packs delivered per product per day, net of shortfalls and skipped orders.';
+
+CREATE OR REPLACE FUNCTION public.get_sold_before(p_date DATE)
+RETURNS TABLE (product_id TEXT, packs NUMERIC) AS $$
+  SELECT d.product_id::TEXT, SUM(d.packs)
+  FROM public.daily_product_deliveries d
+  WHERE d.organization_id = public.current_organization_id()
+    AND d.date < p_date
+  GROUP BY d.product_id;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = 'public';
+
+-- 9. THE OLD COLUMN
+ALTER TABLE public.daily_orders DROP COLUMN items;
@@ -0,0 +1,66 @@
+/*
+# [Operation Name]
+Save Orders With Their Items
+
+[Description of what this operation does]
+Since order items moved to `order_items`, the app saved a new order in two calls: the order, then its items. Editing an order's items took two more: a delete and an insert. When the second call was rejected, the order was left without items, or with none at all after an edit. This migration adds two functions so each of these saves is one call, and so one transaction:
+
+- `save_order(order, items)` inserts an order and its items. An order that already exists is left as it is, so replaying a queued save is harmless.
+- `replace_order_items(order_id, items)` deletes an order's items and inserts the new ones.
+
+Items are passed in the app's JSON shape and added through `insert_order_items`.
+
+## Query Description:
+This operation creates two functions. No existing data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Functions added: `public.save_order(JSONB, JSONB)`, `public.replace_order_items(UUID, JSONB)`
+
+## Security Implications:
+- RLS Status: Unchanged
+- Policy Changes: No
+- Auth Requirements: SECURITY INVOKER; executable by authenticated users, and subject to the existing policies on `daily_orders` and `order_items`.
+
+## Performance Impact:
+- Indexes: None
+- Triggers: The audit triggers record the order as usual.
+- Estimated Impact: Low. One call replaces two or three.
+*/
+
+CREATE OR REPLACE FUNCTION public.save_order(p_order JSONB, p_items JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_order_id UUID := (p_order ->> 'id')::UUID;
+BEGIN
+  INSERT INTO public.daily_orders (id, user_id, customer_id, customer_name, date, total_amount, amount_paid, status, delivered_at, shortfall, skip_reason, deleted_at, created_at)
+  SELECT id, user_id, customer_id, customer_name, date, total_amount, amount_paid, status, delivered_at, COALESCE(shortfall, '[]'::jsonb), skip_reason, deleted_at, created_at
+  FROM jsonb_populate_record(NULL::public.daily_orders, p_order)
+  ON CONFLICT (id) DO NOTHING;
+
+  -- A replayed save finds the order already there, with its items.
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.insert_order_items(v_order_id, p_items);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = 'public';
+
+CREATE OR REPLACE FUNCTION public.replace_order_items(p_order_id UUID, p_items JSONB)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.order_items WHERE order_id = p_order_id;
+  PERFORM public.insert_order_items(p_order_id, p_items);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = 'public';
+
+GRANT EXECUTE ON FUNCTION public.save_order(JSONB, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_order_items(UUID, JSONB) TO authenticated;
+COMMENT ON FUNCTION public.save_order(JSONB, JSONB) IS 'Inserts an order and its items in one transaction. Does nothing if the order exists.';
+COMMENT ON FUNCTION public.replace_order_items(UUID, JSONB) IS 'Replaces an order''s items in one transaction.';
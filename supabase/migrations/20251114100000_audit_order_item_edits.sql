@@ -0,0 +1,73 @@
+/*
+# [Operation Name]
+Record Order Item Edits in the Audit Log
+
+[Description of what this operation does]
+An order's snapshots in the audit log carry its items, read from `order_items` when the `daily_orders` trigger fires. The app saves an edited order in two calls: the order's columns, then `replace_order_items`. The order's UPDATE is logged before the items change, so its snapshot still shows the old items, and an edit that only changed items wrote no entry at all. History could not show item edits, and they could not be restored.
+
+`replace_order_items` now writes the entry itself, after the items are replaced. It logs an 'update' of the order whose old snapshot has the items before the call and whose new snapshot has the items after it. Replacing items with the same list logs nothing, like any other update that changes nothing.
+
+The audit log can't be written by callers, so the function now runs as its owner. It checks that the caller is a member of the order's organization, which is what the `order_items` policies allow.
+
+## Query Description:
+This operation replaces one function. No existing data is changed or removed.
+
+## Metadata:
+- Schema-Category: "Structural"
+- Impact-Level: "Low"
+- Requires-Backup: false
+- Reversible: true
+
+## Structure Details:
+- Functions replaced: `public.replace_order_items(UUID, JSONB)`
+
+## Security Implications:
+- RLS Status: Unchanged
+- Policy Changes: No
+- Auth Requirements: SECURITY DEFINER. Raises an error unless the caller is a member of the order's organization.
+
+## Performance Impact:
+- Indexes: None
+- Triggers: None
+- Estimated Impact: Low. An item edit adds one audit insert.
+*/
+
+CREATE OR REPLACE FUNCTION public.replace_order_items(p_order_id UUID, p_items JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_order public.daily_orders%ROWTYPE;
+  v_old_items JSONB;
+  v_new_items JSONB;
+BEGIN
+  SELECT * INTO v_order FROM public.daily_orders WHERE id = p_order_id;
+
+  IF NOT FOUND OR NOT public.has_org_role(v_order.organization_id) THEN
+    RAISE EXCEPTION 'Order not found.' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_old_items := public.get_order_items_json(p_order_id);
+  DELETE FROM public.order_items WHERE order_id = p_order_id;
+  PERFORM public.insert_order_items(p_order_id, p_items);
+  v_new_items := public.get_order_items_json(p_order_id);
+
+  -- Replayed offline writes often change nothing; they would only clutter the history.
+  IF v_old_items = v_new_items THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.audit_log (organization_id, table_name, record_id, customer_id, action, actor_id, actor_email, old_data, new_data)
+  VALUES (
+    v_order.organization_id,
+    'daily_orders',
+    v_order.id,
+    v_order.customer_id,
+    'update',
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    to_jsonb(v_order) || jsonb_build_object('items', v_old_items),
+    to_jsonb(v_order) || jsonb_build_object('items', v_new_items)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+COMMENT ON FUNCTION public.replace_order_items(UUID, JSONB) IS 'Replaces an order''s items in one transaction and records the change in the audit log.';